@@ -10,6 +10,7 @@ import RecipesPage from './pages/RecipesPage';
 import PlanPage from './pages/PlanPage';
 import RecipeDetailPage from './pages/RecipeDetailPage';
 import FridgePage from './pages/FridgePage';
+import ShoppingListPage from './pages/ShoppingListPage';
 
 // Context provider imports - These provide data and functions to all components
 import { PlanProvider } from './context/PlanContext';
@@ -81,6 +82,13 @@ const AppContent: React.FC = () => {
             </ProtectedRoute>
           } />
 
+          {/* Shopping list route - built from the meal plan, accessible without authentication */}
+          <Route path="/plan/shopping-list" element={
+            <ProtectedRoute requireAuth={false}>
+              <ShoppingListPage />
+            </ProtectedRoute>
+          } />
+
           {/* Fridge management route - for managing ingredients */}
           <Route path="/fridge" element={<FridgePage />} />
         </Routes>
@@ -2,12 +2,13 @@
 // This component contains the logo, navigation menu, and authentication controls
 // It handles navigation between different pages and shows user authentication state
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import styles from './Header.module.css';
 import CravrPlanBowlLogo from '../assets/salad.png';
 import { useAuth } from '../context/AuthContext';
 import { useGuest } from '../context/GuestContext';
+import { syncQueueService } from '../services/syncQueueService';
 
 /**
  * Header Component
@@ -22,6 +23,7 @@ import { useGuest } from '../context/GuestContext';
  * - User authentication status display
  * - Login/logout functionality
  * - Guest mode support
+ * - Pending sync indicator for changes not yet saved to the cloud
  */
 const Header: React.FC = () => {
   // ===== HOOKS AND CONTEXT =====
@@ -31,6 +33,15 @@ const Header: React.FC = () => {
   const { user, isAuthenticated, logout } = useAuth();  // Authentication context - user data and login/logout functions
   const { isGuestMode, clearGuestData } = useGuest();   // Guest mode context - for users who don't want to create accounts
 
+  // ===== STATE MANAGEMENT =====
+
+  const [syncStatus, setSyncStatus] = useState(syncQueueService.getStatus());  // Changes waiting to be saved to Firestore
+
+  /**
+   * Follow the sync queue so the indicator updates as changes are saved
+   */
+  useEffect(() => syncQueueService.subscribe(setSyncStatus), []);
+
   // ===== EVENT HANDLERS =====
 
   /**
@@ -80,6 +91,19 @@ const Header: React.FC = () => {
   // This allows us to apply different styles when user is on the meal plan page
   const isPlanPage = location.pathname === '/plan';
 
+  // Label for the sync indicator - only shown while there is something to sync
+  const pendingChanges = `${syncStatus.pendingCount} CHANGE${syncStatus.pendingCount === 1 ? '' : 'S'}`;
+  const syncLabel = syncStatus.pendingCount === 0
+    ? ''
+    : !syncStatus.isOnline
+      ? `OFFLINE · ${pendingChanges} PENDING`
+      : syncStatus.isSyncing
+        ? `SYNCING ${pendingChanges}...`
+        : `${pendingChanges} PENDING SYNC`;
+
+  // Label for changes that were given up on - shown until the user dismisses it
+  const failedLabel = `${syncStatus.failedCount} CHANGE${syncStatus.failedCount === 1 ? '' : 'S'} NOT SAVED`;
+
   // ===== RENDER =====
 
   return (
@@ -123,6 +147,25 @@ const Header: React.FC = () => {
 
         {/* Authentication Section - Shows user status and login/logout buttons */}
         <div className={styles.authLinks}>
+          {/* Sync Indicator - Shows changes made offline that aren't saved to the cloud yet */}
+          {isAuthenticated && syncLabel && (
+            <span
+              className={`${styles.syncIndicator} ${!syncStatus.isOnline ? styles.offline : ''}`}
+              title="These changes are saved on this device and will be synced when you're back online"
+            >
+              {syncLabel}
+            </span>
+          )}
+          {isAuthenticated && syncStatus.failedCount > 0 && (
+            <button
+              className={`${styles.syncIndicator} ${styles.failed}`}
+              onClick={() => syncQueueService.dismissFailed()}
+              title="These changes couldn't be saved to the cloud and were discarded. Click to dismiss"
+            >
+              {failedLabel} ✕
+            </button>
+          )}
+
           {/* User Profile Display - Shows if user is logged in or in guest mode */}
           <div className={styles.userProfile}>
             {isAuthenticated && user ? (
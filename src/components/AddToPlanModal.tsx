@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { usePlan } from '../context/PlanContext';
-import type { PlanEvent } from '../context/PlanContextTypes';
+import type { PlanEvent, RecurrenceRule } from '../context/PlanContextTypes';
+import type { Nutrition } from '../types/recipeTypes';
+import { getRecipeNutrition } from '../utils/nutritionEstimator';
+import { getRecipeCost } from '../utils/budget';
+import { getDefaultSlotId, getEventSlotId } from '../utils/mealSlots';
+import { isMealAlreadyPlanned } from '../utils/planTemplates';
 import styles from './AddToPlanModal.module.css';
 import SafeImage from './SafeImage';
 import ConfirmationModal from './ConfirmationModal';
+import RecurrenceEditor from './RecurrenceEditor';
 
 interface AddToPlanModalProps {
   isOpen: boolean;
@@ -14,21 +20,32 @@ interface AddToPlanModalProps {
     image: string;
     readyInMinutes?: number;
     servings?: number;
+    nutrition?: Nutrition;  // Spoonacular nutrition data, used for the meal's nutrition when present
+    pricePerServing?: number;  // Price per serving in US cents, used for the meal's cost when present
+    cheap?: boolean;
   };
   // Optional swap mode: when provided, we will update an existing plan event
   swapFor?: {
     eventId: string;
     date: string;
     mealType: PlanEvent['mealType'];
+    slot?: string;
   };
   // Optional selected date from URL parameters
   selectedDate?: string;
+  // Optional meal slot from URL parameters, e.g. when adding from the day view's lunch slot
+  selectedSlot?: string;
 }
 
-const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe, swapFor, selectedDate: propSelectedDate }) => {
-  const { addToPlan, events, updateEvent } = usePlan();
+const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe, swapFor, selectedDate: propSelectedDate, selectedSlot: propSelectedSlot }) => {
+  const { addToPlan, updateEvent, getEventsForDate, plans, activePlan, mealSlots } = usePlan();
   const [selectedDate, setSelectedDate] = useState('');
+  const [selectedPlanId, setSelectedPlanId] = useState(activePlan.id);
   const [selectedMealType, setSelectedMealType] = useState<'main course' | 'breakfast' | 'side dish' | 'dessert' | 'snack'>('main course');
+  const [selectedSlot, setSelectedSlot] = useState('');
+  const [isSlotPicked, setIsSlotPicked] = useState(false);  // Once a slot is picked, changing the meal type keeps it
+  const [mealGroupId, setMealGroupId] = useState('');       // Main dish this one is served with, '' for a meal of its own
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined);
   const [isAdding, setIsAdding] = useState(false);
   const [showErrorModal, setShowErrorModal] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
@@ -39,30 +56,75 @@ const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe
   useEffect(() => {
     if (!isOpen) return;
 
+    setRecurrence(undefined);
+    setMealGroupId('');
+    setSelectedPlanId(activePlan.id);
     if (swapFor) {
       // Prefill once when opening in swap mode
       setSelectedDate(swapFor.date);
       setSelectedMealType(swapFor.mealType);
-    } else if (propSelectedDate && propSelectedDate.trim() !== '') {
+      setSelectedSlot(getEventSlotId(swapFor, mealSlots));
+      setIsSlotPicked(true);
+      return;
+    }
+
+    if (propSelectedDate && propSelectedDate.trim() !== '') {
       // Use the selected date from URL parameters
       setSelectedDate(propSelectedDate);
-      setSelectedMealType('main course');
     } else {
       // Prefill defaults once when opening normally
       const today = new Date().toISOString().split('T')[0];
       setSelectedDate(today);
-      setSelectedMealType('main course');
     }
+    setSelectedMealType('main course');
+    // Use the slot from URL parameters when the user still has it
+    const hasSlot = !!propSelectedSlot && mealSlots.some(slot => slot.id === propSelectedSlot);
+    setSelectedSlot(hasSlot ? propSelectedSlot : getDefaultSlotId('main course', mealSlots));
+    setIsSlotPicked(hasSlot);
     // only when modal opens or swap target changes
-  }, [isOpen, swapFor, propSelectedDate]);
+  }, [isOpen, swapFor, propSelectedDate, propSelectedSlot, activePlan.id, mealSlots]);
+
+  // Plans the recipe can be added to
+  const openPlans = plans.filter(plan => !plan.archived);
+
+  // Only the active plan's meals are loaded, so other plans aren't checked
+  const slotEvents = selectedPlanId === activePlan.id
+    ? getEventsForDate(selectedDate).filter(event => getEventSlotId(event, mealSlots) === selectedSlot)
+    : [];
 
-  // Check if recipe is already planned for the selected date and meal type
-  const isAlreadyPlanned = events.some(event =>
-    event.recipeId === recipe.id &&
-    event.date === selectedDate &&
-    event.mealType === selectedMealType
+  // Check if recipe is already planned for the selected date, slot and meal type
+  const isAlreadyPlanned = isMealAlreadyPlanned(
+    slotEvents,
+    { recipeId: recipe.id, date: selectedDate, mealType: selectedMealType, slot: selectedSlot },
+    mealSlots
   );
 
+  // Meals in the selected slot this dish can be served with, e.g. a main for a side dish
+  // Recurring meals and dishes already served with another meal can't be grouped with
+  const groupableMeals = swapFor || recurrence ? [] : slotEvents.filter(event =>
+    !event.seriesId && !event.recurrence && !event.mealGroupId && !event.leftoverOf
+  );
+  const servedWithId = groupableMeals.some(event => event.id === mealGroupId) ? mealGroupId : '';
+  const selectedSlotInfo = mealSlots.find(slot => slot.id === selectedSlot);
+
+  /**
+   * Pick a meal type, moving the meal to the type's usual slot until a slot is picked
+   */
+  const handleSelectMealType = (mealType: PlanEvent['mealType']) => {
+    setSelectedMealType(mealType);
+    if (!isSlotPicked) {
+      setSelectedSlot(getDefaultSlotId(mealType, mealSlots));
+    }
+  };
+
+  /**
+   * Pick the slot the meal is eaten at
+   */
+  const handleSelectSlot = (slotId: string) => {
+    setSelectedSlot(slotId);
+    setIsSlotPicked(true);
+  };
+
   const handleAddToPlan = async () => {
     if (!selectedDate) {
       setErrorMessage('Please select a date');
@@ -71,7 +133,7 @@ const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe
     }
 
     if (isAlreadyPlanned && !swapFor) {
-      setErrorMessage('This recipe is already planned for this date and meal type');
+      setErrorMessage('This recipe is already planned for this date, slot and meal type');
       setShowErrorModal(true);
       return;
     }
@@ -80,7 +142,8 @@ const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe
     try {
       if (swapFor) {
         // Update the target event with new recipe info and any changed date/meal type
-        const base = events.find(e => e.id === swapFor.eventId)!;
+        // Look the event up by date so single occurrences of recurring meals are found too
+        const base = getEventsForDate(swapFor.date).find(e => e.id === swapFor.eventId)!;
         const updated: PlanEvent = {
           ...base,
           title: recipe.title,
@@ -88,7 +151,20 @@ const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe
           image: recipe.image,
           date: selectedDate,
           mealType: selectedMealType,
+          slot: selectedSlot,
+          nutrition: getRecipeNutrition(recipe, selectedMealType),
         };
+        // A dish moved to another day or slot is no longer served with its meal
+        if (updated.mealGroupId && (selectedDate !== base.date || selectedSlot !== getEventSlotId(base, mealSlots))) {
+          delete updated.mealGroupId;
+        }
+        // The new recipe's price replaces the old one (Firestore rejects undefined fields)
+        const cost = getRecipeCost(recipe);
+        if (cost) {
+          updated.cost = cost;
+        } else {
+          delete updated.cost;
+        }
         updateEvent(swapFor.eventId, updated);
         // Stop loading and close modal
         setIsAdding(false);
@@ -99,8 +175,22 @@ const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe
           date: selectedDate,
           recipeId: recipe.id,
           mealType: selectedMealType,
+          slot: selectedSlot,
           image: recipe.image,
+          nutrition: getRecipeNutrition(recipe, selectedMealType),
+          planId: selectedPlanId,
         };
+        if (servedWithId) {
+          newEvent.mealGroupId = servedWithId;
+        }
+        const cost = getRecipeCost(recipe);
+        if (cost) {
+          newEvent.cost = cost;
+        }
+        // Only set the rule when the meal repeats (Firestore rejects undefined fields)
+        if (recurrence) {
+          newEvent.recurrence = recurrence;
+        }
         addToPlan(newEvent);
         // Stop loading and close modal
         setIsAdding(false);
@@ -186,6 +276,25 @@ const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe
           </div>
 
           <div className={styles.formContent}>
+            {/* Plan Selection - only when there is more than one plan to choose from */}
+            {!swapFor && openPlans.length > 1 && (
+              <div className={styles.formGroup}>
+                <label htmlFor="plan" className={styles.formLabel}>
+                  🗂️ Select Plan
+                </label>
+                <select
+                  id="plan"
+                  value={selectedPlanId}
+                  onChange={(e) => setSelectedPlanId(e.target.value)}
+                  className={styles.planSelect}
+                >
+                  {openPlans.map(plan => (
+                    <option key={plan.id} value={plan.id}>{plan.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Date Selection */}
             <div className={styles.formGroup}>
               <label htmlFor="date" className={styles.formLabel}>
@@ -218,7 +327,7 @@ const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe
                     type="button"
                     className={`${styles.mealTypeOption} ${selectedMealType === mealType ? styles.selected : ''
                       }`}
-                    onClick={() => setSelectedMealType(mealType)}
+                    onClick={() => handleSelectMealType(mealType)}
                   >
                     <span className={styles.mealTypeIcon}>
                       {getMealTypeIcon(mealType)}
@@ -231,10 +340,65 @@ const AddToPlanModal: React.FC<AddToPlanModalProps> = ({ isOpen, onClose, recipe
               </div>
             </div>
 
+            {/* Slot Selection */}
+            <div className={styles.formGroup}>
+              <label className={styles.formLabel}>
+                🕒 Select Meal Slot
+              </label>
+              <div className={styles.mealTypeOptions}>
+                {mealSlots.map((slot) => (
+                  <button
+                    key={slot.id}
+                    type="button"
+                    className={`${styles.mealTypeOption} ${selectedSlot === slot.id ? styles.selected : ''
+                      }`}
+                    onClick={() => handleSelectSlot(slot.id)}
+                  >
+                    <span className={styles.mealTypeIcon}>{slot.icon}</span>
+                    <span className={styles.mealTypeText}>{slot.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Meal Group Selection - only when there is a meal in the slot to serve it with */}
+            {groupableMeals.length > 0 && (
+              <div className={styles.formGroup}>
+                <label htmlFor="mealGroup" className={styles.formLabel}>
+                  🍱 Serve With
+                </label>
+                <select
+                  id="mealGroup"
+                  value={servedWithId}
+                  onChange={(e) => setMealGroupId(e.target.value)}
+                  className={styles.planSelect}
+                >
+                  <option value="">Nothing - a meal of its own</option>
+                  {groupableMeals.map(event => (
+                    <option key={event.id} value={event.id}>{event.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Repeat Selection */}
+            {!swapFor && (
+              <div className={styles.formGroup}>
+                <label className={styles.formLabel}>
+                  🔁 Repeat
+                </label>
+                <RecurrenceEditor
+                  value={recurrence}
+                  onChange={setRecurrence}
+                  startDate={selectedDate}
+                />
+              </div>
+            )}
+
             {/* Conflict Warning */}
             {isAlreadyPlanned && (
               <div className={styles.conflictWarning}>
-                ⚠️ This recipe is already planned for {formatDate(selectedDate)} ({selectedMealType})
+                ⚠️ This recipe is already planned for {formatDate(selectedDate)} ({selectedSlotInfo ? `${selectedSlotInfo.label}, ` : ''}{selectedMealType})
               </div>
             )}
 
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { usePlan } from '../context/PlanContext';
+import styles from './BudgetSummary.module.css';
+import { getWeekRange } from '../utils/dateUtils';
+import { BUDGET_WARNING_SHARE, formatCost } from '../utils/budget';
+import { getGoalPercentage } from '../utils/nutritionGoals';
+
+// ===== BUDGET SUMMARY COMPONENT =====
+
+/**
+ * BudgetSummary Component
+ *
+ * Shows the estimated cost of the meals planned for a day and for its week, compared
+ * against the user's weekly budget, and lets the user set or clear that budget.
+ */
+interface BudgetSummaryProps {
+  date: string;                    // Date to show costs for (YYYY-MM-DD format)
+  className?: string;              // Optional CSS class for styling
+}
+
+const BudgetSummary: React.FC<BudgetSummaryProps> = ({ date, className }) => {
+  const { getCostTotals, weeklyBudget, updateWeeklyBudget } = usePlan();
+
+  const [isEditing, setIsEditing] = useState(false);       // Whether the budget editor is open
+  const [budgetInput, setBudgetInput] = useState('');      // Budget being entered, in US dollars
+
+  // ===== COMPUTED VALUES =====
+
+  const week = getWeekRange(date);
+  const dayTotals = getCostTotals(date, date);
+  const weekTotals = getCostTotals(week.startDate, week.endDate);
+  const budgetPercentage = weeklyBudget ? getGoalPercentage(weekTotals.total, weeklyBudget) : 0;
+  const isOverBudget = !!weeklyBudget && weekTotals.total > weeklyBudget;
+  const isNearBudget = !!weeklyBudget && !isOverBudget && weekTotals.total >= weeklyBudget * BUDGET_WARNING_SHARE;
+  const parsedBudget = Number(budgetInput);
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Open the budget editor with the current budget filled in
+   */
+  const handleStartEditing = () => {
+    setBudgetInput(weeklyBudget ? (weeklyBudget / 100).toString() : '');
+    setIsEditing(true);
+  };
+
+  /**
+   * Save the entered budget, converting dollars to cents
+   */
+  const handleSaveBudget = async () => {
+    if (!(parsedBudget > 0)) return;
+
+    await updateWeeklyBudget(Math.round(parsedBudget * 100));
+    setIsEditing(false);
+  };
+
+  /**
+   * Stop tracking a budget
+   */
+  const handleClearBudget = async () => {
+    await updateWeeklyBudget(null);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className={`${styles.budgetSummary} ${className || ''}`}>
+      <h3 className={styles.budgetTitle}>💰 Meal Budget</h3>
+
+      <div className={styles.costRow}>
+        <div className={styles.costItem}>
+          <span className={styles.costLabel}>This Day</span>
+          <span className={styles.costValue}>{formatCost(dayTotals.total)}</span>
+        </div>
+        <div className={styles.costItem}>
+          <span className={styles.costLabel}>This Week</span>
+          <span className={styles.costValue}>{formatCost(weekTotals.total)}</span>
+        </div>
+        {weeklyBudget && (
+          <div className={styles.costItem}>
+            <span className={styles.costLabel}>{isOverBudget ? 'Over By' : 'Left'}</span>
+            <span className={`${styles.costValue} ${isOverBudget ? styles.overBudget : ''}`}>
+              {formatCost(Math.abs(weeklyBudget - weekTotals.total))}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {weeklyBudget && (
+        <>
+          <div className={styles.progressContainer}>
+            <div
+              className={`${styles.progressBar} ${isOverBudget ? styles.progressOver : isNearBudget ? styles.progressNear : ''}`}
+              style={{ width: `${budgetPercentage}%` }}
+            />
+          </div>
+          {isOverBudget && (
+            <p className={styles.budgetWarning} role="alert">
+              This week's meals are over your {formatCost(weeklyBudget)} budget. Open a meal to look for a cheaper alternative.
+            </p>
+          )}
+          {isNearBudget && (
+            <p className={styles.budgetHint}>This week's meals have used most of your {formatCost(weeklyBudget)} budget.</p>
+          )}
+        </>
+      )}
+
+      {weekTotals.unpricedMeals > 0 && (
+        <p className={styles.budgetHint}>
+          {weekTotals.unpricedMeals} meal{weekTotals.unpricedMeals === 1 ? '' : 's'} this week without a price estimate {weekTotals.unpricedMeals === 1 ? 'is' : 'are'} not counted.
+        </p>
+      )}
+
+      {isEditing ? (
+        <div className={styles.budgetEditor}>
+          <label htmlFor="weeklyBudget" className={styles.costLabel}>Weekly budget ($)</label>
+          <input
+            id="weeklyBudget"
+            type="number"
+            min="1"
+            step="1"
+            value={budgetInput}
+            onChange={(e) => setBudgetInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveBudget()}
+            className={styles.budgetInput}
+            autoFocus
+          />
+          <button className={styles.budgetButton} onClick={handleSaveBudget} disabled={!(parsedBudget > 0)}>
+            Save
+          </button>
+          {weeklyBudget && (
+            <button className={styles.budgetButton} onClick={handleClearBudget}>
+              Clear
+            </button>
+          )}
+          <button className={styles.budgetButton} onClick={() => setIsEditing(false)}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button className={styles.budgetButton} onClick={handleStartEditing}>
+          {weeklyBudget ? `Weekly budget: ${formatCost(weeklyBudget)}` : 'Set a weekly budget'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BudgetSummary;
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import styles from './CalendarSyncModal.module.css';
+import { usePlan } from '../context/PlanContext';
+import type { PlanEvent } from '../context/PlanContextTypes';
+import { addDays, getWeekRange, toDateString } from '../utils/dateUtils';
+import { createICalendar, isCustomRecipeId, parseICalendar } from '../utils/icalendar';
+
+// Props interface for the CalendarSyncModal component
+interface CalendarSyncModalProps {
+  isOpen: boolean;           // Controls whether the modal is visible
+  onClose: () => void;       // Function to close the modal
+}
+
+/**
+ * CalendarSyncModal Component
+ *
+ * Exports the meals in a date range as an .ics file that calendar apps
+ * (Google Calendar, Apple Calendar, Outlook) can open, and imports .ics
+ * files back into the plan.
+ */
+const CalendarSyncModal: React.FC<CalendarSyncModalProps> = ({ isOpen, onClose }) => {
+  // ===== HOOKS AND CONTEXT =====
+
+  const { getEventsInRange, importEvents } = usePlan();
+
+  // ===== STATE MANAGEMENT =====
+
+  const thisWeek = getWeekRange(toDateString(new Date()));
+
+  const [rangeStart, setRangeStart] = useState(thisWeek.startDate);                // First date to export
+  const [rangeEnd, setRangeEnd] = useState(addDays(thisWeek.endDate, 7));         // Last date to export
+  const [importedMeals, setImportedMeals] = useState<Omit<PlanEvent, 'id'>[]>([]);  // Meals read from the chosen file
+  const [importFileName, setImportFileName] = useState('');                        // Name of the chosen file
+  const [statusMessage, setStatusMessage] = useState('');                          // Result of the last action
+  const [isWorking, setIsWorking] = useState(false);                               // Disable buttons while importing
+
+  /**
+   * Reset the form each time the modal opens
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const week = getWeekRange(toDateString(new Date()));
+    setRangeStart(week.startDate);
+    setRangeEnd(addDays(week.endDate, 7));
+    setImportedMeals([]);
+    setImportFileName('');
+    setStatusMessage('');
+  }, [isOpen]);
+
+  // Don't render anything if modal is not open
+  if (!isOpen) return null;
+
+  // ===== COMPUTED VALUES =====
+
+  const isRangeValid = !!rangeStart && !!rangeEnd && rangeStart <= rangeEnd;
+  const mealsToExport = isRangeValid ? getEventsInRange(rangeStart, rangeEnd) : [];
+  const recipeMealCount = importedMeals.filter(meal => !isCustomRecipeId(meal.recipeId)).length;
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Download the meals in the selected range as an .ics file
+   */
+  const handleExport = () => {
+    const calendar = createICalendar(mealsToExport, window.location.origin);
+    const blob = new Blob([calendar], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `meal-plan-${rangeStart}-to-${rangeEnd}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    setStatusMessage(`Exported ${mealsToExport.length} meal${mealsToExport.length === 1 ? '' : 's'}.`);
+  };
+
+  /**
+   * Read the chosen .ics file and show what it contains
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { meals, skipped } = parseICalendar(await file.text());
+      setImportedMeals(meals);
+      setImportFileName(file.name);
+      setStatusMessage(meals.length === 0
+        ? 'No meals found in this file.'
+        : skipped > 0
+          ? `${skipped} event${skipped === 1 ? '' : 's'} without a date or title will be skipped.`
+          : '');
+    } catch (error) {
+      console.error('Error reading calendar file:', error);
+      setImportedMeals([]);
+      setStatusMessage('This file could not be read. Please choose an .ics calendar file.');
+    }
+  };
+
+  /**
+   * Add the meals from the chosen file to the plan
+   */
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const added = await importEvents(importedMeals);
+      setStatusMessage(added > 0
+        ? `Imported ${added} meal${added === 1 ? '' : 's'} from ${importFileName}.`
+        : 'Nothing new to import: those meals are already planned.');
+      setImportedMeals([]);
+      setImportFileName('');
+    } catch (error) {
+      console.error('Error importing calendar file:', error);
+      setStatusMessage('Something went wrong. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  /**
+   * Handles clicking on the backdrop to close the modal
+   * Only closes if clicking on the backdrop itself, not the modal content
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  // ===== RENDER =====
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick}>
+      <div className={styles.modalContent}>
+        <div className={styles.modalHeader}>
+          <h3>Calendar Export &amp; Import</h3>
+          <button className={styles.closeButton} onClick={onClose}>×</button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {statusMessage && <p className={styles.statusMessage}>{statusMessage}</p>}
+
+          {/* Export */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>📤 Export to Your Calendar</h4>
+            <div className={styles.formRow}>
+              <label className={styles.dateField}>
+                From
+                <input
+                  type="date"
+                  value={rangeStart}
+                  onChange={(e) => setRangeStart(e.target.value)}
+                  className={styles.dateInput}
+                />
+              </label>
+              <label className={styles.dateField}>
+                To
+                <input
+                  type="date"
+                  value={rangeEnd}
+                  onChange={(e) => setRangeEnd(e.target.value)}
+                  className={styles.dateInput}
+                />
+              </label>
+            </div>
+            <p className={styles.sectionHint}>
+              {isRangeValid
+                ? `${mealsToExport.length} meal${mealsToExport.length === 1 ? '' : 's'} in this range. Breakfast is set for 8:00, snacks for 15:00, dinner for 18:30 and desserts for 20:00.`
+                : 'The start date must be on or before the end date.'}
+            </p>
+            <button
+              className={styles.primaryButton}
+              onClick={handleExport}
+              disabled={!isRangeValid || mealsToExport.length === 0}
+            >
+              Download .ics File
+            </button>
+          </section>
+
+          {/* Import */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>📥 Import from a Calendar File</h4>
+            <p className={styles.sectionHint}>
+              Events linking to a recipe in this app are added as that recipe; anything else becomes a custom meal.
+            </p>
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleFileChange}
+              className={styles.fileInput}
+            />
+            {importedMeals.length > 0 && (
+              <>
+                <p className={styles.sectionHint}>
+                  Found {importedMeals.length} meal{importedMeals.length === 1 ? '' : 's'} in {importFileName}
+                  {' '}({recipeMealCount} recipe{recipeMealCount === 1 ? '' : 's'}, {importedMeals.length - recipeMealCount} custom).
+                </p>
+                <button
+                  className={styles.primaryButton}
+                  onClick={handleImport}
+                  disabled={isWorking}
+                >
+                  {isWorking ? 'Importing...' : `Import ${importedMeals.length} Meal${importedMeals.length === 1 ? '' : 's'}`}
+                </button>
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSyncModal;
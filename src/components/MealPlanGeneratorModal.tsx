@@ -0,0 +1,346 @@
+import React, { useState, useEffect } from 'react';
+import styles from './MealPlanGeneratorModal.module.css';
+import { usePlan } from '../context/PlanContext';
+import { useAuth } from '../context/AuthContext';
+import type { PlanEvent } from '../context/PlanContextTypes';
+import { firestoreService } from '../services/firestoreService';
+import { mealPlanGeneratorService, type GeneratedPlan } from '../services/mealPlanGeneratorService';
+import type { UserPreferences } from '../utils/preferenceMapper';
+import { addDays, getWeekRange, parseDateString, toDateString } from '../utils/dateUtils';
+import { LoadingSpinner } from './LoadingStates';
+
+// Props interface for the MealPlanGeneratorModal component
+interface MealPlanGeneratorModalProps {
+  isOpen: boolean;           // Controls whether the modal is visible
+  onClose: () => void;       // Function to close the modal
+}
+
+// Number of days the generator fills
+const PLAN_DAYS = 7;
+
+// Meal slots the user can choose to fill, in display order
+const MEAL_SLOTS: PlanEvent['mealType'][] = ['breakfast', 'main course', 'side dish', 'dessert', 'snack'];
+
+// Options for the weekday cooking time limit (0 = no limit)
+const WEEKDAY_TIME_OPTIONS = [0, 15, 30, 45, 60];
+
+/**
+ * MealPlanGeneratorModal Component
+ *
+ * Fills an empty week automatically. Users choose which meal slots to fill,
+ * a daily calorie and macro target, how long to wait before repeating a recipe
+ * and how long weekday meals may take. The generated week is shown as a
+ * preview and only added to the plan once the user confirms it.
+ */
+const MealPlanGeneratorModal: React.FC<MealPlanGeneratorModalProps> = ({ isOpen, onClose }) => {
+  // ===== HOOKS AND CONTEXT =====
+
+  const { addToPlan, getEventsInRange, nutritionGoals } = usePlan();
+  const { user, isAuthenticated } = useAuth();
+
+  // ===== STATE MANAGEMENT =====
+
+  const nextWeekStart = addDays(getWeekRange(toDateString(new Date())).startDate, 7);
+
+  const [startDate, setStartDate] = useState(nextWeekStart);                       // First day to fill
+  const [slots, setSlots] = useState<PlanEvent['mealType'][]>(['breakfast', 'main course']);  // Slots to fill each day
+  const [calories, setCalories] = useState(nutritionGoals.calories);               // Daily calorie target
+  const [protein, setProtein] = useState(nutritionGoals.protein);                  // Daily protein target (g)
+  const [carbs, setCarbs] = useState(nutritionGoals.carbs);                        // Daily carbs target (g)
+  const [fat, setFat] = useState(nutritionGoals.fat);                              // Daily fat target (g)
+  const [noRepeatDays, setNoRepeatDays] = useState(3);                             // Days before a recipe may repeat
+  const [weekdayMaxMinutes, setWeekdayMaxMinutes] = useState(30);                  // Weekday cooking time limit
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);    // Saved onboarding preferences
+  const [usePreferences, setUsePreferences] = useState(true);                      // Apply saved preferences
+  const [preview, setPreview] = useState<GeneratedPlan | null>(null);              // Generated plan waiting for confirmation
+  const [isGenerating, setIsGenerating] = useState(false);                         // Loading state while recipes are searched
+  const [isCommitting, setIsCommitting] = useState(false);                         // Loading state while meals are added
+
+  /**
+   * Start from the user's nutrition goals each time the modal opens
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setCalories(nutritionGoals.calories);
+    setProtein(nutritionGoals.protein);
+    setCarbs(nutritionGoals.carbs);
+    setFat(nutritionGoals.fat);
+  }, [isOpen, nutritionGoals]);
+
+  /**
+   * Load the user's saved preferences when the modal opens
+   * Guests have no saved preferences, so the generator runs without them
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setPreview(null);
+
+    const loadPreferences = async () => {
+      if (isAuthenticated && user) {
+        try {
+          setPreferences(await firestoreService.getUserPreferences(user.id));
+        } catch (error) {
+          console.error('Error loading user preferences for the meal plan generator:', error);
+        }
+      } else {
+        setPreferences(null);
+      }
+    };
+
+    loadPreferences();
+  }, [isOpen, user, isAuthenticated]);
+
+  // Don't render anything if modal is not open
+  if (!isOpen) return null;
+
+  // ===== COMPUTED VALUES =====
+
+  const endDate = startDate ? addDays(startDate, PLAN_DAYS - 1) : '';
+  const planDates = startDate ? Array.from({ length: PLAN_DAYS }, (_, index) => addDays(startDate, index)) : [];
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Turn a meal slot on or off
+   */
+  const handleToggleSlot = (slot: PlanEvent['mealType']) => {
+    setSlots(prev => prev.includes(slot) ? prev.filter(s => s !== slot) : [...prev, slot]);
+    setPreview(null);
+  };
+
+  /**
+   * Generate a plan preview with the current settings
+   * Meals already planned in the week stay and are not replaced
+   */
+  const handleGenerate = async () => {
+    if (!startDate || slots.length === 0) return;
+
+    setIsGenerating(true);
+    try {
+      const plan = await mealPlanGeneratorService.generatePlan({
+        startDate,
+        days: PLAN_DAYS,
+        slots: MEAL_SLOTS.filter(slot => slots.includes(slot)),
+        preferences: usePreferences ? preferences : null,
+        target: { calories, protein, carbs, fat },
+        noRepeatDays,
+        weekdayMaxMinutes: weekdayMaxMinutes || undefined,
+        // Look back so the no-repeat rule also covers meals planned just before the week
+        existingEvents: getEventsInRange(addDays(startDate, -noRepeatDays), addDays(endDate, noRepeatDays))
+      });
+      setPreview(plan);
+    } catch (error) {
+      console.error('Error generating meal plan:', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  /**
+   * Add the previewed meals to the plan
+   */
+  const handleCommit = async () => {
+    if (!preview) return;
+
+    setIsCommitting(true);
+    try {
+      for (const meal of preview.meals) {
+        await addToPlan(meal);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error adding generated meals to the plan:', error);
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  /**
+   * Handles clicking on the backdrop to close the modal
+   * Only closes if clicking on the backdrop itself, not the modal content
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  /**
+   * Format a date as a short day label, e.g. "Mon, Oct 19"
+   */
+  const formatDay = (dateString: string) => parseDateString(dateString).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric'
+  });
+
+  // ===== RENDER =====
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick}>
+      <div className={styles.modalContent}>
+        <div className={styles.modalHeader}>
+          <h3>✨ Generate a Week</h3>
+          <button className={styles.closeButton} onClick={onClose}>×</button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {/* Settings */}
+          <section className={styles.section}>
+            <div className={styles.formRow}>
+              <label className={styles.field}>
+                Week starting
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => { setStartDate(e.target.value); setPreview(null); }}
+                  className={styles.input}
+                />
+              </label>
+              <label className={styles.field}>
+                No repeats within
+                <select
+                  value={noRepeatDays}
+                  onChange={(e) => setNoRepeatDays(Number(e.target.value))}
+                  className={styles.input}
+                >
+                  {[1, 2, 3, 5, 7].map(days => (
+                    <option key={days} value={days}>{days} day{days === 1 ? '' : 's'}</option>
+                  ))}
+                </select>
+              </label>
+              <label className={styles.field}>
+                Weekday cooking time
+                <select
+                  value={weekdayMaxMinutes}
+                  onChange={(e) => setWeekdayMaxMinutes(Number(e.target.value))}
+                  className={styles.input}
+                >
+                  {WEEKDAY_TIME_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes ? `Up to ${minutes} min` : 'No limit'}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className={styles.fieldLabel}>Meal slots</div>
+            <div className={styles.slotOptions}>
+              {MEAL_SLOTS.map(slot => (
+                <button
+                  key={slot}
+                  type="button"
+                  className={`${styles.slotOption} ${slots.includes(slot) ? styles.selected : ''}`}
+                  onClick={() => handleToggleSlot(slot)}
+                >
+                  {slot.charAt(0).toUpperCase() + slot.slice(1)}
+                </button>
+              ))}
+            </div>
+
+            <div className={styles.fieldLabel}>Daily target (from your nutrition goals)</div>
+            <div className={styles.formRow}>
+              <label className={styles.field}>
+                Calories
+                <input type="number" min="0" value={calories} onChange={(e) => setCalories(Number(e.target.value))} className={styles.input} />
+              </label>
+              <label className={styles.field}>
+                Protein (g)
+                <input type="number" min="0" value={protein} onChange={(e) => setProtein(Number(e.target.value))} className={styles.input} />
+              </label>
+              <label className={styles.field}>
+                Carbs (g)
+                <input type="number" min="0" value={carbs} onChange={(e) => setCarbs(Number(e.target.value))} className={styles.input} />
+              </label>
+              <label className={styles.field}>
+                Fat (g)
+                <input type="number" min="0" value={fat} onChange={(e) => setFat(Number(e.target.value))} className={styles.input} />
+              </label>
+            </div>
+
+            {preferences && (
+              <label className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={usePreferences}
+                  onChange={(e) => setUsePreferences(e.target.checked)}
+                />
+                Use my saved diet, cuisine and time preferences
+              </label>
+            )}
+
+            <button
+              className={styles.primaryButton}
+              onClick={handleGenerate}
+              disabled={isGenerating || isCommitting || !startDate || slots.length === 0 || !calories}
+            >
+              {preview ? 'Regenerate' : 'Generate Preview'}
+            </button>
+          </section>
+
+          {/* Preview */}
+          {isGenerating ? (
+            <div className={styles.loadingState}>
+              <LoadingSpinner size="medium" message="Picking recipes for your week..." />
+            </div>
+          ) : preview && (
+            <section className={styles.section}>
+              {preview.unfilledSlots.length > 0 && (
+                <p className={styles.warning}>
+                  No matching recipe for {preview.unfilledSlots.length} slot{preview.unfilledSlots.length === 1 ? '' : 's'}.
+                  Try a longer cooking time, fewer days without repeats or turning off your preferences.
+                </p>
+              )}
+
+              {preview.meals.length === 0 ? (
+                <p className={styles.hint}>Every chosen slot in this week is already planned.</p>
+              ) : (
+                <div className={styles.previewDays}>
+                  {planDates.map(date => {
+                    const dayMeals = preview.meals.filter(meal => meal.date === date);
+                    const totals = mealPlanGeneratorService.getDailyTotals(preview.meals, date);
+                    return (
+                      <div key={date} className={styles.previewDay}>
+                        <div className={styles.previewDayHeader}>
+                          <span>{formatDay(date)}</span>
+                          <span className={styles.previewTotals}>
+                            {dayMeals.length > 0 ? `${totals.calories} / ${calories} cal · ${totals.protein}g protein` : 'Nothing new'}
+                          </span>
+                        </div>
+                        {dayMeals.map(meal => (
+                          <div key={`${meal.date}-${meal.mealType}`} className={styles.previewMeal}>
+                            <span className={styles.previewMealType}>{meal.mealType}</span>
+                            <span className={styles.previewMealTitle}>{meal.title}</span>
+                            <span className={styles.previewMealMeta}>
+                              {(meal.prepTime || 0) + (meal.cookTime || 0)} min · {meal.nutrition?.calories} cal
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className={styles.actions}>
+                <button className={styles.secondaryButton} onClick={onClose} disabled={isCommitting}>
+                  Cancel
+                </button>
+                <button
+                  className={styles.primaryButton}
+                  onClick={handleCommit}
+                  disabled={isCommitting || preview.meals.length === 0}
+                >
+                  {isCommitting ? 'Adding...' : `Add ${preview.meals.length} Meal${preview.meals.length === 1 ? '' : 's'} to Plan`}
+                </button>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MealPlanGeneratorModal;
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import styles from './MealPlansModal.module.css';
+import { usePlan } from '../context/PlanContext';
+import type { PlanInfo } from '../context/PlanContextTypes';
+
+// Props interface for the MealPlansModal component
+interface MealPlansModalProps {
+  isOpen: boolean;           // Controls whether the modal is visible
+  onClose: () => void;       // Function to close the modal
+}
+
+/**
+ * MealPlansModal Component
+ *
+ * Lets users keep several named meal plans side by side (e.g. "Cutting phase"
+ * and "Family dinners"): create a plan, rename it, switch to it, or archive
+ * it to hide it from the plan switcher without losing its meals.
+ */
+const MealPlansModal: React.FC<MealPlansModalProps> = ({ isOpen, onClose }) => {
+  // ===== HOOKS AND CONTEXT =====
+
+  const { plans, activePlan, createPlan, renamePlan, setPlanArchived, switchPlan } = usePlan();
+
+  // ===== STATE MANAGEMENT =====
+
+  const [newPlanTitle, setNewPlanTitle] = useState('');                   // Name for a new plan
+  const [editingPlanId, setEditingPlanId] = useState<string | null>(null); // Plan being renamed
+  const [editingTitle, setEditingTitle] = useState('');                   // New name while renaming
+  const [statusMessage, setStatusMessage] = useState('');                 // Result of the last action
+
+  /**
+   * Reset the form each time the modal opens
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setNewPlanTitle('');
+    setEditingPlanId(null);
+    setEditingTitle('');
+    setStatusMessage('');
+  }, [isOpen]);
+
+  // Don't render anything if modal is not open
+  if (!isOpen) return null;
+
+  // ===== COMPUTED VALUES =====
+
+  const openPlans = plans.filter(plan => !plan.archived);
+  const archivedPlans = plans.filter(plan => plan.archived);
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Create a plan from the entered name and switch to it
+   */
+  const handleCreatePlan = async () => {
+    const title = newPlanTitle.trim();
+    if (!title) return;
+
+    await createPlan(title);
+    setNewPlanTitle('');
+    setStatusMessage(`Created "${title}". New meals are added to it.`);
+  };
+
+  /**
+   * Start renaming a plan
+   */
+  const handleStartRename = (plan: PlanInfo) => {
+    setEditingPlanId(plan.id);
+    setEditingTitle(plan.title);
+  };
+
+  /**
+   * Save the new name of the plan being renamed
+   */
+  const handleSaveRename = async () => {
+    if (!editingPlanId || !editingTitle.trim()) return;
+
+    await renamePlan(editingPlanId, editingTitle);
+    setEditingPlanId(null);
+    setEditingTitle('');
+  };
+
+  /**
+   * Switch to a plan and close the modal
+   */
+  const handleSwitchPlan = (planId: string) => {
+    switchPlan(planId);
+    onClose();
+  };
+
+  /**
+   * Archive a plan or bring it back
+   */
+  const handleToggleArchived = async (plan: PlanInfo) => {
+    await setPlanArchived(plan.id, !plan.archived);
+    setStatusMessage(plan.archived
+      ? `"${plan.title}" is back in your plans.`
+      : `Archived "${plan.title}". Its meals are kept and it can be restored at any time.`);
+  };
+
+  /**
+   * Handles clicking on the backdrop to close the modal
+   * Only closes if clicking on the backdrop itself, not the modal content
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  /**
+   * Render one plan with its actions
+   */
+  const renderPlan = (plan: PlanInfo) => (
+    <li key={plan.id} className={styles.planItem}>
+      {editingPlanId === plan.id ? (
+        <div className={styles.formRow}>
+          <input
+            type="text"
+            value={editingTitle}
+            onChange={(e) => setEditingTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveRename()}
+            className={styles.textInput}
+            autoFocus
+          />
+          <button className={styles.primaryButton} onClick={handleSaveRename} disabled={!editingTitle.trim()}>
+            Save
+          </button>
+          <button className={styles.secondaryButton} onClick={() => setEditingPlanId(null)}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className={styles.planInfo}>
+            <span className={styles.planName}>{plan.title}</span>
+            {plan.id === activePlan.id && <span className={styles.activeBadge}>Active</span>}
+          </div>
+          <div className={styles.planActions}>
+            {!plan.archived && plan.id !== activePlan.id && (
+              <button className={styles.primaryButton} onClick={() => handleSwitchPlan(plan.id)}>
+                Open
+              </button>
+            )}
+            <button className={styles.secondaryButton} onClick={() => handleStartRename(plan)}>
+              Rename
+            </button>
+            <button
+              className={styles.secondaryButton}
+              onClick={() => handleToggleArchived(plan)}
+              disabled={!plan.archived && openPlans.length === 1}
+              title={!plan.archived && openPlans.length === 1 ? 'You need at least one plan that is not archived' : undefined}
+            >
+              {plan.archived ? 'Restore' : 'Archive'}
+            </button>
+          </div>
+        </>
+      )}
+    </li>
+  );
+
+  // ===== RENDER =====
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick}>
+      <div className={styles.modalContent}>
+        <div className={styles.modalHeader}>
+          <h3>🗂️ My Meal Plans</h3>
+          <button className={styles.closeButton} onClick={onClose}>×</button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {statusMessage && <p className={styles.statusMessage}>{statusMessage}</p>}
+
+          {/* Create a plan */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>New Plan</h4>
+            <div className={styles.formRow}>
+              <input
+                type="text"
+                placeholder="Plan name, e.g. Cutting phase"
+                value={newPlanTitle}
+                onChange={(e) => setNewPlanTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreatePlan()}
+                className={styles.textInput}
+              />
+              <button className={styles.primaryButton} onClick={handleCreatePlan} disabled={!newPlanTitle.trim()}>
+                Create Plan
+              </button>
+            </div>
+          </section>
+
+          {/* Open plans */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>Plans</h4>
+            <ul className={styles.planList}>
+              {openPlans.map(renderPlan)}
+            </ul>
+          </section>
+
+          {/* Archived plans */}
+          {archivedPlans.length > 0 && (
+            <section className={styles.section}>
+              <h4 className={styles.sectionTitle}>Archived</h4>
+              <p className={styles.sectionHint}>Archived plans keep their meals but are hidden from the plan switcher.</p>
+              <ul className={styles.planList}>
+                {archivedPlans.map(renderPlan)}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MealPlansModal;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import styles from './MealSlotsModal.module.css';
+import { usePlan } from '../context/PlanContext';
+import type { MealSlot } from '../types/mealSlotTypes';
+import { DEFAULT_MEAL_SLOTS, DEFAULT_SLOT_ICON, MAX_MEAL_SLOTS, createSlotId } from '../utils/mealSlots';
+
+// Props interface for the MealSlotsModal component
+interface MealSlotsModalProps {
+  isOpen: boolean;           // Controls whether the modal is visible
+  onClose: () => void;       // Function to close the modal
+}
+
+/**
+ * MealSlotsModal Component
+ *
+ * Lets users set up the times of day they eat at (e.g. adding "Brunch" or removing
+ * "Snacks"): rename, reorder, add and remove slots. Changes are kept as a draft
+ * until saved; meals in a removed slot show in their meal type's slot instead.
+ */
+const MealSlotsModal: React.FC<MealSlotsModalProps> = ({ isOpen, onClose }) => {
+  // ===== HOOKS AND CONTEXT =====
+
+  const { mealSlots, updateMealSlots } = usePlan();
+
+  // ===== STATE MANAGEMENT =====
+
+  const [draftSlots, setDraftSlots] = useState<MealSlot[]>(mealSlots);   // Slots being edited
+  const [newSlotLabel, setNewSlotLabel] = useState('');                  // Name for a new slot
+  const [newSlotIcon, setNewSlotIcon] = useState('');                    // Icon for a new slot
+  const [isSaving, setIsSaving] = useState(false);                       // Saving the slots
+
+  /**
+   * Start from the saved slots each time the modal opens
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setDraftSlots(mealSlots);
+    setNewSlotLabel('');
+    setNewSlotIcon('');
+  }, [isOpen, mealSlots]);
+
+  // Don't render anything if modal is not open
+  if (!isOpen) return null;
+
+  // ===== COMPUTED VALUES =====
+
+  const hasEmptyLabel = draftSlots.some(slot => !slot.label.trim());
+  const canAddSlot = draftSlots.length < MAX_MEAL_SLOTS && !!newSlotLabel.trim();
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Change the label or icon of a slot
+   */
+  const handleChangeSlot = (id: string, changes: Partial<Pick<MealSlot, 'label' | 'icon'>>) => {
+    setDraftSlots(prev => prev.map(slot => slot.id === id ? { ...slot, ...changes } : slot));
+  };
+
+  /**
+   * Move a slot earlier or later in the day
+   */
+  const handleMoveSlot = (index: number, direction: 1 | -1) => {
+    setDraftSlots(prev => {
+      const reordered = [...prev];
+      [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+      return reordered;
+    });
+  };
+
+  /**
+   * Remove a slot; the last slot can't be removed
+   */
+  const handleRemoveSlot = (id: string) => {
+    setDraftSlots(prev => prev.length > 1 ? prev.filter(slot => slot.id !== id) : prev);
+  };
+
+  /**
+   * Add a slot at the end of the day from the entered name and icon
+   */
+  const handleAddSlot = () => {
+    if (!canAddSlot) return;
+
+    const label = newSlotLabel.trim();
+    setDraftSlots(prev => [...prev, { id: createSlotId(label, prev), label, icon: newSlotIcon.trim() || DEFAULT_SLOT_ICON }]);
+    setNewSlotLabel('');
+    setNewSlotIcon('');
+  };
+
+  /**
+   * Save the edited slots and close the modal
+   */
+  const handleSave = async () => {
+    if (hasEmptyLabel) return;
+
+    setIsSaving(true);
+    try {
+      await updateMealSlots(draftSlots);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Handles clicking on the backdrop to close the modal
+   * Only closes if clicking on the backdrop itself, not the modal content
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  // ===== RENDER =====
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick}>
+      <div className={styles.modalContent}>
+        <div className={styles.modalHeader}>
+          <h3>🕒 Meal Slots</h3>
+          <button className={styles.closeButton} onClick={onClose}>×</button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {/* Current slots */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>Your Day</h4>
+            <p className={styles.sectionHint}>
+              Slots are the times of day you eat at, in order. Meals in a removed slot show in the slot their meal type is usually eaten at.
+            </p>
+            <ul className={styles.slotList}>
+              {draftSlots.map((slot, index) => (
+                <li key={slot.id} className={styles.slotItem}>
+                  <input
+                    type="text"
+                    value={slot.icon}
+                    onChange={(e) => handleChangeSlot(slot.id, { icon: e.target.value })}
+                    className={styles.iconInput}
+                    aria-label={`Icon for ${slot.label}`}
+                    maxLength={4}
+                  />
+                  <input
+                    type="text"
+                    value={slot.label}
+                    onChange={(e) => handleChangeSlot(slot.id, { label: e.target.value })}
+                    className={styles.textInput}
+                    aria-label="Slot name"
+                  />
+                  <div className={styles.slotActions}>
+                    <button
+                      className={styles.secondaryButton}
+                      onClick={() => handleMoveSlot(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${slot.label} earlier`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className={styles.secondaryButton}
+                      onClick={() => handleMoveSlot(index, 1)}
+                      disabled={index === draftSlots.length - 1}
+                      aria-label={`Move ${slot.label} later`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className={styles.secondaryButton}
+                      onClick={() => handleRemoveSlot(slot.id)}
+                      disabled={draftSlots.length === 1}
+                      title={draftSlots.length === 1 ? 'You need at least one slot' : undefined}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          {/* Add a slot */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>New Slot</h4>
+            <div className={styles.formRow}>
+              <input
+                type="text"
+                placeholder={DEFAULT_SLOT_ICON}
+                value={newSlotIcon}
+                onChange={(e) => setNewSlotIcon(e.target.value)}
+                className={styles.iconInput}
+                aria-label="Icon for the new slot"
+                maxLength={4}
+              />
+              <input
+                type="text"
+                placeholder="Slot name, e.g. Brunch"
+                value={newSlotLabel}
+                onChange={(e) => setNewSlotLabel(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddSlot()}
+                className={styles.textInput}
+              />
+              <button className={styles.primaryButton} onClick={handleAddSlot} disabled={!canAddSlot}>
+                Add Slot
+              </button>
+            </div>
+            {draftSlots.length >= MAX_MEAL_SLOTS && (
+              <p className={styles.sectionHint}>You can have up to {MAX_MEAL_SLOTS} slots.</p>
+            )}
+          </section>
+
+          <div className={styles.modalActions}>
+            <button className={styles.secondaryButton} onClick={() => setDraftSlots(DEFAULT_MEAL_SLOTS)}>
+              Reset to Defaults
+            </button>
+            <button className={styles.secondaryButton} onClick={onClose}>
+              Cancel
+            </button>
+            <button className={styles.primaryButton} onClick={handleSave} disabled={isSaving || hasEmptyLabel}>
+              {isSaving ? 'Saving...' : 'Save Slots'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MealSlotsModal;
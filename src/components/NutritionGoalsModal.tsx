@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import styles from './NutritionGoalsModal.module.css';
+import { usePlan } from '../context/PlanContext';
+import type { NutritionGoalKey, NutritionGoals } from '../types/nutritionGoalTypes';
+import { NUTRITION_GOAL_FIELDS, NUTRITION_GOAL_PRESETS } from '../utils/nutritionGoals';
+
+// Props interface for the NutritionGoalsModal component
+interface NutritionGoalsModalProps {
+  isOpen: boolean;           // Controls whether the modal is visible
+  onClose: () => void;       // Function to close the modal
+}
+
+/**
+ * NutritionGoalsModal Component
+ *
+ * Lets users set their own daily calorie and macro goals, starting from a
+ * preset or entering values by hand. Fiber, sodium and sugar goals are
+ * optional and only tracked once a value is entered.
+ */
+const NutritionGoalsModal: React.FC<NutritionGoalsModalProps> = ({ isOpen, onClose }) => {
+  // ===== HOOKS AND CONTEXT =====
+
+  const { nutritionGoals, updateNutritionGoals } = usePlan();
+
+  // ===== STATE MANAGEMENT =====
+
+  const [draft, setDraft] = useState<NutritionGoals>(nutritionGoals);  // Goals being edited
+  const [isSaving, setIsSaving] = useState(false);                    // Disable buttons while saving
+
+  /**
+   * Start from the current goals each time the modal opens
+   */
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(nutritionGoals);
+    }
+  }, [isOpen, nutritionGoals]);
+
+  // Don't render anything if modal is not open
+  if (!isOpen) return null;
+
+  // ===== COMPUTED VALUES =====
+
+  const isValid = NUTRITION_GOAL_FIELDS.every(field => field.optional || (draft[field.key] || 0) > 0);
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Replace the draft with a preset, keeping any optional goals already entered
+   */
+  const handleSelectPreset = (presetGoals: NutritionGoals) => {
+    setDraft(prev => ({
+      ...presetGoals,
+      fiber: prev.fiber,
+      sodium: prev.sodium,
+      sugar: prev.sugar
+    }));
+  };
+
+  /**
+   * Update one goal; editing a value by hand turns the goals into a custom set
+   */
+  const handleChangeGoal = (key: NutritionGoalKey, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      preset: 'custom',
+      [key]: value === '' ? undefined : Math.max(0, Number(value))
+    }));
+  };
+
+  /**
+   * Save the goals and close the modal
+   * Empty optional goals are left out, since Firestore doesn't accept undefined values
+   */
+  const handleSave = async () => {
+    const goals: NutritionGoals = { ...draft };
+    (['fiber', 'sodium', 'sugar'] as const).forEach(key => {
+      if (!goals[key]) {
+        delete goals[key];
+      }
+    });
+
+    setIsSaving(true);
+    try {
+      await updateNutritionGoals(goals);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Handles clicking on the backdrop to close the modal
+   * Only closes if clicking on the backdrop itself, not the modal content
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  // ===== RENDER =====
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick}>
+      <div className={styles.modalContent}>
+        <div className={styles.modalHeader}>
+          <h3>🎯 Daily Nutrition Goals</h3>
+          <button className={styles.closeButton} onClick={onClose}>×</button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {/* Presets */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>Start from a preset</h4>
+            <div className={styles.presetOptions}>
+              {Object.entries(NUTRITION_GOAL_PRESETS).map(([key, preset]) => (
+                <button
+                  key={key}
+                  type="button"
+                  className={`${styles.presetOption} ${draft.preset === key ? styles.selected : ''}`}
+                  onClick={() => handleSelectPreset(preset.goals)}
+                >
+                  <span className={styles.presetLabel}>{preset.label}</span>
+                  <span className={styles.presetDescription}>{preset.description}</span>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* Goal values */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>
+              Your goals {draft.preset === 'custom' && <span className={styles.customBadge}>Custom</span>}
+            </h4>
+            <div className={styles.goalGrid}>
+              {NUTRITION_GOAL_FIELDS.map(field => (
+                <label key={field.key} className={styles.goalField}>
+                  {field.label} ({field.unit}){field.optional && <span className={styles.optional}> optional</span>}
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft[field.key] ?? ''}
+                    onChange={(e) => handleChangeGoal(field.key, e.target.value)}
+                    placeholder={field.optional ? 'Not tracked' : ''}
+                    className={styles.goalInput}
+                  />
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <div className={styles.actions}>
+            <button className={styles.secondaryButton} onClick={onClose} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className={styles.primaryButton} onClick={handleSave} disabled={isSaving || !isValid}>
+              {isSaving ? 'Saving...' : 'Save Goals'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NutritionGoalsModal;
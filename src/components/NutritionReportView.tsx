@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import styles from './NutritionReportView.module.css';
+import { usePlan } from '../context/PlanContext';
+import { addDays, getMonthRange, getWeekRange, parseDateString, toDateString } from '../utils/dateUtils';
+
+// Layout of the daily calories chart, in SVG user units
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 24;
+
+// Bar colors for days under, on and over the calorie goal
+const BAR_COLORS = {
+  under: '#f1c40f',
+  onTarget: '#546A04',
+  over: '#e74c3c'
+};
+
+// Colors for each macronutrient in the split bars
+const MACRO_COLORS = {
+  protein: '#4CAF50',
+  carbs: '#FFC107',
+  fat: '#F44336'
+};
+
+/**
+ * NutritionReportView Component
+ *
+ * Weekly or monthly overview of the planned nutrition: a bar chart of daily
+ * calories against the goal, average intake per planned day, how many days
+ * hit each goal and the calorie split between protein, carbs and fat.
+ * Charts are drawn with plain SVG and CSS so no chart service is needed.
+ */
+const NutritionReportView: React.FC = () => {
+  // ===== HOOKS AND CONTEXT =====
+
+  const { getNutritionReport, nutritionGoals } = usePlan();
+
+  // ===== STATE MANAGEMENT =====
+
+  const [period, setPeriod] = useState<'week' | 'month'>('week');       // Length of the report
+  const [anchorDate, setAnchorDate] = useState(toDateString(new Date()));  // Any date inside the reported period
+
+  // ===== COMPUTED VALUES =====
+
+  const range = period === 'week' ? getWeekRange(anchorDate) : getMonthRange(anchorDate);
+  const report = getNutritionReport(range.startDate, range.endDate);
+
+  const chartMax = Math.max(nutritionGoals.calories * 1.25, ...report.days.map(day => day.stats.calories), 1);
+  const slotWidth = (CHART_WIDTH - CHART_PADDING * 2) / Math.max(report.days.length, 1);
+  const barWidth = Math.max(slotWidth * 0.7, 2);
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const goalY = CHART_PADDING + plotHeight - (nutritionGoals.calories / chartMax) * plotHeight;
+
+  // Calorie split the goals aim for, to compare with the planned split
+  const goalMacroCalories = {
+    protein: nutritionGoals.protein * 4,
+    carbs: nutritionGoals.carbs * 4,
+    fat: nutritionGoals.fat * 9
+  };
+  const goalMacroTotal = goalMacroCalories.protein + goalMacroCalories.carbs + goalMacroCalories.fat || 1;
+  const goalSplit = {
+    protein: Math.round((goalMacroCalories.protein / goalMacroTotal) * 100),
+    carbs: Math.round((goalMacroCalories.carbs / goalMacroTotal) * 100),
+    fat: Math.round((goalMacroCalories.fat / goalMacroTotal) * 100)
+  };
+  const plannedSplit = {
+    protein: report.macroSplit.percentProtein,
+    carbs: report.macroSplit.percentCarbs,
+    fat: report.macroSplit.percentFat
+  };
+
+  const summaryRows = [
+    { key: 'calories', label: 'Calories', unit: ' cal' },
+    { key: 'protein', label: 'Protein', unit: 'g' },
+    { key: 'carbs', label: 'Carbs', unit: 'g' },
+    { key: 'fat', label: 'Fat', unit: 'g' }
+  ] as const;
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Move the report one period back or forward
+   */
+  const handleShift = (direction: -1 | 1) => {
+    if (period === 'week') {
+      setAnchorDate(addDays(range.startDate, direction * 7));
+    } else {
+      const start = parseDateString(range.startDate);
+      setAnchorDate(toDateString(new Date(start.getFullYear(), start.getMonth() + direction, 1)));
+    }
+  };
+
+  /**
+   * Pick the bar color for a day's calories
+   */
+  const getBarColor = (calories: number) => {
+    const ratio = nutritionGoals.calories ? calories / nutritionGoals.calories : 0;
+    if (ratio > 1.1) return BAR_COLORS.over;
+    if (ratio >= 0.9) return BAR_COLORS.onTarget;
+    return BAR_COLORS.under;
+  };
+
+  /**
+   * Format the label of the reported period
+   */
+  const getPeriodLabel = () => {
+    if (period === 'month') {
+      return parseDateString(range.startDate).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    }
+    const format = (date: string) => parseDateString(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return `${format(range.startDate)} – ${format(range.endDate)}`;
+  };
+
+  /**
+   * Render a stacked bar showing a protein / carbs / fat calorie split
+   */
+  const renderSplitBar = (label: string, split: Record<'protein' | 'carbs' | 'fat', number>) => (
+    <div className={styles.splitRow}>
+      <span className={styles.splitLabel}>{label}</span>
+      <div className={styles.splitBar}>
+        {(['protein', 'carbs', 'fat'] as const).map(macro => split[macro] > 0 && (
+          <div
+            key={macro}
+            className={styles.splitSegment}
+            style={{ width: `${split[macro]}%`, backgroundColor: MACRO_COLORS[macro] }}
+            title={`${macro}: ${split[macro]}%`}
+          >
+            {split[macro] >= 10 && `${split[macro]}%`}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  // ===== RENDER =====
+
+  return (
+    <div className={styles.reportView}>
+      {/* Period selector */}
+      <div className={styles.reportHeader}>
+        <div className={styles.periodToggle}>
+          <button
+            className={`${styles.toggleButton} ${period === 'week' ? styles.active : ''}`}
+            onClick={() => setPeriod('week')}
+          >
+            Week
+          </button>
+          <button
+            className={`${styles.toggleButton} ${period === 'month' ? styles.active : ''}`}
+            onClick={() => setPeriod('month')}
+          >
+            Month
+          </button>
+        </div>
+        <div className={styles.periodNav}>
+          <button className={styles.navButton} onClick={() => handleShift(-1)} aria-label="Previous period">‹</button>
+          <span className={styles.periodLabel}>{getPeriodLabel()}</span>
+          <button className={styles.navButton} onClick={() => handleShift(1)} aria-label="Next period">›</button>
+          <button className={styles.todayButton} onClick={() => setAnchorDate(toDateString(new Date()))}>
+            Today
+          </button>
+        </div>
+      </div>
+
+      {report.plannedDays === 0 ? (
+        <div className={styles.emptyState}>No meals planned in this {period}.</div>
+      ) : (
+        <>
+          {/* Daily calories chart */}
+          <section className={styles.section}>
+            <h3 className={styles.sectionTitle}>Daily Calories</h3>
+            <svg
+              className={styles.chart}
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              role="img"
+              aria-label="Daily calories compared with the calorie goal"
+            >
+              {report.days.map((day, index) => {
+                const barHeight = (day.stats.calories / chartMax) * plotHeight;
+                const x = CHART_PADDING + index * slotWidth + (slotWidth - barWidth) / 2;
+                const date = parseDateString(day.date);
+                const showLabel = period === 'week' || date.getDate() === 1 || date.getDate() % 5 === 0;
+                return (
+                  <g key={day.date}>
+                    <rect
+                      x={x}
+                      y={CHART_PADDING + plotHeight - barHeight}
+                      width={barWidth}
+                      height={barHeight}
+                      rx={2}
+                      fill={getBarColor(day.stats.calories)}
+                    >
+                      <title>{`${day.date}: ${Math.round(day.stats.calories)} cal from ${day.mealCount} meal${day.mealCount === 1 ? '' : 's'}`}</title>
+                    </rect>
+                    {showLabel && (
+                      <text
+                        x={x + barWidth / 2}
+                        y={CHART_HEIGHT - 6}
+                        textAnchor="middle"
+                        className={styles.axisLabel}
+                      >
+                        {period === 'week'
+                          ? date.toLocaleDateString('en-US', { weekday: 'short' })
+                          : date.getDate()}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+              <line
+                x1={CHART_PADDING}
+                x2={CHART_WIDTH - CHART_PADDING}
+                y1={goalY}
+                y2={goalY}
+                className={styles.goalLine}
+              />
+              <text x={CHART_WIDTH - CHART_PADDING} y={goalY - 4} textAnchor="end" className={styles.goalLabel}>
+                Goal {nutritionGoals.calories} cal
+              </text>
+            </svg>
+            <div className={styles.legend}>
+              <span><span className={styles.legendSwatch} style={{ backgroundColor: BAR_COLORS.under }} />Under goal</span>
+              <span><span className={styles.legendSwatch} style={{ backgroundColor: BAR_COLORS.onTarget }} />On target (±10%)</span>
+              <span><span className={styles.legendSwatch} style={{ backgroundColor: BAR_COLORS.over }} />Over goal</span>
+            </div>
+          </section>
+
+          {/* Averages and adherence */}
+          <section className={styles.section}>
+            <h3 className={styles.sectionTitle}>
+              Average per Planned Day
+              <span className={styles.sectionHint}>{report.plannedDays} of {report.days.length} days planned</span>
+            </h3>
+            <div className={styles.summaryGrid}>
+              {summaryRows.map(row => (
+                <div key={row.key} className={styles.summaryCard}>
+                  <span className={styles.summaryLabel}>{row.label}</span>
+                  <span className={styles.summaryValue}>{report.averages[row.key]}{row.unit}</span>
+                  <span className={styles.summaryGoal}>Goal {nutritionGoals[row.key]}{row.unit}</span>
+                  <div className={styles.adherenceBar}>
+                    <div className={styles.adherenceFill} style={{ width: `${report.adherence[row.key]}%` }} />
+                  </div>
+                  <span className={styles.adherenceText}>{report.adherence[row.key]}% of days on target</span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Macro split */}
+          <section className={styles.section}>
+            <h3 className={styles.sectionTitle}>Calories by Macronutrient</h3>
+            {renderSplitBar('Planned', plannedSplit)}
+            {renderSplitBar('Goal', goalSplit)}
+            <div className={styles.legend}>
+              <span><span className={styles.legendSwatch} style={{ backgroundColor: MACRO_COLORS.protein }} />Protein</span>
+              <span><span className={styles.legendSwatch} style={{ backgroundColor: MACRO_COLORS.carbs }} />Carbs</span>
+              <span><span className={styles.legendSwatch} style={{ backgroundColor: MACRO_COLORS.fat }} />Fat</span>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NutritionReportView;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { usePlan } from '../context/PlanContext';
 import styles from './NutritionalStats.module.css';
+import { NUTRITION_GOAL_FIELDS, getGoalColor, getGoalPercentage } from '../utils/nutritionGoals';
 
 // ===== NUTRITIONAL STATISTICS COMPONENT =====
 
@@ -8,15 +9,16 @@ import styles from './NutritionalStats.module.css';
  * NutritionalStats Component
  * 
  * Displays daily nutritional statistics with visual progress bars and color-coded indicators.
- * Shows total calories, protein, carbs, and fat for a specific date.
+ * Shows total calories, protein, carbs, and fat for a specific date against the user's own goals.
  */
 interface NutritionalStatsProps {
   date: string;                    // Date to show statistics for (YYYY-MM-DD format)
   className?: string;              // Optional CSS class for styling
+  onEditGoals?: () => void;        // Optional handler that opens the goal editor
 }
 
-const NutritionalStats: React.FC<NutritionalStatsProps> = ({ date, className }) => {
-  const { getNutritionalStats } = usePlan();
+const NutritionalStats: React.FC<NutritionalStatsProps> = ({ date, className, onEditGoals }) => {
+  const { getNutritionalStats, nutritionGoals } = usePlan();
 
   // Get nutritional statistics for the specified date
   const stats = getNutritionalStats(date);
@@ -24,42 +26,15 @@ const NutritionalStats: React.FC<NutritionalStatsProps> = ({ date, className })
   // Check if there are any meals planned for this date
   const hasMeals = stats.calories > 0 || stats.protein > 0 || stats.carbs > 0 || stats.fat > 0;
 
-  // Daily recommended values (can be customized based on user preferences)
-  const dailyRecommendations = {
-    calories: 2000,
-    protein: 50,    // grams
-    carbs: 275,     // grams
-    fat: 55         // grams
-  };
-
-  /**
-   * Calculate percentage of daily recommendation
-   * Returns a value between 0 and 100
-   */
-  const calculatePercentage = (current: number, recommended: number): number => {
-    return Math.min((current / recommended) * 100, 100);
-  };
-
-  /**
-   * Get color for nutrition type based on percentage
-   * Returns appropriate color for visual indicators
-   */
-  const getNutritionColor = (_type: 'calories' | 'protein' | 'carbs' | 'fat', percentage: number): string => {
-    if (percentage >= 100) return '#e74c3c'; // Red for over 100%
-    if (percentage >= 80) return '#f39c12';  // Orange for 80-99%
-    if (percentage >= 60) return '#f1c40f';  // Yellow for 60-79%
-    return '#546A04';                        // Green for under 60% (matches app's primary green)
-  };
+  // Show the main four goals, plus fiber, sodium and sugar when the user has set a goal for them
+  const visibleFields = NUTRITION_GOAL_FIELDS.filter(field => !field.optional || !!nutritionGoals[field.key]);
 
   /**
    * Format nutrition value with appropriate units
-   * Adds units and rounds to appropriate decimal places
+   * Adds units and rounds to whole numbers
    */
-  const formatNutritionValue = (value: number, type: 'calories' | 'protein' | 'carbs' | 'fat'): string => {
-    if (type === 'calories') {
-      return `${Math.round(value)} cal`;
-    }
-    return `${Math.round(value)}g`;
+  const formatNutritionValue = (value: number, unit: string): string => {
+    return unit === 'g' ? `${Math.round(value)}g` : `${Math.round(value)} ${unit}`;
   };
 
   return (
@@ -73,93 +48,32 @@ const NutritionalStats: React.FC<NutritionalStatsProps> = ({ date, className })
       })}</div>
 
       <div className={styles.statsGrid}>
-        {/* Calories */}
-        <div className={styles.statItem}>
-          <div className={styles.statHeader}>
-            <span className={styles.statLabel}>Calories</span>
-            <span className={styles.statValue}>
-              {formatNutritionValue(stats.calories, 'calories')}
-            </span>
-          </div>
-          <div className={styles.progressContainer}>
-            <div
-              className={styles.progressBar}
-              style={{
-                width: `${calculatePercentage(stats.calories, dailyRecommendations.calories)}%`,
-                backgroundColor: getNutritionColor('calories', calculatePercentage(stats.calories, dailyRecommendations.calories))
-              }}
-            />
-          </div>
-          <div className={styles.statTarget}>
-            Target: {formatNutritionValue(dailyRecommendations.calories, 'calories')}
-          </div>
-        </div>
-
-        {/* Protein */}
-        <div className={styles.statItem}>
-          <div className={styles.statHeader}>
-            <span className={styles.statLabel}>Protein</span>
-            <span className={styles.statValue}>
-              {formatNutritionValue(stats.protein, 'protein')}
-            </span>
-          </div>
-          <div className={styles.progressContainer}>
-            <div
-              className={styles.progressBar}
-              style={{
-                width: `${calculatePercentage(stats.protein, dailyRecommendations.protein)}%`,
-                backgroundColor: getNutritionColor('protein', calculatePercentage(stats.protein, dailyRecommendations.protein))
-              }}
-            />
-          </div>
-          <div className={styles.statTarget}>
-            Target: {formatNutritionValue(dailyRecommendations.protein, 'protein')}
-          </div>
-        </div>
-
-        {/* Carbs */}
-        <div className={styles.statItem}>
-          <div className={styles.statHeader}>
-            <span className={styles.statLabel}>Carbs</span>
-            <span className={styles.statValue}>
-              {formatNutritionValue(stats.carbs, 'carbs')}
-            </span>
-          </div>
-          <div className={styles.progressContainer}>
-            <div
-              className={styles.progressBar}
-              style={{
-                width: `${calculatePercentage(stats.carbs, dailyRecommendations.carbs)}%`,
-                backgroundColor: getNutritionColor('carbs', calculatePercentage(stats.carbs, dailyRecommendations.carbs))
-              }}
-            />
-          </div>
-          <div className={styles.statTarget}>
-            Target: {formatNutritionValue(dailyRecommendations.carbs, 'carbs')}
-          </div>
-        </div>
-
-        {/* Fat */}
-        <div className={styles.statItem}>
-          <div className={styles.statHeader}>
-            <span className={styles.statLabel}>Fat</span>
-            <span className={styles.statValue}>
-              {formatNutritionValue(stats.fat, 'fat')}
-            </span>
-          </div>
-          <div className={styles.progressContainer}>
-            <div
-              className={styles.progressBar}
-              style={{
-                width: `${calculatePercentage(stats.fat, dailyRecommendations.fat)}%`,
-                backgroundColor: getNutritionColor('fat', calculatePercentage(stats.fat, dailyRecommendations.fat))
-              }}
-            />
-          </div>
-          <div className={styles.statTarget}>
-            Target: {formatNutritionValue(dailyRecommendations.fat, 'fat')}
-          </div>
-        </div>
+        {visibleFields.map(field => {
+          const goal = nutritionGoals[field.key] || 0;
+          const percentage = getGoalPercentage(stats[field.key], goal);
+          return (
+            <div key={field.key} className={styles.statItem}>
+              <div className={styles.statHeader}>
+                <span className={styles.statLabel}>{field.label}</span>
+                <span className={styles.statValue}>
+                  {formatNutritionValue(stats[field.key], field.unit)}
+                </span>
+              </div>
+              <div className={styles.progressContainer}>
+                <div
+                  className={styles.progressBar}
+                  style={{
+                    width: `${percentage}%`,
+                    backgroundColor: getGoalColor(percentage)
+                  }}
+                />
+              </div>
+              <div className={styles.statTarget}>
+                Target: {formatNutritionValue(goal, field.unit)}
+              </div>
+            </div>
+          );
+        })}
       </div>
 
       {/* Summary */}
@@ -173,10 +87,16 @@ const NutritionalStats: React.FC<NutritionalStatsProps> = ({ date, className })
         <div className={styles.summaryItem}>
           <span className={styles.summaryLabel}>Daily Goal:</span>
           <span className={styles.summaryValue}>
-            {hasMeals ? `${calculatePercentage(stats.calories, dailyRecommendations.calories).toFixed(0)}% met` : '0% met'}
+            {hasMeals ? `${getGoalPercentage(stats.calories, nutritionGoals.calories).toFixed(0)}% met` : '0% met'}
           </span>
         </div>
       </div>
+
+      {onEditGoals && (
+        <button className={styles.editGoalsButton} onClick={onEditGoals}>
+          🎯 Edit Goals
+        </button>
+      )}
     </div>
   );
 };
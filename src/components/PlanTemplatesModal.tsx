@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import styles from './PlanTemplatesModal.module.css';
+import { usePlan } from '../context/PlanContext';
+import { addDays, getWeekRange, toDateString } from '../utils/dateUtils';
+
+// Props interface for the PlanTemplatesModal component
+interface PlanTemplatesModalProps {
+  isOpen: boolean;           // Controls whether the modal is visible
+  onClose: () => void;       // Function to close the modal
+}
+
+/**
+ * PlanTemplatesModal Component
+ *
+ * Lets users reuse good weeks: save a week (or any date range) of meals as a
+ * named template, apply a saved template from any start date, or copy last
+ * week's meals straight into this week.
+ */
+const PlanTemplatesModal: React.FC<PlanTemplatesModalProps> = ({ isOpen, onClose }) => {
+  // ===== HOOKS AND CONTEXT =====
+
+  const { templates, saveRangeAsTemplate, applyTemplate, deleteTemplate, copyDateRange, getEventsInRange } = usePlan();
+
+  // ===== STATE MANAGEMENT =====
+
+  const thisWeek = getWeekRange(toDateString(new Date()));
+  const lastWeek = getWeekRange(addDays(thisWeek.startDate, -7));
+  const nextWeekStart = addDays(thisWeek.startDate, 7);
+
+  const [templateName, setTemplateName] = useState('');                   // Name for a new template
+  const [rangeStart, setRangeStart] = useState(thisWeek.startDate);       // First date to save
+  const [rangeEnd, setRangeEnd] = useState(thisWeek.endDate);             // Last date to save
+  const [applyDates, setApplyDates] = useState<Record<string, string>>({}); // Start date chosen per template
+  const [statusMessage, setStatusMessage] = useState('');                 // Result of the last action
+  const [isWorking, setIsWorking] = useState(false);                      // Disable buttons while saving
+
+  /**
+   * Reset the form each time the modal opens
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const week = getWeekRange(toDateString(new Date()));
+    setTemplateName('');
+    setRangeStart(week.startDate);
+    setRangeEnd(week.endDate);
+    setApplyDates({});
+    setStatusMessage('');
+  }, [isOpen]);
+
+  // Don't render anything if modal is not open
+  if (!isOpen) return null;
+
+  // ===== COMPUTED VALUES =====
+
+  const isRangeValid = !!rangeStart && !!rangeEnd && rangeStart <= rangeEnd;
+  const mealsInRange = isRangeValid ? getEventsInRange(rangeStart, rangeEnd).length : 0;
+  const mealsLastWeek = getEventsInRange(lastWeek.startDate, lastWeek.endDate).length;
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Run an action while showing a busy state and its result message
+   */
+  const runAction = async (action: () => Promise<string>) => {
+    setIsWorking(true);
+    try {
+      setStatusMessage(await action());
+    } catch (error) {
+      console.error('Error updating meal plan templates:', error);
+      setStatusMessage('Something went wrong. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  /**
+   * Copy last week's meals into this week
+   */
+  const handleCopyLastWeek = () => runAction(async () => {
+    const added = await copyDateRange(lastWeek.startDate, lastWeek.endDate, thisWeek.startDate);
+    return added > 0
+      ? `Copied ${added} meal${added === 1 ? '' : 's'} from last week.`
+      : 'Nothing new to copy: those meals are already planned this week.';
+  });
+
+  /**
+   * Save the selected date range as a template
+   */
+  const handleSaveTemplate = () => runAction(async () => {
+    await saveRangeAsTemplate(templateName, rangeStart, rangeEnd);
+    const name = templateName.trim();
+    setTemplateName('');
+    return `Saved "${name}" with ${mealsInRange} meal${mealsInRange === 1 ? '' : 's'}.`;
+  });
+
+  /**
+   * Apply a template from the start date chosen for it
+   */
+  const handleApplyTemplate = (templateId: string, name: string) => runAction(async () => {
+    const added = await applyTemplate(templateId, applyDates[templateId] || nextWeekStart);
+    return added > 0
+      ? `Added ${added} meal${added === 1 ? '' : 's'} from "${name}".`
+      : `Nothing new to add: the meals from "${name}" are already planned.`;
+  });
+
+  /**
+   * Delete a saved template
+   */
+  const handleDeleteTemplate = (templateId: string, name: string) => runAction(async () => {
+    await deleteTemplate(templateId);
+    return `Deleted "${name}".`;
+  });
+
+  /**
+   * Handles clicking on the backdrop to close the modal
+   * Only closes if clicking on the backdrop itself, not the modal content
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  // ===== RENDER =====
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick}>
+      <div className={styles.modalContent}>
+        <div className={styles.modalHeader}>
+          <h3>Week Templates</h3>
+          <button className={styles.closeButton} onClick={onClose}>×</button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {statusMessage && <p className={styles.statusMessage}>{statusMessage}</p>}
+
+          {/* Copy last week */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>🔁 Copy Last Week</h4>
+            <p className={styles.sectionHint}>
+              Copies the {mealsLastWeek} meal{mealsLastWeek === 1 ? '' : 's'} from {lastWeek.startDate} – {lastWeek.endDate} into this week.
+            </p>
+            <button
+              className={styles.primaryButton}
+              onClick={handleCopyLastWeek}
+              disabled={isWorking || mealsLastWeek === 0}
+            >
+              Copy Last Week to This Week
+            </button>
+          </section>
+
+          {/* Save a new template */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>💾 Save as Template</h4>
+            <div className={styles.formRow}>
+              <input
+                type="text"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="Template name, e.g. Busy week"
+                className={styles.textInput}
+              />
+            </div>
+            <div className={styles.formRow}>
+              <label className={styles.dateField}>
+                From
+                <input
+                  type="date"
+                  value={rangeStart}
+                  onChange={(e) => setRangeStart(e.target.value)}
+                  className={styles.dateInput}
+                />
+              </label>
+              <label className={styles.dateField}>
+                To
+                <input
+                  type="date"
+                  value={rangeEnd}
+                  onChange={(e) => setRangeEnd(e.target.value)}
+                  className={styles.dateInput}
+                />
+              </label>
+            </div>
+            <p className={styles.sectionHint}>
+              {isRangeValid
+                ? `${mealsInRange} meal${mealsInRange === 1 ? '' : 's'} in this range.`
+                : 'The start date must be on or before the end date.'}
+            </p>
+            <button
+              className={styles.primaryButton}
+              onClick={handleSaveTemplate}
+              disabled={isWorking || !templateName.trim() || !isRangeValid || mealsInRange === 0}
+            >
+              Save Template
+            </button>
+          </section>
+
+          {/* Saved templates */}
+          <section className={styles.section}>
+            <h4 className={styles.sectionTitle}>📋 Saved Templates</h4>
+            {templates.length === 0 ? (
+              <p className={styles.sectionHint}>No templates yet. Save a week you liked to reuse it later.</p>
+            ) : (
+              <ul className={styles.templateList}>
+                {templates.map(template => (
+                  <li key={template.id} className={styles.templateItem}>
+                    <div className={styles.templateInfo}>
+                      <span className={styles.templateName}>{template.name}</span>
+                      <span className={styles.templateMeta}>
+                        {template.meals.length} meal{template.meals.length === 1 ? '' : 's'} over {template.lengthInDays} day{template.lengthInDays === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    <div className={styles.templateActions}>
+                      <input
+                        type="date"
+                        value={applyDates[template.id] || nextWeekStart}
+                        onChange={(e) => setApplyDates(prev => ({ ...prev, [template.id]: e.target.value }))}
+                        className={styles.dateInput}
+                        title="Start date"
+                      />
+                      <button
+                        className={styles.primaryButton}
+                        onClick={() => handleApplyTemplate(template.id, template.name)}
+                        disabled={isWorking || !(applyDates[template.id] || nextWeekStart)}
+                      >
+                        Apply
+                      </button>
+                      <button
+                        className={styles.deleteButton}
+                        onClick={() => handleDeleteTemplate(template.id, template.name)}
+                        disabled={isWorking}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanTemplatesModal;
@@ -65,14 +65,18 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
     const prevState = (location.state as LocationState) || {};
     const state = { ...prevState, recipe } as LocationState & { recipe: typeof recipe };
 
-    // Get selected date from URL parameters (for meal planning)
+    // Get selected date and meal slot from URL parameters (for meal planning)
     const urlParams = new URLSearchParams(location.search);
     const selectedDate = urlParams.get('selectedDate');
+    const selectedSlot = urlParams.get('selectedSlot');
 
-    // Build navigation URL with optional selected date
+    // Build navigation URL with optional selected date and slot
     let navigateUrl = `/recipes/${recipe.id}`;
     if (selectedDate) {
       navigateUrl += `?selectedDate=${selectedDate}`;
+      if (selectedSlot) {
+        navigateUrl += `&selectedSlot=${encodeURIComponent(selectedSlot)}`;
+      }
     }
 
     navigate(navigateUrl, { state });
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { recipeFilterService } from '../services/filterService';
+import { useFavorites } from '../context/FavoritesContext';
+import type { Recipe } from '../types/recipeTypes';
+import { setRecipeDragData, type DraggedRecipe } from '../utils/recipeDrag';
+import styles from './RecipeSidebar.module.css';
+
+// Recipes shown per search
+const SIDEBAR_RESULTS = 20;
+
+// ===== RECIPE SIDEBAR COMPONENT =====
+
+/**
+ * RecipeSidebar Component
+ *
+ * Searchable list of recipes shown next to the plan calendar in planning mode.
+ * Recipes come from the recipe search or the user's favorites, and each card can be
+ * dragged onto a day of the calendar (or a slot in the day view) to plan it.
+ */
+interface RecipeSidebarProps {
+  isGuestMode?: boolean;           // Whether user is in guest mode (disables drag/drop, like the calendar)
+  statusMessage?: string;          // Result of the last drop, e.g. a recipe that was already planned
+  onRecipeClick: (recipe: DraggedRecipe) => void;  // Handler for clicking on a recipe card
+  onClose: () => void;             // Leave planning mode
+}
+
+const RecipeSidebar: React.FC<RecipeSidebarProps> = ({ isGuestMode = false, statusMessage, onRecipeClick, onClose }) => {
+  const { favoriteRecipes } = useFavorites();
+
+  const [source, setSource] = useState<'search' | 'favorites'>('search');  // Where the recipes come from
+  const [searchQuery, setSearchQuery] = useState('');                      // Text typed in the search box
+  const [debouncedQuery, setDebouncedQuery] = useState('');                // Search text once typing pauses
+  const [searchResults, setSearchResults] = useState<Recipe[]>([]);        // Recipes found by the search
+  const [isSearching, setIsSearching] = useState(false);                   // Waiting for search results
+
+  // Debounce search query to avoid too many API calls
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim());
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Search recipes whenever the search text changes
+  useEffect(() => {
+    if (source !== 'search') return;
+
+    let isCancelled = false;
+    const searchRecipes = async () => {
+      setIsSearching(true);
+      try {
+        const response = await recipeFilterService.filterRecipes({
+          query: debouncedQuery || undefined,
+          number: SIDEBAR_RESULTS
+        });
+        if (!isCancelled) setSearchResults(response.recipes || []);
+      } catch (error) {
+        console.error('Error searching recipes for the sidebar:', error);
+        if (!isCancelled) setSearchResults([]);
+      } finally {
+        if (!isCancelled) setIsSearching(false);
+      }
+    };
+
+    searchRecipes();
+    return () => {
+      isCancelled = true;
+    };
+  }, [debouncedQuery, source]);
+
+  // ===== COMPUTED VALUES =====
+
+  // Favorites store Spoonacular's nutrient list only, so their meals get nutrition filled in later
+  const recipes: DraggedRecipe[] = source === 'search'
+    ? searchResults
+    : favoriteRecipes
+      .filter(recipe => recipe.title.toLowerCase().includes(debouncedQuery.toLowerCase()))
+      .map(({ id, title, image, dishTypes, readyInMinutes, servings, pricePerServing, cheap }) => ({
+        id, title, image, dishTypes, readyInMinutes, servings, pricePerServing, cheap
+      }));
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Start dragging a recipe card towards the calendar
+   */
+  const handleDragStart = (e: React.DragEvent, recipe: DraggedRecipe) => {
+    if (isGuestMode) {
+      e.preventDefault();
+      return;
+    }
+
+    setRecipeDragData(e.dataTransfer, recipe);
+  };
+
+  return (
+    <aside className={styles.recipeSidebar} aria-label="Recipes to plan">
+      <div className={styles.sidebarHeader}>
+        <h3 className={styles.sidebarTitle}>🍳 Recipes</h3>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close planning mode">×</button>
+      </div>
+
+      <div className={styles.sourceTabs}>
+        <button
+          className={`${styles.sourceTab} ${source === 'search' ? styles.activeTab : ''}`}
+          onClick={() => setSource('search')}
+        >
+          All Recipes
+        </button>
+        <button
+          className={`${styles.sourceTab} ${source === 'favorites' ? styles.activeTab : ''}`}
+          onClick={() => setSource('favorites')}
+        >
+          ❤️ Favorites ({favoriteRecipes.length})
+        </button>
+      </div>
+
+      <input
+        type="search"
+        placeholder={source === 'search' ? 'Search recipes...' : 'Filter favorites...'}
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        className={styles.searchInput}
+        aria-label="Search recipes"
+      />
+
+      <p className={styles.sidebarHint}>
+        {isGuestMode
+          ? 'Sign in to drag recipes onto the calendar, or click one to add it.'
+          : 'Drag a recipe onto a day, or onto a slot in the day view.'}
+      </p>
+      {statusMessage && <p className={styles.statusMessage} role="status">{statusMessage}</p>}
+
+      {source === 'search' && isSearching ? (
+        <p className={styles.emptyMessage}>Searching...</p>
+      ) : recipes.length === 0 ? (
+        <p className={styles.emptyMessage}>
+          {source === 'favorites' && favoriteRecipes.length === 0 ? 'No favorite recipes yet.' : 'No recipes found.'}
+        </p>
+      ) : (
+        <ul className={styles.recipeList}>
+          {recipes.map(recipe => (
+            <li
+              key={recipe.id}
+              className={styles.recipeItem}
+              draggable={!isGuestMode}
+              onDragStart={(e) => handleDragStart(e, recipe)}
+              onClick={() => onRecipeClick(recipe)}
+              title={isGuestMode ? recipe.title : `Drag "${recipe.title}" onto the calendar`}
+            >
+              {recipe.image && <img src={recipe.image} alt="" className={styles.recipeImage} draggable={false} />}
+              <div className={styles.recipeInfo}>
+                <span className={styles.recipeTitle}>{recipe.title}</span>
+                <span className={styles.recipeMeta}>
+                  {recipe.readyInMinutes ? `⏱️ ${recipe.readyInMinutes} min` : ''}
+                  {recipe.dishTypes.length > 0 && ` · ${recipe.dishTypes[0]}`}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default RecipeSidebar;
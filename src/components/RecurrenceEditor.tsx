@@ -0,0 +1,179 @@
+import React from 'react';
+import styles from './RecurrenceEditor.module.css';
+import type { RecurrenceRule } from '../context/PlanContextTypes';
+import { parseDateString } from '../utils/dateUtils';
+import { describeRecurrence } from '../utils/recurrence';
+
+// Props interface for the RecurrenceEditor component
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | undefined;                  // Current rule, undefined when the meal doesn't repeat
+  onChange: (rule: RecurrenceRule | undefined) => void;  // Called with the new rule (or undefined to stop repeating)
+  startDate: string;                                  // Date the series starts on, used for weekly defaults
+}
+
+// Short day names, indexed the same way as Date.getDay()
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * RecurrenceEditor Component
+ *
+ * Form controls for making a planned meal repeat: daily, on weekdays or weekly
+ * on chosen days, every N days or weeks, ending never, on a date or after N times.
+ */
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, startDate }) => {
+  /**
+   * Work out which end condition the rule currently uses
+   */
+  const endType = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  /**
+   * Handle changing how often the meal repeats
+   * Weekly rules start on the weekday of the start date
+   */
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(undefined);
+      return;
+    }
+
+    const rule: RecurrenceRule = { frequency: frequency as RecurrenceRule['frequency'] };
+    if (frequency === 'weekly' && startDate) {
+      rule.daysOfWeek = [parseDateString(startDate).getDay()];
+    }
+    if (value?.until) rule.until = value.until;
+    if (value?.count) rule.count = value.count;
+    onChange(rule);
+  };
+
+  /**
+   * Handle changing the repeat interval (every N days or weeks)
+   */
+  const handleIntervalChange = (interval: number) => {
+    if (!value) return;
+    onChange({ ...value, interval: Math.max(1, interval || 1) });
+  };
+
+  /**
+   * Turn a day on or off for weekly rules
+   * At least one day always stays selected
+   */
+  const handleToggleDay = (day: number) => {
+    if (!value) return;
+
+    const days = value.daysOfWeek || [];
+    const updatedDays = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort();
+    if (updatedDays.length === 0) return;
+
+    onChange({ ...value, daysOfWeek: updatedDays });
+  };
+
+  /**
+   * Handle changing how the series ends
+   * Only one of `until` and `count` is kept
+   */
+  const handleEndTypeChange = (type: string) => {
+    if (!value) return;
+
+    const rule: RecurrenceRule = { ...value };
+    delete rule.until;
+    delete rule.count;
+
+    if (type === 'until') {
+      rule.until = startDate || value.until;
+    } else if (type === 'count') {
+      rule.count = 10;
+    }
+    onChange(rule);
+  };
+
+  return (
+    <div className={styles.recurrenceEditor}>
+      <div className={styles.row}>
+        <select
+          value={value?.frequency || 'none'}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          className={styles.select}
+        >
+          <option value="none">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekdays">Every weekday (Mon–Fri)</option>
+          <option value="weekly">Weekly</option>
+        </select>
+
+        {value && value.frequency !== 'weekdays' && (
+          <label className={styles.inlineLabel}>
+            every
+            <input
+              type="number"
+              min="1"
+              value={value.interval || 1}
+              onChange={(e) => handleIntervalChange(parseInt(e.target.value))}
+              className={styles.numberInput}
+            />
+            {value.frequency === 'daily' ? 'day(s)' : 'week(s)'}
+          </label>
+        )}
+      </div>
+
+      {/* Day selection for weekly rules */}
+      {value?.frequency === 'weekly' && (
+        <div className={styles.dayOptions}>
+          {DAY_NAMES.map((name, day) => (
+            <button
+              key={name}
+              type="button"
+              className={`${styles.dayOption} ${value.daysOfWeek?.includes(day) ? styles.selected : ''}`}
+              onClick={() => handleToggleDay(day)}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* End condition */}
+      {value && (
+        <div className={styles.row}>
+          <select
+            value={endType}
+            onChange={(e) => handleEndTypeChange(e.target.value)}
+            className={styles.select}
+          >
+            <option value="never">Never ends</option>
+            <option value="until">Ends on date</option>
+            <option value="count">Ends after</option>
+          </select>
+
+          {endType === 'until' && (
+            <input
+              type="date"
+              value={value.until || ''}
+              min={startDate}
+              onChange={(e) => e.target.value && onChange({ ...value, until: e.target.value })}
+              className={styles.dateInput}
+            />
+          )}
+
+          {endType === 'count' && (
+            <label className={styles.inlineLabel}>
+              <input
+                type="number"
+                min="1"
+                value={value.count || 1}
+                onChange={(e) => onChange({ ...value, count: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={styles.numberInput}
+              />
+              times
+            </label>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <div className={styles.summary}>🔁 {describeRecurrence(value)}</div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
@@ -0,0 +1,108 @@
+import React from 'react';
+import styles from './RecurrenceScopeModal.module.css';
+import type { RecurrenceEditScope } from '../context/PlanContextTypes';
+
+// Props interface for the RecurrenceScopeModal component
+interface RecurrenceScopeModalProps {
+  isOpen: boolean;                             // Controls whether the modal is visible
+  action: 'edit' | 'delete';                   // What the user is about to do with the meal
+  onSelect: (scope: RecurrenceEditScope) => void;  // Function to run with the chosen scope
+  onClose: () => void;                         // Function to close the modal without doing anything
+}
+
+// Choices offered to the user, in the order they are shown
+const SCOPE_OPTIONS: Array<{ scope: RecurrenceEditScope; label: string }> = [
+  { scope: 'this', label: 'This occurrence' },
+  { scope: 'following', label: 'This and following' },
+  { scope: 'all', label: 'All occurrences' }
+];
+
+/**
+ * RecurrenceScopeModal Component
+ *
+ * Asks which occurrences of a recurring meal an edit or delete should apply to.
+ * Styled like the ConfirmationModal so both prompts feel the same.
+ */
+const RecurrenceScopeModal: React.FC<RecurrenceScopeModalProps> = ({
+  isOpen,
+  action,
+  onSelect,
+  onClose
+}) => {
+  // Don't render anything if modal is not open
+  if (!isOpen) return null;
+
+  /**
+   * Handles choosing one of the scopes
+   * Runs the action with that scope and closes the modal
+   */
+  const handleSelect = (scope: RecurrenceEditScope) => {
+    onSelect(scope);
+    onClose();
+  };
+
+  /**
+   * Handles clicking on the backdrop to close the modal
+   * Only closes if clicking on the backdrop itself, not the modal content
+   */
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  /**
+   * Handles keyboard events
+   * Closes modal when Escape key is pressed
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className={styles.modalBackdrop}
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className={styles.modalContent}>
+        {/* Modal message content */}
+        <div className={styles.modalBody}>
+          <p className={styles.modalMessage}>
+            {action === 'edit'
+              ? 'This is a recurring meal. Which meals do you want to change?'
+              : 'This is a recurring meal. Which meals do you want to move to Trash?'}
+          </p>
+        </div>
+
+        {/* Scope choices */}
+        <div className={styles.scopeOptions}>
+          {SCOPE_OPTIONS.map(option => (
+            <button
+              key={option.scope}
+              className={`${styles.modalButton} ${action === 'delete' ? styles.deleteButton : styles.editButton}`}
+              onClick={() => handleSelect(option.scope)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Cancel */}
+        <div className={styles.modalFooter}>
+          <button
+            className={`${styles.modalButton} ${styles.cancelButton}`}
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceScopeModal;
@@ -9,6 +9,7 @@ import {
 
 import { auth } from '../services/firebase';
 import { firestoreService } from '../services/firestoreService';
+import { syncQueueService } from '../services/syncQueueService';
 
 // ===== TYPE DEFINITIONS =====
 
@@ -89,6 +90,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
    */
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser: any) => {
+      // Only write the queued changes of whoever is signed in now
+      syncQueueService.setUser(firebaseUser ? firebaseUser.uid : null);
+
       if (firebaseUser) {
         // User is signed in - get their data from Firestore
         try {
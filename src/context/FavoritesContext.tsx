@@ -3,6 +3,7 @@ import type { ReactNode } from 'react';
 import { useAuth } from './AuthContext';
 import { useGuest } from './GuestContext';
 import { firestoreService } from '../services/firestoreService';
+import { syncQueueService } from '../services/syncQueueService';
 
 // ===== TYPE DEFINITIONS =====
 
@@ -157,8 +158,21 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
         // Load from Firestore for authenticated users
         try {
           const firestoreFavorites = await firestoreService.getFavoriteRecipes(user.id);
-          const favoriteIds = firestoreFavorites.map(fav => parseInt(fav.recipeId));
-          const favoriteRecipesData = firestoreFavorites.map(fav => ({
+
+          // Favorites added or removed while offline aren't in Firestore yet
+          const userId = user.id;
+          const pendingAdds = syncQueueService.getPending('saveFavoriteRecipe').filter(mutation => mutation.favorite.userId === userId);
+          const pendingRemoves = syncQueueService.getPending('deleteFavoriteRecipe').filter(mutation => mutation.userId === userId);
+          const removedIds = new Set(pendingRemoves.map(mutation => mutation.recipeId));
+          const mergedFavorites = [
+            ...firestoreFavorites.filter(fav =>
+              !removedIds.has(fav.recipeId) && !pendingAdds.some(mutation => mutation.favorite.recipeId === fav.recipeId)
+            ),
+            ...pendingAdds.map(mutation => ({ ...mutation.favorite, addedAt: null }))
+          ];
+
+          const favoriteIds = mergedFavorites.map(fav => parseInt(fav.recipeId));
+          const favoriteRecipesData = mergedFavorites.map(fav => ({
             ...fav.recipe,
             addedAt: fav.addedAt?.toMillis?.() || Date.now()
           }));
@@ -197,39 +211,31 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
   const toggleFavorite = async (recipeId: number, recipe?: FavoriteRecipe) => {
     if (isAuthenticated && user) {
       // Handle authenticated user favorites (stored in Firestore)
-      try {
-        const isCurrentlyFavorite = favorites.includes(recipeId);
+      // Local state updates right away; the sync queue writes the change once the device is online
+      const isCurrentlyFavorite = favorites.includes(recipeId);
 
-        if (isCurrentlyFavorite) {
-          // Remove from favorites - find the Firestore document ID
-          const firestoreFavorites = await firestoreService.getFavoriteRecipes(user.id);
-          const firestoreFavorite = firestoreFavorites.find(fav => parseInt(fav.recipeId) === recipeId);
-
-          if (firestoreFavorite) {
-            await firestoreService.deleteFavoriteRecipe(firestoreFavorite.id);
-          }
-
-          // Update local state
-          setFavorites(prev => prev.filter(id => id !== recipeId));
-          setFavoriteRecipes(prev => prev.filter(fav => fav.id !== recipeId));
-        } else {
-          // Add to favorites
-          if (recipe) {
-            const favoriteData = {
-              id: `fav-${Date.now()}`,
-              userId: user.id,
-              recipeId: recipeId.toString(),
-              recipe: recipe
-            };
-
-            await firestoreService.saveFavoriteRecipe(favoriteData);
-
-            setFavorites(prev => [...prev, recipeId]);
-            setFavoriteRecipes(prev => [...prev, { ...recipe, addedAt: Date.now() }]);
-          }
+      if (isCurrentlyFavorite) {
+        // Remove from favorites
+        syncQueueService.enqueue({ type: 'deleteFavoriteRecipe', userId: user.id, recipeId: recipeId.toString() });
+
+        // Update local state
+        setFavorites(prev => prev.filter(id => id !== recipeId));
+        setFavoriteRecipes(prev => prev.filter(fav => fav.id !== recipeId));
+      } else {
+        // Add to favorites
+        if (recipe) {
+          const favoriteData = {
+            id: `fav-${Date.now()}`,
+            userId: user.id,
+            recipeId: recipeId.toString(),
+            recipe: recipe
+          };
+
+          syncQueueService.enqueue({ type: 'saveFavoriteRecipe', favorite: favoriteData });
+
+          setFavorites(prev => [...prev, recipeId]);
+          setFavoriteRecipes(prev => [...prev, { ...recipe, addedAt: Date.now() }]);
         }
-      } catch (error) {
-        console.error('Error toggling favorite:', error);
       }
     } else if (isGuestMode) {
       // Handle guest user favorites (stored in guest context)
@@ -271,15 +277,11 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
    */
   const clearFavorites = async () => {
     if (isAuthenticated && user) {
-      // Clear from Firestore for authenticated users
-      try {
-        const firestoreFavorites = await firestoreService.getFavoriteRecipes(user.id);
-        for (const favorite of firestoreFavorites) {
-          await firestoreService.deleteFavoriteRecipe(favorite.id);
-        }
-      } catch (error) {
-        console.error('Error clearing favorites from Firestore:', error);
-      }
+      // Queue a Firestore delete for each favorite of authenticated users
+      const userId = user.id;
+      favorites.forEach(recipeId => {
+        syncQueueService.enqueue({ type: 'deleteFavoriteRecipe', userId, recipeId: recipeId.toString() });
+      });
     }
 
     // Clear local state
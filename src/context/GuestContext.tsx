@@ -1,5 +1,10 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
+import type { ShoppingList } from '../types/shoppingListTypes';
+import type { NutritionGoals } from '../types/nutritionGoalTypes';
+import type { MealPlanTemplate } from '../types/planTemplateTypes';
+import type { PlanEvent, PlanInfo } from './PlanContextTypes';
+import type { MealSlot } from '../types/mealSlotTypes';
 
 // ===== TYPE DEFINITIONS =====
 
@@ -64,6 +69,15 @@ interface GuestData {
     recipe: FavoriteRecipe;      // Complete recipe data
   }>;
   fridgeIngredients: any[];      // Array of ingredients in guest's virtual fridge
+  shoppingList: ShoppingList | null;  // Shopping list generated from the guest's meal plan
+  mealPlanTemplates: MealPlanTemplate[];  // Saved weeks of meals that can be applied again
+  nutritionGoals: NutritionGoals | null;  // Daily nutrition goals, null until the guest sets them
+  planList: PlanInfo[];          // Named meal plans; meals in mealPlans point to them through planId
+  trashedEvents: PlanEvent[];    // Meals in trash, each with the time it was trashed
+  trashRetentionDays: number | null;  // Days meals stay in trash, null until the guest changes it
+  householdSize: number | null;  // Portions to cook for each meal, null to cook recipes as written
+  weeklyBudget: number | null;   // Weekly food budget in US cents, null when no budget is set
+  mealSlots: MealSlot[] | null;  // Times of day the guest eats at, null until they set their own
 }
 
 /**
@@ -74,11 +88,22 @@ interface GuestContextType {
   guestData: GuestData;          // All guest user data
   saveGuestMealPlan: (plan: any) => void;  // Save a new meal plan
   deleteGuestMealPlan: (planId: string) => void;  // Delete a meal plan
+  replaceGuestMealPlans: (plans: PlanEvent[]) => void;  // Replace all meal plans at once
   addGuestFavorite: (recipeData: { id: number; recipeId: string; recipe: FavoriteRecipe }) => void;  // Add recipe to favorites
   removeGuestFavorite: (recipeId: string) => void;  // Remove recipe from favorites
   addGuestFridgeIngredient: (ingredient: any) => void;  // Add ingredient to fridge
   removeGuestFridgeIngredient: (ingredientId: string) => void;  // Remove ingredient from fridge
   updateGuestFridgeIngredient: (ingredientId: string, updates: any) => void;  // Update ingredient in fridge
+  saveGuestShoppingList: (shoppingList: ShoppingList) => void;  // Save the generated shopping list
+  saveGuestMealPlanTemplate: (template: MealPlanTemplate) => void;  // Save a meal plan template
+  deleteGuestMealPlanTemplate: (templateId: string) => void;  // Delete a meal plan template
+  saveGuestNutritionGoals: (goals: NutritionGoals) => void;  // Save daily nutrition goals
+  saveGuestPlanInfo: (plan: PlanInfo) => void;  // Add or update a named meal plan
+  replaceGuestTrashedEvents: (events: PlanEvent[]) => void;  // Replace all meals in trash at once
+  saveGuestTrashRetention: (days: number) => void;  // Save how many days meals stay in trash
+  saveGuestHouseholdSize: (size: number | null) => void;  // Save how many portions to cook for each meal
+  saveGuestWeeklyBudget: (budget: number | null) => void;  // Save the weekly food budget
+  saveGuestMealSlots: (slots: MealSlot[]) => void;  // Save the times of day the guest eats at
   clearGuestData: () => void;    // Clear all guest data
   clearGuestDataOnLogin: () => void;  // Clear guest data when user logs in
   showGuestModeNotification: () => void;  // Show notification about guest mode
@@ -128,7 +153,16 @@ export const GuestProvider: React.FC<GuestProviderProps> = ({ children }) => {
   const [guestData, setGuestData] = useState<GuestData>({
     mealPlans: [],
     favoriteRecipes: [],
-    fridgeIngredients: []
+    fridgeIngredients: [],
+    shoppingList: null,
+    mealPlanTemplates: [],
+    nutritionGoals: null,
+    planList: [],
+    trashedEvents: [],
+    trashRetentionDays: null,
+    householdSize: null,
+    weeklyBudget: null,
+    mealSlots: null
   });
 
   const [isGuestMode, setIsGuestMode] = useState(false);
@@ -187,14 +221,32 @@ export const GuestProvider: React.FC<GuestProviderProps> = ({ children }) => {
           setGuestData({
             mealPlans: [],
             favoriteRecipes: [],
-            fridgeIngredients: []
+            fridgeIngredients: [],
+            shoppingList: null,
+            mealPlanTemplates: [],
+            nutritionGoals: null,
+            planList: [],
+            trashedEvents: [],
+            trashRetentionDays: null,
+            householdSize: null,
+            weeklyBudget: null,
+            mealSlots: null
           });
         }
       } else {
         setGuestData({
           mealPlans: [],
           favoriteRecipes: [],
-          fridgeIngredients: []
+          fridgeIngredients: [],
+          shoppingList: null,
+          mealPlanTemplates: [],
+          nutritionGoals: null,
+          planList: [],
+          trashedEvents: [],
+          trashRetentionDays: null,
+          householdSize: null,
+          weeklyBudget: null,
+          mealSlots: null
         });
       }
     }
@@ -242,12 +294,12 @@ export const GuestProvider: React.FC<GuestProviderProps> = ({ children }) => {
 
   /**
    * Save a new meal plan for guest user
-   * Creates a unique ID for the plan and adds it to guest data
+   * Keeps the plan's ID (or creates one if it has none) and adds it to guest data
    */
   const saveGuestMealPlan = (plan: any) => {
     setGuestData(prev => ({
       ...prev,
-      mealPlans: [...prev.mealPlans, { ...plan, id: `guest-${Date.now()}` }]
+      mealPlans: [...prev.mealPlans, { ...plan, id: plan.id || `guest-${Date.now()}` }]
     }));
   };
 
@@ -262,6 +314,17 @@ export const GuestProvider: React.FC<GuestProviderProps> = ({ children }) => {
     }));
   };
 
+  /**
+   * Replace all of the guest user's meal plans
+   * Used when an edit touches several plans at once, keeping their existing IDs
+   */
+  const replaceGuestMealPlans = (plans: PlanEvent[]) => {
+    setGuestData(prev => ({
+      ...prev,
+      mealPlans: plans
+    }));
+  };
+
   // ===== FAVORITES FUNCTIONS =====
 
   /**
@@ -323,6 +386,119 @@ export const GuestProvider: React.FC<GuestProviderProps> = ({ children }) => {
     }));
   };
 
+  // ===== SHOPPING LIST FUNCTIONS =====
+
+  /**
+   * Save the guest user's shopping list
+   * Replaces any previously generated list
+   */
+  const saveGuestShoppingList = (shoppingList: ShoppingList) => {
+    setGuestData(prev => ({
+      ...prev,
+      shoppingList
+    }));
+  };
+
+  // ===== MEAL PLAN TEMPLATE FUNCTIONS =====
+
+  /**
+   * Save a meal plan template for the guest user
+   * Replaces an existing template with the same ID
+   */
+  const saveGuestMealPlanTemplate = (template: MealPlanTemplate) => {
+    setGuestData(prev => ({
+      ...prev,
+      mealPlanTemplates: [...(prev.mealPlanTemplates || []).filter(t => t.id !== template.id), template]
+    }));
+  };
+
+  /**
+   * Delete a meal plan template for the guest user
+   */
+  const deleteGuestMealPlanTemplate = (templateId: string) => {
+    setGuestData(prev => ({
+      ...prev,
+      mealPlanTemplates: (prev.mealPlanTemplates || []).filter(template => template.id !== templateId)
+    }));
+  };
+
+  // ===== NUTRITION GOAL FUNCTIONS =====
+
+  /**
+   * Save the guest user's daily nutrition goals
+   */
+  const saveGuestNutritionGoals = (goals: NutritionGoals) => {
+    setGuestData(prev => ({
+      ...prev,
+      nutritionGoals: goals
+    }));
+  };
+
+  // ===== PLAN FUNCTIONS =====
+
+  /**
+   * Add or update one of the guest user's named meal plans
+   * Replaces the plan with the same ID if it already exists
+   */
+  const saveGuestPlanInfo = (plan: PlanInfo) => {
+    setGuestData(prev => ({
+      ...prev,
+      planList: [...(prev.planList || []).filter(p => p.id !== plan.id), plan]
+    }));
+  };
+
+  /**
+   * Save how many portions the guest user cooks for each meal
+   */
+  const saveGuestHouseholdSize = (size: number | null) => {
+    setGuestData(prev => ({
+      ...prev,
+      householdSize: size
+    }));
+  };
+
+  /**
+   * Save the guest user's weekly food budget
+   */
+  const saveGuestWeeklyBudget = (budget: number | null) => {
+    setGuestData(prev => ({
+      ...prev,
+      weeklyBudget: budget
+    }));
+  };
+
+  /**
+   * Save the times of day the guest user eats at
+   */
+  const saveGuestMealSlots = (slots: MealSlot[]) => {
+    setGuestData(prev => ({
+      ...prev,
+      mealSlots: slots
+    }));
+  };
+
+  // ===== TRASH FUNCTIONS =====
+
+  /**
+   * Replace the meals in the guest user's trash
+   */
+  const replaceGuestTrashedEvents = (events: PlanEvent[]) => {
+    setGuestData(prev => ({
+      ...prev,
+      trashedEvents: events
+    }));
+  };
+
+  /**
+   * Save how many days meals stay in the guest user's trash
+   */
+  const saveGuestTrashRetention = (days: number) => {
+    setGuestData(prev => ({
+      ...prev,
+      trashRetentionDays: days
+    }));
+  };
+
   // ===== UTILITY FUNCTIONS =====
 
   /**
@@ -333,7 +509,16 @@ export const GuestProvider: React.FC<GuestProviderProps> = ({ children }) => {
     setGuestData({
       mealPlans: [],
       favoriteRecipes: [],
-      fridgeIngredients: []
+      fridgeIngredients: [],
+      shoppingList: null,
+      mealPlanTemplates: [],
+      nutritionGoals: null,
+      planList: [],
+      trashedEvents: [],
+      trashRetentionDays: null,
+      householdSize: null,
+      weeklyBudget: null,
+      mealSlots: null
     });
     // Also clear from localStorage
     localStorage.removeItem('cravrplan_guest_data');
@@ -366,11 +551,22 @@ export const GuestProvider: React.FC<GuestProviderProps> = ({ children }) => {
     guestData,
     saveGuestMealPlan,
     deleteGuestMealPlan,
+    replaceGuestMealPlans,
     addGuestFavorite,
     removeGuestFavorite,
     addGuestFridgeIngredient,
     removeGuestFridgeIngredient,
     updateGuestFridgeIngredient,
+    saveGuestShoppingList,
+    saveGuestMealPlanTemplate,
+    deleteGuestMealPlanTemplate,
+    saveGuestNutritionGoals,
+    saveGuestPlanInfo,
+    replaceGuestTrashedEvents,
+    saveGuestTrashRetention,
+    saveGuestHouseholdSize,
+    saveGuestWeeklyBudget,
+    saveGuestMealSlots,
     clearGuestData,
     clearGuestDataOnLogin,
     showGuestModeNotification
@@ -1,97 +1,103 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
-import { PlanContext, type PlanContextType, type PlanEvent } from './PlanContextTypes';
+import { PlanContext, type PlanContextType, type PlanEvent, type PlanInfo, type RecurrenceEditScope } from './PlanContextTypes';
 // API-First filter service with seamless mock data fallback
-import { filterRecipes as localFilterRecipes } from '../services/filterService';
+import { filterRecipes as localFilterRecipes, getRecipeDetails } from '../services/filterService';
+import { getUserRecipes, userRecipeProvider } from '../services/userRecipeProvider';
 import { useAuth } from './AuthContext';
 import { useGuest } from './GuestContext';
 import { firestoreService } from '../services/firestoreService';
+import { syncQueueService } from '../services/syncQueueService';
+import {
+  createOccurrence,
+  detachOccurrence,
+  endSeriesBefore,
+  excludeOccurrence,
+  expandRecurringEvents,
+  getOccurrenceDates,
+  parseOccurrenceId,
+  startSeriesFrom
+} from '../utils/recurrence';
+import { applyTemplateMeals, createTemplateMeals, isMealAlreadyPlanned } from '../utils/planTemplates';
+import { addDays, daysBetween, toDateString } from '../utils/dateUtils';
+import type { MealPlanTemplate } from '../types/planTemplateTypes';
+import { generateNutritionData, getRecipeNutrition, isEstimatedNutrition } from '../utils/nutritionEstimator';
+import type { NutritionGoals } from '../types/nutritionGoalTypes';
+import { DEFAULT_NUTRITION_GOALS, getMealNutritionTarget, normalizeNutritionGoals, rankRecipesForTarget } from '../utils/nutritionGoals';
+import { buildNutritionReport, sumMealNutrition } from '../utils/nutritionReport';
+import { isCustomRecipeId } from '../utils/icalendar';
+import {
+  DEFAULT_PLAN,
+  DEFAULT_PLAN_ID,
+  getEventPlanId,
+  getStoredActivePlanId,
+  normalizePlans,
+  pickActivePlanId,
+  storeActivePlanId
+} from '../utils/mealPlans';
+import type { PlanHistoryEntry } from '../types/planHistoryTypes';
+import { MAX_HISTORY_ENTRIES, applyEventChanges, diffEvents } from '../utils/planHistory';
+import { DEFAULT_TRASH_RETENTION_DAYS, isTrashExpired, normalizeTrashRetentionDays } from '../utils/trash';
+import { normalizeHouseholdSize } from '../utils/servings';
+import { getLeftovers, isWithinShelfLife, proposeLeftovers } from '../utils/leftovers';
+import { getCostTotals as sumMealCosts, getRecipeCost, normalizeWeeklyBudget, rankCheaperAlternatives } from '../utils/budget';
+import type { Recipe } from '../types/recipeTypes';
+import type { MealSlot } from '../types/mealSlotTypes';
+import { DEFAULT_MEAL_SLOTS, getDefaultSlotId, getEventSlotId, normalizeMealSlots } from '../utils/mealSlots';
 
-// ===== NUTRITION DATA GENERATION =====
+// ===== EVENT IDS =====
+
+// Last event ID handed out, so meals added within the same millisecond still get unique IDs
+let lastEventId = 0;
 
 /**
- * Generate nutrition data based on recipe characteristics
- * Creates realistic nutrition values when actual data is not available
+ * Create a unique ID for a new meal event
+ * IDs are based on the current time, like the IDs of existing events
  */
-const generateNutritionData = (recipe: { title?: string; vegetarian?: boolean; readyInMinutes?: number; servings?: number }, mealType: string) => {
-  // Base nutrition values for different meal types
-  const baseNutrition = {
-    breakfast: { calories: 350, protein: 15, carbs: 45, fat: 12 },
-    'main course': { calories: 500, protein: 22, carbs: 55, fat: 20 },
-    'side dish': { calories: 200, protein: 8, carbs: 25, fat: 8 },
-    dessert: { calories: 300, protein: 5, carbs: 45, fat: 12 },
-    snack: { calories: 200, protein: 8, carbs: 25, fat: 8 }
-  };
-
-  // Get base values for the meal type
-  const base = baseNutrition[mealType as keyof typeof baseNutrition] || baseNutrition['main course'];
-
-  // Start with base values
-  let calories = base.calories;
-  let protein = base.protein;
-  let carbs = base.carbs;
-  let fat = base.fat;
-
-  // Adjust based on recipe title/keywords
-  const title = recipe.title?.toLowerCase() || '';
-
-  // High protein indicators
-  if (title.includes('chicken') || title.includes('fish') || title.includes('salmon') ||
-    title.includes('beef') || title.includes('meat') || title.includes('protein')) {
-    protein += 10;
-    calories += 50;
-  }
+const createEventId = () => {
+  lastEventId = Math.max(Date.now(), lastEventId + 1);
+  return lastEventId.toString();
+};
 
-  // High carb indicators
-  if (title.includes('pasta') || title.includes('rice') || title.includes('bread') ||
-    title.includes('potato') || title.includes('noodle')) {
-    carbs += 15;
-    calories += 80;
-  }
+// ===== NUTRITION BACKFILL =====
 
-  // Low calorie indicators
-  if (title.includes('salad') || title.includes('soup') || title.includes('light') ||
-    title.includes('vegetable')) {
-    calories -= 100;
-    fat -= 5;
-  }
+// Recipes already looked up for nutrition and cost data this session, so recipes without any aren't fetched again
+const checkedNutritionRecipeIds = new Set<number>();
 
-  // High fat indicators
-  if (title.includes('cheese') || title.includes('cream') || title.includes('butter') ||
-    title.includes('fried') || title.includes('bacon')) {
-    fat += 8;
-    calories += 60;
-  }
+// ===== FIRESTORE EVENTS =====
 
-  // Vegetarian adjustments
-  if (recipe.vegetarian || title.includes('vegetarian') || title.includes('vegan')) {
-    protein -= 5;
-    carbs += 10;
-  }
+/**
+ * Check that an event loaded from Firestore has the required PlanEvent structure
+ */
+const isValidEvent = (event: PlanEvent) => !!(event && event.id && event.title && event.date && event.mealType);
 
-  // Quick/easy meal adjustments (usually lower calories)
-  if (recipe.readyInMinutes && recipe.readyInMinutes <= 15) {
-    calories -= 50;
-    protein -= 3;
-  }
+/**
+ * Apply changes still waiting in the sync queue to the events loaded from Firestore
+ * Queued changes are newer than what Firestore has, so they replace the loaded versions
+ * @param collection - Whether the events are planned meals or meals in trash
+ */
+const applyPendingEventChanges = (
+  firestoreEvents: PlanEvent[],
+  userId: string,
+  collection: 'planEvents' | 'trashedEvents' = 'planEvents'
+): PlanEvent[] => {
+  const saveType = collection === 'planEvents' ? 'savePlanEvent' : 'saveTrashedEvent';
+  const deleteType = collection === 'planEvents' ? 'deletePlanEvent' : 'deleteTrashedEvent';
 
-  // Servings adjustment
-  if (recipe.servings) {
-    const servingFactor = recipe.servings;
-    calories = Math.round(calories / servingFactor);
-    protein = Math.round(protein / servingFactor);
-    carbs = Math.round(carbs / servingFactor);
-    fat = Math.round(fat / servingFactor);
-  }
+  const savedById = new Map(syncQueueService.getPending(saveType)
+    .filter(mutation => mutation.userId === userId)
+    .map(mutation => [mutation.event.id, mutation.event]));
+  const deletedIds = new Set(syncQueueService.getPending(deleteType)
+    .filter(mutation => mutation.userId === userId)
+    .map(mutation => mutation.eventId));
 
-  // Return nutrition data with minimum values
-  return {
-    calories: Math.max(150, Math.round(calories)),
-    protein: Math.max(5, Math.round(protein)),
-    carbs: Math.max(10, Math.round(carbs)),
-    fat: Math.max(3, Math.round(fat))
-  };
+  return [
+    ...firestoreEvents
+      .filter(event => !deletedIds.has(event.id))
+      .map(event => savedById.get(event.id) || event),
+    ...[...savedById.values()].filter(event => !firestoreEvents.some(loaded => loaded.id === event.id))
+  ];
 };
 
 // ===== CONTEXT HOOK =====
@@ -129,10 +135,55 @@ interface PlanProviderProps {
 export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
   // ===== STATE MANAGEMENT =====
 
-  const [events, setEvents] = useState<PlanContextType['events']>([]);           // Active meal events
+  const [allEvents, setAllEvents] = useState<PlanEvent[]>([]);                  // Meal events of every plan
   const [trashedEvents, setTrashedEvents] = useState<PlanEvent[]>([]);          // Deleted events (trash)
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);  // Days meals stay in trash
+  const [templates, setTemplates] = useState<MealPlanTemplate[]>([]);           // Saved meal plan templates
+  const [nutritionGoals, setNutritionGoals] = useState<NutritionGoals>(DEFAULT_NUTRITION_GOALS);  // Daily nutrition goals
+  const [householdSize, setHouseholdSize] = useState<number | null>(null);      // Portions to cook for each meal
+  const [weeklyBudget, setWeeklyBudget] = useState<number | null>(null);        // Weekly food budget in US cents
+  const [mealSlots, setMealSlots] = useState<MealSlot[]>(DEFAULT_MEAL_SLOTS);   // Times of day the user eats at
+  const [plans, setPlans] = useState<PlanInfo[]>([DEFAULT_PLAN]);               // Named meal plans
+  const [activePlanId, setActivePlanId] = useState(DEFAULT_PLAN_ID);            // Plan whose meals are shown
+  const [history, setHistory] = useState<{ undo: PlanHistoryEntry[]; redo: PlanHistoryEntry[] }>({ undo: [], redo: [] });  // Undo and redo stacks
   const { user, isAuthenticated } = useAuth();                                  // Authentication state
-  const { isGuestMode, saveGuestMealPlan, deleteGuestMealPlan, guestData } = useGuest();  // Guest mode state
+  const {
+    isGuestMode,
+    replaceGuestMealPlans,
+    saveGuestMealPlanTemplate,
+    deleteGuestMealPlanTemplate,
+    saveGuestNutritionGoals,
+    saveGuestHouseholdSize,
+    saveGuestWeeklyBudget,
+    saveGuestMealSlots,
+    saveGuestPlanInfo,
+    replaceGuestTrashedEvents,
+    saveGuestTrashRetention,
+    guestData
+  } = useGuest();  // Guest mode state
+
+  // Meals of the active plan - everything below works on these
+  const events = allEvents.filter(event => getEventPlanId(event) === activePlanId);
+  const activePlan = plans.find(plan => plan.id === activePlanId) || DEFAULT_PLAN;
+
+  // Latest events of every plan, so several changes made one after another each build on the previous one
+  const eventsRef = useRef<PlanEvent[]>([]);
+  useEffect(() => {
+    eventsRef.current = allEvents;
+  }, [allEvents]);
+
+  // Custom meals of every plan can be found in recipe searches, next to recipes from the other providers
+  useEffect(() => {
+    userRecipeProvider.setRecipes(getUserRecipes(allEvents));
+  }, [allEvents]);
+
+  // Latest trash and history, for the same reason
+  const trashRef = useRef<PlanEvent[]>([]);
+  const historyRef = useRef(history);
+
+  // Number of recorded changes currently running, so changes made inside another one aren't recorded twice
+  const historyDepthRef = useRef(0);
+  const nextHistoryIdRef = useRef(0);
 
   // ===== LOAD MEAL PLANS =====
 
@@ -141,370 +192,1074 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
    * This runs when the component mounts and when user/guest state changes
    */
   useEffect(() => {
+    let unsubscribeEvents: (() => void) | null = null;  // Stops the real-time events listener
+    let isCancelled = false;                            // Set when the user changes before loading finishes
+
     const loadMealPlans = async () => {
+      // Another user's changes can't be undone
+      updateHistory({ undo: [], redo: [] });
+
       if (isAuthenticated && user) {
-        // Load from Firestore for authenticated users
+        const userId = user.id;
+
+        // Write any changes left over from an earlier offline session
+        syncQueueService.flush();
+
+        // Move events out of the old single meal plan document, once per user
         try {
-          const firestoreMealPlans = await firestoreService.getMealPlans(user.id);
-          if (firestoreMealPlans.length > 0) {
-            // Convert Firestore data to events format
-            const eventsData = firestoreMealPlans.flatMap(plan => plan.events || []);
-            // Ensure all events have the required PlanEvent structure
-            const validEvents = eventsData.filter(event =>
-              event &&
-              event.id &&
-              event.title &&
-              event.date &&
-              event.mealType
-            );
-            setEvents(validEvents);
+          const migratedCount = await firestoreService.migrateMealPlansToEvents(userId);
+          if (migratedCount > 0) {
+            console.log(`Migrated ${migratedCount} meal events to individual documents.`);
+          }
+        } catch (error) {
+          console.error('Error migrating meal plans in Firestore:', error);
+        }
+        if (isCancelled) return;
+
+        // Listen to Firestore for authenticated users, so edits from other devices show up live
+        unsubscribeEvents = firestoreService.subscribeToPlanEvents(
+          userId,
+          (firestoreEvents) => {
+            setAllEvents(applyPendingEventChanges(firestoreEvents.filter(isValidEvent), userId));
+          },
+          (error) => {
+            console.error('Error loading meal plans from Firestore:', error);
           }
+        );
+
+        let firestorePlans: PlanInfo[] = [];
+        try {
+          firestorePlans = await firestoreService.getPlans(userId);
+        } catch (error) {
+          console.error('Error loading plans from Firestore:', error);
+        }
+        const pendingPlans = syncQueueService.getPending('savePlan').filter(mutation => mutation.userId === userId);
+        const loadedPlans = normalizePlans([
+          ...firestorePlans.filter(plan => !pendingPlans.some(mutation => mutation.plan.id === plan.id)),
+          ...pendingPlans.map(mutation => mutation.plan)
+        ]);
+        setPlans(loadedPlans);
+        setActivePlanId(pickActivePlanId(loadedPlans, getStoredActivePlanId(userId)));
+
+        const pendingRetention = syncQueueService.getPending('saveTrashRetention').find(mutation => mutation.userId === userId);
+        let retentionDays = DEFAULT_TRASH_RETENTION_DAYS;
+        try {
+          retentionDays = normalizeTrashRetentionDays(pendingRetention?.days ?? await firestoreService.getTrashRetentionDays(userId));
         } catch (error) {
-          console.error('Error loading meal plans from Firestore:', error);
+          console.error('Error loading trash settings from Firestore:', error);
+        }
+
+        let firestoreTrash: PlanEvent[] = [];
+        try {
+          firestoreTrash = await firestoreService.getTrashedEvents(userId);
+        } catch (error) {
+          console.error('Error loading trash from Firestore:', error);
+        }
+        if (isCancelled) return;
+        setTrashRetentionDays(retentionDays);
+        loadTrash(applyPendingEventChanges(firestoreTrash.filter(isValidEvent), userId, 'trashedEvents'), retentionDays);
+
+        try {
+          const firestoreTemplates = await firestoreService.getMealPlanTemplates(user.id);
+          setTemplates(firestoreTemplates);
+        } catch (error) {
+          console.error('Error loading meal plan templates from Firestore:', error);
+        }
+
+        const pendingTemplates = syncQueueService.getPending('saveMealPlanTemplate').filter(mutation => mutation.template.userId === user.id);
+        const pendingTemplateDeletes = syncQueueService.getPending('deleteMealPlanTemplate').filter(mutation => mutation.userId === user.id);
+        if (pendingTemplates.length > 0 || pendingTemplateDeletes.length > 0) {
+          const deletedIds = new Set(pendingTemplateDeletes.map(mutation => mutation.templateId));
+          setTemplates(prev => [
+            ...prev.filter(template => !deletedIds.has(template.id) && !pendingTemplates.some(mutation => mutation.template.id === template.id)),
+            ...pendingTemplates.map(mutation => ({ ...mutation.template, createdAt: mutation.queuedAt }))
+          ]);
+        }
+
+        const pendingGoals = syncQueueService.getPending('saveNutritionGoals').find(mutation => mutation.userId === user.id);
+        try {
+          setNutritionGoals(normalizeNutritionGoals(pendingGoals?.goals || await firestoreService.getNutritionGoals(user.id)));
+        } catch (error) {
+          console.error('Error loading nutrition goals from Firestore:', error);
+        }
+
+        const pendingHouseholdSize = syncQueueService.getPending('saveHouseholdSize').find(mutation => mutation.userId === user.id);
+        try {
+          setHouseholdSize(normalizeHouseholdSize(pendingHouseholdSize ? pendingHouseholdSize.size : await firestoreService.getHouseholdSize(user.id)));
+        } catch (error) {
+          console.error('Error loading household size from Firestore:', error);
+        }
+
+        const pendingWeeklyBudget = syncQueueService.getPending('saveWeeklyBudget').find(mutation => mutation.userId === user.id);
+        try {
+          setWeeklyBudget(normalizeWeeklyBudget(pendingWeeklyBudget ? pendingWeeklyBudget.budget : await firestoreService.getWeeklyBudget(user.id)));
+        } catch (error) {
+          console.error('Error loading weekly budget from Firestore:', error);
+        }
+
+        const pendingMealSlots = syncQueueService.getPending('saveMealSlots').find(mutation => mutation.userId === user.id);
+        try {
+          setMealSlots(normalizeMealSlots(pendingMealSlots?.slots || await firestoreService.getMealSlots(user.id)));
+        } catch (error) {
+          console.error('Error loading meal slots from Firestore:', error);
         }
       } else if (isGuestMode) {
         // Load from guest context for guest users
-        setEvents(guestData.mealPlans || []);
+        const guestPlans = normalizePlans(guestData.planList || []);
+        const guestRetentionDays = normalizeTrashRetentionDays(guestData.trashRetentionDays);
+        setAllEvents(guestData.mealPlans || []);
+        setTrashRetentionDays(guestRetentionDays);
+        loadTrash(guestData.trashedEvents || [], guestRetentionDays);
+        setPlans(guestPlans);
+        setActivePlanId(pickActivePlanId(guestPlans, getStoredActivePlanId('guest')));
+        setTemplates(guestData.mealPlanTemplates || []);
+        setNutritionGoals(normalizeNutritionGoals(guestData.nutritionGoals));
+        setHouseholdSize(normalizeHouseholdSize(guestData.householdSize));
+        setWeeklyBudget(normalizeWeeklyBudget(guestData.weeklyBudget));
+        setMealSlots(normalizeMealSlots(guestData.mealSlots));
       } else {
         // Clear events when not authenticated and not in guest mode
-        setEvents([]);
-        setTrashedEvents([]);
+        setAllEvents([]);
+        loadTrash([], DEFAULT_TRASH_RETENTION_DAYS);
+        setTrashRetentionDays(DEFAULT_TRASH_RETENTION_DAYS);
+        setPlans([DEFAULT_PLAN]);
+        setActivePlanId(DEFAULT_PLAN_ID);
+        setTemplates([]);
+        setNutritionGoals(DEFAULT_NUTRITION_GOALS);
+        setHouseholdSize(null);
+        setWeeklyBudget(null);
+        setMealSlots(DEFAULT_MEAL_SLOTS);
       }
     };
 
     // Only load meal plans when user state changes, not on every guest data change
     loadMealPlans();
+
+    return () => {
+      isCancelled = true;
+      unsubscribeEvents?.();
+    };
   }, [user, isAuthenticated, isGuestMode]);
 
+  // ===== PERSISTENCE HELPERS =====
+
+  /**
+   * Save a change to the list of active events
+   * @param updatedEvents - The events after the change
+   * @param baseEvents - The events the change was made from
+   *
+   * Only the events that differ from baseEvents are written, one document each, so meals
+   * changed meanwhile on another device are kept. Local state updates right away; for
+   * authenticated users the writes go through the sync queue, for guests into guest data.
+   */
+  const saveEvents = async (updatedEvents: PlanEvent[], baseEvents: PlanEvent[] = events) => {
+    const baseById = new Map(baseEvents.map(event => [event.id, event]));
+    const updatedIds = new Set(updatedEvents.map(event => event.id));
+    const changedById = new Map(updatedEvents
+      .filter(event => baseById.get(event.id) !== event)
+      .map(event => [event.id, event]));
+    const removedIds = new Set(baseEvents.filter(event => !updatedIds.has(event.id)).map(event => event.id));
+
+    // Apply the change to the latest events rather than replacing them
+    const latestEvents = eventsRef.current;
+    const mergedEvents = [
+      ...latestEvents
+        .filter(event => !removedIds.has(event.id))
+        .map(event => changedById.get(event.id) || event),
+      ...[...changedById.values()].filter(event => !latestEvents.some(latest => latest.id === event.id))
+    ];
+
+    if (isAuthenticated && user) {
+      const userId = user.id;
+      changedById.forEach(event => syncQueueService.enqueue({ type: 'savePlanEvent', userId, event }));
+      removedIds.forEach(eventId => syncQueueService.enqueue({ type: 'deletePlanEvent', userId, eventId }));
+    } else if (isGuestMode) {
+      replaceGuestMealPlans(mergedEvents);
+    }
+
+    eventsRef.current = mergedEvents;
+    setAllEvents(mergedEvents);
+  };
+
+  /**
+   * Save a change to the meals in trash
+   * @param updatedTrash - The meals in trash after the change
+   *
+   * Like saveEvents, only the meals that changed are written: through the sync queue
+   * for authenticated users, into guest data for guests.
+   */
+  const updateTrash = (updatedTrash: PlanEvent[]) => {
+    if (isAuthenticated && user) {
+      const userId = user.id;
+      diffEvents(trashRef.current, updatedTrash).forEach(change => {
+        if (change.after) {
+          syncQueueService.enqueue({ type: 'saveTrashedEvent', userId, event: change.after });
+        } else if (change.before) {
+          syncQueueService.enqueue({ type: 'deleteTrashedEvent', userId, eventId: change.before.id });
+        }
+      });
+    } else if (isGuestMode) {
+      replaceGuestTrashedEvents(updatedTrash);
+    }
+
+    trashRef.current = updatedTrash;
+    setTrashedEvents(updatedTrash);
+  };
+
+  /**
+   * Show the trash loaded from storage, deleting meals that are past the retention window
+   * @param loadedTrash - The meals in trash as stored
+   * @param retentionDays - Days meals stay in trash
+   */
+  const loadTrash = (loadedTrash: PlanEvent[], retentionDays: number) => {
+    trashRef.current = loadedTrash;
+    setTrashedEvents(loadedTrash);
+
+    const keptTrash = loadedTrash.filter(event => !isTrashExpired(event, retentionDays));
+    if (keptTrash.length < loadedTrash.length) {
+      updateTrash(keptTrash);
+    }
+  };
+
+  // ===== HISTORY HELPERS =====
+
+  /**
+   * Replace the undo and redo stacks
+   */
+  const updateHistory = (updatedHistory: { undo: PlanHistoryEntry[]; redo: PlanHistoryEntry[] }) => {
+    historyRef.current = updatedHistory;
+    setHistory(updatedHistory);
+  };
+
+  /**
+   * Run a change to the plan and add it to the undo history
+   * @param label - What the change does, shown next to the Undo button
+   * @param isDestructive - Whether the change removes meals
+   * @param change - The change to run
+   *
+   * Changes made from inside another recorded change become part of it, so one
+   * user action is always undone in one step. Starting a new change clears redo.
+   */
+  const recordChange = async <T,>(label: string, isDestructive: boolean, change: () => Promise<T>): Promise<T> => {
+    if (historyDepthRef.current > 0) return change();
+
+    const eventsBefore = eventsRef.current;
+    const trashBefore = trashRef.current;
+
+    historyDepthRef.current++;
+    let result: T;
+    try {
+      result = await change();
+    } finally {
+      historyDepthRef.current--;
+    }
+
+    const entry: PlanHistoryEntry = {
+      id: nextHistoryIdRef.current++,
+      label,
+      isDestructive,
+      eventChanges: diffEvents(eventsBefore, eventsRef.current),
+      trashChanges: diffEvents(trashBefore, trashRef.current)
+    };
+    if (entry.eventChanges.length > 0 || entry.trashChanges.length > 0) {
+      updateHistory({
+        undo: [...historyRef.current.undo, entry].slice(-MAX_HISTORY_ENTRIES),
+        redo: []
+      });
+    }
+    return result;
+  };
+
+  /**
+   * Get a meal's title in quotes for history labels
+   */
+  const describeEvent = (event: Pick<PlanEvent, 'title'> | null | undefined) => event ? `"${event.title}"` : 'meal';
+
+  /**
+   * Look up an expanded occurrence by its ID
+   * Returns null for IDs of stored events, so those keep their normal handling
+   */
+  const resolveOccurrence = (id: string): PlanEvent | null => {
+    if (events.some(event => event.id === id)) return null;
+
+    const parsed = parseOccurrenceId(id);
+    if (!parsed) return null;
+
+    const series = events.find(event => event.id === parsed.seriesId);
+    return series?.recurrence ? createOccurrence(series, parsed.date) : null;
+  };
+
+  /**
+   * Add several meal events to the plan in one save
+   * Skips meals whose recipe is already planned for the same date, slot and meal type
+   * Meals that come with an ID keep it, so leftovers and grouped dishes among them stay linked;
+   * links to a skipped meal are dropped
+   * Returns the number of meals that were added
+   */
+  const addEvents = async (newEvents: (Omit<PlanEvent, 'id'> & { id?: string })[]) => {
+    const added: PlanEvent[] = [];
+
+    newEvents.forEach(event => {
+      if (isMealAlreadyPlanned([...getEventsForDate(event.date), ...added], event, mealSlots)) return;
+
+      added.push({
+        ...event,
+        id: event.id || createEventId(),
+        planId: event.planId || activePlanId,
+        nutrition: event.nutrition || generateNutritionData(event, event.mealType)
+      });
+    });
+
+    const plannedIds = new Set([...events, ...added].map(event => event.id));
+    added.forEach(event => {
+      if (event.leftoverOf && !plannedIds.has(event.leftoverOf)) delete event.leftoverOf;
+      if (event.mealGroupId && !plannedIds.has(event.mealGroupId)) delete event.mealGroupId;
+    });
+
+    if (added.length > 0) {
+      await saveEvents([...events, ...added]);
+    }
+    return added.length;
+  };
+
   // ===== MEAL PLAN FUNCTIONS =====
 
   /**
    * Add a meal event to the plan
    * Automatically generates nutrition data if missing
    */
-  const addToPlan: PlanContextType['addToPlan'] = async (event) => {
+  const addToPlan: PlanContextType['addToPlan'] = (event) => recordChange(`Added ${describeEvent(event)}`, false, async () => {
     // Automatically add nutrition data if missing
     const nutrition = event.nutrition || generateNutritionData(event, event.mealType);
 
     const newEvent = {
       ...event,
-      id: Date.now().toString(),
+      id: createEventId(),
+      planId: event.planId || activePlanId,
       nutrition
     };
 
-    if (isAuthenticated && user) {
-      // Save to Firestore for authenticated users
-      try {
-        // Check if user already has a meal plan, if not create one
-        const existingPlans = await firestoreService.getMealPlans(user.id);
-        let mealPlan;
-
-        if (existingPlans.length > 0) {
-          // Update existing plan
-          mealPlan = {
-            ...existingPlans[0],
-            events: [...existingPlans[0].events, newEvent]
-          };
-        } else {
-          // Create new plan
-          mealPlan = {
-            id: `plan-${Date.now()}`,
-            userId: user.id,
-            title: 'My Meal Plan',
-            events: [newEvent]
-          };
+    await saveEvents([...eventsRef.current, newEvent], eventsRef.current);
+  });
+
+  /**
+   * Remove a meal event from the plan
+   * Permanently deletes the event (doesn't move to trash), along with its leftovers
+   */
+  const removeFromPlan: PlanContextType['removeFromPlan'] = (id) => recordChange(
+    `Removed ${describeEvent(eventsRef.current.find(event => event.id === id))}`, true, async () => {
+      await saveEvents(eventsRef.current.filter(event => event.id !== id && event.leftoverOf !== id), eventsRef.current);
+    });
+
+  /**
+   * Move a meal event to trash
+   * Removes from active events and adds to trash for potential restoration
+   * Trashing a batch-cooked meal trashes its leftovers with it
+   */
+  const moveToTrash: PlanContextType['moveToTrash'] = (id) => recordChange(
+    `Moved ${describeEvent(resolveOccurrence(id) || events.find(event => event.id === id))} to trash`, true, async () => {
+      // A single occurrence of a recurring meal only removes that date
+      const occurrence = resolveOccurrence(id);
+      if (occurrence) {
+        await deleteOccurrence(occurrence, 'this');
+        return;
+      }
+
+      const eventToTrash = events.find(event => event.id === id);
+      if (eventToTrash) {
+        // Check if the event is already in trash to prevent duplication
+        const alreadyInTrash = trashRef.current.find(event => event.id === id);
+        if (alreadyInTrash) {
+          console.warn('Event is already in trash:', id);
+          return;
         }
 
-        await firestoreService.saveMealPlan(mealPlan);
-        setEvents(prev => [...prev, newEvent]);
-      } catch (error) {
-        console.error('Error saving meal plan to Firestore:', error);
+        const trashedAt = Date.now();
+        const leftovers = getLeftovers(events, id);
+        await saveEvents(events.filter(event => event.id !== id && event.leftoverOf !== id));
+        updateTrash([
+          ...trashRef.current,
+          ...[eventToTrash, ...leftovers].map(event => ({ ...event, trashedAt }))
+        ]);
       }
-    } else if (isGuestMode) {
-      // Save to guest context for guest users
-      saveGuestMealPlan(newEvent);
-      setEvents(prev => [...prev, newEvent]);
-    }
-  };
+    });
 
   /**
-   * Remove a meal event from the plan
-   * Permanently deletes the event (doesn't move to trash)
+   * Restore a meal event from trash
+   * Moves event back to active events, bringing a batch-cooked meal's leftovers back with it
    */
-  const removeFromPlan: PlanContextType['removeFromPlan'] = async (id) => {
-    if (isAuthenticated && user) {
-      // Remove from Firestore for authenticated users
-      try {
-        const existingPlans = await firestoreService.getMealPlans(user.id);
-        if (existingPlans.length > 0) {
-          const updatedEvents = existingPlans[0].events.filter(event => event.id !== id);
-          const mealPlan = {
-            ...existingPlans[0],
-            events: updatedEvents
-          };
-          await firestoreService.saveMealPlan(mealPlan);
-          setEvents(updatedEvents);
-        }
-      } catch (error) {
-        console.error('Error removing meal from Firestore:', error);
+  const restoreFromTrash: PlanContextType['restoreFromTrash'] = (id) => recordChange(
+    `Restored ${describeEvent(trashRef.current.find(event => event.id === id))}`, false, async () => {
+      const eventToRestore = trashRef.current.find(event => event.id === id);
+      if (eventToRestore) {
+        const restoredEvents = [eventToRestore, ...getLeftovers(trashRef.current, id)].map(event => {
+          const restoredEvent = { ...event };
+          delete restoredEvent.trashedAt;
+          return restoredEvent;
+        });
+        await saveEvents([...events, ...restoredEvents]);
+        updateTrash(trashRef.current.filter(event => event.id !== id && event.leftoverOf !== id));
       }
+    });
+
+  /**
+   * Permanently delete a meal event from trash, along with its leftovers in trash
+   * Cannot be restored after this operation
+   */
+  const deleteFromTrash: PlanContextType['deleteFromTrash'] = (id) => recordChange(
+    `Deleted ${describeEvent(trashRef.current.find(event => event.id === id))} from trash`, true, async () => {
+      updateTrash(trashRef.current.filter(event => event.id !== id && event.leftoverOf !== id));
+    });
+
+  /**
+   * Clear all events from trash
+   * Permanently deletes all trashed events
+   */
+  const clearTrash: PlanContextType['clearTrash'] = () => recordChange('Emptied trash', true, async () => {
+    // Deletes the trashed meals from Firestore or guest data
+    updateTrash([]);
+  });
+
+  /**
+   * Change how many days meals stay in trash
+   * Meals that have been in trash longer than the new window are deleted right away
+   */
+  const updateTrashRetention: PlanContextType['updateTrashRetention'] = async (days) => {
+    const retentionDays = normalizeTrashRetentionDays(days);
+    if (isAuthenticated && user) {
+      syncQueueService.enqueue({ type: 'saveTrashRetention', userId: user.id, days: retentionDays });
     } else if (isGuestMode) {
-      // Remove from guest context for guest users
-      deleteGuestMealPlan(id);
-      setEvents(prev => prev.filter(event => event.id !== id));
+      saveGuestTrashRetention(retentionDays);
+    }
+
+    setTrashRetentionDays(retentionDays);
+    const keptTrash = trashRef.current.filter(event => !isTrashExpired(event, retentionDays));
+    if (keptTrash.length < trashRef.current.length) {
+      updateTrash(keptTrash);
     }
   };
 
+  // ===== EVENT MANAGEMENT FUNCTIONS =====
+
   /**
-   * Move a meal event to trash
-   * Removes from active events and adds to trash for potential restoration
+   * Update an existing meal event
+   * Modifies event properties while keeping the same ID
+   * Updating a single occurrence of a recurring meal splits it off from the series
+   */
+  const updateEvent: PlanContextType['updateEvent'] = (id, updatedEvent) => recordChange(`Updated ${describeEvent(updatedEvent)}`, false, async () => {
+    const occurrence = resolveOccurrence(id);
+    if (occurrence) {
+      await updateOccurrence(occurrence, updatedEvent, 'this');
+      return;
+    }
+
+    await saveEvents(events.map(event => event.id === id ? updatedEvent : event));
+  });
+
+  /**
+   * Move a meal event to a different date, and to another slot when one is given
+   * Updates the event's date while keeping all other properties
+   * Dishes served with the meal and a batch-cooked meal's leftovers move along; leftovers
+   * can only be moved to dates within the shelf life of the meal they come from, and a
+   * dish moved away from its meal on its own is no longer part of it
    */
-  const moveToTrash: PlanContextType['moveToTrash'] = async (id) => {
-    const eventToTrash = events.find(event => event.id === id);
-    if (eventToTrash) {
-      // Check if the event is already in trash to prevent duplication
-      const alreadyInTrash = trashedEvents.find(event => event.id === id);
-      if (alreadyInTrash) {
-        console.warn('Event is already in trash:', id);
+  const moveEvent: PlanContextType['moveEvent'] = (id, newDate, slot) => recordChange(
+    `Moved ${describeEvent(resolveOccurrence(id) || events.find(event => event.id === id))}`, false, async () => {
+      // Moving a single occurrence of a recurring meal splits it off from the series
+      const occurrence = resolveOccurrence(id);
+      if (occurrence) {
+        await updateOccurrence(occurrence, slot ? { date: newDate, slot } : { date: newDate }, 'this');
         return;
       }
 
-      const updatedEvents = events.filter(event => event.id !== id);
+      const eventToMove = events.find(event => event.id === id);
+      const source = eventToMove?.leftoverOf && events.find(event => event.id === eventToMove.leftoverOf);
+      if (source && !isWithinShelfLife(source.date, newDate)) {
+        console.warn('Leftovers can only be moved to dates within their shelf life:', id);
+        return;
+      }
 
-      if (isAuthenticated && user) {
-        // Update in Firestore for authenticated users
-        try {
-          const existingPlans = await firestoreService.getMealPlans(user.id);
-          if (existingPlans.length > 0) {
-            const mealPlan = {
-              ...existingPlans[0],
-              events: updatedEvents
-            };
-            await firestoreService.saveMealPlan(mealPlan);
-          }
-        } catch (error) {
-          console.error('Error updating meal plan in Firestore:', error);
+      const shift = eventToMove ? daysBetween(eventToMove.date, newDate) : 0;
+      const newSlot = slot || (eventToMove && getEventSlotId(eventToMove, mealSlots));
+      await saveEvents(events.map(event => {
+        if (event.id === id) {
+          const moved: PlanEvent = { ...event, date: newDate };
+          if (slot) moved.slot = slot;
+          if (moved.mealGroupId && (shift !== 0 || newSlot !== getEventSlotId(event, mealSlots))) delete moved.mealGroupId;
+          return moved;
         }
-      }
+        if (event.mealGroupId === id) return newSlot ? { ...event, date: newDate, slot: newSlot } : { ...event, date: newDate };
+        if (event.leftoverOf === id) return { ...event, date: addDays(event.date, shift) };
+        return event;
+      }));
+    });
+
+  // ===== LEFTOVER FUNCTIONS =====
+
+  /**
+   * Mark a meal as batch-cooked and plan its spare portions as leftovers, or unmark it
+   * @param id - ID of the meal
+   * @param makesLeftovers - Whether the meal makes leftovers
+   * @returns Leftover meals planned
+   *
+   * Leftovers already planned for the meal are replaced, so changing its portions and
+   * marking it again plans them afresh. Recurring meals can't make leftovers.
+   */
+  const setMakesLeftovers: PlanContextType['setMakesLeftovers'] = (id, makesLeftovers) => recordChange(
+    `${makesLeftovers ? 'Planned' : 'Removed'} leftovers of ${describeEvent(eventsRef.current.find(event => event.id === id))}`, !makesLeftovers, async () => {
+      const source = eventsRef.current.find(event => event.id === id);
+      if (!source || source.recurrence || source.leftoverOf) return 0;
 
-      setEvents(updatedEvents);
-      setTrashedEvents(prev => [...prev, eventToTrash]);
+      const updatedSource: PlanEvent = { ...source, makesLeftovers };
+      if (!makesLeftovers) delete updatedSource.makesLeftovers;
+
+      const leftovers = makesLeftovers
+        ? proposeLeftovers(updatedSource, householdSize).map(leftover => ({ ...leftover, id: createEventId() }))
+        : [];
+
+      await saveEvents([
+        ...eventsRef.current
+          .filter(event => event.leftoverOf !== id)
+          .map(event => event.id === id ? updatedSource : event),
+        ...leftovers
+      ], eventsRef.current);
+      return leftovers.length;
+    });
+
+  // ===== PLAN FUNCTIONS =====
+
+  /**
+   * Save a plan's name and archived state
+   * Queued for Firestore for authenticated users, stored in guest data for guests
+   */
+  const savePlanInfo = (plan: PlanInfo) => {
+    if (isAuthenticated && user) {
+      syncQueueService.enqueue({ type: 'savePlan', userId: user.id, plan });
+    } else if (isGuestMode) {
+      saveGuestPlanInfo(plan);
     }
+
+    setPlans(prev => normalizePlans([...prev.filter(p => p.id !== plan.id), plan]));
   };
 
   /**
-   * Restore a meal event from trash
-   * Moves event back to active events
+   * Show another plan's meals
+   * The choice is remembered on this device. Undo history is cleared, since it
+   * belongs to the plan it was made in and undoing it would change a plan that isn't shown.
    */
-  const restoreFromTrash: PlanContextType['restoreFromTrash'] = async (id) => {
-    const eventToRestore = trashedEvents.find(event => event.id === id);
-    if (eventToRestore) {
-      const updatedEvents = [...events, eventToRestore];
+  const switchPlan: PlanContextType['switchPlan'] = (planId) => {
+    if (planId !== activePlanId) {
+      updateHistory({ undo: [], redo: [] });
+    }
+    setActivePlanId(planId);
+    storeActivePlanId(user?.id || 'guest', planId);
+  };
 
-      if (isAuthenticated && user) {
-        // Update in Firestore for authenticated users
-        try {
-          const existingPlans = await firestoreService.getMealPlans(user.id);
-          if (existingPlans.length > 0) {
-            const mealPlan = {
-              ...existingPlans[0],
-              events: updatedEvents
-            };
-            await firestoreService.saveMealPlan(mealPlan);
-          }
-        } catch (error) {
-          console.error('Error updating meal plan in Firestore:', error);
-        }
-      }
+  /**
+   * Create a new, empty plan and switch to it
+   */
+  const createPlan: PlanContextType['createPlan'] = async (title) => {
+    const plan: PlanInfo = {
+      id: `plan-${Date.now()}`,
+      title: title.trim(),
+      archived: false,
+      createdAt: Date.now()
+    };
+
+    savePlanInfo(plan);
+    switchPlan(plan.id);
+    return plan.id;
+  };
+
+  /**
+   * Rename a plan
+   */
+  const renamePlan: PlanContextType['renamePlan'] = async (planId, title) => {
+    const plan = plans.find(p => p.id === planId);
+    if (!plan || !title.trim()) return;
+
+    savePlanInfo({ ...plan, title: title.trim() });
+  };
 
-      setTrashedEvents(prev => prev.filter(event => event.id !== id));
-      setEvents(updatedEvents);
+  /**
+   * Archive a plan, or bring an archived plan back
+   * Archived plans keep their meals. Archiving the active plan switches to another open plan,
+   * and the last open plan can't be archived.
+   */
+  const setPlanArchived: PlanContextType['setPlanArchived'] = async (planId, archived) => {
+    const plan = plans.find(p => p.id === planId);
+    if (!plan) return;
+
+    const otherOpenPlans = plans.filter(p => !p.archived && p.id !== planId);
+    if (archived && otherOpenPlans.length === 0) return;
+
+    savePlanInfo({ ...plan, archived });
+    if (archived && planId === activePlanId) {
+      switchPlan(otherOpenPlans[0].id);
     }
   };
 
+  // ===== RECURRING MEAL FUNCTIONS =====
+
   /**
-   * Permanently delete a meal event from trash
-   * Cannot be restored after this operation
+   * Find the series an occurrence belongs to
+   * Returns the series event and the scope to use, treating "this and following"
+   * on the first occurrence as "all" since nothing would be left of the original series
    */
-  const deleteFromTrash: PlanContextType['deleteFromTrash'] = async (id) => {
-    setTrashedEvents(prev => prev.filter(event => event.id !== id));
+  const getSeriesForOccurrence = (occurrence: PlanEvent, scope: RecurrenceEditScope) => {
+    const series = events.find(event => event.id === (occurrence.seriesId || occurrence.id));
+    if (!series?.recurrence) {
+      return { series, scope: 'all' as RecurrenceEditScope };
+    }
+
+    const firstDate = getOccurrenceDates(series, series.date, occurrence.date, true)[0];
+    return {
+      series,
+      scope: scope === 'following' && occurrence.date === firstDate ? 'all' as RecurrenceEditScope : scope
+    };
   };
 
   /**
-   * Clear all events from trash
-   * Permanently deletes all trashed events
+   * Edit one occurrence of a recurring meal, it and the following ones, or the whole series
+   * Editing one occurrence turns it into a standalone meal and removes its date from the series.
+   * Editing the following occurrences ends the series the day before and starts a new one.
+   * Date changes only apply to a single occurrence; series keep their start date.
    */
-  const clearTrash: PlanContextType['clearTrash'] = async () => {
+  const updateOccurrence: PlanContextType['updateOccurrence'] = (occurrence, updates, scope) => recordChange(`Updated ${describeEvent(occurrence)}`, false, async () => {
+    const { series, scope: effectiveScope } = getSeriesForOccurrence(occurrence, scope);
+    if (!series) return;
+
+    // Never let an edit overwrite the series identity
+    const seriesUpdates: Partial<PlanEvent> = { ...updates };
+    delete seriesUpdates.id;
+    delete seriesUpdates.date;
+    delete seriesUpdates.seriesId;
+    delete seriesUpdates.recurrenceExceptions;
+
+    if (effectiveScope === 'all' || !series.recurrence) {
+      await saveEvents(events.map(event =>
+        event.id === series.id ? { ...event, ...seriesUpdates } : event
+      ));
+      return;
+    }
+
+    if (effectiveScope === 'this') {
+      const standalone: PlanEvent = {
+        ...detachOccurrence({ ...series, ...seriesUpdates }, updates.date || occurrence.date),
+        id: createEventId()
+      };
+      await saveEvents([
+        ...events.map(event => event.id === series.id ? excludeOccurrence(event, occurrence.date) : event),
+        standalone
+      ]);
+      return;
+    }
+
+    const newSeries: PlanEvent = {
+      ...startSeriesFrom({ ...series, ...seriesUpdates }, occurrence.date),
+      id: createEventId()
+    };
+    await saveEvents([
+      ...events.map(event => event.id === series.id ? endSeriesBefore(event, occurrence.date) : event),
+      newSeries
+    ]);
+  });
+
+  /**
+   * Move one occurrence of a recurring meal, it and the following ones, or the whole series to trash
+   * The removed occurrences go to trash as their own event so they can be restored
+   */
+  const deleteOccurrence: PlanContextType['deleteOccurrence'] = (occurrence, scope) => recordChange(`Moved ${describeEvent(occurrence)} to trash`, true, async () => {
+    const { series, scope: effectiveScope } = getSeriesForOccurrence(occurrence, scope);
+    if (!series) return;
+
+    if (effectiveScope === 'all' || !series.recurrence) {
+      await moveToTrash(series.id);
+      return;
+    }
+
+    if (effectiveScope === 'this') {
+      await saveEvents(events.map(event =>
+        event.id === series.id ? excludeOccurrence(event, occurrence.date) : event
+      ));
+      updateTrash([...trashRef.current, { ...detachOccurrence(series, occurrence.date), id: createEventId(), trashedAt: Date.now() }]);
+      return;
+    }
+
+    await saveEvents(events.map(event =>
+      event.id === series.id ? endSeriesBefore(event, occurrence.date) : event
+    ));
+    updateTrash([...trashRef.current, { ...startSeriesFrom(series, occurrence.date), id: createEventId(), trashedAt: Date.now() }]);
+  });
+
+  // ===== TEMPLATE FUNCTIONS =====
+
+  /**
+   * Save the meals in a date range as a named template
+   * Recurring meals are saved as plain meals on the days they fall on
+   */
+  const saveRangeAsTemplate: PlanContextType['saveRangeAsTemplate'] = async (name, startDate, endDate) => {
+    const template: MealPlanTemplate = {
+      id: `template-${Date.now()}`,
+      userId: user?.id || 'guest',
+      name: name.trim(),
+      lengthInDays: daysBetween(startDate, endDate) + 1,
+      meals: createTemplateMeals(getEventsInRange(startDate, endDate), startDate),
+      createdAt: Date.now()
+    };
+
     if (isAuthenticated && user) {
-      // Clear trash from Firestore for authenticated users
-      try {
-        // Note: Firestore doesn't store trash separately, so we just clear the local state
-        // The trash is only stored locally in the app state
-        setTrashedEvents([]);
-      } catch (error) {
-        console.error('Error clearing trash from Firestore:', error);
-      }
+      // Queue the Firestore write for authenticated users
+      syncQueueService.enqueue({ type: 'saveMealPlanTemplate', template });
     } else if (isGuestMode) {
-      // Clear trash from guest context for guest users
-      // Note: Guest context doesn't store trash separately, so we just clear the local state
-      setTrashedEvents([]);
-    } else {
-      // For any other case, just clear the local state
-      setTrashedEvents([]);
+      // Save to guest context for guest users
+      saveGuestMealPlanTemplate(template);
     }
+
+    setTemplates(prev => [...prev, template]);
   };
 
-  // ===== EVENT MANAGEMENT FUNCTIONS =====
+  /**
+   * Add a template's meals to the plan starting from a date
+   * Dates are shifted so the template's first day lands on the start date
+   */
+  const applyTemplate: PlanContextType['applyTemplate'] = async (templateId, startDate) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return 0;
+
+    return recordChange(`Applied "${template.name}"`, false, () => addEvents(applyTemplateMeals(template.meals, startDate, createEventId)));
+  };
 
   /**
-   * Update an existing meal event
-   * Modifies event properties while keeping the same ID
+   * Delete a saved template
+   * Meals already added from the template stay in the plan
    */
-  const updateEvent: PlanContextType['updateEvent'] = (id, updatedEvent) => {
-    setEvents(prev => prev.map(event => event.id === id ? updatedEvent : event));
+  const deleteTemplate: PlanContextType['deleteTemplate'] = async (templateId) => {
+    if (isAuthenticated && user) {
+      // Queue the Firestore delete for authenticated users
+      syncQueueService.enqueue({ type: 'deleteMealPlanTemplate', userId: user.id, templateId });
+    } else if (isGuestMode) {
+      // Delete from guest context for guest users
+      deleteGuestMealPlanTemplate(templateId);
+    }
+
+    setTemplates(prev => prev.filter(template => template.id !== templateId));
   };
 
   /**
-   * Move a meal event to a different date
-   * Updates the event's date while keeping all other properties
+   * Copy the meals in a date range to another start date
+   * Used for "copy last week to this week" without saving a template first
    */
-  const moveEvent: PlanContextType['moveEvent'] = async (id, newDate) => {
-    const updatedEvents = events.map(event =>
-      event.id === id ? { ...event, date: newDate } : event
+  const copyDateRange: PlanContextType['copyDateRange'] = async (sourceStart, sourceEnd, targetStart) => {
+    const meals = createTemplateMeals(getEventsInRange(sourceStart, sourceEnd), sourceStart);
+    return recordChange('Copied meals', false, () => addEvents(applyTemplateMeals(meals, targetStart, createEventId)));
+  };
+
+  // ===== IMPORT FUNCTIONS =====
+
+  /**
+   * Add meals imported from another calendar
+   * Meals already planned for the same date and meal type are skipped, so importing twice is safe.
+   * Custom meals get a new recipe ID on every import, so they are matched by title instead.
+   */
+  const importEvents: PlanContextType['importEvents'] = async (newEvents) => {
+    const notYetPlanned = newEvents.filter(meal =>
+      !isCustomRecipeId(meal.recipeId) ||
+      !getEventsForDate(meal.date).some(event => event.title === meal.title && event.mealType === meal.mealType)
     );
+    return recordChange('Imported meals', false, () => addEvents(notYetPlanned));
+  };
 
+  // ===== NUTRITION GOAL FUNCTIONS =====
+
+  /**
+   * Save new daily nutrition goals
+   * Goals are stored with the user's profile, or in guest data for guest users
+   */
+  const updateNutritionGoals: PlanContextType['updateNutritionGoals'] = async (goals) => {
     if (isAuthenticated && user) {
-      // Update in Firestore for authenticated users
-      try {
-        const existingPlans = await firestoreService.getMealPlans(user.id);
-        if (existingPlans.length > 0) {
-          const mealPlan = {
-            ...existingPlans[0],
-            events: updatedEvents
-          };
-          await firestoreService.saveMealPlan(mealPlan);
-        }
-      } catch (error) {
-        console.error('Error updating meal plan in Firestore:', error);
-      }
+      syncQueueService.enqueue({ type: 'saveNutritionGoals', userId: user.id, goals });
+    } else if (isGuestMode) {
+      saveGuestNutritionGoals(goals);
     }
 
-    setEvents(updatedEvents);
+    setNutritionGoals(goals);
   };
 
+  // ===== HOUSEHOLD FUNCTIONS =====
+
   /**
-   * Clear all meal events from the plan
-   * Removes all events but doesn't move them to trash
+   * Save how many portions to cook for each meal
+   * Meals with their own portions keep them; null cooks every recipe as written
    */
-  const clearAll: PlanContextType['clearAll'] = () => {
-    setEvents([]);
+  const updateHouseholdSize: PlanContextType['updateHouseholdSize'] = async (size) => {
+    const normalizedSize = normalizeHouseholdSize(size);
+    if (isAuthenticated && user) {
+      syncQueueService.enqueue({ type: 'saveHouseholdSize', userId: user.id, size: normalizedSize });
+    } else if (isGuestMode) {
+      saveGuestHouseholdSize(normalizedSize);
+    }
+
+    setHouseholdSize(normalizedSize);
   };
 
+  // ===== BUDGET FUNCTIONS =====
+
+  /**
+   * Save the weekly food budget
+   * @param budget - Budget in US cents, or null to stop tracking a budget
+   */
+  const updateWeeklyBudget: PlanContextType['updateWeeklyBudget'] = async (budget) => {
+    const normalizedBudget = normalizeWeeklyBudget(budget);
+    if (isAuthenticated && user) {
+      syncQueueService.enqueue({ type: 'saveWeeklyBudget', userId: user.id, budget: normalizedBudget });
+    } else if (isGuestMode) {
+      saveGuestWeeklyBudget(normalizedBudget);
+    }
+
+    setWeeklyBudget(normalizedBudget);
+  };
+
+  /**
+   * Find similar recipes of the same meal type that cost less per serving
+   * Returns nothing for meals without a price, e.g. custom meals
+   */
+  const getCheaperAlternatives: PlanContextType['getCheaperAlternatives'] = async (event) => {
+    if (!event.cost) return [];
+
+    try {
+      const [original, response] = await Promise.all([
+        getRecipeDetails(event.recipeId).catch(() => null),
+        localFilterRecipes({ type: event.mealType, number: 50 })
+      ]);
+      return rankCheaperAlternatives(event, original, response.recipes || []);
+    } catch (error) {
+      console.error('Error finding cheaper alternatives:', error);
+      return [];
+    }
+  };
+
+  // ===== MEAL SLOT FUNCTIONS =====
+
+  /**
+   * Save the times of day the user eats at
+   * Meals in a removed slot aren't changed; they show in their meal type's slot instead
+   */
+  const updateMealSlots: PlanContextType['updateMealSlots'] = async (slots) => {
+    const normalizedSlots = normalizeMealSlots(slots);
+    if (isAuthenticated && user) {
+      syncQueueService.enqueue({ type: 'saveMealSlots', userId: user.id, slots: normalizedSlots });
+    } else if (isGuestMode) {
+      saveGuestMealSlots(normalizedSlots);
+    }
+
+    setMealSlots(normalizedSlots);
+  };
+
+  /**
+   * Clear all meal events from the active plan
+   * Removes the plan's events but doesn't move them to trash
+   */
+  const clearAll: PlanContextType['clearAll'] = () => recordChange('Cleared the plan', true, async () => {
+    await saveEvents([]);
+  });
+
   /**
    * Clear all meal events and move them to trash
    * Allows for potential restoration of all events
    */
-  const clearAllToTrash: PlanContextType['clearAllToTrash'] = async () => {
+  const clearAllToTrash: PlanContextType['clearAllToTrash'] = () => recordChange('Moved all meals to trash', true, async () => {
     if (events.length === 0) return;
 
     // Move all events to trash at once
-    const eventsToMove = [...events];
-
-    if (isAuthenticated && user) {
-      // Update in Firestore for authenticated users
-      try {
-        const existingPlans = await firestoreService.getMealPlans(user.id);
-        if (existingPlans.length > 0) {
-          const mealPlan = {
-            ...existingPlans[0],
-            events: []
-          };
-          await firestoreService.saveMealPlan(mealPlan);
-        }
-      } catch (error) {
-        console.error('Error updating meal plan in Firestore:', error);
-      }
-    }
+    const trashedAt = Date.now();
+    const eventsToMove = events.map(event => ({ ...event, trashedAt }));
 
     // Clear events and add all to trash
-    setEvents([]);
-    setTrashedEvents(prev => [...prev, ...eventsToMove]);
+    await saveEvents([]);
+    updateTrash([...trashRef.current, ...eventsToMove]);
+  });
+
+  // ===== HISTORY FUNCTIONS =====
+
+  /**
+   * Undo the most recent change to the plan or trash
+   * Only the meals the change touched are put back, so later edits to other meals stay
+   */
+  const undo: PlanContextType['undo'] = async () => {
+    const entry = historyRef.current.undo[historyRef.current.undo.length - 1];
+    if (!entry) return;
+
+    updateHistory({
+      undo: historyRef.current.undo.slice(0, -1),
+      redo: [...historyRef.current.redo, entry]
+    });
+    await saveEvents(applyEventChanges(eventsRef.current, entry.eventChanges, 'undo'), eventsRef.current);
+    updateTrash(applyEventChanges(trashRef.current, entry.trashChanges, 'undo'));
+  };
+
+  /**
+   * Redo the most recently undone change
+   */
+  const redo: PlanContextType['redo'] = async () => {
+    const entry = historyRef.current.redo[historyRef.current.redo.length - 1];
+    if (!entry) return;
+
+    updateHistory({
+      undo: [...historyRef.current.undo, entry],
+      redo: historyRef.current.redo.slice(0, -1)
+    });
+    await saveEvents(applyEventChanges(eventsRef.current, entry.eventChanges, 'redo'), eventsRef.current);
+    updateTrash(applyEventChanges(trashRef.current, entry.trashChanges, 'redo'));
   };
 
   // ===== UTILITY FUNCTIONS =====
 
   /**
    * Get all meal events for a specific date
-   * Returns an array of events scheduled for the given date
+   * Returns an array of events scheduled for the given date, including recurring meals
    */
   const getEventsForDate: PlanContextType['getEventsForDate'] = (date) => {
-    return events.filter(event => event.date === date);
+    return expandRecurringEvents(events, date, date);
+  };
+
+  /**
+   * Get all meal events in a date range
+   * Recurring meals are expanded into one event per occurrence
+   */
+  const getEventsInRange: PlanContextType['getEventsInRange'] = (startDate, endDate) => {
+    return expandRecurringEvents(events, startDate, endDate);
   };
 
   /**
    * Calculate nutritional statistics for a specific date
-   * Sums up all nutrition data from events on the given date
+   * Sums up all nutrition data from events on the given date. Nutrition is stored per
+   * serving and multiplied by the servings each person eats, so the totals are per person.
    */
   const getNutritionalStats: PlanContextType['getNutritionalStats'] = (date) => {
-    const dayEvents = getEventsForDate(date);
-
-    return dayEvents.reduce((stats, event) => {
-      if (event.nutrition) {
-        stats.calories += event.nutrition.calories;
-        stats.protein += event.nutrition.protein;
-        stats.carbs += event.nutrition.carbs;
-        stats.fat += event.nutrition.fat;
-      }
-      return stats;
-    }, { calories: 0, protein: 0, carbs: 0, fat: 0 });
+    return sumMealNutrition(getEventsForDate(date), householdSize);
+  };
+
+  /**
+   * Build a nutrition report for a date range
+   * Includes a per-day series, averages, adherence to the user's goals and the macro split
+   */
+  const getNutritionReport: PlanContextType['getNutritionReport'] = (startDate, endDate) => {
+    return buildNutritionReport(getEventsInRange(startDate, endDate), startDate, endDate, nutritionGoals, householdSize);
+  };
+
+  /**
+   * Estimate the cost of the meals in a date range
+   * Each meal costs its recipe's price per serving times the portions cooked
+   */
+  const getCostTotals: PlanContextType['getCostTotals'] = (startDate, endDate) => {
+    return sumMealCosts(getEventsInRange(startDate, endDate), householdSize);
   };
 
   /**
    * Ensure all events have nutrition data
-   * Generates nutrition data for events that don't have it
-   */
-  const ensureNutritionData = () => {
-    setEvents(prev => prev.map(event => {
-      if (!event.nutrition) {
-        return {
-          ...event,
-          nutrition: generateNutritionData(event, event.mealType)
-        };
+   * Replaces estimated nutrition with the recipe's real values where the recipe has them,
+   * and estimates nutrition for events that have none at all. Meals planned before cost
+   * tracking get the recipe's price per serving from the same lookup.
+   * Returns the number of events that were updated
+   */
+  const ensureNutritionData: PlanContextType['ensureNutritionData'] = async () => {
+    const needsCost = (event: PlanEvent) => !event.cost && !event.leftoverOf && !isCustomRecipeId(event.recipeId);
+    const recipeIds = [...new Set(events
+      .filter(event => isEstimatedNutrition(event.nutrition) || needsCost(event))
+      .map(event => event.recipeId))]
+      .filter(recipeId => !checkedNutritionRecipeIds.has(recipeId));
+
+    // Look up each recipe once, however many times it is planned
+    const recipesById = new Map<number, Recipe>();
+    for (const recipeId of recipeIds) {
+      checkedNutritionRecipeIds.add(recipeId);
+      try {
+        const recipe = await getRecipeDetails(recipeId);
+        if (recipe) recipesById.set(recipeId, recipe);
+      } catch (error) {
+        console.error(`Error loading nutrition data for recipe ${recipeId}:`, error);
+      }
+    }
+
+    // Patch the latest events rather than the ones read before loading the recipes,
+    // so meals moved, deleted or synced from another tab in the meantime stay as they are
+    const checkedEventIds = new Set(events.map(event => event.id));
+    const latestEvents = eventsRef.current;
+
+    let updatedCount = 0;
+    const updatedEvents = latestEvents.map(event => {
+      if (!checkedEventIds.has(event.id)) return event;
+
+      const recipe = recipesById.get(event.recipeId);
+      let updatedEvent = event;
+
+      const recipeNutrition = recipe && getRecipeNutrition(recipe, 'main course');
+      if (recipeNutrition && !isEstimatedNutrition(recipeNutrition) && isEstimatedNutrition(event.nutrition)) {
+        updatedEvent = { ...updatedEvent, nutrition: recipeNutrition };
+      } else if (!event.nutrition) {
+        updatedEvent = { ...updatedEvent, nutrition: generateNutritionData(event, event.mealType) };
+      }
+
+      const recipeCost = recipe && getRecipeCost(recipe);
+      if (recipeCost && needsCost(event)) {
+        updatedEvent = { ...updatedEvent, cost: recipeCost };
       }
-      return event;
-    }));
+
+      if (updatedEvent !== event) updatedCount++;
+      return updatedEvent;
+    });
+
+    if (updatedCount > 0) {
+      await saveEvents(updatedEvents, latestEvents);
+    }
+    return updatedCount;
   };
 
   /**
    * Get quick meal suggestions based on meal type and time constraint
+   * Suggestions are for the given slot, or the slot the meal type is usually eaten at
+   * Recipes of the meal type's dish type are ranked by how well they fill what is left of
+   * the day's nutrition goals, shared between the day's slots that have no meal yet
    * Uses API-first approach with seamless mock data fallback
    */
-  const getQuickSuggestions: PlanContextType['getQuickSuggestions'] = async (mealType, maxTime = 30) => {
+  const getQuickSuggestions: PlanContextType['getQuickSuggestions'] = async (mealType, maxTime = 30, slot, date) => {
+    const suggestionSlot = slot && mealSlots.some(mealSlot => mealSlot.id === slot) ? slot : getDefaultSlotId(mealType, mealSlots);
+    const suggestionDate = date || toDateString(new Date());
+
+    const dayEvents = getEventsForDate(suggestionDate);
+    const openSlots = mealSlots.filter(mealSlot =>
+      mealSlot.id === suggestionSlot || !dayEvents.some(event => getEventSlotId(event, mealSlots) === mealSlot.id)
+    ).length;
+    const target = getMealNutritionTarget(nutritionGoals, getNutritionalStats(suggestionDate), openSlots);
+
     try {
-      // Search for quick recipes based on meal type and time constraint
+      // Search for quick recipes of the meal type's dish type, more than are shown so the best fits can be picked
       const searchParams = {
-        query: mealType,
+        type: mealType,
         maxReadyTime: maxTime,
-        number: 5
+        number: 20
       };
 
       // API-first approach - tries API, falls back to mock data seamlessly
       const response = await localFilterRecipes(searchParams);
-      const recipes = response.recipes || [];
+      const recipes = rankRecipesForTarget(response.recipes || [], target, mealType).slice(0, 5);
 
       return recipes.map((recipe: any) => ({
         id: `suggestion-${Date.now()}-${recipe.id}`,
         title: recipe.title,
-        date: new Date().toISOString().split('T')[0],
+        date: suggestionDate,
         recipeId: recipe.id,
         mealType,
+        slot: suggestionSlot,
         image: recipe.image,
         difficulty: recipe.readyInMinutes <= 15 ? 'easy' :
           recipe.readyInMinutes <= 30 ? 'medium' : 'hard',
         prepTime: Math.floor(recipe.readyInMinutes * 0.4),
         cookTime: Math.floor(recipe.readyInMinutes * 0.6),
         servings: recipe.servings,
-        nutrition: generateNutritionData(recipe, mealType)
+        nutrition: getRecipeNutrition(recipe, mealType),
+        cost: getRecipeCost(recipe)
       }));
     } catch (error) {
       console.error('Error getting quick suggestions:', error);
@@ -530,18 +1285,51 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     <PlanContext.Provider value={{
       events,
       trashedEvents,
+      trashRetentionDays,
+      templates,
+      nutritionGoals,
+      householdSize,
+      weeklyBudget,
+      mealSlots,
+      plans,
+      activePlan,
+      nextUndo: history.undo[history.undo.length - 1] || null,
+      nextRedo: history.redo[history.redo.length - 1] || null,
       addToPlan,
       removeFromPlan,
       moveToTrash,
       restoreFromTrash,
       deleteFromTrash,
       clearTrash,
+      updateTrashRetention,
       updateEvent,
       moveEvent,
+      setMakesLeftovers,
+      createPlan,
+      renamePlan,
+      setPlanArchived,
+      switchPlan,
+      updateOccurrence,
+      deleteOccurrence,
+      saveRangeAsTemplate,
+      applyTemplate,
+      deleteTemplate,
+      copyDateRange,
+      importEvents,
+      updateNutritionGoals,
+      updateHouseholdSize,
+      updateWeeklyBudget,
+      getCheaperAlternatives,
+      updateMealSlots,
       clearAll,
       clearAllToTrash,
+      undo,
+      redo,
       getEventsForDate,
+      getEventsInRange,
       getNutritionalStats,
+      getNutritionReport,
+      getCostTotals,
       getQuickSuggestions,
       ensureNutritionData,
       isFeatureRestricted,
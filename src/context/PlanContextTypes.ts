@@ -1,4 +1,39 @@
 import { createContext } from 'react';
+import type { MealPlanTemplate } from '../types/planTemplateTypes';
+import type { NutritionGoals } from '../types/nutritionGoalTypes';
+import type { CaloricBreakdown, Recipe } from '../types/recipeTypes';
+import type { PlanHistoryEntry } from '../types/planHistoryTypes';
+import type { MealSlot } from '../types/mealSlotTypes';
+
+// ===== RECURRENCE INTERFACES =====
+
+/**
+ * RecurrenceRule Interface
+ * 
+ * Describes how a meal repeats. The event's date is where the series starts;
+ * the first occurrence is the first matching day on or after that date.
+ * A series ends at whichever comes first of `until` and `count`, or never if neither is set.
+ */
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekdays' | 'weekly';  // How often the meal repeats
+  interval?: number;             // Repeat every N days (daily) or N weeks (weekly), defaults to 1
+  daysOfWeek?: number[];         // Days for weekly rules (0 = Sunday ... 6 = Saturday)
+  until?: string;                // Last date the series can occur on (YYYY-MM-DD, inclusive)
+  count?: number;                // Total number of occurrences in the series
+}
+
+/**
+ * Which occurrences an edit or delete applies to
+ * 'this' = only the selected occurrence, 'following' = it and every later one, 'all' = the whole series
+ */
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+/**
+ * Where a meal's nutrition values came from
+ * 'recipe' = the recipe's nutrient list, 'ingredients' = summed from its ingredients,
+ * 'estimate' = guessed from the meal type and title because no recipe data was available
+ */
+export type NutritionSource = 'recipe' | 'ingredients' | 'estimate';
 
 // ===== MEAL EVENT INTERFACE =====
 
@@ -13,19 +48,52 @@ export interface PlanEvent {
   title: string;                 // Name of the meal/recipe
   date: string;                  // Date when the meal is scheduled (YYYY-MM-DD format)
   recipeId: number;              // ID of the recipe from the recipe database
-  mealType: 'main course' | 'breakfast' | 'side dish' | 'dessert' | 'snack';  // Type of meal
+  mealType: 'main course' | 'breakfast' | 'side dish' | 'dessert' | 'snack';  // Type of dish
+  slot?: string;                 // ID of the meal slot it is eaten at, missing on older meals (picked from the meal type)
+  mealGroupId?: string;          // Set on dishes served with another: ID of the meal's main dish (optional)
   image?: string;                // URL of the meal image (optional)
   difficulty?: 'easy' | 'medium' | 'hard';  // Cooking difficulty level (optional)
   prepTime?: number;             // Preparation time in minutes (optional)
   cookTime?: number;             // Cooking time in minutes (optional)
-  servings?: number;             // Number of servings (optional)
-  nutrition?: {                  // Nutritional information per serving (optional)
+  servings?: number;             // Servings the recipe is written for (optional)
+  portions?: number;             // Portions to cook for this meal, overrides the household size (optional)
+  nutrition?: {                  // Nutritional information per serving, i.e. per person (optional)
     calories: number;            // Calories per serving
     protein: number;             // Protein in grams per serving
     carbs: number;               // Carbohydrates in grams per serving
     fat: number;                 // Fat in grams per serving
+    fiber?: number;              // Fiber in grams per serving (optional)
+    sodium?: number;             // Sodium in milligrams per serving (optional)
+    sugar?: number;              // Sugar in grams per serving (optional)
+    source?: NutritionSource;    // Where the values came from, missing on older meals (estimated)
+  };
+  cost?: {                       // Estimated cost from the recipe (optional)
+    pricePerServing: number;     // Price per serving in US cents
+    cheap: boolean;              // Whether the recipe is marked as cheap
   };
   notes?: string;                // Additional notes about the meal (optional)
+  recurrence?: RecurrenceRule;   // Repeat rule, makes this event the start of a series (optional)
+  recurrenceExceptions?: string[];  // Dates removed from the series (optional)
+  seriesId?: string;             // Set on expanded occurrences: ID of the series they belong to (optional)
+  planId?: string;               // Plan the meal belongs to, missing on meals added before multiple plans (default plan)
+  trashedAt?: number;            // When the meal was moved to trash (ms timestamp), only set on meals in trash
+  makesLeftovers?: boolean;      // Cooked in a batch, its spare portions are planned as leftover meals (optional)
+  leftoverOf?: string;           // Set on leftover meals: ID of the batch-cooked meal they come from (optional)
+}
+
+// ===== MEAL PLAN INTERFACE =====
+
+/**
+ * PlanInfo Interface
+ * 
+ * A named meal plan, e.g. "Cutting phase" or "Family dinners".
+ * Meals point to their plan through PlanEvent.planId; only the active plan is shown.
+ */
+export interface PlanInfo {
+  id: string;                    // Unique plan ID
+  title: string;                 // Name chosen by the user
+  archived: boolean;             // Archived plans keep their meals but are hidden from the plan switcher
+  createdAt: number;             // When the plan was created (ms timestamp)
 }
 
 // ===== NUTRITIONAL STATISTICS INTERFACE =====
@@ -34,13 +102,59 @@ export interface PlanEvent {
  * NutritionalStats Interface
  * 
  * Defines the structure for nutritional statistics.
- * Used to track daily nutritional totals for the 4 main nutrition categories.
+ * Used to track daily nutritional totals for the 4 main nutrition categories,
+ * plus fiber, sodium and sugar from the meals that include them.
  */
 export interface NutritionalStats {
   calories: number;              // Total calories for the day
   protein: number;               // Total protein in grams for the day
   carbs: number;                 // Total carbohydrates in grams for the day
   fat: number;                   // Total fat in grams for the day
+  fiber: number;                 // Total fiber in grams for the day
+  sodium: number;                // Total sodium in milligrams for the day
+  sugar: number;                 // Total sugar in grams for the day
+}
+
+// ===== NUTRITION REPORT INTERFACES =====
+
+/**
+ * DailyNutritionSummary Interface
+ * 
+ * Nutrition totals for one day of a report.
+ */
+export interface DailyNutritionSummary {
+  date: string;                  // The day (YYYY-MM-DD format)
+  mealCount: number;             // Number of meals planned on the day
+  stats: NutritionalStats;       // Nutrition totals for the day
+}
+
+/**
+ * NutritionReport Interface
+ * 
+ * Nutrition over a date range, used to check whether a planned week or month is balanced.
+ * Averages and adherence only count days that have meals planned.
+ */
+export interface NutritionReport {
+  startDate: string;             // First day of the report (YYYY-MM-DD format)
+  endDate: string;               // Last day of the report (YYYY-MM-DD format)
+  days: DailyNutritionSummary[]; // One entry per day in the range, including empty days
+  plannedDays: number;           // Days with at least one meal planned
+  totals: NutritionalStats;      // Totals over the whole range
+  averages: NutritionalStats;    // Average per planned day
+  adherence: Record<'calories' | 'protein' | 'carbs' | 'fat', number>;  // Percent of planned days on target for each goal
+  macroSplit: CaloricBreakdown;  // Share of calories from protein, carbs and fat
+}
+
+/**
+ * CostTotals Interface
+ * 
+ * Estimated cost of the meals in a date range. Leftovers cost nothing, since their
+ * batch-cooked meal already includes them; meals without a price are only counted.
+ */
+export interface CostTotals {
+  total: number;                 // Estimated cost in US cents
+  pricedMeals: number;           // Meals included in the total
+  unpricedMeals: number;         // Meals without a price estimate (e.g. custom meals)
 }
 
 // ===== PLAN CONTEXT INTERFACE =====
@@ -56,13 +170,39 @@ export interface PlanContextType {
 
   events: PlanEvent[];           // Array of active meal events in the plan
   trashedEvents: PlanEvent[];    // Array of deleted events (in trash for potential restoration)
+  trashRetentionDays: number;    // Days meals stay in trash before they are deleted automatically
+  templates: MealPlanTemplate[]; // Saved weeks (or date ranges) of meals
+  nutritionGoals: NutritionGoals;  // The user's daily nutrition goals (defaults until they set their own)
+  householdSize: number | null;  // Portions to cook for each meal, null to cook recipes as written
+  weeklyBudget: number | null;   // Weekly food budget in US cents, null when no budget is set
+  mealSlots: MealSlot[];         // Times of day the user eats at, in order (defaults until they set their own)
+  plans: PlanInfo[];             // All of the user's meal plans, including archived ones
+  activePlan: PlanInfo;          // The plan whose meals are shown; events only contains its meals
+  nextUndo: PlanHistoryEntry | null;  // The change undo would revert, null when there is nothing to undo
+  nextRedo: PlanHistoryEntry | null;  // The change redo would apply again, null when there is nothing to redo
 
   // ===== MEAL PLAN MANAGEMENT FUNCTIONS =====
 
-  addToPlan: (event: Omit<PlanEvent, 'id'>) => void;  // Add a new meal to the plan
+  addToPlan: (event: Omit<PlanEvent, 'id'>) => void;  // Add a new meal to the plan (event.planId picks the plan, defaults to the active one)
   removeFromPlan: (id: string) => void;                // Permanently remove a meal from the plan
   updateEvent: (id: string, updatedEvent: PlanEvent) => void;  // Update an existing meal event
-  moveEvent: (id: string, newDate: string) => void;    // Move a meal to a different date
+  moveEvent: (id: string, newDate: string, slot?: string) => void;  // Move a meal to a different date, and slot when given
+
+  // ===== LEFTOVER FUNCTIONS =====
+
+  setMakesLeftovers: (id: string, makesLeftovers: boolean) => Promise<number>;  // Plan a meal's spare portions as leftovers (or remove them), returns leftover meals planned
+
+  // ===== PLAN FUNCTIONS =====
+
+  createPlan: (title: string) => Promise<string>;      // Create a plan and switch to it, returns its ID
+  renamePlan: (planId: string, title: string) => Promise<void>;  // Rename a plan
+  setPlanArchived: (planId: string, archived: boolean) => Promise<void>;  // Archive or restore a plan
+  switchPlan: (planId: string) => void;                // Show another plan's meals
+
+  // ===== RECURRING MEAL FUNCTIONS =====
+
+  updateOccurrence: (occurrence: PlanEvent, updates: Partial<PlanEvent>, scope: RecurrenceEditScope) => Promise<void>;  // Edit one, following or all occurrences
+  deleteOccurrence: (occurrence: PlanEvent, scope: RecurrenceEditScope) => Promise<void>;  // Move one, following or all occurrences to trash
 
   // ===== TRASH MANAGEMENT FUNCTIONS =====
 
@@ -70,18 +210,55 @@ export interface PlanContextType {
   restoreFromTrash: (id: string) => void;              // Restore a meal from trash
   deleteFromTrash: (id: string) => void;               // Permanently delete a meal from trash
   clearTrash: () => void;                              // Clear all meals from trash
+  updateTrashRetention: (days: number) => Promise<void>;  // Change how long meals stay in trash, deleting ones now past it
+
+  // ===== TEMPLATE FUNCTIONS =====
+
+  saveRangeAsTemplate: (name: string, startDate: string, endDate: string) => Promise<void>;  // Save the meals in a date range as a template
+  applyTemplate: (templateId: string, startDate: string) => Promise<number>;  // Add a template's meals from a start date, returns meals added
+  deleteTemplate: (templateId: string) => Promise<void>;  // Delete a saved template
+  copyDateRange: (sourceStart: string, sourceEnd: string, targetStart: string) => Promise<number>;  // Copy meals to another start date, returns meals added
+
+  // ===== IMPORT FUNCTIONS =====
+
+  importEvents: (newEvents: Omit<PlanEvent, 'id'>[]) => Promise<number>;  // Add imported meals, skipping ones already planned, returns meals added
+
+  // ===== NUTRITION GOAL FUNCTIONS =====
+
+  updateNutritionGoals: (goals: NutritionGoals) => Promise<void>;  // Save new daily nutrition goals
+
+  // ===== HOUSEHOLD FUNCTIONS =====
+
+  updateHouseholdSize: (size: number | null) => Promise<void>;  // Save how many portions to cook for each meal
+
+  // ===== BUDGET FUNCTIONS =====
+
+  updateWeeklyBudget: (budget: number | null) => Promise<void>;  // Save the weekly food budget in US cents, null to stop tracking it
+  getCheaperAlternatives: (event: PlanEvent) => Promise<Recipe[]>;  // Find similar recipes that cost less per serving
+
+  // ===== MEAL SLOT FUNCTIONS =====
+
+  updateMealSlots: (slots: MealSlot[]) => Promise<void>;  // Save the times of day the user eats at
 
   // ===== BULK OPERATIONS =====
 
   clearAll: () => void;                                // Clear all meals from the plan
   clearAllToTrash: () => Promise<void>;                // Move all meals to trash
 
+  // ===== HISTORY FUNCTIONS =====
+
+  undo: () => Promise<void>;                           // Undo the last change to the plan or trash
+  redo: () => Promise<void>;                           // Redo the last undone change
+
   // ===== UTILITY FUNCTIONS =====
 
-  getEventsForDate: (date: string) => PlanEvent[];     // Get all meals for a specific date
-  getNutritionalStats: (date: string) => NutritionalStats;  // Calculate daily nutrition totals
-  getQuickSuggestions: (mealType: PlanEvent['mealType'], maxTime?: number) => Promise<PlanEvent[]>;  // Get meal suggestions
-  ensureNutritionData: () => void;                     // Ensure all meals have nutrition data
+  getEventsForDate: (date: string) => PlanEvent[];     // Get all meals for a specific date (recurring meals expanded)
+  getEventsInRange: (startDate: string, endDate: string) => PlanEvent[];  // Get all meals in a date range (recurring meals expanded)
+  getNutritionalStats: (date: string) => NutritionalStats;  // Calculate daily nutrition totals per person
+  getNutritionReport: (startDate: string, endDate: string) => NutritionReport;  // Aggregate nutrition over a date range
+  getCostTotals: (startDate: string, endDate: string) => CostTotals;  // Estimate the cost of the meals in a date range
+  getQuickSuggestions: (mealType: PlanEvent['mealType'], maxTime?: number, slot?: string, date?: string) => Promise<PlanEvent[]>;  // Get meal suggestions for a slot on a day
+  ensureNutritionData: () => Promise<number>;          // Fill in missing or estimated nutrition from recipe data, returns meals updated
 
   // ===== FEATURE CONTROL =====
 
@@ -7,7 +7,9 @@ import type { Recipe } from '../types/recipeTypes';
 import { useAuth } from '../context/AuthContext';
 import { useGuest } from '../context/GuestContext';
 import { firestoreService } from '../services/firestoreService';
+import { syncQueueService } from '../services/syncQueueService';
 import SafeImage from '../components/SafeImage';
+import { calculateIngredientMatch } from '../utils/ingredientMatcher';
 
 /**
  * Extended Recipe interface for fridge functionality
@@ -36,9 +38,17 @@ interface FridgeRecipe extends Recipe {
  * Simple ingredient interface for fridge ingredients
  */
 interface Ingredient {
-  name: string;  // Name of the ingredient
+  name: string;       // Name of the ingredient
+  quantity?: number;  // How much is in the fridge (defaults to 1)
+  unit?: string;      // Unit of the quantity (defaults to "piece")
 }
 
+/**
+ * Units the user can pick for fridge quantities
+ * These are understood by the unit converter used for the shopping list
+ */
+const FRIDGE_UNITS = ['piece', 'g', 'kg', 'ml', 'l', 'cup', 'tbsp', 'tsp', 'oz', 'lb'];
+
 /**
  * FridgePage Component
  * 
@@ -51,7 +61,7 @@ const FridgePage: React.FC = () => {
 
   const navigate = useNavigate();                                    // Hook for programmatic navigation
   const { user } = useAuth();                                        // Authentication context
-  const { isGuestMode, guestData, addGuestFridgeIngredient, removeGuestFridgeIngredient } = useGuest();  // Guest mode context
+  const { isGuestMode, guestData, addGuestFridgeIngredient, removeGuestFridgeIngredient, updateGuestFridgeIngredient } = useGuest();  // Guest mode context
 
   // ===== STATE MANAGEMENT =====
 
@@ -67,6 +77,7 @@ const FridgePage: React.FC = () => {
   const [cuisineFilter] = useState('');           // Cuisine type filter
   const [dietFilter] = useState('');                 // Diet restriction filter
   const [sortBy] = useState<'relevance' | 'missing' | 'time' | 'calories'>('relevance'); // Sort order
+  const hasLoadedIngredientsRef = React.useRef(false);            // Whether the signed-in user's fridge has loaded
 
   // ===== UTILITY FUNCTIONS =====
 
@@ -102,14 +113,26 @@ const FridgePage: React.FC = () => {
 
       // Fallback to guest context data
       console.log('Loading guest ingredients from context:', guestData.fridgeIngredients);
-      setSelectedIngredients(guestData.fridgeIngredients.map(ing => ({ name: ing.name })));
+      setSelectedIngredients(guestData.fridgeIngredients.map(ing => ({ name: ing.name, quantity: ing.quantity, unit: ing.unit })));
     } else if (user) {
+      hasLoadedIngredientsRef.current = false;
+
+      // Changes made while offline are newer than what Firestore has
+      const userId = user.id;
+      const pendingFridge = syncQueueService.getPending('replaceFridgeIngredients').find(mutation => mutation.userId === userId);
+      if (pendingFridge) {
+        setSelectedIngredients(pendingFridge.ingredients);
+        hasLoadedIngredientsRef.current = true;
+        return;
+      }
+
       // Load ingredients from Firestore for authenticated users
       try {
         const firestoreIngredients = await firestoreService.getFridgeIngredients(user.id);
-        const ingredientNames = firestoreIngredients.map(ing => ({ name: ing.name }));
+        const ingredientNames = firestoreIngredients.map(ing => ({ name: ing.name, quantity: ing.quantity, unit: ing.unit }));
         console.log('Loading ingredients from Firestore:', ingredientNames);
         setSelectedIngredients(ingredientNames);
+        hasLoadedIngredientsRef.current = true;
       } catch (error) {
         console.error('Error loading ingredients from Firestore:', error);
         setSelectedIngredients([]);
@@ -127,27 +150,20 @@ const FridgePage: React.FC = () => {
       localStorage.setItem(guestKey, JSON.stringify(ingredients));
       console.log('Saving guest ingredients to localStorage:', ingredients);
     } else if (user) {
-      // Save ingredients to Firestore for authenticated users
-      try {
-        // First, delete all existing ingredients
-        await firestoreService.deleteAllFridgeIngredients(user.id);
-
-        // Then add all current ingredients
-        const savePromises = ingredients.map(ingredient =>
-          firestoreService.saveFridgeIngredient({
-            id: `ingredient_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            userId: user.id,
-            name: ingredient.name,
-            quantity: 1,
-            unit: 'piece'
-          })
-        );
-
-        await Promise.all(savePromises);
-        console.log('Saving ingredients to Firestore:', ingredients);
-      } catch (error) {
-        console.error('Error saving ingredients to Firestore:', error);
-      }
+      // Don't overwrite the saved fridge with the empty list shown before it has loaded
+      if (!hasLoadedIngredientsRef.current) return;
+
+      // Queue the Firestore write for authenticated users; it replaces any unsent fridge change
+      syncQueueService.enqueue({
+        type: 'replaceFridgeIngredients',
+        userId: user.id,
+        ingredients: ingredients.map(ingredient => ({
+          name: ingredient.name,
+          quantity: ingredient.quantity ?? 1,
+          unit: ingredient.unit || 'piece'
+        }))
+      });
+      console.log('Queued ingredients for Firestore:', ingredients);
     }
   }, [user, isGuestMode, getGuestStorageKey]);
 
@@ -171,8 +187,8 @@ const FridgePage: React.FC = () => {
                 id: `ingredient_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
                 userId: user.id,
                 name: ingredient.name,
-                quantity: 1,
-                unit: 'piece'
+                quantity: ingredient.quantity ?? 1,
+                unit: ingredient.unit || 'piece'
               })
             );
 
@@ -306,6 +322,24 @@ const FridgePage: React.FC = () => {
     }
   };
 
+  /**
+   * Update how much of an ingredient is in the fridge
+   * The quantity is used to deduct fridge contents from the shopping list
+   */
+  const updateIngredientAmount = (ingredientName: string, quantity: number, unit: string) => {
+    setSelectedIngredients(selectedIngredients.map(ing =>
+      ing.name === ingredientName ? { ...ing, quantity, unit } : ing
+    ));
+
+    // Update guest context if in guest mode
+    if (isGuestMode) {
+      const ingredientToUpdate = guestData.fridgeIngredients.find(ing => ing.name === ingredientName);
+      if (ingredientToUpdate) {
+        updateGuestFridgeIngredient(ingredientToUpdate.id, { quantity, unit });
+      }
+    }
+  };
+
   /**
    * Clear all selected ingredients
    * Removes all ingredients from the selection and storage
@@ -324,12 +358,8 @@ const FridgePage: React.FC = () => {
       // Also clear from localStorage
       localStorage.removeItem('fridgeIngredients_guest_ingredients');
     } else if (user) {
-      // Clear all authenticated user ingredients from Firestore
-      firestoreService.deleteAllFridgeIngredients(user.id).then(() => {
-        console.log('Cleared all authenticated ingredients from Firestore.');
-      }).catch(error => {
-        console.error('Error clearing authenticated ingredients from Firestore:', error);
-      });
+      // Clear all authenticated user ingredients once the sync queue reaches Firestore
+      syncQueueService.enqueue({ type: 'replaceFridgeIngredients', userId: user.id, ingredients: [] });
     }
   };
 
@@ -405,233 +435,6 @@ const FridgePage: React.FC = () => {
     }
   };
 
-  /**
-   * Calculate ingredient matching with configurable tolerance
-   * Uses fuzzy matching and synonym detection for better accuracy
-   */
-  const calculateIngredientMatch = (
-    userIngredients: string[],
-    recipeIngredients: string[],
-    tolerance: number
-  ) => {
-    const usedIngredients: string[] = [];
-    const missedIngredients: string[] = [];
-    let totalScore = 0;
-
-    // Ingredient synonyms for better matching
-    const ingredientSynonyms: { [key: string]: string[] } = {
-      'tomato': ['tomatoes', 'cherry tomato', 'roma tomato'],
-      'onion': ['onions', 'red onion', 'white onion', 'yellow onion'],
-      'garlic': ['garlic cloves', 'garlic powder'],
-      'olive oil': ['extra virgin olive oil', 'evoo'],
-      'salt': ['sea salt', 'kosher salt', 'table salt'],
-      'pepper': ['black pepper', 'white pepper', 'ground pepper'],
-      'chicken': ['chicken breast', 'chicken thigh', 'chicken meat'],
-      'beef': ['ground beef', 'beef steak', 'beef meat'],
-      'rice': ['white rice', 'brown rice', 'jasmine rice', 'basmati rice'],
-      'pasta': ['spaghetti', 'penne', 'fettuccine', 'linguine'],
-      'cheese': ['cheddar', 'mozzarella', 'parmesan', 'gouda'],
-      'milk': ['whole milk', 'skim milk', 'almond milk', 'soy milk'],
-      'egg': ['eggs', 'large eggs', 'egg whites'],
-      'flour': ['all purpose flour', 'bread flour', 'cake flour'],
-      'sugar': ['white sugar', 'brown sugar', 'granulated sugar'],
-      'butter': ['unsalted butter', 'salted butter', 'margarine'],
-      'lemon': ['lemons', 'lemon juice', 'lemon zest'],
-      'lime': ['limes', 'lime juice', 'lime zest'],
-      'bell pepper': ['bell peppers', 'red pepper', 'green pepper', 'yellow pepper'],
-      'carrot': ['carrots', 'baby carrots'],
-      'potato': ['potatoes', 'russet potato', 'red potato'],
-      'spinach': ['baby spinach', 'fresh spinach'],
-      'mushroom': ['mushrooms', 'button mushrooms', 'portobello'],
-      'basil': ['fresh basil', 'basil leaves'],
-      'oregano': ['dried oregano', 'fresh oregano'],
-      'thyme': ['fresh thyme', 'dried thyme'],
-      'rosemary': ['fresh rosemary', 'dried rosemary'],
-      'parsley': ['fresh parsley', 'dried parsley'],
-      'cilantro': ['fresh cilantro', 'coriander'],
-      'ginger': ['fresh ginger', 'ginger powder', 'ginger root'],
-      'cumin': ['ground cumin', 'cumin seeds'],
-      'paprika': ['smoked paprika', 'sweet paprika'],
-      'cinnamon': ['ground cinnamon', 'cinnamon stick'],
-      'nutmeg': ['ground nutmeg', 'whole nutmeg'],
-      'vanilla': ['vanilla extract', 'vanilla bean'],
-      'honey': ['raw honey', 'clover honey'],
-      'maple syrup': ['pure maple syrup', 'maple syrup'],
-      'soy sauce': ['light soy sauce', 'dark soy sauce', 'tamari'],
-      'vinegar': ['apple cider vinegar', 'balsamic vinegar', 'white vinegar'],
-      'mustard': ['dijon mustard', 'yellow mustard', 'whole grain mustard'],
-      'mayonnaise': ['mayo', 'light mayonnaise'],
-      'ketchup': ['tomato ketchup', 'catsup'],
-      'hot sauce': ['sriracha', 'tabasco', 'chili sauce'],
-      'worcestershire': ['worcestershire sauce'],
-      'fish sauce': ['fish sauce'],
-      'oyster sauce': ['oyster sauce'],
-      'sesame oil': ['toasted sesame oil', 'sesame oil'],
-      'coconut oil': ['virgin coconut oil', 'refined coconut oil'],
-      'avocado': ['avocados', 'avocado oil'],
-      'almond': ['almonds', 'almond flour', 'almond milk'],
-      'walnut': ['walnuts', 'walnut pieces'],
-      'pecan': ['pecans', 'pecan pieces'],
-      'cashew': ['cashews', 'cashew pieces'],
-      'peanut': ['peanuts', 'peanut butter'],
-      'sunflower seed': ['sunflower seeds'],
-      'pumpkin seed': ['pumpkin seeds', 'pepitas'],
-      'chia seed': ['chia seeds'],
-      'flax seed': ['flax seeds', 'flax meal'],
-      'quinoa': ['quinoa'],
-      'oat': ['oats', 'rolled oats', 'steel cut oats'],
-      'barley': ['pearl barley', 'barley'],
-      'lentil': ['lentils', 'red lentils', 'green lentils'],
-      'chickpea': ['chickpeas', 'garbanzo beans'],
-      'black bean': ['black beans'],
-      'kidney bean': ['kidney beans'],
-      'pinto bean': ['pinto beans'],
-      'cannellini bean': ['cannellini beans', 'white beans'],
-      'salmon': ['salmon fillet', 'salmon steak'],
-      'tuna': ['tuna steak', 'canned tuna'],
-      'shrimp': ['shrimp', 'prawns'],
-      'tilapia': ['tilapia fillet'],
-      'cod': ['cod fillet'],
-      'halibut': ['halibut fillet'],
-      'scallop': ['scallops', 'sea scallops'],
-      'mussel': ['mussels'],
-      'clam': ['clams'],
-      'oyster': ['oysters'],
-      'crab': ['crab meat', 'crab legs'],
-      'lobster': ['lobster tail', 'lobster meat'],
-      'turkey': ['turkey breast', 'ground turkey'],
-      'pork': ['pork chop', 'pork tenderloin', 'ground pork'],
-      'lamb': ['lamb chop', 'ground lamb'],
-      'duck': ['duck breast', 'duck meat'],
-      'goose': ['goose meat'],
-      'quail': ['quail meat'],
-      'pheasant': ['pheasant meat'],
-      'venison': ['venison meat'],
-      'bison': ['bison meat'],
-      'elk': ['elk meat'],
-      'rabbit': ['rabbit meat'],
-      'squab': ['squab meat'],
-      'pigeon': ['pigeon meat'],
-      'partridge': ['partridge meat'],
-      'grouse': ['grouse meat'],
-      'woodcock': ['woodcock meat'],
-      'snipe': ['snipe meat'],
-      'teal': ['teal meat'],
-      'mallard': ['mallard meat'],
-      'canvasback': ['canvasback meat'],
-      'redhead': ['redhead meat'],
-      'scaup': ['scaup meat'],
-      'goldeneye': ['goldeneye meat'],
-      'bufflehead': ['bufflehead meat'],
-      'merganser': ['merganser meat'],
-      'eider': ['eider meat'],
-      'scoter': ['scoter meat'],
-      'old squaw': ['old squaw meat'],
-      'harlequin': ['harlequin meat'],
-      'surf scoter': ['surf scoter meat'],
-      'white winged scoter': ['white winged scoter meat'],
-      'black scoter': ['black scoter meat'],
-      'common eider': ['common eider meat'],
-      'king eider': ['king eider meat'],
-      'spectacled eider': ['spectacled eider meat'],
-      'steller eider': ['steller eider meat'],
-      'labrador duck': ['labrador duck meat'],
-      'great auk': ['great auk meat'],
-      'passenger pigeon': ['passenger pigeon meat'],
-      'carolina parakeet': ['carolina parakeet meat'],
-      'ivory billed woodpecker': ['ivory billed woodpecker meat'],
-      'bachman warbler': ['bachman warbler meat'],
-      'eskimo curlew': ['eskimo curlew meat'],
-      'heath hen': ['heath hen meat']
-    };
-
-    // Check each recipe ingredient against user ingredients
-    recipeIngredients.forEach(recipeIngredient => {
-      let bestMatch = '';
-      let bestScore = 0;
-
-      userIngredients.forEach(userIngredient => {
-        // Direct match
-        if (recipeIngredient === userIngredient) {
-          bestMatch = userIngredient;
-          bestScore = 1.0;
-          return;
-        }
-
-        // Synonym match
-        const synonyms = ingredientSynonyms[userIngredient] || [];
-        if (synonyms.includes(recipeIngredient)) {
-          bestMatch = userIngredient;
-          bestScore = 0.95;
-          return;
-        }
-
-        // Partial match (contains)
-        if (recipeIngredient.includes(userIngredient) || userIngredient.includes(recipeIngredient)) {
-          const score = Math.min(recipeIngredient.length, userIngredient.length) /
-            Math.max(recipeIngredient.length, userIngredient.length);
-          if (score > bestScore && score >= tolerance) {
-            bestMatch = userIngredient;
-            bestScore = score;
-          }
-        }
-
-        // Fuzzy match using simple similarity
-        const similarity = calculateSimilarity(recipeIngredient, userIngredient);
-        if (similarity > bestScore && similarity >= tolerance) {
-          bestMatch = userIngredient;
-          bestScore = similarity;
-        }
-      });
-
-      if (bestScore >= tolerance) {
-        usedIngredients.push(bestMatch);
-        totalScore += bestScore;
-      } else {
-        missedIngredients.push(recipeIngredient);
-      }
-    });
-
-    const matchScore = recipeIngredients.length > 0 ? totalScore / recipeIngredients.length : 0;
-
-    return { usedIngredients, missedIngredients, matchScore };
-  };
-
-  /**
-   * Calculate similarity between two strings using Levenshtein distance
-   */
-  const calculateSimilarity = (str1: string, str2: string): number => {
-    const matrix = [];
-    const len1 = str1.length;
-    const len2 = str2.length;
-
-    for (let i = 0; i <= len2; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= len1; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= len2; i++) {
-      for (let j = 1; j <= len1; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
-    }
-
-    const distance = matrix[len2][len1];
-    const maxLength = Math.max(len1, len2);
-    return maxLength > 0 ? 1 - (distance / maxLength) : 1;
-  };
-
   /**
    * Apply advanced filters to recipes
    */
@@ -802,6 +605,27 @@ const FridgePage: React.FC = () => {
                     <div key={index} className={styles.selectedIngredientItem}>
                       <div className={styles.ingredientDetails}>
                         <span className={styles.ingredientName}>{ingredient.name}</span>
+                        <div className={styles.quantityControls}>
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={ingredient.quantity ?? 1}
+                            onChange={(e) => updateIngredientAmount(ingredient.name, Number(e.target.value), ingredient.unit || 'piece')}
+                            className={styles.quantityInput}
+                            aria-label={`Quantity of ${ingredient.name}`}
+                          />
+                          <select
+                            value={ingredient.unit || 'piece'}
+                            onChange={(e) => updateIngredientAmount(ingredient.name, ingredient.quantity ?? 1, e.target.value)}
+                            className={styles.unitSelect}
+                            aria-label={`Unit of ${ingredient.name}`}
+                          >
+                            {FRIDGE_UNITS.map(unit => (
+                              <option key={unit} value={unit}>{unit}</option>
+                            ))}
+                          </select>
+                        </div>
                       </div>
                       <button
                         onClick={() => removeIngredient(ingredient.name)}
@@ -5,10 +5,39 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import styles from './PlanPage.module.css';
 import { usePlan } from '../context/PlanContext';
-import type { PlanEvent } from '../context/PlanContextTypes';
+import type { PlanEvent, RecurrenceEditScope } from '../context/PlanContextTypes';
+import { describeRecurrence, expandRecurringEvents } from '../utils/recurrence';
+import { addDays, getMonthRange, getWeekRange, parseDateString, toDateString } from '../utils/dateUtils';
+import { getGoalPercentage } from '../utils/nutritionGoals';
+import { generateNutritionData, getRecipeNutrition, isEstimatedNutrition } from '../utils/nutritionEstimator';
 import ConfirmationModal from '../components/ConfirmationModal';
+import RecurrenceScopeModal from '../components/RecurrenceScopeModal';
+import PlanTemplatesModal from '../components/PlanTemplatesModal';
+import MealPlanGeneratorModal from '../components/MealPlanGeneratorModal';
+import NutritionGoalsModal from '../components/NutritionGoalsModal';
+import NutritionReportView from '../components/NutritionReportView';
+import CalendarSyncModal from '../components/CalendarSyncModal';
+import MealPlansModal from '../components/MealPlansModal';
+import MealSlotsModal from '../components/MealSlotsModal';
+import RecipeSidebar from '../components/RecipeSidebar';
+import AddToPlanModal from '../components/AddToPlanModal';
 import { useGuest } from '../context/GuestContext';
+import { useAuth } from '../context/AuthContext';
 import NutritionalStats from '../components/NutritionalStats';
+import BudgetSummary from '../components/BudgetSummary';
+import type { PlanHistoryEntry } from '../types/planHistoryTypes';
+import { TRASH_RETENTION_OPTIONS, formatTimeUntilPurge, sortTrashedEvents, type TrashSortOrder } from '../utils/trash';
+import { MAX_HOUSEHOLD_SIZE, getMealPortions } from '../utils/servings';
+import { LEFTOVER_SHELF_LIFE_DAYS, getLeftovers, isWithinShelfLife, proposeLeftovers } from '../utils/leftovers';
+import { formatCost, getMealCost, getRecipeCost } from '../utils/budget';
+import type { Recipe } from '../types/recipeTypes';
+import { AGENDA_DAYS, CALENDAR_VIEWS, getStoredCalendarView, storeCalendarView, type CalendarView } from '../utils/calendarViews';
+import { getDefaultSlotId, getEventSlotId, getMealGroupId, getRecipeMealType, groupMeals } from '../utils/mealSlots';
+import { getDraggedRecipe, isRecipeDrag, type DraggedRecipe } from '../utils/recipeDrag';
+import { isMealAlreadyPlanned } from '../utils/planTemplates';
+
+// How long the Undo toast stays on screen after meals are removed
+const UNDO_TOAST_DURATION_MS = 6000;
 
 /**
  * PlanPage Component
@@ -324,10 +353,10 @@ const CustomRecipeModal: React.FC<{
  * GridCalendar Component
  * 
  * A calendar component that displays meal plan events in a grid layout.
- * Supports month and week views with drag-and-drop functionality for rescheduling meals.
+ * Supports month, week, day and agenda views with drag-and-drop functionality for rescheduling meals.
  * 
  * Features:
- * - Month and week view modes
+ * - Month and week grids, a day view split into meal slots and an agenda of the coming days
  * - Drag-and-drop meal rescheduling
  * - Nutrition visualization with color-coded indicators
  * - Meal type icons and visual feedback
@@ -338,17 +367,22 @@ const GridCalendar: React.FC<{
   events: PlanEvent[];       // Array of meal plan events to display
   onEventClick: (event: PlanEvent) => void;  // Handler for clicking on an event
   onImageClick: (event: PlanEvent) => void;  // Handler for clicking on event image
-  onDayClick: (date: string) => void;        // Handler for clicking on a calendar day
-  onEventDrop: (eventId: string, newDate: string) => void;  // Handler for dropping events
-  view: 'month' | 'week';    // Calendar view mode
+  onDayClick: (date: string, slot?: string) => void;  // Handler for clicking on a calendar day or one of its slots
+  onEventDrop: (eventId: string, newDate: string, slot?: string) => void;  // Handler for dropping events, on a slot in the day view
+  onRecipeDrop?: (recipe: DraggedRecipe, date: string, slot?: string) => void;  // Handler for dropping recipes from the recipe sidebar
+  view: CalendarView;        // Calendar view mode
   isGuestMode?: boolean;     // Whether user is in guest mode (disables drag/drop)
   onImageError: (e: React.SyntheticEvent<HTMLImageElement, Event>) => void;  // Image error handler
-}> = ({ events, onEventClick, onImageClick, onDayClick, onEventDrop, view, isGuestMode = false, onImageError }) => {
+}> = ({ events, onEventClick, onImageClick, onDayClick, onEventDrop, onRecipeDrop, view, isGuestMode = false, onImageError }) => {
   // ===== STATE MANAGEMENT =====
 
+  const { nutritionGoals, getNutritionalStats, mealSlots } = usePlan();  // The user's daily nutrition goals, per-day totals and meal slots
+
   const [currentDate, setCurrentDate] = useState(new Date());        // Current displayed month/week
   const [draggedEvent, setDraggedEvent] = useState<PlanEvent | null>(null);  // Currently dragged event
   const [dragOverDate, setDragOverDate] = useState<string | null>(null);     // Date being dragged over
+  const [dragOverSlot, setDragOverSlot] = useState<string | null>(null);     // Slot of the day view being dragged over
+  const [hoveredLinkId, setHoveredLinkId] = useState<string | null>(null);   // Batch-cooked meal whose leftovers are highlighted
 
   // ===== UTILITY FUNCTIONS =====
 
@@ -367,16 +401,38 @@ const GridCalendar: React.FC<{
     return { daysInMonth, firstDayOfWeek };
   };
 
+  /**
+   * Get the first and last date shown in the current view
+   * Recurring meals are only expanded for the dates that are visible
+   */
+  const getVisibleRange = () => {
+    const date = toDateString(currentDate);
+    if (view === 'week') {
+      return getWeekRange(date);
+    }
+    if (view === 'day') {
+      return { startDate: date, endDate: date };
+    }
+    if (view === 'agenda') {
+      return { startDate: date, endDate: addDays(date, AGENDA_DAYS - 1) };
+    }
+    return getMonthRange(date);
+  };
+
+  const visibleRange = getVisibleRange();
+  const visibleEvents = expandRecurringEvents(events, visibleRange.startDate, visibleRange.endDate);
+
   /**
    * Get all events for a specific date
-   * Filters events array by date string
+   * Filters the visible events (with recurring meals expanded) by date string
    */
   const getEventsForDate = (date: string) => {
-    return events.filter(event => event.date === date);
+    return visibleEvents.filter(event => event.date === date);
   };
 
   /**
    * Calculate nutrition indicator color and opacity based on nutritional values
+   * Opacity shows how much of the user's daily goal the meal covers
    * Returns color, opacity, and percentage for visual nutrition indicators
    */
   const getNutritionColor = (nutrition: { calories?: number; protein?: number; carbs?: number; fat?: number } | undefined, type: 'calories' | 'protein' | 'carbs' | 'fat') => {
@@ -387,14 +443,7 @@ const GridCalendar: React.FC<{
       fat: '#F44336'
     };
 
-    const maxValues = {
-      calories: 2000,
-      protein: 50,
-      carbs: 300,
-      fat: 65
-    };
-
-    const percentage = Math.min((nutrition?.[type] || 0) / maxValues[type], 1);
+    const percentage = getGoalPercentage(nutrition?.[type] || 0, nutritionGoals[type]) / 100;
     const color = colors[type];
 
     return {
@@ -419,6 +468,57 @@ const GridCalendar: React.FC<{
     }
   };
 
+  /**
+   * Get the ID linking a batch-cooked meal to its leftovers
+   * Returns null for meals that neither make nor are leftovers
+   */
+  const getLeftoverLinkId = (event: PlanEvent) => event.leftoverOf || (event.makesLeftovers ? event.id : null);
+
+  /**
+   * Find the batch-cooked meal a leftover meal comes from
+   */
+  const getLeftoverSource = (event: PlanEvent) => event.leftoverOf ? events.find(e => e.id === event.leftoverOf) : undefined;
+
+  /**
+   * Get the slot a meal is eaten at
+   */
+  const getEventSlot = (event: PlanEvent) => {
+    const slotId = getEventSlotId(event, mealSlots);
+    return mealSlots.find(slot => slot.id === slotId) || mealSlots[0];
+  };
+
+  /**
+   * Render the badge linking batch-cooked meals and their leftovers
+   * Hovering either one highlights the whole group
+   */
+  const renderLeftoverIndicator = (event: PlanEvent) => {
+    if (event.leftoverOf) {
+      const source = getLeftoverSource(event);
+      return (
+        <span
+          className={styles.leftoverIndicator}
+          title={source
+            ? `Leftovers of ${source.title}, cooked ${parseDateString(source.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}`
+            : 'Leftovers'}
+        >
+          🥡
+        </span>
+      );
+    }
+    if (event.makesLeftovers) {
+      const leftoverCount = getLeftovers(events, event.id).length;
+      return (
+        <span
+          className={styles.leftoverIndicator}
+          title={`Batch-cooked: ${leftoverCount} leftover meal${leftoverCount === 1 ? '' : 's'} planned`}
+        >
+          🍲
+        </span>
+      );
+    }
+    return null;
+  };
+
   // ===== EVENT HANDLERS =====
 
   /**
@@ -463,30 +563,328 @@ const GridCalendar: React.FC<{
     target.style.transform = 'rotate(0deg)';
     setDraggedEvent(null);
     setDragOverDate(null);
+    setDragOverSlot(null);
   };
 
-  const handleDayDragOver = (e: React.DragEvent, dateString: string) => {
+  const handleDayDragOver = (e: React.DragEvent, dateString: string, slotId?: string) => {
+    // Leftovers can only be dropped on days within their shelf life
+    const source = draggedEvent && getLeftoverSource(draggedEvent);
+    if (source && !isWithinShelfLife(source.date, dateString)) return;
+
+    // Recipes from the recipe sidebar are copied onto the day as new meals
+    const isRecipe = isRecipeDrag(e.dataTransfer);
+    if (isRecipe && !onRecipeDrop) return;
+
     e.preventDefault();
-    e.dataTransfer.dropEffect = 'move';
+    e.dataTransfer.dropEffect = isRecipe ? 'copy' : 'move';
     setDragOverDate(dateString);
+    setDragOverSlot(slotId || null);
   };
 
   const handleDayDragLeave = (e: React.DragEvent) => {
     e.preventDefault();
     setDragOverDate(null);
+    setDragOverSlot(null);
   };
 
-  const handleDayDrop = (e: React.DragEvent, dateString: string) => {
+  const handleDayDrop = (e: React.DragEvent, dateString: string, slotId?: string) => {
     e.preventDefault();
+    const recipe = getDraggedRecipe(e.dataTransfer);
     const eventId = e.dataTransfer.getData('text/plain');
-    if (eventId && draggedEvent) {
-      onEventDrop(eventId, dateString);
+    if (recipe) {
+      onRecipeDrop?.(recipe, dateString, slotId);
+    } else if (eventId && draggedEvent) {
+      onEventDrop(eventId, dateString, slotId);
     }
     setDragOverDate(null);
+    setDragOverSlot(null);
+  };
+
+  /**
+   * Render a meal card for the month, week and day views
+   * Cards open the meal on click, open the image on double click and can be dragged to another day
+   * Dishes served with a main dish are drawn attached to it; the month and week views
+   * mark each meal with its slot, which the day view shows as sections instead
+   */
+  const renderEventCard = (event: PlanEvent, isGroupedDish = false, showSlot = false) => {
+    const caloriesColor = getNutritionColor(event.nutrition, 'calories');
+    const proteinColor = getNutritionColor(event.nutrition, 'protein');
+    const carbsColor = getNutritionColor(event.nutrition, 'carbs');
+    const fatColor = getNutritionColor(event.nutrition, 'fat');
+
+    const linkId = getLeftoverLinkId(event);
+
+    return (
+      <div
+        key={event.id}
+        className={`${styles.calendarEventCard} ${styles.draggableEvent} ${isGroupedDish ? styles.groupedDish : ''} ${linkId && linkId === hoveredLinkId ? styles.linkedEvent : ''}`}
+        onMouseEnter={() => setHoveredLinkId(linkId)}
+        onMouseLeave={() => setHoveredLinkId(null)}
+        onClick={() => {
+          // Prevent click when dragging
+          if (draggedEvent) return;
+          onEventClick(event);
+        }}
+        onDoubleClick={() => {
+          // Prevent double click when dragging
+          if (draggedEvent) return;
+          onImageClick(event);
+        }}
+        draggable={!isGuestMode}
+        onDragStart={(e) => handleDragStart(e, event)}
+        onDragEnd={handleDragEnd}
+        title={isGuestMode ? "Guest mode - drag disabled" : "Drag to reschedule meal"}
+      >
+        {event.image && (
+          <div className={styles.calendarEventImageContainer}>
+            <img
+              src={event.image}
+              alt={event.title}
+              className={styles.calendarEventImage}
+              onClick={(e) => handleImageClick(event, e)}
+              onError={onImageError}
+            />
+            <div className={styles.calendarEventMealType}>
+              <span className={styles.mealTypeIndicator} title={event.mealType}>
+                {getMealTypeIcon(event.mealType)}
+              </span>
+            </div>
+          </div>
+        )}
+        {event.recurrence && (
+          <span
+            className={styles.recurrenceIndicator}
+            title={describeRecurrence(event.recurrence)}
+          >
+            🔁
+          </span>
+        )}
+        {renderLeftoverIndicator(event)}
+        {showSlot && (
+          <span className={styles.slotIndicator} title={getEventSlot(event).label}>
+            {getEventSlot(event).icon}
+          </span>
+        )}
+        <div className={styles.calendarEventInfo}>
+          {!event.image && (
+            <div style={{ marginBottom: '8px' }}>
+              <div style={{ fontSize: '0.85rem', fontWeight: '600', color: '#2E3A1A', marginBottom: '4px' }}>
+                {event.title}
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <span style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  width: '24px',
+                  height: '24px',
+                  background: 'rgba(84, 106, 4, 0.1)',
+                  borderRadius: '50%',
+                  fontSize: '0.9rem',
+                  color: '#546A04',
+                  border: '1px solid rgba(84, 106, 4, 0.2)'
+                }} title={event.mealType}>
+                  {getMealTypeIcon(event.mealType)}
+                </span>
+              </div>
+            </div>
+          )}
+          <div className={styles.calendarEventNutrition}>
+            {event.nutrition && (
+              <>
+                <div
+                  className={styles.nutritionIndicator}
+                  style={{ backgroundColor: caloriesColor.backgroundColor, opacity: caloriesColor.opacity }}
+                  title={`${Math.round(event.nutrition.calories)} calories (${caloriesColor.percentage}%)${isEstimatedNutrition(event.nutrition) ? ', estimated' : ''}`}
+                />
+                <div
+                  className={styles.nutritionIndicator}
+                  style={{ backgroundColor: proteinColor.backgroundColor, opacity: proteinColor.opacity }}
+                  title={`${Math.round(event.nutrition.protein)}g protein (${proteinColor.percentage}%)${isEstimatedNutrition(event.nutrition) ? ', estimated' : ''}`}
+                />
+                <div
+                  className={styles.nutritionIndicator}
+                  style={{ backgroundColor: carbsColor.backgroundColor, opacity: carbsColor.opacity }}
+                  title={`${Math.round(event.nutrition.carbs)}g carbs (${carbsColor.percentage}%)${isEstimatedNutrition(event.nutrition) ? ', estimated' : ''}`}
+                />
+                <div
+                  className={styles.nutritionIndicator}
+                  style={{ backgroundColor: fatColor.backgroundColor, opacity: fatColor.opacity }}
+                  title={`${Math.round(event.nutrition.fat)}g fat (${fatColor.percentage}%)${isEstimatedNutrition(event.nutrition) ? ', estimated' : ''}`}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  /**
+   * Render a day's meals for the month and week views, in slot order with each meal's dishes together
+   */
+  const renderDayEvents = (dayEvents: PlanEvent[]) => {
+    return groupMeals(dayEvents, mealSlots).flatMap(meal =>
+      meal.map((event, index) => renderEventCard(event, index > 0, index === 0))
+    );
   };
 
   const { daysInMonth, firstDayOfWeek } = getDaysInMonth(currentDate);
-  const monthName = currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  /**
+   * Get the heading for the current view: the month, the day, or the agenda's date range
+   */
+  const getCalendarTitle = () => {
+    if (view === 'day') {
+      return currentDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    }
+    if (view === 'agenda') {
+      const format = (date: string) => parseDateString(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      return `${format(visibleRange.startDate)} – ${format(visibleRange.endDate)}`;
+    }
+    return currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  };
+
+  /**
+   * Step the calendar back or forward by one month, week, day or agenda page
+   */
+  const stepCalendar = (direction: 1 | -1) => {
+    if (view === 'month') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + direction));
+      return;
+    }
+    const step = view === 'week' ? 7 : view === 'day' ? 1 : AGENDA_DAYS;
+    setCurrentDate(parseDateString(addDays(toDateString(currentDate), step * direction)));
+  };
+
+  /**
+   * Render one day split into the user's meal slots, with the day's nutrition against the user's goals
+   * Each slot is a drop target, so dragging a meal onto another slot moves it there
+   */
+  const renderDayView = () => {
+    const dateString = toDateString(currentDate);
+    const dayEvents = getEventsForDate(dateString);
+    const stats = getNutritionalStats(dateString);
+
+    return (
+      <div className={styles.dayView}>
+        <div className={styles.dayViewNutrition}>
+          {(['calories', 'protein', 'carbs', 'fat'] as const).map(key => {
+            const color = getNutritionColor(stats, key);
+            return (
+              <div key={key} className={styles.dayViewStat}>
+                <span className={styles.dayViewStatLabel}>{key}</span>
+                <span className={styles.dayViewStatValue}>
+                  {Math.round(stats[key])}{key === 'calories' ? '' : 'g'} / {nutritionGoals[key]}{key === 'calories' ? '' : 'g'}
+                </span>
+                <div className={styles.dayViewStatBar}>
+                  <div style={{ width: `${color.percentage}%`, backgroundColor: color.backgroundColor }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {mealSlots.map(slot => {
+          const meals = groupMeals(dayEvents.filter(event => getEventSlotId(event, mealSlots) === slot.id), mealSlots);
+          const isDragOver = dragOverDate === dateString && dragOverSlot === slot.id;
+          return (
+            <section
+              key={slot.id}
+              className={`${styles.daySlot} ${isDragOver ? styles.dragOverDay : ''}`}
+              onDragOver={(e) => handleDayDragOver(e, dateString, slot.id)}
+              onDragLeave={handleDayDragLeave}
+              onDrop={(e) => handleDayDrop(e, dateString, slot.id)}
+            >
+              <div className={styles.daySlotHeader}>
+                <h4>{slot.icon} {slot.label}</h4>
+                <button className={styles.daySlotAddButton} onClick={() => onDayClick(dateString, slot.id)} aria-label={`Add a meal for ${slot.label.toLowerCase()}`}>
+                  +
+                </button>
+              </div>
+              {meals.length > 0 ? (
+                <div className={styles.daySlotEvents}>
+                  {meals.map(meal => (
+                    <div key={meal[0].id} className={`${styles.mealGroup} ${meal.length > 1 ? styles.multiDishMeal : ''}`}>
+                      {meal.map((event, index) => renderEventCard(event, index > 0))}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className={styles.daySlotEmpty}>Nothing planned</p>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    );
+  };
+
+  /**
+   * Render the coming days as a list, one row per meal
+   * Rows are compact so the agenda fits a phone screen; each day is a drop target
+   */
+  const renderAgenda = () => {
+    const dates = Array.from({ length: AGENDA_DAYS }, (_, index) => addDays(visibleRange.startDate, index));
+    const todayString = toDateString(new Date());
+
+    return (
+      <div className={styles.agendaView}>
+        {dates.map(dateString => {
+          const dayEvents = getEventsForDate(dateString);
+          const isDragOver = dragOverDate === dateString;
+          return (
+            <section
+              key={dateString}
+              className={`${styles.agendaDay} ${dateString === todayString ? styles.agendaToday : ''} ${isDragOver ? styles.dragOverDay : ''}`}
+              onDragOver={(e) => handleDayDragOver(e, dateString)}
+              onDragLeave={handleDayDragLeave}
+              onDrop={(e) => handleDayDrop(e, dateString)}
+            >
+              <div className={styles.agendaDayHeader}>
+                <h4>{parseDateString(dateString).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}</h4>
+                <button className={styles.daySlotAddButton} onClick={() => onDayClick(dateString)} aria-label="Add a meal">
+                  +
+                </button>
+              </div>
+              {dayEvents.length === 0 ? (
+                <p className={styles.daySlotEmpty}>Nothing planned</p>
+              ) : (
+                <ul className={styles.agendaList}>
+                  {groupMeals(dayEvents, mealSlots).flatMap(meal => meal.map((event, index) => (
+                    <li
+                      key={event.id}
+                      className={`${styles.agendaItem} ${styles.draggableEvent} ${index > 0 ? styles.agendaGroupedItem : ''}`}
+                      onClick={() => {
+                        if (draggedEvent) return;
+                        onEventClick(event);
+                      }}
+                      draggable={!isGuestMode}
+                      onDragStart={(e) => handleDragStart(e, event)}
+                      onDragEnd={handleDragEnd}
+                    >
+                      <span className={styles.agendaItemIcon} title={event.mealType}>{getMealTypeIcon(event.mealType)}</span>
+                      <span className={styles.agendaItemTitle}>
+                        {event.title}
+                        {event.leftoverOf && <span title="Leftovers"> 🥡</span>}
+                        {event.seriesId && <span title="Repeats"> 🔁</span>}
+                      </span>
+                      {index === 0 && (
+                        <span className={styles.agendaItemSlot}>{getEventSlot(event).label}</span>
+                      )}
+                      {event.nutrition && (
+                        <span className={styles.agendaItemCalories}>{Math.round(event.nutrition.calories)} cal</span>
+                      )}
+                    </li>
+                  )))}
+                </ul>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    );
+  };
 
   const renderCalendarDays = () => {
     const days = [];
@@ -522,101 +920,7 @@ const GridCalendar: React.FC<{
           >
             <div className={styles.calendarDayNumber}>{day}</div>
             <div className={styles.calendarDayEvents}>
-              {dayEvents.map((event) => {
-                const caloriesColor = getNutritionColor(event.nutrition, 'calories');
-                const proteinColor = getNutritionColor(event.nutrition, 'protein');
-                const carbsColor = getNutritionColor(event.nutrition, 'carbs');
-                const fatColor = getNutritionColor(event.nutrition, 'fat');
-
-                return (
-                  <div
-                    key={event.id}
-                    className={`${styles.calendarEventCard} ${styles.draggableEvent}`}
-                    onClick={() => {
-                      // Prevent click when dragging
-                      if (draggedEvent) return;
-                      onEventClick(event);
-                    }}
-                    onDoubleClick={() => {
-                      // Prevent double click when dragging
-                      if (draggedEvent) return;
-                      onImageClick(event);
-                    }}
-                    draggable={!isGuestMode}
-                    onDragStart={(e) => handleDragStart(e, event)}
-                    onDragEnd={handleDragEnd}
-                    title={isGuestMode ? "Guest mode - drag disabled" : "Drag to reschedule meal"}
-                  >
-                    {event.image && (
-                      <div className={styles.calendarEventImageContainer}>
-                        <img
-                          src={event.image}
-                          alt={event.title}
-                          className={styles.calendarEventImage}
-                          onClick={(e) => handleImageClick(event, e)}
-                          onError={onImageError}
-                        />
-                        <div className={styles.calendarEventMealType}>
-                          <span className={styles.mealTypeIndicator} title={event.mealType}>
-                            {getMealTypeIcon(event.mealType)}
-                          </span>
-                        </div>
-                      </div>
-                    )}
-                    <div className={styles.calendarEventInfo}>
-                      {!event.image && (
-                        <div style={{ marginBottom: '8px' }}>
-                          <div style={{ fontSize: '0.85rem', fontWeight: '600', color: '#2E3A1A', marginBottom: '4px' }}>
-                            {event.title}
-                          </div>
-                          <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
-                            <span style={{
-                              display: 'flex',
-                              alignItems: 'center',
-                              justifyContent: 'center',
-                              width: '24px',
-                              height: '24px',
-                              background: 'rgba(84, 106, 4, 0.1)',
-                              borderRadius: '50%',
-                              fontSize: '0.9rem',
-                              color: '#546A04',
-                              border: '1px solid rgba(84, 106, 4, 0.2)'
-                            }} title={event.mealType}>
-                              {getMealTypeIcon(event.mealType)}
-                            </span>
-                          </div>
-                        </div>
-                      )}
-                      <div className={styles.calendarEventNutrition}>
-                        {event.nutrition && (
-                          <>
-                            <div
-                              className={styles.nutritionIndicator}
-                              style={{ backgroundColor: caloriesColor.backgroundColor, opacity: caloriesColor.opacity }}
-                              title={`${Math.round(event.nutrition.calories)} calories (${caloriesColor.percentage}%)`}
-                            />
-                            <div
-                              className={styles.nutritionIndicator}
-                              style={{ backgroundColor: proteinColor.backgroundColor, opacity: proteinColor.opacity }}
-                              title={`${Math.round(event.nutrition.protein)}g protein (${proteinColor.percentage}%)`}
-                            />
-                            <div
-                              className={styles.nutritionIndicator}
-                              style={{ backgroundColor: carbsColor.backgroundColor, opacity: carbsColor.opacity }}
-                              title={`${Math.round(event.nutrition.carbs)}g carbs (${carbsColor.percentage}%)`}
-                            />
-                            <div
-                              className={styles.nutritionIndicator}
-                              style={{ backgroundColor: fatColor.backgroundColor, opacity: fatColor.opacity }}
-                              title={`${Math.round(event.nutrition.fat)}g fat (${fatColor.percentage}%)`}
-                            />
-                          </>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                );
-              })}
+              {renderDayEvents(dayEvents)}
             </div>
           </div>
         );
@@ -644,101 +948,7 @@ const GridCalendar: React.FC<{
           >
             <div className={styles.calendarDayNumber}>{date.getDate()}</div>
             <div className={styles.calendarDayEvents}>
-              {dayEvents.map((event) => {
-                const caloriesColor = getNutritionColor(event.nutrition, 'calories');
-                const proteinColor = getNutritionColor(event.nutrition, 'protein');
-                const carbsColor = getNutritionColor(event.nutrition, 'carbs');
-                const fatColor = getNutritionColor(event.nutrition, 'fat');
-
-                return (
-                  <div
-                    key={event.id}
-                    className={`${styles.calendarEventCard} ${styles.draggableEvent}`}
-                    onClick={() => {
-                      // Prevent click when dragging
-                      if (draggedEvent) return;
-                      onEventClick(event);
-                    }}
-                    onDoubleClick={() => {
-                      // Prevent double click when dragging
-                      if (draggedEvent) return;
-                      onImageClick(event);
-                    }}
-                    draggable={!isGuestMode}
-                    onDragStart={(e) => handleDragStart(e, event)}
-                    onDragEnd={handleDragEnd}
-                    title={isGuestMode ? "Guest mode - drag disabled" : "Drag to reschedule meal"}
-                  >
-                    {event.image && (
-                      <div className={styles.calendarEventImageContainer}>
-                        <img
-                          src={event.image}
-                          alt={event.title}
-                          className={styles.calendarEventImage}
-                          onClick={(e) => handleImageClick(event, e)}
-                          onError={onImageError}
-                        />
-                        <div className={styles.calendarEventMealType}>
-                          <span className={styles.mealTypeIndicator} title={event.mealType}>
-                            {getMealTypeIcon(event.mealType)}
-                          </span>
-                        </div>
-                      </div>
-                    )}
-                    <div className={styles.calendarEventInfo}>
-                      {!event.image && (
-                        <div style={{ marginBottom: '8px' }}>
-                          <div style={{ fontSize: '0.85rem', fontWeight: '600', color: '#2E3A1A', marginBottom: '4px' }}>
-                            {event.title}
-                          </div>
-                          <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
-                            <span style={{
-                              display: 'flex',
-                              alignItems: 'center',
-                              justifyContent: 'center',
-                              width: '24px',
-                              height: '24px',
-                              background: 'rgba(84, 106, 4, 0.1)',
-                              borderRadius: '50%',
-                              fontSize: '0.9rem',
-                              color: '#546A04',
-                              border: '1px solid rgba(84, 106, 4, 0.2)'
-                            }} title={event.mealType}>
-                              {getMealTypeIcon(event.mealType)}
-                            </span>
-                          </div>
-                        </div>
-                      )}
-                      <div className={styles.calendarEventNutrition}>
-                        {event.nutrition && (
-                          <>
-                            <div
-                              className={styles.nutritionIndicator}
-                              style={{ backgroundColor: caloriesColor.backgroundColor, opacity: caloriesColor.opacity }}
-                              title={`${Math.round(event.nutrition.calories)} calories (${caloriesColor.percentage}%)`}
-                            />
-                            <div
-                              className={styles.nutritionIndicator}
-                              style={{ backgroundColor: proteinColor.backgroundColor, opacity: proteinColor.opacity }}
-                              title={`${Math.round(event.nutrition.protein)}g protein (${proteinColor.percentage}%)`}
-                            />
-                            <div
-                              className={styles.nutritionIndicator}
-                              style={{ backgroundColor: carbsColor.backgroundColor, opacity: carbsColor.opacity }}
-                              title={`${Math.round(event.nutrition.carbs)}g carbs (${carbsColor.percentage}%)`}
-                            />
-                            <div
-                              className={styles.nutritionIndicator}
-                              style={{ backgroundColor: fatColor.backgroundColor, opacity: fatColor.opacity }}
-                              title={`${Math.round(event.nutrition.fat)}g fat (${fatColor.percentage}%)`}
-                            />
-                          </>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                );
-              })}
+              {renderDayEvents(dayEvents)}
             </div>
           </div>
         );
@@ -752,23 +962,25 @@ const GridCalendar: React.FC<{
     <div className={styles.gridCalendar}>
       <div className={styles.calendarHeader}>
         <button
-          onClick={() => setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1))}
+          onClick={() => stepCalendar(-1)}
           className={styles.calendarNavButton}
         >
           ‹
         </button>
-        <h3 className={styles.calendarTitle}>{monthName}</h3>
+        <h3 className={styles.calendarTitle}>{getCalendarTitle()}</h3>
         <button
-          onClick={() => setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1))}
+          onClick={() => stepCalendar(1)}
           className={styles.calendarNavButton}
         >
           ›
         </button>
       </div>
 
-      <div className={styles.calendarGrid}>
-        {renderCalendarDays()}
-      </div>
+      {view === 'day' ? renderDayView() : view === 'agenda' ? renderAgenda() : (
+        <div className={styles.calendarGrid}>
+          {renderCalendarDays()}
+        </div>
+      )}
 
       <div className={styles.nutritionLegend}>
         <h4>Nutrition Legend</h4>
@@ -827,24 +1039,43 @@ const PlanPage: React.FC = () => {
     restoreFromTrash,         // Function to restore event from trash
     deleteFromTrash,          // Function to permanently delete event
     clearTrash,               // Function to empty trash
+    trashRetentionDays,       // Days meals stay in trash
+    updateTrashRetention,     // Function to change how long meals stay in trash
     addToPlan,                // Function to add event to plan
     moveEvent,                // Function to move event to new date
+    setMakesLeftovers,        // Function to plan or remove a meal's leftovers
     ensureNutritionData,      // Function to ensure nutrition data exists
     updateEvent,              // Function to update event details
-    clearAllToTrash           // Function to move all events to trash
+    updateOccurrence,         // Function to edit occurrences of a recurring meal
+    deleteOccurrence,         // Function to trash occurrences of a recurring meal
+    getEventsForDate,         // Function to get meals for a date, recurring meals included
+    clearAllToTrash,          // Function to move all events to trash
+    plans,                    // All named meal plans
+    activePlan,               // Plan whose meals are shown
+    switchPlan,               // Function to show another plan
+    nextUndo,                 // Change that undo would revert
+    nextRedo,                 // Change that redo would apply again
+    undo,                     // Function to undo the last change
+    redo,                     // Function to redo the last undone change
+    householdSize,            // Portions to cook for each meal, null to cook recipes as written
+    updateHouseholdSize,      // Function to change the household size
+    getCheaperAlternatives,   // Function to find similar recipes that cost less
+    mealSlots                 // Times of day the user eats at
   } = usePlan();
   const { isGuestMode } = useGuest();  // Guest mode context
+  const { user } = useAuth();          // Signed-in user, whose calendar view is remembered
+  const calendarOwnerId = user?.id || 'guest';
 
   // ===== EFFECTS =====
   // Side effects for data initialization and lifecycle management
 
   /**
-   * Ensure nutrition data exists for all events on component mount
-   * This prevents missing nutrition data in the UI
+   * Ensure nutrition data exists for all events once they are loaded
+   * Replaces estimates with real recipe nutrition where available
    */
   React.useEffect(() => {
     ensureNutritionData();
-  }, []);
+  }, [events.length]);
 
   /**
    * Initialize selected date with today's date on component mount
@@ -854,6 +1085,28 @@ const PlanPage: React.FC = () => {
     setSelectedDate(todayString);
   }, []);
 
+  /**
+   * Undo with Ctrl+Z (Cmd+Z on Mac) and redo with Ctrl+Shift+Z or Ctrl+Y
+   * Text fields keep the browser's own undo
+   */
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   // ===== STATE MANAGEMENT =====
   // Component state for UI interactions, data management, and form handling
 
@@ -866,15 +1119,37 @@ const PlanPage: React.FC = () => {
   const [showConfirmModal, setShowConfirmModal] = useState(false);        // General confirmation modal
   const [showEditModal, setShowEditModal] = useState(false);              // Edit recipe modal
   const [showNotesModal, setShowNotesModal] = useState(false);            // Add notes modal
+  const [showTemplatesModal, setShowTemplatesModal] = useState(false);    // Week templates modal
+  const [showGeneratorModal, setShowGeneratorModal] = useState(false);    // Automatic week generator modal
+  const [showGoalsModal, setShowGoalsModal] = useState(false);            // Nutrition goals modal
+  const [showReport, setShowReport] = useState(false);                    // Show the nutrition report instead of the calendar
+  const [showCalendarSyncModal, setShowCalendarSyncModal] = useState(false);  // Calendar (.ics) export and import modal
+  const [showPlansModal, setShowPlansModal] = useState(false);            // Create, rename and archive meal plans
+  const [showMealSlotsModal, setShowMealSlotsModal] = useState(false);    // Set up the times of day meals are eaten at
+  const [isPlanningMode, setIsPlanningMode] = useState(false);            // Show the recipe sidebar next to the calendar
+  const [planningMessage, setPlanningMessage] = useState('');             // Result of the last recipe dropped on the calendar
+  const [sidebarRecipe, setSidebarRecipe] = useState<DraggedRecipe | null>(null);  // Sidebar recipe being added through the add to plan modal
+  const [undoToast, setUndoToast] = useState<PlanHistoryEntry | null>(null);  // Change offered for undo in the toast
+  const lastToastIdRef = React.useRef(-1);                                 // Newest change already considered for the toast
 
   // Data states
   const [selectedRecipe, setSelectedRecipe] = useState<PlanEvent | null>(null);  // Currently selected recipe
   const [selectedDate, setSelectedDate] = useState('');                          // Selected calendar date
+  const [selectedSlot, setSelectedSlot] = useState('');                          // Slot picked in the day view ('' = none)
   const [editingRecipe, setEditingRecipe] = useState<PlanEvent | null>(null);    // Recipe being edited
+  const [cheaperAlternatives, setCheaperAlternatives] = useState<{ eventId: string; recipes: Recipe[] } | null>(null);  // Cheaper recipes found for a meal
+  const [isFindingAlternatives, setIsFindingAlternatives] = useState(false);     // Searching for cheaper recipes
   const [confirmMessage, setConfirmMessage] = useState('');                      // Confirmation modal message
+  const [pendingScopeAction, setPendingScopeAction] = useState<{
+    action: 'edit' | 'delete';
+    run: (scope: RecurrenceEditScope) => Promise<void>;
+  } | null>(null);                                                               // Recurring meal action waiting for a scope choice
 
   // UI states
-  const [calendarView, setCalendarView] = useState<'month' | 'week'>('month');   // Calendar view mode
+  const [calendarView, setCalendarView] = useState<CalendarView>(() => getStoredCalendarView(calendarOwnerId));  // Calendar view mode
+  const [trashSortOrder, setTrashSortOrder] = useState<TrashSortOrder>('recentlyTrashed');  // Order of the trash list
+  const [trashMealTypeFilter, setTrashMealTypeFilter] = useState('all');         // Meal type shown in trash ('all' = every type)
+  const [trashDateFilter, setTrashDateFilter] = useState('');                    // Meal date shown in trash ('' = every date)
   const [showAllMeals, setShowAllMeals] = useState(false);                       // Toggle between today/all meals
   const [dragOver, setDragOver] = useState(false);                               // Drag and drop visual feedback
   const [customImage, setCustomImage] = useState<string | null>(null);           // Custom uploaded image
@@ -890,72 +1165,65 @@ const PlanPage: React.FC = () => {
     image: undefined as string | undefined
   });
 
-  // ===== COMPUTED VALUES =====
-  // Derived values and calculations used throughout the component
-
-  const today = new Date();
-  const todayString = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;  // Today's date in YYYY-MM-DD format
-  const todayEvents = events.filter(event => event.date === todayString);  // Events scheduled for today
-
-  // ===== UTILITY FUNCTIONS =====
-  // Helper functions for data processing, calculations, and UI utilities
+  // ===== CALENDAR VIEW =====
 
   /**
-   * Generate nutrition data for custom recipes based on title and meal type
-   * Uses keyword matching to estimate nutritional values
-   * This provides reasonable nutrition estimates for custom recipes
+   * Show the view this user picked last time once we know who they are
    */
-  const generateNutritionData = (title: string, mealType: string) => {
-    const baseNutrition = {
-      breakfast: { calories: 350, protein: 15, carbs: 45, fat: 12 },
-      'main course': { calories: 550, protein: 25, carbs: 60, fat: 22 },
-      'side dish': { calories: 250, protein: 8, carbs: 35, fat: 10 },
-      dessert: { calories: 300, protein: 5, carbs: 50, fat: 12 },
-
-      snack: { calories: 200, protein: 8, carbs: 25, fat: 8 }
-    };
-
-    const base = baseNutrition[mealType as keyof typeof baseNutrition] || baseNutrition['main course'];
-    const titleLower = title.toLowerCase();
+  React.useEffect(() => {
+    setCalendarView(getStoredCalendarView(calendarOwnerId));
+  }, [calendarOwnerId]);
 
-    let calories = base.calories;
-    let protein = base.protein;
-    let carbs = base.carbs;
-    let fat = base.fat;
+  /**
+   * Switch the calendar view and remember it for this user
+   */
+  const handleChangeCalendarView = (view: CalendarView) => {
+    setCalendarView(view);
+    setShowReport(false);
+    storeCalendarView(calendarOwnerId, view);
+  };
 
-    if (titleLower.includes('chicken') || titleLower.includes('fish') || titleLower.includes('salmon') ||
-      titleLower.includes('beef') || titleLower.includes('meat') || titleLower.includes('protein')) {
-      protein += 10;
-      calories += 50;
-    }
+  // ===== UNDO TOAST =====
 
-    if (titleLower.includes('pasta') || titleLower.includes('rice') || titleLower.includes('bread') ||
-      titleLower.includes('potato') || titleLower.includes('noodle')) {
-      carbs += 15;
-      calories += 80;
+  /**
+   * Show the Undo toast after a change that removed meals
+   * Only new changes show it, not older ones that come back to the top after an undo
+   */
+  React.useEffect(() => {
+    if (!nextUndo || nextUndo.id <= lastToastIdRef.current) return;
+    lastToastIdRef.current = nextUndo.id;
+    if (nextUndo.isDestructive) {
+      setUndoToast(nextUndo);
     }
+  }, [nextUndo]);
 
-    if (titleLower.includes('salad') || titleLower.includes('soup') || titleLower.includes('light') ||
-      titleLower.includes('vegetable')) {
-      calories -= 100;
-      fat -= 5;
-    }
+  /**
+   * Hide the Undo toast after a few seconds
+   */
+  React.useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), UNDO_TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
 
-    if (titleLower.includes('cheese') || titleLower.includes('cream') || titleLower.includes('butter') ||
-      titleLower.includes('fried') || titleLower.includes('bacon')) {
-      fat += 8;
-      calories += 60;
-    }
+  // ===== COMPUTED VALUES =====
+  // Derived values and calculations used throughout the component
 
-    // Additional adjustments could go here if recipe data is available
+  const today = new Date();
+  const todayString = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;  // Today's date in YYYY-MM-DD format
+  const todayEvents = getEventsForDate(todayString);  // Events scheduled for today, recurring meals included
+  const visibleTrash = sortTrashedEvents(trashedEvents.filter(event =>
+    (trashMealTypeFilter === 'all' || event.mealType === trashMealTypeFilter) &&
+    (!trashDateFilter || event.date === trashDateFilter)
+  ), trashSortOrder);  // Trashed meals matching the filters, in the chosen order
+  const selectedDayEvents = selectedRecipe ? events.filter(event => event.date === selectedRecipe.date) : [];
+  const servedWith = selectedRecipe ? selectedDayEvents.filter(event =>
+    event.id !== selectedRecipe.id &&
+    getMealGroupId(event, selectedDayEvents) === getMealGroupId(selectedRecipe, selectedDayEvents)
+  ) : [];  // Other dishes of the selected meal, e.g. the side served with a main
 
-    return {
-      calories: Math.max(150, Math.round(calories)),
-      protein: Math.max(5, Math.round(protein)),
-      carbs: Math.max(10, Math.round(carbs)),
-      fat: Math.max(3, Math.round(fat))
-    };
-  };
+  // ===== UTILITY FUNCTIONS =====
+  // Helper functions for data processing, calculations, and UI utilities
 
   /**
    * Get color for difficulty level
@@ -1027,27 +1295,149 @@ const PlanPage: React.FC = () => {
    */
   const handleViewRecipeInstructions = () => {
     if (selectedRecipe) {
-      navigate(`/recipes/${selectedRecipe.recipeId}`);
+      navigate(`/recipes/${selectedRecipe.recipeId}?portions=${getMealPortions(selectedRecipe, householdSize)}`);
       setShowRecipeModal(false);
     }
   };
 
   /**
-   * Handle clicking on a calendar day
+   * Change how many portions to cook for the selected meal
+   * Recurring meals change for the whole series, so every occurrence is cooked the same way
+   */
+  const handleChangePortions = async (portions: number) => {
+    if (!selectedRecipe || portions < 1) return;
+
+    if (selectedRecipe.seriesId) {
+      await updateOccurrence(selectedRecipe, { portions }, 'all');
+    } else {
+      await updateEvent(selectedRecipe.id, { ...selectedRecipe, portions });
+    }
+    setSelectedRecipe({ ...selectedRecipe, portions });
+  };
+
+  /**
+   * Move the selected meal to another slot of its day
+   * A dish moved away from its meal on its own is no longer part of it
+   */
+  const handleChangeSlot = async (slot: string) => {
+    if (!selectedRecipe) return;
+
+    const moved: PlanEvent = { ...selectedRecipe, slot };
+    delete moved.mealGroupId;
+    if (selectedRecipe.seriesId) {
+      await updateOccurrence(selectedRecipe, { slot }, 'all');
+    } else {
+      await moveEvent(selectedRecipe.id, selectedRecipe.date, slot);
+    }
+    setSelectedRecipe(moved);
+  };
+
+  /**
+   * Look for similar recipes that cost less than the selected meal
+   */
+  const handleFindCheaperAlternatives = async () => {
+    if (!selectedRecipe) return;
+
+    setIsFindingAlternatives(true);
+    try {
+      const recipes = await getCheaperAlternatives(selectedRecipe);
+      setCheaperAlternatives({ eventId: selectedRecipe.id, recipes });
+    } finally {
+      setIsFindingAlternatives(false);
+    }
+  };
+
+  /**
+   * Replace the selected meal's recipe with a cheaper alternative
+   * Keeps the date, meal type, portions and notes of the meal
+   */
+  const handleSwapToAlternative = async (recipe: Recipe) => {
+    if (!selectedRecipe) return;
+
+    const swapped: PlanEvent = {
+      ...selectedRecipe,
+      title: recipe.title,
+      recipeId: recipe.id,
+      image: recipe.image,
+      servings: recipe.servings,
+      nutrition: getRecipeNutrition(recipe, selectedRecipe.mealType),
+      cost: getRecipeCost(recipe)
+    };
+    await updateEvent(selectedRecipe.id, swapped);
+    setSelectedRecipe(swapped);
+    setCheaperAlternatives(null);
+  };
+
+  /**
+   * Plan the selected meal's spare portions as leftovers, or remove its leftovers
+   * Planning again replaces the leftovers, e.g. after changing the portions to cook
+   */
+  const handleSetMakesLeftovers = async (makesLeftovers: boolean) => {
+    if (!selectedRecipe) return;
+
+    await setMakesLeftovers(selectedRecipe.id, makesLeftovers);
+    setSelectedRecipe({ ...selectedRecipe, makesLeftovers: makesLeftovers || undefined });
+  };
+
+  /**
+   * Format a meal date for the leftovers section, e.g. "Tue, Mar 4"
+   */
+  const formatShortDate = (dateString: string) => {
+    return parseDateString(dateString).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+
+  /**
+   * Handle clicking on a calendar day, or on one of its slots in the day view
    * Opens the add meal modal for the selected date and updates nutritional stats
    */
-  const handleDayClick = (date: string) => {
+  const handleDayClick = (date: string, slot?: string) => {
     setSelectedDate(date);
+    setSelectedSlot(slot || '');
     setShowAddMealModal(true);
   };
 
   /**
-   * Handle dropping an event to a new date
+   * Handle dropping an event to a new date, or onto a slot in the day view
    * Moves the event to the new date using the moveEvent method
    */
-  const handleEventDrop = async (eventId: string, newDate: string) => {
+  const handleEventDrop = async (eventId: string, newDate: string, slot?: string) => {
     // Use the new moveEvent method for better performance
-    await moveEvent(eventId, newDate);
+    await moveEvent(eventId, newDate, slot);
+  };
+
+  /**
+   * Plan a recipe dropped from the recipe sidebar
+   * The meal type comes from the recipe's dish types and the slot from where it was dropped;
+   * recipes already planned there are skipped, like when adding one from its page
+   */
+  const handleRecipeDrop = (recipe: DraggedRecipe, date: string, slot?: string) => {
+    const mealType = getRecipeMealType(recipe.dishTypes);
+    const newEvent: Omit<PlanEvent, 'id'> = {
+      title: recipe.title,
+      date,
+      recipeId: recipe.id,
+      mealType,
+      slot: slot || getDefaultSlotId(mealType, mealSlots),
+      image: recipe.image,
+      nutrition: getRecipeNutrition(recipe, mealType)
+    };
+    // Only set optional fields the recipe has (Firestore rejects undefined fields)
+    if (recipe.servings) {
+      newEvent.servings = recipe.servings;
+    }
+    const cost = getRecipeCost(recipe);
+    if (cost) {
+      newEvent.cost = cost;
+    }
+
+    const slotLabel = mealSlots.find(mealSlot => mealSlot.id === newEvent.slot)?.label.toLowerCase();
+    if (isMealAlreadyPlanned(getEventsForDate(date), newEvent, mealSlots)) {
+      setPlanningMessage(`"${recipe.title}" is already planned for ${slotLabel} on ${formatShortDate(date)}.`);
+      return;
+    }
+
+    addToPlan(newEvent);
+    setPlanningMessage(`Added "${recipe.title}" to ${slotLabel} on ${formatShortDate(date)}.`);
   };
 
   /**
@@ -1055,15 +1445,17 @@ const PlanPage: React.FC = () => {
    * Creates a new event with generated nutrition data
    */
   const handleAddCustomRecipe = (recipeData: { title: string; mealType: string; date: string }) => {
+    const mealType = recipeData.mealType as PlanEvent['mealType'];
     const newEvent: Omit<PlanEvent, 'id'> = {
       title: recipeData.title,
       date: recipeData.date,
-      mealType: recipeData.mealType as 'main course' | 'breakfast' | 'side dish' | 'dessert' | 'snack',
+      mealType,
+      slot: selectedSlot || getDefaultSlotId(mealType, mealSlots),
       difficulty: 'easy',
       prepTime: 15,
       cookTime: 30,
       servings: 2,
-      nutrition: generateNutritionData(recipeData.title, recipeData.mealType),
+      nutrition: generateNutritionData({ title: recipeData.title }, recipeData.mealType),
       recipeId: Date.now()
     };
 
@@ -1075,8 +1467,8 @@ const PlanPage: React.FC = () => {
    * Passes selected date as query parameter for context
    */
   const handleBrowseRecipes = () => {
-    // Pass the selected date to the recipes page so it can be used when adding meals
-    navigate(`/recipes?selectedDate=${selectedDate}`);
+    // Pass the selected date (and slot) to the recipes page so it can be used when adding meals
+    navigate(`/recipes?selectedDate=${selectedDate}${selectedSlot ? `&selectedSlot=${encodeURIComponent(selectedSlot)}` : ''}`);
   };
 
   /**
@@ -1085,6 +1477,7 @@ const PlanPage: React.FC = () => {
    */
   const handleOpenCustomRecipeModal = () => {
     setSelectedDate(todayString); // Use today's date as default
+    setSelectedSlot('');
     setShowCustomRecipeModal(true);
   };
 
@@ -1124,11 +1517,23 @@ const PlanPage: React.FC = () => {
         servings: editFormData.servings,
         notes: editFormData.notes.trim(),
         image: editFormData.image,
-        nutrition: generateNutritionData(editFormData.title, editFormData.mealType)
+        // Real recipe nutrition stays; only estimates are worked out again from the new title and meal type
+        nutrition: isEstimatedNutrition(editingRecipe.nutrition)
+          ? generateNutritionData({ title: editFormData.title }, editFormData.mealType)
+          : editingRecipe.nutrition
       };
 
-      // Update the existing recipe in place
-      await updateEvent(editingRecipe.id, updatedRecipe);
+      // Recurring meals ask which occurrences to change first
+      if (editingRecipe.seriesId) {
+        const occurrence = editingRecipe;
+        setPendingScopeAction({
+          action: 'edit',
+          run: (scope) => updateOccurrence(occurrence, updatedRecipe, scope)
+        });
+      } else {
+        // Update the existing recipe in place
+        await updateEvent(editingRecipe.id, updatedRecipe);
+      }
 
       // Close edit modal and return to plan page
       setShowEditModal(false);
@@ -1179,8 +1584,17 @@ const PlanPage: React.FC = () => {
         notes: editFormData.notes.trim()
       };
 
-      // Update the existing recipe in place
-      await updateEvent(editingRecipe.id, updatedRecipe);
+      // Recurring meals ask which occurrences to change first
+      if (editingRecipe.seriesId) {
+        const occurrence = editingRecipe;
+        setPendingScopeAction({
+          action: 'edit',
+          run: (scope) => updateOccurrence(occurrence, { notes: updatedRecipe.notes }, scope)
+        });
+      } else {
+        // Update the existing recipe in place
+        await updateEvent(editingRecipe.id, updatedRecipe);
+      }
 
       setShowNotesModal(false);
       setShowAddMealModal(false); // Ensure add meal modal is closed
@@ -1274,6 +1688,56 @@ const PlanPage: React.FC = () => {
         <div className={styles.headerContent}>
           <h1 className={styles.pageTitle}>Smart Meal Planner</h1>
           <p className={styles.pageSubtitle}>Plan, track, and optimize your nutrition journey</p>
+
+          {/* Plan Switcher - shows which plan is open and switches between plans */}
+          <div className={styles.planSwitcher}>
+            <label htmlFor="activePlan" className={styles.planSwitcherLabel}>Plan</label>
+            <select
+              id="activePlan"
+              value={activePlan.id}
+              onChange={(e) => switchPlan(e.target.value)}
+              className={styles.planSelect}
+            >
+              {plans.filter(plan => !plan.archived).map(plan => (
+                <option key={plan.id} value={plan.id}>{plan.title}</option>
+              ))}
+            </select>
+            <button className={styles.managePlansButton} onClick={() => setShowPlansModal(true)}>
+              🗂️ Manage Plans
+            </button>
+            <label htmlFor="householdSize" className={styles.planSwitcherLabel}>👥 Household</label>
+            <select
+              id="householdSize"
+              value={householdSize ?? ''}
+              onChange={(e) => updateHouseholdSize(e.target.value ? Number(e.target.value) : null)}
+              className={styles.planSelect}
+              title="Portions to cook for each meal; meals can override it"
+            >
+              <option value="">As written</option>
+              {Array.from({ length: MAX_HOUSEHOLD_SIZE }, (_, index) => index + 1).map(size => (
+                <option key={size} value={size}>{size} {size === 1 ? 'person' : 'people'}</option>
+              ))}
+            </select>
+            <button className={styles.managePlansButton} onClick={() => setShowMealSlotsModal(true)}>
+              🕒 Meal Slots
+            </button>
+            <button
+              className={styles.historyButton}
+              onClick={() => undo()}
+              disabled={!nextUndo}
+              title={nextUndo ? `Undo: ${nextUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              ↶ Undo
+            </button>
+            <button
+              className={styles.historyButton}
+              onClick={() => redo()}
+              disabled={!nextRedo}
+              title={nextRedo ? `Redo: ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              ↷ Redo
+            </button>
+          </div>
         </div>
       </div>
 
@@ -1283,23 +1747,63 @@ const PlanPage: React.FC = () => {
             <div className={styles.sectionCard}>
               <div className={styles.sectionTitleContainer}>
                 <h2 className={styles.sectionTitle}>
-                  Smart Calendar
-                  <span className={styles.dragHint}>
-                    {isGuestMode ? "💡 Guest mode - drag disabled" : "💡 Drag meals to reschedule"}
-                  </span>
+                  {showReport ? 'Nutrition Report' : 'Smart Calendar'}
+                  {!showReport && (
+                    <span className={styles.dragHint}>
+                      {isGuestMode ? "💡 Guest mode - drag disabled" : "💡 Drag meals to reschedule"}
+                    </span>
+                  )}
                 </h2>
                 <div className={styles.calendarActions}>
+                  {CALENDAR_VIEWS.map(view => (
+                    <button
+                      key={view.value}
+                      className={`${styles.viewToggleButton} ${!showReport && calendarView === view.value ? styles.active : ''}`}
+                      onClick={() => handleChangeCalendarView(view.value)}
+                    >
+                      {view.icon} {view.label}
+                    </button>
+                  ))}
+                  <button
+                    className={`${styles.viewToggleButton} ${showReport ? styles.active : ''}`}
+                    onClick={() => setShowReport(true)}
+                  >
+                    📈 Report
+                  </button>
+                  <button
+                    className={`${styles.viewToggleButton} ${isPlanningMode ? styles.active : ''}`}
+                    onClick={() => {
+                      setIsPlanningMode(!isPlanningMode);
+                      setPlanningMessage('');
+                    }}
+                    title="Show recipes next to the calendar and drag them onto it"
+                  >
+                    🍳 Plan with Recipes
+                  </button>
+                  <button
+                    className={styles.viewToggleButton}
+                    onClick={() => navigate('/plan/shopping-list')}
+                    disabled={events.length === 0}
+                  >
+                    🛒 Shopping List
+                  </button>
+                  <button
+                    className={styles.viewToggleButton}
+                    onClick={() => setShowTemplatesModal(true)}
+                  >
+                    📋 Templates
+                  </button>
                   <button
-                    className={`${styles.viewToggleButton} ${calendarView === 'week' ? styles.active : ''}`}
-                    onClick={() => setCalendarView('week')}
+                    className={styles.viewToggleButton}
+                    onClick={() => setShowGeneratorModal(true)}
                   >
-                    📊 Week
+                    ✨ Auto-Plan
                   </button>
                   <button
-                    className={`${styles.viewToggleButton} ${calendarView === 'month' ? styles.active : ''}`}
-                    onClick={() => setCalendarView('month')}
+                    className={styles.viewToggleButton}
+                    onClick={() => setShowCalendarSyncModal(true)}
                   >
-                    📅 Month
+                    📆 Calendar Sync
                   </button>
                   <button
                     className={styles.clearAllButton}
@@ -1320,7 +1824,9 @@ const PlanPage: React.FC = () => {
               </div>
 
               <div className={styles.calendarContainer}>
-                {events.length === 0 ? (
+                {showReport ? (
+                  <NutritionReportView />
+                ) : events.length === 0 && !isPlanningMode ? (
                   <div className={styles.emptyCalendarState}>
                     <div className={styles.emptyCalendarIcon}></div>
                     <h3>No Meals Planned</h3>
@@ -1347,6 +1853,7 @@ const PlanPage: React.FC = () => {
                     onImageClick={handleEventClick}
                     onDayClick={handleDayClick}
                     onEventDrop={handleEventDrop}
+                    onRecipeDrop={isPlanningMode ? handleRecipeDrop : undefined}
                     view={calendarView}
                     isGuestMode={isGuestMode}
                     onImageError={handleImageError}
@@ -1357,6 +1864,15 @@ const PlanPage: React.FC = () => {
           </div>
 
           <div className={styles.rightColumn}>
+            {/* Recipe Sidebar - replaces the meal list while planning with recipes */}
+            {isPlanningMode ? (
+              <RecipeSidebar
+                isGuestMode={isGuestMode}
+                statusMessage={planningMessage}
+                onRecipeClick={setSidebarRecipe}
+                onClose={() => setIsPlanningMode(false)}
+              />
+            ) : (
             <div className={styles.sectionCard}>
               <div className={styles.sectionTitleContainer}>
                 <h2 className={styles.sectionTitle}>
@@ -1389,11 +1905,21 @@ const PlanPage: React.FC = () => {
                 <NutritionalStats
                   date={todayString}
                   className={styles.nutritionalStatsSection}
+                  onEditGoals={() => setShowGoalsModal(true)}
                 />
               ) : selectedDate && (
                 <NutritionalStats
                   date={selectedDate}
                   className={styles.nutritionalStatsSection}
+                  onEditGoals={() => setShowGoalsModal(true)}
+                />
+              )}
+
+              {/* Meal Budget - day and week cost against the weekly budget */}
+              {(!showAllMeals || selectedDate) && (
+                <BudgetSummary
+                  date={showAllMeals ? selectedDate : todayString}
+                  className={styles.nutritionalStatsSection}
                 />
               )}
 
@@ -1414,6 +1940,7 @@ const PlanPage: React.FC = () => {
                             month: 'short',
                             day: 'numeric'
                           })}
+                          {event.recurrence && ` · 🔁 ${describeRecurrence(event.recurrence)}`}
                         </div>
                       )}
                       <div className={styles.eventHeader}>
@@ -1442,8 +1969,11 @@ const PlanPage: React.FC = () => {
                           <div className={styles.nutritionInfo}>
                             <span>🍽️</span>
                             <span>
-                              {Math.round(event.nutrition.calories)} cal | {Math.round(event.nutrition.protein)}g protein
+                              {isEstimatedNutrition(event.nutrition) && '~'}{Math.round(event.nutrition.calories)} cal | {Math.round(event.nutrition.protein)}g protein
                             </span>
+                            {isEstimatedNutrition(event.nutrition) && (
+                              <span className={styles.estimateLabel} title="No nutrition data for this recipe, values are estimated">estimated</span>
+                            )}
                           </div>
                         )}
                       </div>
@@ -1458,6 +1988,7 @@ const PlanPage: React.FC = () => {
                                   eventId: event.id,
                                   date: event.date,
                                   mealType: event.mealType,
+                                  slot: event.slot,
                                 }
                               }
                             });
@@ -1468,7 +1999,7 @@ const PlanPage: React.FC = () => {
                         <button
                           className={styles.removeButton}
                           onClick={() => {
-                            setConfirmMessage(`Are you sure you want to move "${event.title}" to Trash?`);
+                            setConfirmMessage(`Are you sure you want to move "${event.title}"${event.recurrence && !event.seriesId ? ' and all of its repeats' : ''} to Trash?`);
                             setShowConfirmModal(true);
                             // Store the event ID for confirmation
                             setSelectedRecipe(event);
@@ -1482,6 +2013,7 @@ const PlanPage: React.FC = () => {
                 </div>
               )}
             </div>
+            )}
           </div>
         </div>
       </div>
@@ -1525,16 +2057,76 @@ const PlanPage: React.FC = () => {
         <div className={styles.confirmModalBackdrop} onClick={() => setShowTrashModal(false)}>
           <div className={styles.confirmModal} onClick={(e) => e.stopPropagation()}>
             <h3>🗑️ Trash ({trashedEvents.length} items)</h3>
+
+            {/* Trash Controls - sort and filter the list, and choose how long meals are kept */}
+            <div className={styles.trashControls}>
+              <label className={styles.trashControl}>
+                Sort by
+                <select
+                  value={trashSortOrder}
+                  onChange={(e) => setTrashSortOrder(e.target.value as TrashSortOrder)}
+                  className={styles.trashSelect}
+                >
+                  <option value="recentlyTrashed">Recently deleted</option>
+                  <option value="expiringSoon">Deleted soonest</option>
+                  <option value="mealDate">Meal date</option>
+                  <option value="mealType">Meal type</option>
+                </select>
+              </label>
+              <label className={styles.trashControl}>
+                Meal type
+                <select
+                  value={trashMealTypeFilter}
+                  onChange={(e) => setTrashMealTypeFilter(e.target.value)}
+                  className={styles.trashSelect}
+                >
+                  <option value="all">All meal types</option>
+                  <option value="breakfast">Breakfast</option>
+                  <option value="main course">Main course</option>
+                  <option value="side dish">Side dish</option>
+                  <option value="dessert">Dessert</option>
+                  <option value="snack">Snack</option>
+                </select>
+              </label>
+              <label className={styles.trashControl}>
+                Meal date
+                <input
+                  type="date"
+                  value={trashDateFilter}
+                  onChange={(e) => setTrashDateFilter(e.target.value)}
+                  className={styles.trashSelect}
+                />
+              </label>
+              <label className={styles.trashControl}>
+                Keep meals for
+                <select
+                  value={trashRetentionDays}
+                  onChange={(e) => updateTrashRetention(Number(e.target.value))}
+                  className={styles.trashSelect}
+                >
+                  {TRASH_RETENTION_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className={styles.trashRetentionHint}>
+              Meals are deleted automatically {trashRetentionDays} days after they are moved to trash.
+            </p>
+
             {trashedEvents.length === 0 ? (
               <p>No items in trash</p>
+            ) : visibleTrash.length === 0 ? (
+              <p>No meals in trash match these filters</p>
             ) : (
               <div className={styles.trashItems}>
-                {trashedEvents.map((event) => (
+                {visibleTrash.map((event) => (
                   <div key={event.id} className={styles.trashItem}>
                     <div className={styles.trashItemInfo}>
                       <span className={styles.trashItemTitle}>{event.title}</span>
                       <span className={styles.trashItemDate}>{event.date}</span>
                       <span className={styles.trashItemMeal}>{event.mealType}</span>
+                      <span className={styles.trashItemExpiry}>{formatTimeUntilPurge(event, trashRetentionDays)}</span>
                     </div>
                     <div className={styles.trashItemActions}>
                       <button
@@ -1618,6 +2210,25 @@ const PlanPage: React.FC = () => {
                       <span>Meal Type:</span>
                       <span>{selectedRecipe.mealType.charAt(0).toUpperCase() + selectedRecipe.mealType.slice(1)}</span>
                     </div>
+                    <div className={styles.recipeDetailItem}>
+                      <label htmlFor="mealSlot">Meal Slot:</label>
+                      <select
+                        id="mealSlot"
+                        value={getEventSlotId(selectedRecipe, mealSlots)}
+                        onChange={(e) => handleChangeSlot(e.target.value)}
+                        className={styles.slotSelect}
+                      >
+                        {mealSlots.map(slot => (
+                          <option key={slot.id} value={slot.id}>{slot.icon} {slot.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {servedWith.length > 0 && (
+                      <div className={styles.recipeDetailItem}>
+                        <span>Served With:</span>
+                        <span>{servedWith.map(event => event.title).join(', ')}</span>
+                      </div>
+                    )}
                     <div className={styles.recipeDetailItem}>
                       <span>Difficulty:</span>
                       <span>{selectedRecipe.difficulty || 'Easy'}</span>
@@ -1630,16 +2241,133 @@ const PlanPage: React.FC = () => {
                     )}
                     {selectedRecipe.servings && (
                       <div className={styles.recipeDetailItem}>
-                        <span>Servings:</span>
-                        <span>{selectedRecipe.servings}</span>
+                        <span>Recipe Makes:</span>
+                        <span>{selectedRecipe.servings} servings</span>
+                      </div>
+                    )}
+                    {selectedRecipe.cost && !selectedRecipe.leftoverOf && (
+                      <div className={styles.recipeDetailItem}>
+                        <span>Estimated Cost:</span>
+                        <span>
+                          {formatCost(getMealCost(selectedRecipe, householdSize) ?? 0)}
+                          {' '}({formatCost(selectedRecipe.cost.pricePerServing)}/serving{selectedRecipe.cost.cheap ? ', budget-friendly' : ''})
+                        </span>
                       </div>
                     )}
+                    <div className={styles.recipeDetailItem}>
+                      <span>Portions to Cook:</span>
+                      <span className={styles.portionsStepper}>
+                        <button
+                          onClick={() => handleChangePortions(getMealPortions(selectedRecipe, householdSize) - 1)}
+                          disabled={getMealPortions(selectedRecipe, householdSize) <= 1}
+                          aria-label="Fewer portions"
+                        >
+                          −
+                        </button>
+                        {getMealPortions(selectedRecipe, householdSize)}
+                        <button
+                          onClick={() => handleChangePortions(getMealPortions(selectedRecipe, householdSize) + 1)}
+                          aria-label="More portions"
+                        >
+                          +
+                        </button>
+                      </span>
+                    </div>
                   </div>
                 </div>
 
+                {/* Cheaper Alternatives - similar recipes under the price threshold */}
+                {selectedRecipe.cost && !selectedRecipe.leftoverOf && (
+                  <div className={styles.recipeModalSection}>
+                    <h4>💰 Cheaper Alternatives</h4>
+                    {cheaperAlternatives?.eventId !== selectedRecipe.id ? (
+                      <div className={styles.customRecipeActions}>
+                        <button
+                          className={styles.editRecipeButton}
+                          onClick={handleFindCheaperAlternatives}
+                          disabled={isFindingAlternatives}
+                        >
+                          {isFindingAlternatives ? 'Searching...' : 'Find a Cheaper Alternative'}
+                        </button>
+                      </div>
+                    ) : cheaperAlternatives.recipes.length === 0 ? (
+                      <p className={styles.leftoverHint}>No similar recipes cost noticeably less per serving.</p>
+                    ) : (
+                      <ul className={styles.alternativeList}>
+                        {cheaperAlternatives.recipes.map(recipe => (
+                          <li key={recipe.id} className={styles.alternativeItem}>
+                            <span className={styles.alternativeTitle}>{recipe.title}</span>
+                            <span className={styles.alternativePrice}>{formatCost(recipe.pricePerServing)}/serving</span>
+                            <button className={styles.alternativeSwapButton} onClick={() => handleSwapToAlternative(recipe)}>
+                              Swap
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {/* Leftovers - link to the batch-cooked meal, or plan this meal's spare portions */}
+                {selectedRecipe.leftoverOf ? (
+                  <div className={styles.recipeModalSection}>
+                    <h4>🥡 Leftovers</h4>
+                    <p className={styles.leftoverHint}>
+                      {(() => {
+                        const source = events.find(event => event.id === selectedRecipe.leftoverOf);
+                        return source
+                          ? `Cooked with ${source.title} on ${formatShortDate(source.date)}, so there is nothing extra to buy.`
+                          : 'Leftovers of a batch-cooked meal, so there is nothing extra to buy.';
+                      })()}
+                    </p>
+                  </div>
+                ) : !selectedRecipe.seriesId && !selectedRecipe.recurrence && (
+                  <div className={styles.recipeModalSection}>
+                    <h4>🍲 Leftovers</h4>
+                    {selectedRecipe.makesLeftovers ? (
+                      <>
+                        <p className={styles.leftoverHint}>
+                          {getLeftovers(events, selectedRecipe.id).length > 0
+                            ? `Leftovers planned for ${getLeftovers(events, selectedRecipe.id).map(event => formatShortDate(event.date)).join(', ')}.`
+                            : 'No leftover meals are planned.'}
+                        </p>
+                        <div className={styles.customRecipeActions}>
+                          <button className={styles.editRecipeButton} onClick={() => handleSetMakesLeftovers(true)}>
+                            Re-plan Leftovers
+                          </button>
+                          <button className={styles.addNotesButton} onClick={() => handleSetMakesLeftovers(false)}>
+                            Remove Leftovers
+                          </button>
+                        </div>
+                      </>
+                    ) : proposeLeftovers(selectedRecipe, householdSize).length > 0 ? (
+                      <>
+                        <p className={styles.leftoverHint}>
+                          Cooking {getMealPortions(selectedRecipe, householdSize)} portions leaves enough for
+                          {' '}{proposeLeftovers(selectedRecipe, householdSize).map(leftover => formatShortDate(leftover.date)).join(', ')}.
+                        </p>
+                        <div className={styles.customRecipeActions}>
+                          <button className={styles.editRecipeButton} onClick={() => handleSetMakesLeftovers(true)}>
+                            🥡 Plan Leftovers
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <p className={styles.leftoverHint}>
+                        Cook more portions than your household eats to plan leftovers for up to {LEFTOVER_SHELF_LIFE_DAYS} days.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {selectedRecipe.nutrition && (
                   <div className={styles.recipeModalSection}>
-                    <h4>Nutrition Information</h4>
+                    <h4>
+                      Nutrition Information (per person)
+                      {isEstimatedNutrition(selectedRecipe.nutrition) && (
+                        <span className={styles.estimateLabel} title="No nutrition data for this recipe, values are estimated">estimated</span>
+                      )}
+                    </h4>
                     <div className={styles.recipeModalNutrition}>
                       <div className={styles.nutritionItem}>
                         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -1728,7 +2456,15 @@ const PlanPage: React.FC = () => {
         onConfirm={async () => {
           setShowConfirmModal(false);
           // Handle different actions based on the message
-          if (confirmMessage.includes('move') && selectedRecipe) {
+          if (confirmMessage.includes('move') && selectedRecipe?.seriesId) {
+            // Recurring meals ask which occurrences to trash
+            const occurrence = selectedRecipe;
+            setPendingScopeAction({
+              action: 'delete',
+              run: (scope) => deleteOccurrence(occurrence, scope)
+            });
+
+          } else if (confirmMessage.includes('move') && selectedRecipe) {
             await moveToTrash(selectedRecipe.id);
 
           } else if (confirmMessage.includes('restore') && selectedRecipe) {
@@ -1751,6 +2487,62 @@ const PlanPage: React.FC = () => {
 
 
 
+      {/* Week Templates Modal - save, apply and copy whole weeks of meals */}
+      <PlanTemplatesModal
+        isOpen={showTemplatesModal}
+        onClose={() => setShowTemplatesModal(false)}
+      />
+
+      {/* Meal Plan Generator Modal - fills a week from preferences and nutrition targets */}
+      <MealPlanGeneratorModal
+        isOpen={showGeneratorModal}
+        onClose={() => setShowGeneratorModal(false)}
+      />
+
+      {/* Nutrition Goals Modal - sets the daily targets used by the nutrition bars and colors */}
+      <NutritionGoalsModal
+        isOpen={showGoalsModal}
+        onClose={() => setShowGoalsModal(false)}
+      />
+
+      {/* Calendar Sync Modal - exports the plan to .ics and imports .ics files */}
+      <CalendarSyncModal
+        isOpen={showCalendarSyncModal}
+        onClose={() => setShowCalendarSyncModal(false)}
+      />
+
+      {/* Meal Plans Modal - creates, renames, switches and archives named plans */}
+      <MealPlansModal
+        isOpen={showPlansModal}
+        onClose={() => setShowPlansModal(false)}
+      />
+
+      {/* Meal Slots Modal - sets up the times of day meals are eaten at */}
+      <MealSlotsModal
+        isOpen={showMealSlotsModal}
+        onClose={() => setShowMealSlotsModal(false)}
+      />
+
+      {/* Add To Plan Modal - plans a recipe clicked in the recipe sidebar */}
+      {sidebarRecipe && (
+        <AddToPlanModal
+          isOpen={!!sidebarRecipe}
+          onClose={() => setSidebarRecipe(null)}
+          recipe={sidebarRecipe}
+          selectedDate={selectedDate || undefined}
+        />
+      )}
+
+      {/* Recurring Meal Scope Modal - asks which occurrences an edit or delete applies to */}
+      <RecurrenceScopeModal
+        isOpen={!!pendingScopeAction}
+        action={pendingScopeAction?.action || 'edit'}
+        onSelect={(scope) => {
+          pendingScopeAction?.run(scope);
+        }}
+        onClose={() => setPendingScopeAction(null)}
+      />
+
       {/* Edit Custom Recipe Modal */}
       {showEditModal && editingRecipe && (
         <div className={styles.confirmModalBackdrop} onClick={() => setShowEditModal(false)}>
@@ -1922,7 +2714,23 @@ const PlanPage: React.FC = () => {
         </div>
       )}
 
-
+      {/* Undo Toast - offers to undo a change that removed meals */}
+      {undoToast && (
+        <div className={styles.undoToast} role="status">
+          <span className={styles.undoToastMessage}>{undoToast.label}</span>
+          <button
+            className={styles.undoToastButton}
+            onClick={async () => {
+              setUndoToast(null);
+              // The toast may be showing an older change if others were made since
+              if (nextUndo?.id === undoToast.id) await undo();
+            }}
+          >
+            Undo
+          </button>
+          <button className={styles.undoToastClose} onClick={() => setUndoToast(null)} aria-label="Dismiss">×</button>
+        </div>
+      )}
     </div>
   );
 };
@@ -8,6 +8,8 @@ import type { Recipe } from '../types/recipeTypes';
 import styles from './RecipeDetailPage.module.css';
 import AddToPlanModal from '../components/AddToPlanModal';
 import { getIngredientImageUrl, handleImageError } from '../utils/imageUtils';
+import { usePlan } from '../context/PlanContext';
+import { formatScaledIngredient, getServingScale } from '../utils/servings';
 
 // Main component for displaying recipe details
 const RecipeDetailPage: React.FC = () => {
@@ -15,6 +17,7 @@ const RecipeDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const location = useLocation();
+  const { householdSize } = usePlan();
 
   // State management for recipe data and UI
   const [recipe, setRecipe] = useState<Recipe | null>(null);
@@ -22,6 +25,7 @@ const RecipeDetailPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'ingredients' | 'instructions' | 'cookware'>('ingredients');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [portions, setPortions] = useState<number | null>(null);  // Portions chosen on this page, null until changed
 
   // Extract selected date from URL parameters for meal planning
   const getSelectedDateFromURL = () => {
@@ -29,6 +33,19 @@ const RecipeDetailPage: React.FC = () => {
     return urlParams.get('selectedDate') || '';
   };
 
+  // Extract the meal slot picked on the plan from URL parameters
+  const getSelectedSlotFromURL = () => {
+    const urlParams = new URLSearchParams(location.search);
+    return urlParams.get('selectedSlot') || undefined;
+  };
+
+  // Extract the portions of a planned meal from URL parameters, when opened from the plan
+  const getPortionsFromURL = () => {
+    const urlParams = new URLSearchParams(location.search);
+    const value = Number(urlParams.get('portions'));
+    return value >= 1 ? value : null;
+  };
+
   // Load recipe data when component mounts or recipe ID changes
   useEffect(() => {
     const fetchRecipe = async () => {
@@ -87,6 +104,10 @@ const RecipeDetailPage: React.FC = () => {
     </div>
   );
 
+  // Portions to cook: chosen here, else the planned meal's, else the household size, else as written
+  const cookedPortions = portions ?? getPortionsFromURL() ?? householdSize ?? recipe.servings ?? 1;
+  const ingredientScale = getServingScale(cookedPortions, recipe.servings);
+
   // Convert minutes to readable time format (e.g., 90 minutes -> "1h 30m")
   const formatTime = (minutes: number) => {
     if (minutes < 60) return `${minutes}m`;
@@ -337,6 +358,32 @@ const RecipeDetailPage: React.FC = () => {
             {activeTab === 'ingredients' ? (
               // Ingredients tab content
               <div className={styles.instructionsList}>
+                {/* Portions control - scales ingredient amounts from the recipe's servings */}
+                {recipe.servings > 0 && (
+                  <div className={styles.portionsControl}>
+                    <span className={styles.portionsLabel}>Cooking for</span>
+                    <button
+                      className={styles.portionsButton}
+                      onClick={() => setPortions(Math.max(1, cookedPortions - 1))}
+                      disabled={cookedPortions <= 1}
+                      aria-label="Fewer portions"
+                    >
+                      −
+                    </button>
+                    <span className={styles.portionsValue}>{cookedPortions}</span>
+                    <button
+                      className={styles.portionsButton}
+                      onClick={() => setPortions(cookedPortions + 1)}
+                      aria-label="More portions"
+                    >
+                      +
+                    </button>
+                    <span className={styles.portionsLabel}>
+                      {cookedPortions === 1 ? 'portion' : 'portions'}
+                      {cookedPortions !== recipe.servings && ` (recipe makes ${recipe.servings})`}
+                    </span>
+                  </div>
+                )}
                 {recipe.extendedIngredients && recipe.extendedIngredients.length > 0 ? (
                   <div className={styles.ingredientsGrid}>
                     {recipe.extendedIngredients.map((ingredient) => (
@@ -357,7 +404,7 @@ const RecipeDetailPage: React.FC = () => {
                         </div>
                         <div className={styles.ingredientInfo}>
                           <span className={styles.ingredientName}>{ingredient.name}</span>
-                          <span className={styles.ingredientAmount}>{ingredient.original}</span>
+                          <span className={styles.ingredientAmount}>{formatScaledIngredient(ingredient, ingredientScale)}</span>
                         </div>
                       </div>
                     ))}
@@ -514,9 +561,15 @@ const RecipeDetailPage: React.FC = () => {
             id: recipe.id,
             title: recipe.title,
             image: recipe.image,
+            readyInMinutes: recipe.readyInMinutes,
+            servings: recipe.servings,
+            nutrition: recipe.nutrition,
+            pricePerServing: recipe.pricePerServing,
+            cheap: recipe.cheap,
           }}
           swapFor={(location.state && (location.state as { swapFor?: string }).swapFor) || undefined}
           selectedDate={getSelectedDateFromURL()}
+          selectedSlot={getSelectedSlotFromURL()}
         />
       )}
     </div>
@@ -1,13 +1,17 @@
 /* RecipesPage.tsx - Main page for browsing and searching recipes with filters */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import type { Recipe, RecipeSearchParams, FilterOptionsResponse } from '../types/recipeTypes';
+import { useSearchParams } from 'react-router-dom';
+import type { Recipe, RecipeSearchParams, FilterOptionsResponse, RecipeSortDirection, RecipeSortOption } from '../types/recipeTypes';
+import type { RecipeFacetId, RecipeFacets, RecipeFacetSelections } from '../types/recipeFacetTypes';
 import { filterRecipes as localFilterRecipes, getFilterOptions as localGetFilterOptions, getRecipeDetails as localGetRecipeDetails } from '../services/filterService';
 import { useFavorites } from '../context/FavoritesContext';
 import { useAuth } from '../context/AuthContext';
 import { firestoreService } from '../services/firestoreService';
 import { mapPreferencesToSearchParams, type UserPreferences } from '../utils/preferenceMapper';
 import { sanitizeRecipeForFirestore } from '../utils/recipeSanitizer';
+import { FACET_DEFINITIONS, countFacetSelections, getFacetKey, toggleFacetValue } from '../utils/recipeFacets';
+import { RECIPE_SORT_CHOICES, getDefaultSortDirection, isRecipeSortOption, sortRecipes } from '../utils/recipeSort';
 import styles from './RecipesPage.module.css';
 import RecipeCard from '../components/RecipeCard';
 import { ProgressiveLoading, Toast } from '../components/LoadingStates';
@@ -54,24 +58,30 @@ const RecipesPage: React.FC = () => {
 
   // Search and filter state management
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedMenu, setSelectedMenu] = useState(() => {
-    return localStorage.getItem('cravrplan_filter_cuisine') || 'All Menus';
-  });
-  const [selectedDiet, setSelectedDiet] = useState(() => {
-    return localStorage.getItem('cravrplan_filter_diet') || 'No Diet Restrictions';
-  });
-  const [selectedMealType, setSelectedMealType] = useState(() => {
-    return localStorage.getItem('cravrplan_filter_mealType') || 'All Meal Types';
-  });
-  const [selectedTimePreference, setSelectedTimePreference] = useState(() => {
-    return localStorage.getItem('cravrplan_filter_time') || 'All Time Ranges';
+  const [selectedFacets, setSelectedFacets] = useState<RecipeFacetSelections>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('cravrplan_filter_facets') || '{}');
+    } catch {
+      return {};
+    }
   });
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
 
+  // Sort order, kept in the URL (?sort=price&dir=asc) so sorted results can be shared and reloaded
+  const [urlParams, setUrlParams] = useSearchParams();
+  const sortParam = urlParams.get('sort');
+  const sortOption: RecipeSortOption = isRecipeSortOption(sortParam) ? sortParam : 'relevance';
+  const directionParam = urlParams.get('dir');
+  const sortDirection: RecipeSortDirection = directionParam === 'asc' || directionParam === 'desc'
+    ? directionParam
+    : getDefaultSortDirection(sortOption);
+
   // Recipe data and pagination state
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [filterOptions, setFilterOptions] = useState<FilterOptionsResponse | null>(null);
+  const [facets, setFacets] = useState<RecipeFacets | null>(null);
+  const [facetsCoverPageOnly, setFacetsCoverPageOnly] = useState(false);
   const [totalResults, setTotalResults] = useState(0);
   const [currentPage, setCurrentPage] = useState(0);
   const [hasNextPage, setHasNextPage] = useState(false);
@@ -109,7 +119,7 @@ const RecipesPage: React.FC = () => {
   useEffect(() => {
     const loadFilterOptions = async () => {
       try {
-        const options = localGetFilterOptions();
+        const options = await localGetFilterOptions();
         setFilterOptions(options);
       } catch (err) {
         console.error('Error loading filter options:', err);
@@ -151,53 +161,44 @@ const RecipesPage: React.FC = () => {
   const applyPreferencesToFilters = (preferences: UserPreferences) => {
     console.log('Applying preferences to filters:', preferences);
 
-    if (preferences.cuisinePreferences.length > 0) {
-      const cuisine = preferences.cuisinePreferences[0];
-      if (filterOptions?.cuisines.some(c => c.value === cuisine)) {
-        setSelectedMenu(cuisine);
-        localStorage.setItem('cravrplan_filter_cuisine', cuisine);
-        console.log('Set cuisine filter to:', cuisine);
-      }
+    const preferredFacets: RecipeFacetSelections = {};
+
+    const cuisines = preferences.cuisinePreferences.filter(cuisine => filterOptions?.cuisines.some(c => c.value === cuisine));
+    if (cuisines.length > 0) {
+      preferredFacets.cuisines = cuisines.map(cuisine => getFacetKey('cuisines', cuisine));
     }
 
-    if (preferences.dietaryRestrictions.length > 0) {
-      const diet = preferences.dietaryRestrictions[0];
-      if (filterOptions?.diets.some(d => d.value === diet)) {
-        setSelectedDiet(diet);
-        localStorage.setItem('cravrplan_filter_diet', diet);
-        console.log('Set diet filter to:', diet);
-      }
+    const diets = preferences.dietaryRestrictions.filter(diet => filterOptions?.diets.some(d => d.value === diet));
+    if (diets.length > 0) {
+      preferredFacets.diets = diets.map(diet => getFacetKey('diets', diet));
     }
 
     if (preferences.timePreferences.length > 0) {
       const timePref = preferences.timePreferences[0];
-      if (timePref.includes('15-30')) {
-        setSelectedTimePreference('15-30');
-        localStorage.setItem('cravrplan_filter_time', '15-30');
-        console.log('Set time filter to: 15-30');
-      } else if (timePref.includes('30-60')) {
-        setSelectedTimePreference('30-60');
-        localStorage.setItem('cravrplan_filter_time', '30-60');
-        console.log('Set time filter to: 30-60');
-      } else if (timePref.includes('60+')) {
-        setSelectedTimePreference('60+');
-        localStorage.setItem('cravrplan_filter_time', '60+');
-        console.log('Set time filter to: 60+');
+      const timeRange = ['15-30', '30-60', '60+'].find(range => timePref.includes(range));
+      if (timeRange) {
+        preferredFacets.readyTime = [timeRange];
       }
     }
+
+    updateSelectedFacets(preferredFacets);
+    console.log('Set facet filters to:', preferredFacets);
+  };
+
+  // Pick facet values and remember them for the next visit
+  const updateSelectedFacets = (selections: RecipeFacetSelections) => {
+    setSelectedFacets(selections);
+    setCurrentPage(0);
+    if (countFacetSelections(selections) > 0) {
+      localStorage.setItem('cravrplan_filter_facets', JSON.stringify(selections));
+    } else {
+      localStorage.removeItem('cravrplan_filter_facets');
+    }
   };
 
   // Reset all filters to default values
   const resetFiltersToDefaults = () => {
-    setSelectedMenu('All Menus');
-    setSelectedDiet('No Diet Restrictions');
-    setSelectedMealType('All Meal Types');
-    setSelectedTimePreference('All Time Ranges');
-
-    localStorage.removeItem('cravrplan_filter_cuisine');
-    localStorage.removeItem('cravrplan_filter_diet');
-    localStorage.removeItem('cravrplan_filter_mealType');
-    localStorage.removeItem('cravrplan_filter_time');
+    updateSelectedFacets({});
   };
 
   // Debounce search query to avoid too many API calls
@@ -314,7 +315,7 @@ const RecipesPage: React.FC = () => {
             setHasNextPage(false);
             setHasPreviousPage(false);
           } else {
-            const favoriteRecipes = await loadFavoriteRecipes(favorites);
+            const favoriteRecipes = sortRecipes(await loadFavoriteRecipes(favorites), sortOption, sortDirection);
             setRecipes(favoriteRecipes);
             setTotalResults(favoriteRecipes.length);
             setHasNextPage(false);
@@ -336,33 +337,21 @@ const RecipesPage: React.FC = () => {
             Object.assign(searchParams, preferenceParams);
           }
 
-          if (selectedDiet !== 'No Diet Restrictions') {
-            searchParams.diet = selectedDiet;
-          }
-
-          if (selectedMenu !== 'All Menus') {
-            searchParams.cuisine = selectedMenu;
+          if (countFacetSelections(selectedFacets) > 0) {
+            searchParams.facets = selectedFacets;
           }
 
-          if (selectedMealType !== 'All Meal Types') {
-            searchParams.type = selectedMealType;
-          }
-
-          if (selectedTimePreference !== 'All Time Ranges') {
-            const timeValue = selectedTimePreference;
-            if (timeValue === '15-30') {
-              searchParams.maxReadyTime = 30;
-            } else if (timeValue === '30-60') {
-              searchParams.maxReadyTime = 60;
-            } else if (timeValue === '60+') {
-              searchParams.maxReadyTime = 120;
-            }
+          if (sortOption !== 'relevance') {
+            searchParams.sort = sortOption;
+            searchParams.sortDirection = sortDirection;
           }
 
           console.log('Search params being applied:', searchParams);
           const response = await localFilterRecipes(searchParams);
           console.log('Filter response:', response);
           setRecipes(response.recipes);
+          setFacets(response.facets || null);
+          setFacetsCoverPageOnly(response.facetsCoverPageOnly || false);
           setTotalResults(response.totalResults);
           setHasNextPage(response.offset + response.number < response.totalResults);
           setHasPreviousPage(response.offset > 0);
@@ -390,7 +379,7 @@ const RecipesPage: React.FC = () => {
     };
 
     searchRecipesWithFilters();
-  }, [debouncedSearchQuery, selectedMenu, selectedDiet, selectedMealType, selectedTimePreference, showFavoritesOnly, currentPage, favorites, userPreferences, filterOptions]);
+  }, [debouncedSearchQuery, selectedFacets, sortOption, sortDirection, showFavoritesOnly, currentPage, favorites, userPreferences, filterOptions]);
 
   // Navigation handlers for pagination
   const handleNextPage = () => {
@@ -401,49 +390,42 @@ const RecipesPage: React.FC = () => {
     setCurrentPage(prev => Math.max(0, prev - 1));
   };
 
-  // Filter change handlers
-  const handleMenuChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newValue = e.target.value;
-    setSelectedMenu(newValue);
-    localStorage.setItem('cravrplan_filter_cuisine', newValue);
-    setCurrentPage(0);
+  // Pick or unpick a value in one of the facets
+  const handleFacetToggle = (facetId: RecipeFacetId, value: string) => {
+    updateSelectedFacets(toggleFacetValue(selectedFacets, facetId, value));
   };
 
-  const handleDietChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newValue = e.target.value;
-    setSelectedDiet(newValue);
-    localStorage.setItem('cravrplan_filter_diet', newValue);
+  // Change the sort order in the URL and go back to the first page
+  const updateSort = (sort: RecipeSortOption, direction: RecipeSortDirection) => {
+    setUrlParams(current => {
+      const next = new URLSearchParams(current);
+      if (sort === 'relevance') {
+        next.delete('sort');
+        next.delete('dir');
+      } else {
+        next.set('sort', sort);
+        next.set('dir', direction);
+      }
+      return next;
+    }, { replace: true });
     setCurrentPage(0);
   };
 
-  const handleMealTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newValue = e.target.value;
-    setSelectedMealType(newValue);
-    localStorage.setItem('cravrplan_filter_mealType', newValue);
-    setCurrentPage(0);
+  const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const sort = e.target.value as RecipeSortOption;
+    updateSort(sort, getDefaultSortDirection(sort));
   };
 
-  const handleTimePreferenceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newValue = e.target.value;
-    setSelectedTimePreference(newValue);
-    localStorage.setItem('cravrplan_filter_time', newValue);
-    setCurrentPage(0);
+  const handleSortDirectionToggle = () => {
+    updateSort(sortOption, sortDirection === 'asc' ? 'desc' : 'asc');
   };
 
   // Clear all filters and reset to defaults
   const clearAllFilters = () => {
-    setSelectedMenu('All Menus');
-    setSelectedDiet('No Diet Restrictions');
-    setSelectedMealType('All Meal Types');
-    setSelectedTimePreference('All Time Ranges');
+    updateSelectedFacets({});
     setSearchQuery('');
-    setCurrentPage(0);
     setUserPreferences(null);
 
-    localStorage.removeItem('cravrplan_filter_cuisine');
-    localStorage.removeItem('cravrplan_filter_diet');
-    localStorage.removeItem('cravrplan_filter_mealType');
-    localStorage.removeItem('cravrplan_filter_time');
     localStorage.removeItem('pending_preferences');
 
     console.log('Cleared all filters and localStorage to show all recipes');
@@ -643,55 +625,26 @@ const RecipesPage: React.FC = () => {
             <div className={styles.basicFilters}>
               <select
                 className={styles.filterDropdown}
-                value={selectedMenu}
-                onChange={handleMenuChange}
-              >
-                <option value="All Menus">All Cuisines</option>
-                {filterOptions?.cuisines.map((cuisine) => (
-                  <option key={cuisine.value} value={cuisine.value}>
-                    {cuisine.name}
-                  </option>
-                ))}
-              </select>
-
-              <select
-                className={styles.filterDropdown}
-                value={selectedDiet}
-                onChange={handleDietChange}
-              >
-                <option value="No Diet Restrictions">All Diets</option>
-                {filterOptions?.diets.map((diet) => (
-                  <option key={diet.value} value={diet.value}>
-                    {diet.name}
-                  </option>
-                ))}
-              </select>
-
-              <select
-                className={styles.filterDropdown}
-                value={selectedMealType}
-                onChange={handleMealTypeChange}
+                value={sortOption}
+                onChange={handleSortChange}
+                aria-label="Sort recipes"
               >
-                <option value="All Meal Types">All Meal Types</option>
-                {filterOptions?.mealTypes.map((mealType) => (
-                  <option key={mealType.value} value={mealType.value}>
-                    {mealType.name}
+                {RECIPE_SORT_CHOICES.map(choice => (
+                  <option key={choice.value} value={choice.value}>
+                    Sort: {choice.label}
                   </option>
                 ))}
               </select>
 
-              <select
-                className={styles.filterDropdown}
-                value={selectedTimePreference}
-                onChange={handleTimePreferenceChange}
-              >
-                <option value="All Time Ranges">All Time Ranges</option>
-                {filterOptions?.timePreferences.map((timePref) => (
-                  <option key={timePref.value} value={timePref.value}>
-                    {timePref.name}
-                  </option>
-                ))}
-              </select>
+              {sortOption !== 'relevance' && (
+                <button
+                  onClick={handleSortDirectionToggle}
+                  className={styles.sortDirectionButton}
+                  title="Reverse the sort order"
+                >
+                  {sortDirection === 'asc' ? '↑ Lowest first' : '↓ Highest first'}
+                </button>
+              )}
 
               <button
                 onClick={handleFavoritesToggle}
@@ -708,6 +661,39 @@ const RecipesPage: React.FC = () => {
                 Clear Filters
               </button>
             </div>
+
+            {/* Facets - counts of the results by cuisine, diet, etc.; several values can be picked */}
+            {!showFavoritesOnly && facets && (
+              <div className={styles.facetPanel}>
+                {facetsCoverPageOnly && (
+                  <span className={styles.facetNote}>Counts only cover the recipes loaded so far</span>
+                )}
+                {FACET_DEFINITIONS.filter(facet => facets[facet.id].length > 0).map(facet => (
+                  <div key={facet.id} className={styles.facetGroup}>
+                    <span className={styles.facetTitle}>
+                      {facet.title}
+                      {facet.matchAll && <span className={styles.facetHint}> (all picked)</span>}
+                    </span>
+                    <div className={styles.facetValues}>
+                      {facets[facet.id].map(facetValue => {
+                        const isPicked = selectedFacets[facet.id]?.includes(facetValue.value) || false;
+                        return (
+                          <button
+                            key={facetValue.value}
+                            className={`${styles.facetChip} ${isPicked ? styles.facetChipActive : ''}`}
+                            onClick={() => handleFacetToggle(facet.id, facetValue.value)}
+                            disabled={!isPicked && facetValue.count === 0}
+                            aria-pressed={isPicked}
+                          >
+                            {facetValue.label} <span className={styles.facetCount}>({facetValue.count})</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Empty state for favorites */}
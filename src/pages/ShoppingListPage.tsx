@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import styles from './ShoppingListPage.module.css';
+import { usePlan } from '../context/PlanContext';
+import { useAuth } from '../context/AuthContext';
+import { useGuest } from '../context/GuestContext';
+import { firestoreService } from '../services/firestoreService';
+import { shoppingListService } from '../services/shoppingListService';
+import type { FridgeStock, ShoppingList, ShoppingListItem } from '../types/shoppingListTypes';
+import { getWeekRange, toDateString } from '../utils/dateUtils';
+import { formatAmount } from '../utils/unitConverter';
+import { LoadingSpinner } from '../components/LoadingStates';
+
+/**
+ * ShoppingListPage Component
+ *
+ * Builds a consolidated shopping list from the meals planned in a date range.
+ * Ingredients are scaled to the portions being cooked, merged and grouped by aisle.
+ * The list is saved to Firestore for signed-in users and to guest data for guests,
+ * so ticked-off items are remembered between visits.
+ * Ingredients already in the fridge can be deducted so only the difference is bought.
+ */
+const ShoppingListPage: React.FC = () => {
+  // ===== HOOKS AND CONTEXT =====
+
+  const navigate = useNavigate();                                    // Hook for programmatic navigation
+  const { events, householdSize } = usePlan();                       // Planned meals and portions to cook
+  const { user, isAuthenticated } = useAuth();                       // Authentication context
+  const { isGuestMode, guestData, saveGuestShoppingList } = useGuest();  // Guest mode context
+
+  // ===== STATE MANAGEMENT =====
+
+  const currentWeek = getWeekRange(toDateString(new Date()));
+  const [startDate, setStartDate] = useState(currentWeek.startDate);  // First date included in the list
+  const [endDate, setEndDate] = useState(currentWeek.endDate);        // Last date included in the list
+  const [shoppingList, setShoppingList] = useState<ShoppingList | null>(null);  // Saved or generated list
+  const [isGenerating, setIsGenerating] = useState(false);           // Loading state while recipes are fetched
+  const [hideChecked, setHideChecked] = useState(false);             // Hide items that are already bought
+  const [subtractFridge, setSubtractFridge] = useState(true);        // Deduct fridge contents when generating
+
+  // ===== LOAD SAVED LIST =====
+
+  // Latest guest list, read when loading without reloading after every save
+  const guestShoppingListRef = useRef(guestData.shoppingList);
+  guestShoppingListRef.current = guestData.shoppingList;
+
+  /**
+   * Load the saved shopping list for the current user or guest
+   * The saved date range becomes the selected range so the list matches the inputs.
+   * Only runs when the user changes, so saving the list doesn't reset the picked dates.
+   * The previous user's list and dates are cleared first, so they never show for the next user.
+   */
+  useEffect(() => {
+    let isCancelled = false;  // Set when the user changes before loading finishes
+
+    const loadShoppingList = async () => {
+      const week = getWeekRange(toDateString(new Date()));
+      setShoppingList(null);
+      setStartDate(week.startDate);
+      setEndDate(week.endDate);
+
+      let savedList: ShoppingList | null = null;
+
+      if (isAuthenticated && user) {
+        try {
+          savedList = await firestoreService.getShoppingList(user.id);
+        } catch (error) {
+          console.error('Error loading shopping list from Firestore:', error);
+        }
+      } else if (isGuestMode) {
+        savedList = guestShoppingListRef.current || null;
+      }
+
+      if (savedList && !isCancelled) {
+        setShoppingList(savedList);
+        setStartDate(savedList.startDate);
+        setEndDate(savedList.endDate);
+      }
+    };
+
+    loadShoppingList();
+    return () => {
+      isCancelled = true;
+    };
+  }, [user, isAuthenticated, isGuestMode]);
+
+  // ===== FRIDGE CONTENTS =====
+
+  /**
+   * Load what the user has in their fridge
+   * Uses the same sources as the fridge page: Firestore for signed-in users,
+   * and the guest fridge in localStorage (falling back to guest data) for guests
+   */
+  const loadFridgeStock = async (): Promise<FridgeStock[]> => {
+    const toStock = (ingredients: Array<{ name: string; quantity?: number; unit?: string }>): FridgeStock[] => ingredients.map(ing => ({
+      name: ing.name,
+      quantity: ing.quantity ?? 1,
+      unit: ing.unit || 'piece'
+    }));
+
+    if (isAuthenticated && user) {
+      try {
+        return toStock(await firestoreService.getFridgeIngredients(user.id));
+      } catch (error) {
+        console.error('Error loading fridge ingredients from Firestore:', error);
+        return [];
+      }
+    }
+
+    if (isGuestMode) {
+      const savedGuestIngredients = localStorage.getItem('fridgeIngredients_guest_ingredients');
+      if (savedGuestIngredients) {
+        try {
+          const parsed = JSON.parse(savedGuestIngredients);
+          if (Array.isArray(parsed)) {
+            return toStock(parsed);
+          }
+        } catch (error) {
+          console.error('Error loading guest fridge ingredients from localStorage:', error);
+        }
+      }
+      return toStock(guestData.fridgeIngredients);
+    }
+
+    return [];
+  };
+
+  // ===== PERSISTENCE =====
+
+  /**
+   * Save the shopping list to Firestore or guest data
+   * Local state is updated first so the UI responds immediately
+   */
+  const persistShoppingList = async (list: ShoppingList) => {
+    setShoppingList(list);
+
+    if (isAuthenticated && user) {
+      try {
+        await firestoreService.saveShoppingList({ ...list, userId: user.id });
+      } catch (error) {
+        console.error('Error saving shopping list to Firestore:', error);
+      }
+    } else if (isGuestMode) {
+      saveGuestShoppingList(list);
+    }
+  };
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Generate the shopping list for the selected date range
+   * Items that were already checked on the previous list stay checked
+   */
+  const handleGenerate = async () => {
+    if (!startDate || !endDate || startDate > endDate) return;
+
+    setIsGenerating(true);
+    try {
+      const result = await shoppingListService.generateShoppingList(events, startDate, endDate, householdSize);
+      let items = shoppingList
+        ? shoppingListService.mergeCheckedState(result.items, shoppingList.items)
+        : result.items;
+
+      if (subtractFridge) {
+        items = shoppingListService.subtractFridgeContents(items, await loadFridgeStock());
+      }
+
+      await persistShoppingList({
+        id: user?.id || 'guest',
+        userId: user?.id || 'guest',
+        startDate,
+        endDate,
+        items,
+        unresolvedMeals: result.unresolvedMeals,
+        updatedAt: Date.now()
+      });
+    } catch (error) {
+      console.error('Error generating shopping list:', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  /**
+   * Tick an item off the list or put it back
+   */
+  const handleToggleItem = (itemId: string) => {
+    if (!shoppingList) return;
+
+    persistShoppingList({
+      ...shoppingList,
+      items: shoppingList.items.map(item =>
+        item.id === itemId ? { ...item, checked: !item.checked } : item
+      ),
+      updatedAt: Date.now()
+    });
+  };
+
+  /**
+   * Uncheck every item so the list can be reused for another shop
+   */
+  const handleUncheckAll = () => {
+    if (!shoppingList) return;
+
+    persistShoppingList({
+      ...shoppingList,
+      items: shoppingList.items.map(item => ({ ...item, checked: false })),
+      updatedAt: Date.now()
+    });
+  };
+
+  // ===== COMPUTED VALUES =====
+
+  const items: ShoppingListItem[] = shoppingList?.items || [];
+  const visibleItems = hideChecked ? items.filter(item => !item.checked) : items;
+  const aisleGroups = shoppingListService.groupByAisle(visibleItems);
+  const checkedCount = items.filter(item => item.checked).length;
+  const inFridgeCount = items.filter(item => shoppingListService.isCoveredByFridge(item)).length;
+  const isRangeValid = !!startDate && !!endDate && startDate <= endDate;
+
+  // ===== RENDER =====
+
+  return (
+    <div className={styles.shoppingListPageContainer}>
+      {/* Page Header */}
+      <div className={styles.pageHeader}>
+        <div className={styles.headerContent}>
+          <h1 className={styles.pageTitle}>Shopping List</h1>
+          <p className={styles.pageSubtitle}>Everything you need for the meals in your plan, grouped by aisle</p>
+        </div>
+      </div>
+
+      <div className={styles.mainContent}>
+        <div className={styles.sectionCard}>
+          {/* Date range and actions */}
+          <div className={styles.controls}>
+            <div className={styles.dateRange}>
+              <label className={styles.dateField}>
+                From
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className={styles.dateInput}
+                />
+              </label>
+              <label className={styles.dateField}>
+                To
+                <input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className={styles.dateInput}
+                />
+              </label>
+            </div>
+            <div className={styles.actions}>
+              <button
+                className={styles.secondaryButton}
+                onClick={() => navigate('/plan')}
+              >
+                ← Back to Plan
+              </button>
+              <button
+                className={styles.primaryButton}
+                onClick={handleGenerate}
+                disabled={!isRangeValid || isGenerating}
+              >
+                {shoppingList ? 'Regenerate List' : 'Generate List'}
+              </button>
+            </div>
+          </div>
+
+          <label className={styles.toggleLabel}>
+            <input
+              type="checkbox"
+              checked={subtractFridge}
+              onChange={(e) => setSubtractFridge(e.target.checked)}
+            />
+            Subtract what's already in my fridge
+          </label>
+
+          {!isRangeValid && (
+            <p className={styles.warning}>The start date must be on or before the end date.</p>
+          )}
+
+          {isGenerating ? (
+            <div className={styles.loadingState}>
+              <LoadingSpinner size="medium" message="Gathering ingredients from your plan..." />
+            </div>
+          ) : !shoppingList ? (
+            <div className={styles.emptyState}>
+              <div className={styles.emptyIcon}>🛒</div>
+              <h3>No Shopping List Yet</h3>
+              <p>Pick a date range and generate a list from the meals you have planned.</p>
+            </div>
+          ) : (
+            <>
+              {/* List summary */}
+              <div className={styles.summary}>
+                <span>
+                  {shoppingList.startDate} – {shoppingList.endDate} · {checkedCount}/{items.length} items checked
+                  {inFridgeCount > 0 && ` · ${inFridgeCount} already in fridge`}
+                </span>
+                <div className={styles.summaryActions}>
+                  <label className={styles.toggleLabel}>
+                    <input
+                      type="checkbox"
+                      checked={hideChecked}
+                      onChange={(e) => setHideChecked(e.target.checked)}
+                    />
+                    Hide checked
+                  </label>
+                  <button
+                    className={styles.linkButton}
+                    onClick={handleUncheckAll}
+                    disabled={checkedCount === 0}
+                  >
+                    Uncheck all
+                  </button>
+                </div>
+              </div>
+
+              {shoppingList.unresolvedMeals.length > 0 && (
+                <p className={styles.warning}>
+                  No ingredient details for: {shoppingList.unresolvedMeals.join(', ')}
+                </p>
+              )}
+
+              {items.length === 0 ? (
+                <div className={styles.emptyState}>
+                  <div className={styles.emptyIcon}>📅</div>
+                  <h3>Nothing To Buy</h3>
+                  <p>There are no planned recipes with ingredients in this date range.</p>
+                </div>
+              ) : (
+                <div className={styles.aisleList}>
+                  {aisleGroups.map(group => (
+                    <div key={group.aisle} className={styles.aisleGroup}>
+                      <h3 className={styles.aisleTitle}>{group.aisle}</h3>
+                      <ul className={styles.itemList}>
+                        {group.items.map(item => {
+                          const amountToBuy = shoppingListService.getAmountToBuy(item);
+                          const isInFridge = shoppingListService.isCoveredByFridge(item);
+                          return (
+                            <li
+                              key={item.id}
+                              className={`${styles.item} ${item.checked ? styles.checked : ''} ${isInFridge ? styles.inFridge : ''}`}
+                            >
+                              <label className={styles.itemLabel}>
+                                <input
+                                  type="checkbox"
+                                  checked={item.checked}
+                                  onChange={() => handleToggleItem(item.id)}
+                                />
+                                <span className={styles.itemName}>{item.name}</span>
+                                <span className={styles.itemAmount}>
+                                  {isInFridge ? 'In fridge' : formatAmount(amountToBuy, item.unit)}
+                                </span>
+                              </label>
+                              {!!item.fridgeAmount && (
+                                <span className={styles.fridgeInfo}>
+                                  Have {formatAmount(item.fridgeAmount, item.unit)}, need {formatAmount(item.amount, item.unit)}, buy {formatAmount(amountToBuy, item.unit)}
+                                </span>
+                              )}
+                              {item.fridgeNote && (
+                                <span className={styles.fridgeInfo}>
+                                  In fridge: {item.fridgeNote} (need {formatAmount(item.amount, item.unit)})
+                                </span>
+                              )}
+                              <span className={styles.itemRecipes}>{item.recipeTitles.join(', ')}</span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingListPage;
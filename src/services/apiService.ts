@@ -1,6 +1,7 @@
 // API Service - Handles all communication with the Spoonacular recipe API
 // This service manages recipe searches, details, and API error handling
-// It includes rate limiting, retry logic, and fallback to mock data when API fails
+// It includes rate limiting, retry logic and caching; when the API fails it throws,
+// and the composite recipe provider falls back to another provider
 
 // Import types for recipe data and API responses
 import type {
@@ -8,20 +9,26 @@ import type {
   RecipeSearchParams,
   RecipeSearchResponse,
   RecipeDetailResponse,
-  FilterOptionsResponse
+  FilterOptionsResponse,
+  RecipeSortOption
 } from '../types/recipeTypes';
-import { mockRecipes } from './mockData';
+import type { RecipeProvider } from '../types/recipeProviderTypes';
+import { RECIPE_FILTER_OPTIONS } from './filterOptions';
+import type { RecipeFacetId } from '../types/recipeFacetTypes';
+import { computeRecipeFacets, getMaxReadyTimeForFacets, matchesFacetSelections, withoutFacets } from '../utils/recipeFacets';
+import { normalizeRestriction, splitSearchList } from '../utils/recipeRestrictions';
+import { getDefaultSortDirection } from '../utils/recipeSort';
 
 // API Configuration - Base URL and API key from environment variables
 // These values tell the service where to find the recipe API and how to authenticate
 const API_BASE_URL = 'https://api.spoonacular.com/recipes';
 const API_KEY = import.meta.env.VITE_SPOONACULAR_API_KEY || 'your-api-key-here';
+const HAS_API_KEY = !!import.meta.env.VITE_SPOONACULAR_API_KEY;  // Without a key every request would fail
 
 // Configuration settings for the API service
 // These control how the service behaves when making API calls
 const CONFIG = {
   LOG_API_ERRORS: import.meta.env.DEV, // Only log errors in development mode
-  USE_MOCK_DATA_FALLBACK: true, // Always use mock data when API fails
   RATE_LIMIT_DELAY: 1000, // Wait 1 second between requests to be respectful to the API
   MAX_RETRIES: 3, // Maximum number of retry attempts for failed requests
   REQUEST_TIMEOUT: 10000, // 10 seconds timeout for requests
@@ -29,6 +36,29 @@ const CONFIG = {
   CACHE_MAX_SIZE: 100, // Maximum number of cached items to prevent memory issues
 };
 
+// Diets the app offers under another name in the API, e.g. the API calls keto "ketogenic"
+const API_DIET_NAMES: Record<string, string> = {
+  'keto': 'ketogenic',
+  'paleo': 'paleolithic'
+};
+
+// Nutrient limits standing in for diets the API doesn't have
+const LOW_CARB_MAX_CARBS = 30;         // Grams of carbs per serving for low carb recipes
+const HIGH_PROTEIN_MIN_PROTEIN = 25;   // Grams of protein per serving for high protein recipes
+
+// The API's names for the ways results can be sorted; relevance is its default order
+const API_SORT_NAMES: Record<Exclude<RecipeSortOption, 'relevance'>, string> = {
+  readyTime: 'time',
+  healthScore: 'healthiness',
+  popularity: 'popularity',
+  price: 'price',
+  calories: 'calories',
+  protein: 'protein'
+};
+
+// Facets the API filters by itself, so its results aren't checked against them again
+const API_APPLIED_FACETS: RecipeFacetId[] = ['cuisines', 'diets'];
+
 /**
  * Custom error class for API-related errors
  * This helps distinguish between different types of errors and provides useful information
@@ -82,9 +112,12 @@ interface CacheItem {
   expiresAt: number;   // When this cache item expires
 }
 
-// Main API Service Class - Handles all recipe-related API calls
+// Spoonacular Recipe Provider Class - Handles all recipe-related API calls
 // This class manages the communication with the Spoonacular API
-class RecipeApiService {
+export class SpoonacularRecipeProvider implements RecipeProvider {
+  public id = 'spoonacular' as const;  // Provider ID used in the provider configuration
+  public maxResults = 100;             // The API doesn't page past its first 100 results
+
   private requestCount: number = 0;      // Track number of requests made
   private lastRequestTime: number = 0;   // Track when the last request was made
   private cache: Map<string, CacheItem> = new Map(); // Cache for storing API responses
@@ -372,17 +405,79 @@ class RecipeApiService {
   }
 
   /**
-   * Search for recipes using the API with fallback to mock data
+   * Stop before calling the API when there is no API key or it is blocked after a 402 error
+   * @throws RecipeApiError when the API can't be used, so another provider can be used instead
+   */
+  private assertApiAvailable(): void {
+    if (!HAS_API_KEY) {
+      throw new RecipeApiError('No Spoonacular API key is configured.', 'AUTH_ERROR');
+    }
+
+    if (this.isApiCurrentlyBlocked()) {
+      throw new RecipeApiError(
+        'API quota exceeded. Please try again later or upgrade your plan.',
+        'QUOTA_EXCEEDED_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Turn search parameters and picked facet values into the API's own filters and sort
+   * Several diets all have to apply and several cuisines match any of them, as in the local search.
+   * Diets the API doesn't have become an intolerance (dairy free) or a nutrient limit (low carb, high protein).
+   * @param params - Search parameters, including facet selections
+   * @returns Parameters the API understands
+   */
+  private toApiSearchParams(params: RecipeSearchParams): Record<string, string | number | boolean | string[]> {
+    const { facets = {}, diet, cuisine, intolerances, sort, sortDirection, ...apiParams } = params;
+
+    const cuisines = [...splitSearchList(cuisine), ...(facets.cuisines || [])];
+    const apiDiets: string[] = [];
+    const apiIntolerances = splitSearchList(intolerances);
+    const nutrientLimits: Record<string, number> = {};
+
+    [...splitSearchList(diet), ...(facets.diets || [])].forEach(value => {
+      const key = normalizeRestriction(value);
+      if (key === 'dairy free') {
+        apiIntolerances.push('dairy');
+      } else if (key === 'low carb') {
+        nutrientLimits.maxCarbs = LOW_CARB_MAX_CARBS;
+      } else if (key === 'high protein') {
+        nutrientLimits.minProtein = Math.max(params.minProtein || 0, HIGH_PROTEIN_MIN_PROTEIN);
+      } else {
+        apiDiets.push(API_DIET_NAMES[key] || key);
+      }
+    });
+
+    const facetMaxReadyTime = getMaxReadyTimeForFacets(facets);
+    const maxReadyTime = [params.maxReadyTime, facetMaxReadyTime].filter((value): value is number => !!value);
+    const unique = (values: string[]) => Array.from(new Set(values.map(value => value.toLowerCase())));
+
+    return {
+      ...apiParams,
+      ...nutrientLimits,
+      ...(cuisines.length > 0 && { cuisine: unique(cuisines).join(',') }),
+      ...(apiDiets.length > 0 && { diet: unique(apiDiets).join(',') }),
+      ...(apiIntolerances.length > 0 && { intolerances: unique(apiIntolerances) }),
+      ...(!params.type && facets.dishTypes?.length === 1 && { type: facets.dishTypes[0] }),
+      ...(maxReadyTime.length > 0 && { maxReadyTime: Math.min(...maxReadyTime) }),
+      ...(sort && sort !== 'relevance' && {
+        sort: API_SORT_NAMES[sort],
+        sortDirection: sortDirection || getDefaultSortDirection(sort)
+      })
+    };
+  }
+
+  /**
+   * Search for recipes using the API
    * @param params - Search parameters (query, cuisine, diet, etc.)
-   * @returns Search results with recipes and metadata
+   * @returns Search results with recipes and metadata; facet counts only cover the returned recipes
+   * @throws RecipeApiError when the API is blocked or the request fails
    * 
    * This is the main function for searching recipes. It first checks the cache,
-   * then tries the API if not cached, and falls back to mock data if API fails.
-   * This reduces API calls and costs by reusing cached data.
+   * then calls the API if not cached. This reduces API calls and costs by reusing cached data.
    */
   async searchRecipes(params: RecipeSearchParams): Promise<RecipeSearchResponse> {
-    const mockResult = this.getMockSearchResults(params);
-
     // Generate cache key for this search
     const cacheKey = this.generateCacheKey('/complexSearch', params);
 
@@ -392,65 +487,52 @@ class RecipeApiService {
       return cachedData; // Return cached data instead of making API call
     }
 
-    // Check if API is blocked due to 402 errors
-    if (this.isApiCurrentlyBlocked()) {
-      if (CONFIG.LOG_API_ERRORS) {
-        console.log('API is blocked due to 402 errors, using mock data');
-      }
-      return {
-        results: mockResult.results,
-        offset: mockResult.offset,
-        number: mockResult.number,
-        totalResults: mockResult.totalResults
-      };
-    }
-
-    try {
-      await this.checkRateLimit();
-
-      // Build query parameters for the API request
-      const queryParams = buildQueryParams({
-        ...params,
-        apiKey: API_KEY,
-        addRecipeInformation: true,
-        fillIngredients: true,
-        number: params.number || 20
-      });
+    this.assertApiAvailable();
+    await this.checkRateLimit();
+
+    // Build query parameters for the API request
+    const queryParams = buildQueryParams({
+      ...this.toApiSearchParams(params),
+      apiKey: API_KEY,
+      addRecipeInformation: true,
+      addRecipeNutrition: true,
+      fillIngredients: true,
+      number: params.number || 20
+    });
 
-      // Make API request
-      const apiResult = await this.makeRequest<RecipeSearchResponse>(`${API_BASE_URL}/complexSearch?${queryParams}`);
+    // Make API request
+    const response = await this.makeRequest<RecipeSearchResponse>(`${API_BASE_URL}/complexSearch?${queryParams}`);
+
+    // The API can't filter by everything the facets can (e.g. price), so the rest is filtered here
+    const results = response.results || [];
+    const unappliedFacets = withoutFacets(params.facets || {}, API_APPLIED_FACETS);
+    const matchingResults = results.filter(recipe => matchesFacetSelections(recipe, unappliedFacets));
+    const apiResult: RecipeSearchResponse = {
+      ...response,
+      results: matchingResults,
+      totalResults: response.totalResults - (results.length - matchingResults.length),
+      // The API doesn't count facets, so they can only be counted over the results it returned
+      facets: computeRecipeFacets(results, params.facets, API_APPLIED_FACETS),
+      facetsCoverPageOnly: true
+    };
 
-      // Cache the successful API response
-      this.setCache(cacheKey, apiResult);
+    // Cache the successful API response
+    this.setCache(cacheKey, apiResult);
 
-      return apiResult;
-    } catch (error) {
-      // If API fails, use mock data
-      if (CONFIG.LOG_API_ERRORS) {
-        console.log('API call failed, using mock data:', error);
-      }
-      return {
-        results: mockResult.results,
-        offset: mockResult.offset,
-        number: mockResult.number,
-        totalResults: mockResult.totalResults
-      };
-    }
+    return apiResult;
   }
 
   /**
-   * Search for recipes by ingredients with API fallback
+   * Search for recipes by ingredients
    * @param ingredients - Array of ingredient names to search for
    * @param maxMissingIngredients - Maximum number of missing ingredients allowed
    * @returns Array of recipes that can be made with the given ingredients
+   * @throws RecipeApiError when the API is blocked or the request fails
    * 
    * This function finds recipes that can be made with the ingredients the user has.
-   * It first checks the cache, then tries the API, and falls back to mock data.
    * Caching helps reduce API calls for the same ingredient combinations.
    */
   async searchRecipesByIngredients(ingredients: string[], maxMissingIngredients: number = 3): Promise<Recipe[]> {
-    const mockResults = this.getMockRecipesByIngredients(ingredients, maxMissingIngredients);
-
     // Generate cache key for this ingredient search
     const cacheKey = this.generateCacheKey('/findByIngredients', { ingredients, maxMissingIngredients });
 
@@ -460,50 +542,35 @@ class RecipeApiService {
       return cachedData; // Return cached data instead of making API call
     }
 
-    // Check if API is blocked due to 402 errors
-    if (this.isApiCurrentlyBlocked()) {
-      if (CONFIG.LOG_API_ERRORS) {
-        console.log('API is blocked due to 402 errors, using mock data for ingredient search');
-      }
-      return mockResults;
-    }
-
-    try {
-      await this.checkRateLimit();
-
-      // Build query parameters for ingredient search
-      const ingredientParams = buildQueryParams({
-        ingredients: ingredients.join(','),
-        ranking: 2,
-        ignorePantry: true,
-        number: 20,
-        apiKey: API_KEY,
-        addRecipeInformation: true,
-        fillIngredients: true
-      });
+    this.assertApiAvailable();
+    await this.checkRateLimit();
+
+    // Build query parameters for ingredient search
+    const ingredientParams = buildQueryParams({
+      ingredients: ingredients.join(','),
+      ranking: 2,
+      ignorePantry: true,
+      number: 20,
+      apiKey: API_KEY,
+      addRecipeInformation: true,
+      fillIngredients: true
+    });
 
-      const result = await this.makeRequest<{ results: Recipe[] }>(`${API_BASE_URL}/findByIngredients?${ingredientParams}`);
+    const result = await this.makeRequest<{ results: Recipe[] }>(`${API_BASE_URL}/findByIngredients?${ingredientParams}`);
 
-      // Cache the successful API response
-      this.setCache(cacheKey, result.results || []);
+    // Cache the successful API response
+    this.setCache(cacheKey, result.results || []);
 
-      return result.results || [];
-    } catch (error) {
-      // If API fails, use mock data
-      if (CONFIG.LOG_API_ERRORS) {
-        console.log('API call failed, using mock data:', error);
-      }
-      return mockResults;
-    }
+    return result.results || [];
   }
 
   /**
    * Get detailed information about a specific recipe
    * @param recipeId - The unique ID of the recipe
    * @returns Detailed recipe information including nutrition and instructions
+   * @throws RecipeApiError when the API is blocked or the request fails
    * 
    * This function gets comprehensive information about a specific recipe.
-   * It first checks the cache, then tries the API, and falls back to mock data.
    * Caching recipe details helps reduce API calls for the same recipes.
    */
   async getRecipeDetails(recipeId: number): Promise<RecipeDetailResponse> {
@@ -516,463 +583,29 @@ class RecipeApiService {
       return cachedData; // Return cached data instead of making API call
     }
 
-    // Check if API is blocked due to 402 errors
-    if (this.isApiCurrentlyBlocked()) {
-      if (CONFIG.LOG_API_ERRORS) {
-        console.log('API is blocked due to 402 errors, using mock data for recipe details');
-      }
-      return this.getMockRecipeDetails(recipeId);
-    }
-
-    try {
-      await this.checkRateLimit();
+    this.assertApiAvailable();
+    await this.checkRateLimit();
 
-      const detailParams = buildQueryParams({ apiKey: API_KEY });
-      const result = await this.makeRequest<RecipeDetailResponse>(`${API_BASE_URL}/${recipeId}/information?${detailParams}`);
+    const detailParams = buildQueryParams({ apiKey: API_KEY, includeNutrition: true });
+    const result = await this.makeRequest<RecipeDetailResponse>(`${API_BASE_URL}/${recipeId}/information?${detailParams}`);
 
-      // Cache the successful API response
-      this.setCache(cacheKey, result);
+    // Cache the successful API response
+    this.setCache(cacheKey, result);
 
-      return result;
-    } catch (error) {
-      // If API fails, use mock data
-      if (CONFIG.LOG_API_ERRORS) {
-        console.log('API call failed, using mock data:', error);
-      }
-      return this.getMockRecipeDetails(recipeId);
-    }
+    return result;
   }
 
   /**
-   * Get available filter options (uses mock data since API doesn't provide this)
+   * Get available filter options
    * @returns Object containing all available filter options
    * 
-   * This function returns all the available options for filtering recipes.
-   * Since the API doesn't provide this data, we use predefined mock options.
+   * Since the API doesn't provide this data, we use predefined options.
    */
   async getFilterOptions(): Promise<FilterOptionsResponse> {
-    return this.getMockFilterOptions();
-  }
-
-  // ===== MOCK DATA METHODS FOR FALLBACK =====
-
-  /**
-   * Filter mock recipes based on search parameters
-   * @param params - Search parameters to filter by
-   * @returns Filtered recipe results using mock data
-   * 
-   * This function filters the local mock recipes based on the search parameters.
-   * It's used as a fallback when the API is unavailable.
-   */
-  private getMockSearchResults(params: RecipeSearchParams): RecipeSearchResponse {
-    let filteredRecipes = [...mockRecipes];
-
-    // Filter by search query
-    if (params.query) {
-      const query = params.query.toLowerCase();
-      filteredRecipes = filteredRecipes.filter((recipe: any) =>
-        recipe.title.toLowerCase().includes(query) ||
-        recipe.summary?.toLowerCase().includes(query) ||
-        recipe.extendedIngredients.some((ingredient: any) =>
-          ingredient.name.toLowerCase().includes(query)
-        )
-      );
-    }
-
-    // Filter by diet
-    if (params.diet) {
-      filteredRecipes = filteredRecipes.filter((recipe: any) =>
-        recipe.diets.includes(params.diet!)
-      );
-    }
-
-    // Filter by cuisine
-    if (params.cuisine) {
-      filteredRecipes = filteredRecipes.filter((recipe: any) =>
-        recipe.cuisines.includes(params.cuisine!)
-      );
-    }
-
-    // Filter by meal type
-    if (params.type) {
-      const mealType = params.type.toLowerCase();
-      filteredRecipes = filteredRecipes.filter((recipe: any) => {
-        if (recipe.dishTypes.some((dishType: any) =>
-          dishType.toLowerCase().includes(mealType)
-        )) {
-          return true;
-        }
-
-        if (recipe.occasions.some((occasion: any) =>
-          occasion.toLowerCase().includes(mealType)
-        )) {
-          return true;
-        }
-
-        const title = recipe.title.toLowerCase();
-        if (mealType === 'breakfast' && title.includes('breakfast')) return true;
-        if (mealType === 'lunch' && title.includes('lunch')) return true;
-        if (mealType === 'dinner' && title.includes('dinner')) return true;
-        if (mealType === 'snack' && title.includes('snack')) return true;
-        if (mealType === 'dessert' && title.includes('dessert')) return true;
-        if (mealType === 'appetizer' && title.includes('appetizer')) return true;
-
-        return false;
-      });
-    }
-
-    // Filter by cooking time
-    if (params.maxReadyTime) {
-      filteredRecipes = filteredRecipes.filter(recipe =>
-        recipe.readyInMinutes <= params.maxReadyTime!
-      );
-    }
-
-    // Filter by food intolerances
-    if (params.intolerances && params.intolerances.length > 0) {
-      filteredRecipes = filteredRecipes.filter(recipe => {
-        const intolerances = params.intolerances!;
-        return !intolerances.some(intolerance => {
-          const lowerIntolerance = intolerance.toLowerCase();
-          return (
-            (lowerIntolerance.includes('dairy') && recipe.dairyFree === false) ||
-            (lowerIntolerance.includes('gluten') && recipe.glutenFree === false) ||
-            (lowerIntolerance.includes('vegan') && recipe.vegan === false) ||
-            (lowerIntolerance.includes('vegetarian') && recipe.vegetarian === false)
-          );
-        });
-      });
-    }
-
-    // Apply pagination
-    const offset = params.offset || 0;
-    const number = params.number || 20;
-    const paginatedRecipes = filteredRecipes.slice(offset, offset + number);
-
-    return {
-      results: paginatedRecipes,
-      offset: offset,
-      number: number,
-      totalResults: filteredRecipes.length
-    };
-  }
-
-  /**
-   * Get mock recipe details with nutrition information
-   * @param recipeId - The unique ID of the recipe
-   * @returns Detailed recipe information with mock nutrition data
-   * 
-   * This function provides detailed recipe information when the API is unavailable.
-   * It includes mock nutrition data to make the recipe details look complete.
-   */
-  private getMockRecipeDetails(recipeId: number): RecipeDetailResponse {
-    const recipe = mockRecipes.find(r => r.id === recipeId);
-    if (!recipe) {
-      throw new Error(`Recipe with id ${recipeId} not found`);
-    }
-
-    return {
-      ...recipe,
-      nutrition: {
-        nutrients: [
-          { name: "Calories", amount: 450, unit: "kcal", percentOfDailyNeeds: 22.5 },
-          { name: "Protein", amount: 25, unit: "g", percentOfDailyNeeds: 50 },
-          { name: "Fat", amount: 18, unit: "g", percentOfDailyNeeds: 27.7 },
-          { name: "Carbohydrates", amount: 35, unit: "g", percentOfDailyNeeds: 11.7 },
-          { name: "Fiber", amount: 8, unit: "g", percentOfDailyNeeds: 32 },
-          { name: "Sugar", amount: 12, unit: "g", percentOfDailyNeeds: 13.3 },
-          { name: "Sodium", amount: 680, unit: "mg", percentOfDailyNeeds: 28.3 },
-          { name: "Potassium", amount: 420, unit: "mg", percentOfDailyNeeds: 8.9 },
-          { name: "Vitamin C", amount: 15, unit: "mg", percentOfDailyNeeds: 16.7 },
-          { name: "Iron", amount: 3.2, unit: "mg", percentOfDailyNeeds: 17.8 },
-          { name: "Calcium", amount: 180, unit: "mg", percentOfDailyNeeds: 18 }
-        ],
-        properties: [
-          { name: "Glycemic Index", amount: 45, unit: "" },
-          { name: "Glycemic Load", amount: 8, unit: "" }
-        ],
-        flavonoids: [
-          { name: "Quercetin", amount: 2.5, unit: "mg" },
-          { name: "Kaempferol", amount: 1.2, unit: "mg" }
-        ],
-        ingredients: [
-          {
-            id: 1,
-            name: "corn tortillas",
-            amount: 2,
-            unit: "pieces",
-            nutrients: [
-              { name: "Calories", amount: 120, unit: "kcal", percentOfDailyNeeds: 6 },
-              { name: "Carbohydrates", amount: 24, unit: "g", percentOfDailyNeeds: 8 }
-            ]
-          }
-        ],
-        caloricBreakdown: {
-          percentProtein: 22.2,
-          percentFat: 36,
-          percentCarbs: 31.1
-        },
-        weightPerServing: {
-          amount: 250,
-          unit: "g"
-        }
-      },
-      winePairing: {
-        pairedWines: ["Chardonnay", "Pinot Noir"],
-        pairingText: "This dish pairs well with a light Chardonnay or a medium-bodied Pinot Noir.",
-        productMatches: []
-      },
-      taste: {
-        sweetness: 0.3,
-        saltiness: 0.7,
-        sourness: 0.2,
-        bitterness: 0.1,
-        savoriness: 0.8,
-        fattiness: 0.6,
-        spiciness: 0.4
-      }
-    };
-  }
-
-  /**
-   * Get mock filter options for the recipe search
-   * @returns Object containing all available filter options
-   * 
-   * This function returns predefined filter options that users can choose from
-   * when searching for recipes. These options cover common dietary and cuisine preferences.
-   */
-  private getMockFilterOptions(): FilterOptionsResponse {
-    return {
-      cuisines: [
-        { name: "American", value: "American" },
-        { name: "Italian", value: "Italian" },
-        { name: "Mexican", value: "Mexican" },
-        { name: "Asian", value: "Asian" },
-        { name: "Mediterranean", value: "Mediterranean" },
-        { name: "Greek", value: "Greek" },
-        { name: "French", value: "French" },
-        { name: "Japanese", value: "Japanese" },
-        { name: "Chinese", value: "Chinese" },
-        { name: "Thai", value: "Thai" },
-        { name: "Indian", value: "Indian" },
-        { name: "Middle Eastern", value: "Middle Eastern" }
-      ],
-      diets: [
-        { name: "Vegetarian", value: "Vegetarian" },
-        { name: "Vegan", value: "Vegan" },
-        { name: "Gluten-Free", value: "Gluten-Free" },
-        { name: "Dairy-Free", value: "Dairy-Free" },
-        { name: "Keto", value: "Keto" },
-        { name: "Paleo", value: "Paleo" },
-        { name: "Low-Carb", value: "Low-Carb" },
-        { name: "High-Protein", value: "High-Protein" }
-      ],
-      intolerances: [
-        { name: "Nuts", value: "Nuts" },
-        { name: "Dairy", value: "Dairy" },
-        { name: "Shellfish", value: "Shellfish" },
-        { name: "Eggs", value: "Eggs" },
-        { name: "Soy", value: "Soy" },
-        { name: "Wheat", value: "Wheat" },
-        { name: "Fish", value: "Fish" },
-        { name: "Sesame", value: "Sesame" }
-      ],
-      mealTypes: [
-        { name: "Main Course", value: "main course" },
-        { name: "Breakfast", value: "breakfast" },
-        { name: "Side Dish", value: "side dish" },
-        { name: "Dessert", value: "dessert" },
-        { name: "Snack", value: "snack" }
-      ],
-      timePreferences: [
-        { name: "Quick (15-30 min)", value: "15-30" },
-        { name: "Medium (30-60 min)", value: "30-60" },
-        { name: "Long (60+ min)", value: "60+" }
-      ]
-    };
-  }
-
-  /**
-   * Filter mock recipes by ingredients
-   * @param ingredients - Array of ingredient names to search for
-   * @param maxMissingIngredients - Maximum number of missing ingredients allowed
-   * @returns Array of recipes that can be made with the given ingredients
-   * 
-   * This function finds recipes that can be made with the ingredients the user has.
-   * It counts how many ingredients are missing and only returns recipes that
-   * are missing fewer than maxMissingIngredients.
-   */
-  private getMockRecipesByIngredients(ingredients: string[], maxMissingIngredients: number = 3): Recipe[] {
-
-    console.log('APIService: getMockRecipesByIngredients called with:', ingredients, 'maxMissing:', maxMissingIngredients);
-    console.log('APIService: Total mock recipes available:', mockRecipes.length);
-
-    // Enhanced ingredient synonyms for better matching
-    const ingredientSynonyms: { [key: string]: string[] } = {
-      'tomato': ['tomatoes', 'cherry tomato', 'roma tomato', 'tomato'],
-      'onion': ['onions', 'red onion', 'white onion', 'yellow onion', 'onion'],
-      'garlic': ['garlic cloves', 'garlic powder', 'garlic'],
-      'olive oil': ['extra virgin olive oil', 'evoo', 'olive oil'],
-      'salt': ['sea salt', 'kosher salt', 'table salt', 'salt'],
-      'pepper': ['black pepper', 'white pepper', 'ground pepper', 'pepper'],
-      'chicken': ['chicken breast', 'chicken thigh', 'chicken meat', 'chicken'],
-      'beef': ['ground beef', 'beef steak', 'beef meat', 'beef'],
-      'rice': ['white rice', 'brown rice', 'jasmine rice', 'basmati rice', 'rice'],
-      'pasta': ['spaghetti', 'penne', 'fettuccine', 'linguine', 'pasta'],
-      'cheese': ['cheddar', 'mozzarella', 'parmesan', 'gouda', 'cheese'],
-      'milk': ['whole milk', 'skim milk', 'almond milk', 'soy milk', 'milk'],
-      'egg': ['eggs', 'large eggs', 'egg whites', 'egg'],
-      'flour': ['all purpose flour', 'bread flour', 'cake flour', 'flour'],
-      'sugar': ['white sugar', 'brown sugar', 'granulated sugar', 'sugar'],
-      'butter': ['unsalted butter', 'salted butter', 'margarine', 'butter'],
-      'lemon': ['lemons', 'lemon juice', 'lemon zest', 'lemon'],
-      'lime': ['limes', 'lime juice', 'lime zest', 'lime'],
-      'bell pepper': ['bell peppers', 'red pepper', 'green pepper', 'yellow pepper', 'bell pepper'],
-      'carrot': ['carrots', 'baby carrots', 'carrot'],
-      'potato': ['potatoes', 'russet potato', 'red potato', 'potato'],
-      'spinach': ['baby spinach', 'fresh spinach', 'spinach'],
-      'mushroom': ['mushrooms', 'button mushrooms', 'portobello', 'mushroom'],
-      'basil': ['fresh basil', 'basil leaves', 'basil'],
-      'oregano': ['dried oregano', 'fresh oregano', 'oregano'],
-      'thyme': ['fresh thyme', 'dried thyme', 'thyme'],
-      'rosemary': ['fresh rosemary', 'dried rosemary', 'rosemary'],
-      'parsley': ['fresh parsley', 'dried parsley', 'parsley'],
-      'cilantro': ['fresh cilantro', 'coriander', 'cilantro'],
-      'ginger': ['fresh ginger', 'ginger powder', 'ginger root', 'ginger'],
-      'cumin': ['ground cumin', 'cumin seeds', 'cumin'],
-      'paprika': ['smoked paprika', 'sweet paprika', 'paprika'],
-      'cinnamon': ['ground cinnamon', 'cinnamon stick', 'cinnamon'],
-      'nutmeg': ['ground nutmeg', 'whole nutmeg', 'nutmeg'],
-      'vanilla': ['vanilla extract', 'vanilla bean', 'vanilla'],
-      'honey': ['raw honey', 'clover honey', 'honey'],
-      'maple syrup': ['pure maple syrup', 'maple syrup'],
-      'soy sauce': ['light soy sauce', 'dark soy sauce', 'tamari', 'soy sauce'],
-      'vinegar': ['apple cider vinegar', 'balsamic vinegar', 'white vinegar', 'vinegar'],
-      'mustard': ['dijon mustard', 'yellow mustard', 'whole grain mustard', 'mustard'],
-      'mayonnaise': ['mayo', 'light mayonnaise', 'mayonnaise'],
-      'ketchup': ['tomato ketchup', 'catsup', 'ketchup'],
-      'hot sauce': ['sriracha', 'tabasco', 'chili sauce', 'hot sauce'],
-      'worcestershire': ['worcestershire sauce'],
-      'fish sauce': ['fish sauce'],
-      'oyster sauce': ['oyster sauce'],
-      'sesame oil': ['toasted sesame oil', 'sesame oil'],
-      'coconut oil': ['virgin coconut oil', 'refined coconut oil', 'coconut oil'],
-      'avocado': ['avocados', 'avocado oil', 'avocado'],
-      // Add more common ingredient variations
-      'berries': ['mixed berries', 'strawberries', 'blueberries', 'raspberries', 'blackberries', 'berries'],
-      'yogurt': ['greek yogurt', 'plain yogurt', 'vanilla yogurt', 'yogurt'],
-      'bread': ['whole grain bread', 'white bread', 'sourdough bread', 'bread'],
-      'oat': ['oats', 'rolled oats', 'steel cut oats', 'oat'],
-      'almond': ['almonds', 'almond milk', 'almond flour', 'almond'],
-      'coconut': ['coconut milk', 'coconut oil', 'shredded coconut', 'coconut'],
-      'chocolate': ['dark chocolate', 'milk chocolate', 'chocolate chips', 'chocolate'],
-      'cream': ['heavy cream', 'whipping cream', 'sour cream', 'cream'],
-      'sauce': ['tomato sauce', 'pasta sauce', 'marinara sauce', 'sauce'],
-      'broth': ['chicken broth', 'beef broth', 'vegetable broth', 'broth'],
-      'stock': ['chicken stock', 'beef stock', 'vegetable stock', 'stock']
-    };
-
-    // Helper function to check if ingredients match (including synonyms)
-    const ingredientsMatch = (userIngredient: string, recipeIngredient: string): boolean => {
-      const userLower = userIngredient.toLowerCase().trim();
-      const recipeLower = recipeIngredient.toLowerCase().trim();
-
-      // Direct match
-      if (userLower === recipeLower) {
-        return true;
-      }
-
-      // Check synonyms
-      const synonyms = ingredientSynonyms[userLower];
-      if (synonyms && synonyms.some(synonym => synonym.toLowerCase() === recipeLower)) {
-        return true;
-      }
-
-      // Check if recipe ingredient contains user ingredient (for partial matches)
-      if (recipeLower.includes(userLower) || userLower.includes(recipeLower)) {
-        return true;
-      }
-
-      // Check if recipe ingredient contains user ingredient (for plural/singular)
-      if (userLower.endsWith('s') && recipeLower === userLower.slice(0, -1)) {
-        return true;
-      }
-      if (recipeLower.endsWith('s') && userLower === recipeLower.slice(0, -1)) {
-        return true;
-      }
-
-      // Check for common word variations (e.g., "fresh", "dried", "ground")
-      const commonPrefixes = ['fresh', 'dried', 'ground', 'whole', 'extra virgin', 'virgin', 'pure', 'organic'];
-      const commonSuffixes = ['powder', 'extract', 'oil', 'milk', 'flour', 'sauce', 'broth', 'stock'];
-
-      // Remove common prefixes and suffixes for comparison
-      let cleanUser = userLower;
-      let cleanRecipe = recipeLower;
-
-      commonPrefixes.forEach(prefix => {
-        if (cleanUser.startsWith(prefix + ' ')) cleanUser = cleanUser.substring(prefix.length + 1);
-        if (cleanRecipe.startsWith(prefix + ' ')) cleanRecipe = cleanRecipe.substring(prefix.length + 1);
-      });
-
-      commonSuffixes.forEach(suffix => {
-        if (cleanUser.endsWith(' ' + suffix)) cleanUser = cleanUser.substring(0, cleanUser.length - suffix.length - 1);
-        if (cleanRecipe.endsWith(' ' + suffix)) cleanRecipe = cleanRecipe.substring(0, cleanRecipe.length - suffix.length - 1);
-      });
-
-      if (cleanUser === cleanRecipe) {
-        return true;
-      }
-
-      // Check if cleaned versions contain each other
-      if (cleanRecipe.includes(cleanUser) || cleanUser.includes(cleanRecipe)) {
-        return true;
-      }
-
-      return false;
-    };
-
-    const results = mockRecipes.filter(recipe => {
-      const recipeIngredients = recipe.extendedIngredients.map((ing: any) => ing.name.toLowerCase());
-      console.log(`APIService: Recipe "${recipe.title}" has ingredients:`, recipeIngredients);
-
-      // Count how many user ingredients match with recipe ingredients
-      const matchedCount = ingredients.filter((userIng: string) => {
-        const userLower = userIng.toLowerCase().trim();
-        const hasMatch = recipeIngredients.some(recipeIng => {
-          const match = ingredientsMatch(userLower, recipeIng);
-          if (match) {
-            console.log(`APIService: ✓ "${userLower}" matches "${recipeIng}" in recipe "${recipe.title}"`);
-          }
-          return match;
-        });
-        if (!hasMatch) {
-          console.log(`APIService: ✗ "${userLower}" has no match in recipe "${recipe.title}"`);
-        }
-        return hasMatch;
-      }).length;
-
-      const missingCount = ingredients.length - matchedCount;
-      console.log(`APIService: Recipe "${recipe.title}" matched: ${matchedCount}, missing: ${missingCount}, max allowed: ${maxMissingIngredients}`);
-
-      const shouldInclude = missingCount <= maxMissingIngredients;
-      console.log(`APIService: Recipe "${recipe.title}" included:`, shouldInclude);
-
-      return shouldInclude;
-    });
-
-    console.log('APIService: Final results count:', results.length);
-    return results;
+    return RECIPE_FILTER_OPTIONS;
   }
 }
 
-// Create and export a single instance of the API service
-// This ensures we only have one API service throughout the app
-export const recipeApiService = new RecipeApiService();
-
-// Export individual functions for easy use in other parts of the app
-// These functions provide a simple interface to the API service
-export const searchRecipes = (params: RecipeSearchParams) => recipeApiService.searchRecipes(params);
-export const getRecipeDetails = (recipeId: number) => recipeApiService.getRecipeDetails(recipeId);
-export const getFilterOptions = () => recipeApiService.getFilterOptions();
-export const searchRecipesByIngredients = (ingredients: string[], maxMissingIngredients: number = 3) => recipeApiService.searchRecipesByIngredients(ingredients, maxMissingIngredients);
-
+// Create and export a single instance of the Spoonacular provider
+// This ensures we only have one API client (and one cache) throughout the app
+export const spoonacularRecipeProvider = new SpoonacularRecipeProvider();
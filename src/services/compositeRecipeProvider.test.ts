@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Recipe, RecipeSearchParams } from '../types/recipeTypes';
+import type { RecipeProvider, RecipeProviderId } from '../types/recipeProviderTypes';
+import { computeRecipeFacets } from '../utils/recipeFacets';
+import { CompositeRecipeProvider } from './compositeRecipeProvider';
+
+const makeRecipe = (id: number, readyInMinutes: number): Recipe => ({
+  id,
+  title: `Recipe ${id}`,
+  readyInMinutes
+} as Recipe);
+
+// A provider over a fixed list of recipes, sorted by ready time when asked and paged like the real ones
+const makeProvider = (id: RecipeProviderId, recipes: Recipe[]): RecipeProvider => ({
+  id,
+  searchRecipes: async (params: RecipeSearchParams) => {
+    const sorted = params.sort === 'readyTime'
+      ? [...recipes].sort((a, b) => a.readyInMinutes - b.readyInMinutes)
+      : recipes;
+    const offset = params.offset || 0;
+    const number = params.number || 20;
+    return { results: sorted.slice(offset, offset + number), offset, number, totalResults: recipes.length };
+  },
+  searchRecipesByIngredients: async () => [],
+  getRecipeDetails: async () => null,
+  getFilterOptions: async () => ({ cuisines: [], diets: [], intolerances: [], mealTypes: [], timePreferences: [] })
+});
+
+// Ready times 10, 20, ... 60 split between two providers, so a sorted list takes turns between them
+const spoonacular = makeProvider('spoonacular', [makeRecipe(1, 10), makeRecipe(2, 30), makeRecipe(3, 50)]);
+const local = makeProvider('local', [makeRecipe(4, 20), makeRecipe(5, 40), makeRecipe(6, 60)]);
+
+describe('CompositeRecipeProvider.searchRecipes', () => {
+  it('cuts pages from the merged, sorted results', async () => {
+    const composite = new CompositeRecipeProvider([spoonacular, local]);
+    const params: RecipeSearchParams = { sort: 'readyTime', sortDirection: 'asc', number: 2 };
+
+    const pages = await Promise.all([0, 2, 4].map(offset => composite.searchRecipes({ ...params, offset })));
+    expect(pages.map(page => page.results.map(recipe => recipe.id))).toEqual([[1, 4], [2, 5], [3, 6]]);
+    expect(pages.every(page => page.totalResults === 6)).toBe(true);
+  });
+
+  it('keeps later providers on later pages', async () => {
+    const composite = new CompositeRecipeProvider([spoonacular, local]);
+    const page = await composite.searchRecipes({ offset: 3, number: 3 });
+
+    expect(page.results.map(recipe => recipe.id)).toEqual([4, 5, 6]);
+    expect(page.offset).toBe(3);
+  });
+
+  it('does not add facet counts over one page to counts over every match', async () => {
+    const facetsOf = (italian: number) => computeRecipeFacets(Array.from({ length: italian }, (_, index) =>
+      ({ ...makeRecipe(100 + index, 10), cuisines: ['Italian'] })));
+    const withFacets = (provider: RecipeProvider, italian: number, facetsCoverPageOnly: boolean): RecipeProvider => ({
+      ...provider,
+      searchRecipes: async params => ({ ...await provider.searchRecipes(params), facets: facetsOf(italian), facetsCoverPageOnly })
+    });
+
+    const api = withFacets(spoonacular, 2, true);
+    const both = await new CompositeRecipeProvider([api, withFacets(local, 5, false)]).searchRecipes({});
+    expect(both.facets?.cuisines).toEqual([{ value: 'italian', label: 'Italian', count: 5 }]);
+    expect(both.facetsCoverPageOnly).toBe(false);
+
+    const apiOnly = await new CompositeRecipeProvider([api]).searchRecipes({});
+    expect(apiOnly.facets?.cuisines).toEqual([{ value: 'italian', label: 'Italian', count: 2 }]);
+    expect(apiOnly.facetsCoverPageOnly).toBe(true);
+  });
+
+  it('leaves duplicates out of the page and the total', async () => {
+    const copy = makeProvider('user', [makeRecipe(1, 10), makeRecipe(7, 70)]);
+    const composite = new CompositeRecipeProvider([spoonacular, copy]);
+    const page = await composite.searchRecipes({ number: 10 });
+
+    expect(page.results.map(recipe => recipe.id)).toEqual([1, 2, 3, 7]);
+    expect(page.totalResults).toBe(4);
+  });
+
+  it('only asks each provider for the results after the ones it returned for an earlier page', async () => {
+    const requests: string[] = [];
+    const counted = (provider: RecipeProvider): RecipeProvider => ({
+      ...provider,
+      searchRecipes: async params => {
+        requests.push(`${provider.id} ${params.offset}+${params.number}`);
+        return provider.searchRecipes(params);
+      }
+    });
+    const composite = new CompositeRecipeProvider([counted(spoonacular), counted(local)]);
+    const params: RecipeSearchParams = { sort: 'readyTime', sortDirection: 'asc', number: 2 };
+
+    await composite.searchRecipes({ ...params, offset: 0 });
+    const secondPage = await composite.searchRecipes({ ...params, offset: 2 });
+
+    expect(secondPage.results.map(recipe => recipe.id)).toEqual([2, 5]);
+    expect(requests).toEqual(['spoonacular 0+2', 'local 0+2', 'spoonacular 2+2', 'local 2+2']);
+  });
+
+  it('stops paging a provider at its limit', async () => {
+    const limited = { ...makeProvider('spoonacular', Array.from({ length: 8 }, (_, index) => makeRecipe(index + 1, 10))), maxResults: 4 };
+    const composite = new CompositeRecipeProvider([limited]);
+
+    const lastPage = await composite.searchRecipes({ offset: 3, number: 3 });
+    expect(lastPage.results.map(recipe => recipe.id)).toEqual([4]);
+    // The total stops at the limit, so no page after this one is offered
+    expect(lastPage.totalResults).toBe(4);
+  });
+});
+
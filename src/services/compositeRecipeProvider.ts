@@ -0,0 +1,259 @@
+// Composite Recipe Provider - Asks several recipe providers at once and merges their answers
+// Results are merged in provider order, de-duplicated and paged as one list, so the same recipe
+// from two sources shows once. When a provider fails, the fallback provider's results take its place.
+// Each search remembers what every provider returned, so a later page only asks for the results after it.
+
+import type {
+  Recipe,
+  RecipeSearchParams,
+  RecipeSearchResponse,
+  RecipeDetailResponse,
+  FilterOptionsResponse
+} from '../types/recipeTypes';
+import type { RecipeProvider, RecipeProviderId } from '../types/recipeProviderTypes';
+import type { RecipeFacets } from '../types/recipeFacetTypes';
+import { mergeRecipeFacets } from '../utils/recipeFacets';
+import { sortRecipes } from '../utils/recipeSort';
+
+/**
+ * Search results along with the providers that answered
+ */
+export interface CompositeSearchResponse extends RecipeSearchResponse {
+  providers: RecipeProviderId[];  // Providers whose results are included, fallback included
+}
+
+/**
+ * What one provider has returned so far for a search
+ */
+interface ProviderSearchProgress {
+  results: Recipe[];               // Results fetched so far, in the provider's order
+  nextOffset: number;              // Offset the provider's next page starts at
+  totalResults: number;            // Matches the provider can page through, up to its limit
+  facets?: RecipeFacets;           // Facet counts, added up over every page when they only cover a page
+  facetsCoverPageOnly?: boolean;   // Whether the facet counts only cover the fetched results
+}
+
+// Searches whose progress is kept, so paging through recent searches doesn't start over
+const MAX_REMEMBERED_SEARCHES = 10;
+
+/**
+ * Remove recipes that were already found by an earlier provider
+ * Recipes count as the same when they share an ID or a title
+ * @param recipes - Recipes from all providers, in provider order
+ * @returns The recipes without duplicates
+ */
+const dedupeRecipes = (recipes: Recipe[]): Recipe[] => {
+  const seenIds = new Set<number>();
+  const seenTitles = new Set<string>();
+
+  return recipes.filter(recipe => {
+    const title = recipe.title.trim().toLowerCase();
+    if (seenIds.has(recipe.id) || seenTitles.has(title)) return false;
+
+    seenIds.add(recipe.id);
+    seenTitles.add(title);
+    return true;
+  });
+};
+
+// Composite Recipe Provider Class - Merges several providers into one
+export class CompositeRecipeProvider {
+  private providers: RecipeProvider[];      // Providers whose results are merged, in order of priority
+  private fallback?: RecipeProvider;        // Provider that fills in when one of the providers fails
+  private searches = new Map<string, Map<RecipeProviderId, ProviderSearchProgress>>();  // Progress of recent searches, by search
+
+  constructor(providers: RecipeProvider[], fallback?: RecipeProvider) {
+    this.providers = providers;
+    this.fallback = fallback;
+  }
+
+  /**
+   * Ask every provider, using the fallback in place of any that fail
+   * @param request - The call to make on each provider
+   * @returns The answers of the providers that succeeded, in provider order
+   * @throws The first provider's error when no provider (or fallback) answered
+   */
+  private async askProviders<T>(request: (provider: RecipeProvider) => Promise<T>): Promise<{ provider: RecipeProvider; result: T }[]> {
+    const settled = await Promise.allSettled(this.providers.map(provider => request(provider)));
+
+    const answers: { provider: RecipeProvider; result: T }[] = [];
+    const errors: unknown[] = [];
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        answers.push({ provider: this.providers[index], result: outcome.value });
+      } else {
+        console.warn(`Recipe provider "${this.providers[index].id}" failed:`, outcome.reason);
+        errors.push(outcome.reason);
+      }
+    });
+
+    // Only ask the fallback when it isn't one of the providers already asked
+    if (errors.length > 0 && this.fallback && !this.providers.includes(this.fallback)) {
+      try {
+        answers.push({ provider: this.fallback, result: await request(this.fallback) });
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    if (answers.length === 0) {
+      throw errors[0] ?? new Error('No recipe providers are configured');
+    }
+    return answers;
+  }
+
+  /**
+   * Get the progress of a search, starting it over on its first page
+   * @param params - Search parameters, of any page of the search
+   * @returns Progress of every provider asked so far, by provider
+   */
+  private getSearchProgress(params: RecipeSearchParams): Map<RecipeProviderId, ProviderSearchProgress> {
+    const searchKey = JSON.stringify({ ...params, offset: undefined, number: undefined });
+
+    // The first page is fetched again, so a new search picks up recipes added since
+    let progress = params.offset ? this.searches.get(searchKey) : undefined;
+    if (!progress) {
+      progress = new Map();
+      this.searches.delete(searchKey);
+      this.searches.set(searchKey, progress);
+      if (this.searches.size > MAX_REMEMBERED_SEARCHES) {
+        this.searches.delete(this.searches.keys().next().value!);
+      }
+    }
+    return progress;
+  }
+
+  /**
+   * Fetch a provider's results up to the end of a page, after the ones it already returned
+   * @param provider - The provider to ask
+   * @param params - Search parameters, passed to the provider
+   * @param end - How many of the provider's results are needed
+   * @param progress - Progress of the search, updated with the new results
+   * @returns Every result the provider returned for the search so far
+   */
+  private async fetchProviderResults(
+    provider: RecipeProvider,
+    params: RecipeSearchParams,
+    end: number,
+    progress: Map<RecipeProviderId, ProviderSearchProgress>
+  ): Promise<ProviderSearchProgress> {
+    const limit = provider.maxResults ?? Infinity;
+    const fetchEnd = Math.min(end, limit);
+    const previous = progress.get(provider.id);
+    if (previous && (previous.nextOffset >= fetchEnd || previous.nextOffset >= previous.totalResults)) {
+      return previous;
+    }
+
+    const fetchOffset = previous?.nextOffset || 0;
+    const response = await provider.searchRecipes({ ...params, offset: fetchOffset, number: fetchEnd - fetchOffset });
+    const facets = response.facetsCoverPageOnly && previous?.facets && response.facets
+      ? mergeRecipeFacets([previous.facets, response.facets])
+      : response.facets;
+
+    const updated: ProviderSearchProgress = {
+      results: [...(previous?.results || []), ...response.results],
+      nextOffset: fetchEnd,
+      totalResults: Math.min(response.totalResults, limit),
+      facets,
+      facetsCoverPageOnly: response.facetsCoverPageOnly
+    };
+    progress.set(provider.id, updated);
+    return updated;
+  }
+
+  /**
+   * Search all providers and merge the results
+   * @param params - Search parameters, passed to every provider
+   * @returns One page of the merged results; the total and facet counts add up every provider's matches,
+   * leaving out facet counts over a single page when another provider counted all its matches
+   *
+   * A page can't be merged from each provider's page at the same offset, as the pages
+   * hold different recipes once sorted together. Every provider's results up to the end of
+   * the page are needed instead, and the page is cut from the merged, sorted list, so each
+   * page holds at most `number` recipes and follows on from the one before. Providers are
+   * only asked for the results after the ones they already returned for the search, and
+   * never past their limit, whose total stops there so no page past it is offered.
+   */
+  async searchRecipes(params: RecipeSearchParams): Promise<CompositeSearchResponse> {
+    const offset = params.offset || 0;
+    const number = params.number || 20;
+    const progress = this.getSearchProgress(params);
+    const answers = await this.askProviders(provider => this.fetchProviderResults(provider, params, offset + number, progress));
+
+    // Each provider sorted its own results, so merged results are sorted again as one list
+    const allResults = answers.flatMap(answer => answer.result.results);
+    const mergedResults = sortRecipes(dedupeRecipes(allResults), params.sort, params.sortDirection);
+    const totalResults = answers.reduce((total, answer) => total + answer.result.totalResults, 0);
+
+    // Counts over one page can't be added to counts over every match, so they are only
+    // used when no provider counted every match
+    const fullFacets = answers.flatMap(answer => answer.result.facets && !answer.result.facetsCoverPageOnly ? [answer.result.facets] : []);
+    const pageFacets = answers.flatMap(answer => answer.result.facets && answer.result.facetsCoverPageOnly ? [answer.result.facets] : []);
+    const facets = fullFacets.length > 0 ? fullFacets : pageFacets;
+
+    return {
+      results: mergedResults.slice(offset, offset + number),
+      offset,
+      number,
+      // Duplicates can only be seen among the results fetched, so later ones may still be counted twice
+      totalResults: totalResults - (allResults.length - mergedResults.length),
+      facets: facets.length > 0 ? mergeRecipeFacets(facets) : undefined,
+      facetsCoverPageOnly: fullFacets.length === 0 && pageFacets.length > 0,
+      providers: answers.map(answer => answer.provider.id)
+    };
+  }
+
+  /**
+   * Find recipes makeable with the ingredients across all providers
+   * @param ingredients - Array of ingredient names the user has
+   * @param maxMissingIngredients - Maximum number of missing ingredients allowed
+   * @returns The merged recipes without duplicates
+   */
+  async searchRecipesByIngredients(ingredients: string[], maxMissingIngredients: number = 3): Promise<Recipe[]> {
+    const answers = await this.askProviders(provider => provider.searchRecipesByIngredients(ingredients, maxMissingIngredients));
+    return dedupeRecipes(answers.flatMap(answer => answer.result));
+  }
+
+  /**
+   * Get a recipe from the first provider that has it
+   * Providers are asked one at a time, so a recipe found early saves calls to the others
+   * @param recipeId - The unique ID of the recipe
+   * @returns The recipe details, or null when no provider has the recipe
+   */
+  async getRecipeDetails(recipeId: number): Promise<RecipeDetailResponse | null> {
+    const candidates = this.fallback && !this.providers.includes(this.fallback)
+      ? [...this.providers, this.fallback]
+      : this.providers;
+
+    for (const provider of candidates) {
+      try {
+        const recipe = await provider.getRecipeDetails(recipeId);
+        if (recipe) return recipe;
+      } catch (error) {
+        console.warn(`Recipe provider "${provider.id}" couldn't load recipe ${recipeId}:`, error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the filter options of all providers, without repeated options
+   * @returns Object containing all available filter options
+   */
+  async getFilterOptions(): Promise<FilterOptionsResponse> {
+    const answers = await this.askProviders(provider => provider.getFilterOptions());
+
+    const mergeOptions = (key: keyof FilterOptionsResponse) => {
+      const options = answers.flatMap(answer => answer.result[key]);
+      return options.filter((option, index) => options.findIndex(other => other.value === option.value) === index);
+    };
+
+    return {
+      cuisines: mergeOptions('cuisines'),
+      diets: mergeOptions('diets'),
+      intolerances: mergeOptions('intolerances'),
+      mealTypes: mergeOptions('mealTypes'),
+      timePreferences: mergeOptions('timePreferences')
+    };
+  }
+}
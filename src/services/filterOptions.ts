@@ -0,0 +1,53 @@
+// Filter Options - Cuisines, diets and other choices recipes can be filtered by
+// Spoonacular has no endpoint listing these, so every provider offers the same options.
+
+import type { FilterOptionsResponse } from '../types/recipeTypes';
+
+export const RECIPE_FILTER_OPTIONS: FilterOptionsResponse = {
+  cuisines: [
+    { name: "American", value: "American" },
+    { name: "Italian", value: "Italian" },
+    { name: "Mexican", value: "Mexican" },
+    { name: "Asian", value: "Asian" },
+    { name: "Mediterranean", value: "Mediterranean" },
+    { name: "Greek", value: "Greek" },
+    { name: "French", value: "French" },
+    { name: "Japanese", value: "Japanese" },
+    { name: "Chinese", value: "Chinese" },
+    { name: "Thai", value: "Thai" },
+    { name: "Indian", value: "Indian" },
+    { name: "Middle Eastern", value: "Middle Eastern" }
+  ],
+  diets: [
+    { name: "Vegetarian", value: "Vegetarian" },
+    { name: "Vegan", value: "Vegan" },
+    { name: "Gluten-Free", value: "Gluten-Free" },
+    { name: "Dairy-Free", value: "Dairy-Free" },
+    { name: "Keto", value: "Keto" },
+    { name: "Paleo", value: "Paleo" },
+    { name: "Low-Carb", value: "Low-Carb" },
+    { name: "High-Protein", value: "High-Protein" }
+  ],
+  intolerances: [
+    { name: "Nuts", value: "Nuts" },
+    { name: "Dairy", value: "Dairy" },
+    { name: "Shellfish", value: "Shellfish" },
+    { name: "Eggs", value: "Eggs" },
+    { name: "Soy", value: "Soy" },
+    { name: "Wheat", value: "Wheat" },
+    { name: "Fish", value: "Fish" },
+    { name: "Sesame", value: "Sesame" }
+  ],
+  mealTypes: [
+    { name: "Main Course", value: "main course" },
+    { name: "Breakfast", value: "breakfast" },
+    { name: "Side Dish", value: "side dish" },
+    { name: "Dessert", value: "dessert" },
+    { name: "Snack", value: "snack" }
+  ],
+  timePreferences: [
+    { name: "Quick (15-30 min)", value: "15-30" },
+    { name: "Medium (30-60 min)", value: "30-60" },
+    { name: "Long (60+ min)", value: "60+" }
+  ]
+};
@@ -12,10 +12,26 @@ import {
   where,
   deleteDoc,
   updateDoc,
-  serverTimestamp
+  serverTimestamp,
+  onSnapshot,
+  writeBatch
 } from 'firebase/firestore';
 import { db } from './firebase';
-import type { PlanEvent } from '../context/PlanContextTypes';
+import type { PlanEvent, PlanInfo } from '../context/PlanContextTypes';
+import type { ShoppingList } from '../types/shoppingListTypes';
+import type { MealPlanTemplate } from '../types/planTemplateTypes';
+import type { NutritionGoals } from '../types/nutritionGoalTypes';
+import type { MealSlot } from '../types/mealSlotTypes';
+
+// Most writes a single Firestore batch can hold
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Check whether a Firestore request was refused by the security rules
+ */
+const isPermissionDenied = (error: unknown): boolean => {
+  return (error as { code?: string } | null)?.code === 'permission-denied';
+};
 
 // Interface definitions for different data types
 // These define the structure of data we store in the database
@@ -28,6 +44,11 @@ export interface UserData {
   createdAt: any;       // When the user account was created
   lastLogin: any;       // When the user last logged in
   preferences?: UserPreferences;  // User's dietary and cooking preferences
+  nutritionGoals?: NutritionGoals;  // User's daily calorie and macro goals
+  trashRetentionDays?: number;      // Days trashed meals are kept before they are deleted
+  householdSize?: number | null;    // Portions to cook for each meal, null to cook recipes as written
+  weeklyBudget?: number | null;     // Weekly food budget in US cents, null when no budget is set
+  mealSlots?: MealSlot[];           // Times of day the user eats at, in order
 }
 
 // User preferences for dietary restrictions and cooking preferences
@@ -40,6 +61,7 @@ export interface UserPreferences {
 }
 
 // Meal plan data structure - stores user's meal planning data
+// Legacy format: events now live in the users/{userId}/planEvents subcollection
 export interface MealPlan {
   id: string;           // Unique meal plan ID
   userId: string;       // ID of the user who owns this meal plan
@@ -157,6 +179,148 @@ class FirestoreService {
     return null;
   }
 
+  /**
+   * Save the user's daily nutrition goals
+   * @param userId - The user's unique ID
+   * @param goals - Daily calorie and macro goals
+   *
+   * Goals are stored on the user document next to their preferences.
+   */
+  async saveNutritionGoals(userId: string, goals: NutritionGoals): Promise<void> {
+    const userRef = doc(db, 'users', userId);
+    await updateDoc(userRef, {
+      nutritionGoals: goals
+    });
+  }
+
+  /**
+   * Get the user's daily nutrition goals
+   * @param userId - The user's unique ID
+   * @returns Nutrition goals or null if the user hasn't set any
+   */
+  async getNutritionGoals(userId: string): Promise<NutritionGoals | null> {
+    const userRef = doc(db, 'users', userId);
+    const userSnap = await getDoc(userRef);
+
+    if (userSnap.exists()) {
+      const userData = userSnap.data() as UserData;
+      return userData.nutritionGoals || null;
+    }
+    return null;
+  }
+
+  /**
+   * Save how long the user's trashed meals are kept
+   * @param userId - The user's unique ID
+   * @param days - Days a meal stays in trash before it is deleted
+   */
+  async saveTrashRetentionDays(userId: string, days: number): Promise<void> {
+    const userRef = doc(db, 'users', userId);
+    await updateDoc(userRef, {
+      trashRetentionDays: days
+    });
+  }
+
+  /**
+   * Get how long the user's trashed meals are kept
+   * @param userId - The user's unique ID
+   * @returns Days a meal stays in trash, or null if the user hasn't changed it
+   */
+  async getTrashRetentionDays(userId: string): Promise<number | null> {
+    const userRef = doc(db, 'users', userId);
+    const userSnap = await getDoc(userRef);
+
+    if (userSnap.exists()) {
+      const userData = userSnap.data() as UserData;
+      return userData.trashRetentionDays ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * Save how many people the user cooks for
+   * @param userId - The user's unique ID
+   * @param size - Portions to cook for each meal, or null to cook recipes as written
+   */
+  async saveHouseholdSize(userId: string, size: number | null): Promise<void> {
+    const userRef = doc(db, 'users', userId);
+    await updateDoc(userRef, {
+      householdSize: size
+    });
+  }
+
+  /**
+   * Get how many people the user cooks for
+   * @param userId - The user's unique ID
+   * @returns Portions to cook for each meal, or null if recipes are cooked as written
+   */
+  async getHouseholdSize(userId: string): Promise<number | null> {
+    const userRef = doc(db, 'users', userId);
+    const userSnap = await getDoc(userRef);
+
+    if (userSnap.exists()) {
+      const userData = userSnap.data() as UserData;
+      return userData.householdSize ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * Save the user's weekly food budget
+   * @param userId - The user's unique ID
+   * @param budget - Weekly budget in US cents, or null to stop tracking a budget
+   */
+  async saveWeeklyBudget(userId: string, budget: number | null): Promise<void> {
+    const userRef = doc(db, 'users', userId);
+    await updateDoc(userRef, {
+      weeklyBudget: budget
+    });
+  }
+
+  /**
+   * Get the user's weekly food budget
+   * @param userId - The user's unique ID
+   * @returns Weekly budget in US cents, or null if no budget is set
+   */
+  async getWeeklyBudget(userId: string): Promise<number | null> {
+    const userRef = doc(db, 'users', userId);
+    const userSnap = await getDoc(userRef);
+
+    if (userSnap.exists()) {
+      const userData = userSnap.data() as UserData;
+      return userData.weeklyBudget ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * Save the times of day the user eats at
+   * @param userId - The user's unique ID
+   * @param slots - The user's meal slots, in order
+   */
+  async saveMealSlots(userId: string, slots: MealSlot[]): Promise<void> {
+    const userRef = doc(db, 'users', userId);
+    await updateDoc(userRef, {
+      mealSlots: slots
+    });
+  }
+
+  /**
+   * Get the times of day the user eats at
+   * @param userId - The user's unique ID
+   * @returns The user's meal slots, or null if they haven't set any
+   */
+  async getMealSlots(userId: string): Promise<MealSlot[] | null> {
+    const userRef = doc(db, 'users', userId);
+    const userSnap = await getDoc(userRef);
+
+    if (userSnap.exists()) {
+      const userData = userSnap.data() as UserData;
+      return userData.mealSlots || null;
+    }
+    return null;
+  }
+
   // ===== MEAL PLAN OPERATIONS =====
 
   /**
@@ -205,6 +369,195 @@ class FirestoreService {
     await deleteDoc(planRef);
   }
 
+  // ===== PLAN OPERATIONS =====
+
+  /**
+   * Save a named meal plan
+   * @param userId - The user's unique ID
+   * @param plan - The plan's name and archived state
+   * 
+   * Plans only hold their name; meals point to their plan through planId.
+   */
+  async savePlan(userId: string, plan: PlanInfo): Promise<void> {
+    const planRef = doc(db, 'users', userId, 'plans', plan.id);
+    await setDoc(planRef, plan);
+  }
+
+  /**
+   * Get all named meal plans for a specific user
+   * @param userId - The user's unique ID
+   * @returns Array of the user's plans, including archived ones
+   */
+  async getPlans(userId: string): Promise<PlanInfo[]> {
+    const querySnapshot = await getDocs(collection(db, 'users', userId, 'plans'));
+
+    return querySnapshot.docs.map((doc: { id: string; data: () => Omit<PlanInfo, 'id'> }) => ({
+      ...doc.data(),
+      id: doc.id
+    }));
+  }
+
+  // ===== PLAN EVENT OPERATIONS =====
+
+  /**
+   * Save a single meal event
+   * @param userId - The user's unique ID
+   * @param event - The meal event to save
+   * 
+   * Each event is its own document under the user, so saving one meal
+   * never overwrites changes made to other meals from another device.
+   * Optional fields left undefined are dropped, since Firestore rejects undefined values.
+   */
+  async savePlanEvent(userId: string, event: PlanEvent): Promise<void> {
+    const eventRef = doc(db, 'users', userId, 'planEvents', event.id);
+    await setDoc(eventRef, JSON.parse(JSON.stringify(event)));
+  }
+
+  /**
+   * Delete a single meal event
+   * @param userId - The user's unique ID
+   * @param eventId - The meal event's unique ID
+   */
+  async deletePlanEvent(userId: string, eventId: string): Promise<void> {
+    const eventRef = doc(db, 'users', userId, 'planEvents', eventId);
+    await deleteDoc(eventRef);
+  }
+
+  /**
+   * Get all meal events for a specific user
+   * @param userId - The user's unique ID
+   * @returns Array of the user's meal events
+   */
+  async getPlanEvents(userId: string): Promise<PlanEvent[]> {
+    const querySnapshot = await getDocs(collection(db, 'users', userId, 'planEvents'));
+
+    return querySnapshot.docs.map((doc: { id: string; data: () => Omit<PlanEvent, 'id'> }) => ({
+      ...doc.data(),
+      id: doc.id
+    }));
+  }
+
+  /**
+   * Listen for changes to a user's meal events
+   * @param userId - The user's unique ID
+   * @param onChange - Called with all of the user's events on load and after every change
+   * @param onError - Called if the listener fails (e.g. missing permissions)
+   * @returns Function that stops listening
+   * 
+   * Changes made on another device or in another tab show up live.
+   */
+  subscribeToPlanEvents(
+    userId: string,
+    onChange: (events: PlanEvent[]) => void,
+    onError: (error: unknown) => void
+  ): () => void {
+    return onSnapshot(
+      collection(db, 'users', userId, 'planEvents'),
+      (querySnapshot: { docs: { id: string; data: () => Omit<PlanEvent, 'id'> }[] }) => {
+        onChange(querySnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id })));
+      },
+      onError
+    );
+  }
+
+  /**
+   * Move events from legacy meal plan documents into the planEvents subcollection
+   * @param userId - The user's unique ID
+   * @returns Number of events copied
+   * 
+   * Runs once per user: the old meal plan documents are deleted after their events
+   * are copied. Events that already exist in the subcollection are never overwritten,
+   * so running it again after an interrupted migration can't undo newer edits.
+   * If the old documents can't be deleted, an error says so and they are kept, so the
+   * migration runs again on the next load.
+   */
+  async migrateMealPlansToEvents(userId: string): Promise<number> {
+    const legacyPlans = await this.getLegacyMealPlans(userId);
+    if (legacyPlans.length === 0) return 0;
+
+    const existingIds = new Set((await this.getPlanEvents(userId)).map(event => event.id));
+    const eventsToCopy = legacyPlans
+      .flatMap(plan => plan.events || [])
+      .filter(event => event && event.id && !existingIds.has(event.id));
+
+    for (let i = 0; i < eventsToCopy.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      eventsToCopy.slice(i, i + MAX_BATCH_WRITES).forEach(event => {
+        batch.set(doc(db, 'users', userId, 'planEvents', event.id), event);
+      });
+      await batch.commit();
+    }
+
+    const deletions = await Promise.allSettled(legacyPlans.map(plan => this.deleteMealPlan(plan.id)));
+    const failedDeletions = deletions.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failedDeletions.length > 0) {
+      const reason = failedDeletions.some(result => isPermissionDenied(result.reason))
+        ? 'the security rules refused it'
+        : 'the request failed';
+      throw new Error(
+        `Copied ${eventsToCopy.length} meal events, but ${failedDeletions.length} old meal plan documents ` +
+        `could not be deleted because ${reason}. They will be migrated again on the next load.`
+      );
+    }
+    return eventsToCopy.length;
+  }
+
+  /**
+   * Get the legacy meal plan documents a user owns
+   * @param userId - The user's unique ID
+   * @returns The user's legacy meal plans
+   * 
+   * Where the rules still only allow the plan named after its owner, the query over
+   * userId is refused, so that document is read on its own instead.
+   */
+  private async getLegacyMealPlans(userId: string): Promise<MealPlan[]> {
+    try {
+      return await this.getMealPlans(userId);
+    } catch (error) {
+      if (!isPermissionDenied(error)) throw error;
+
+      console.warn('Meal plan query refused by the security rules; reading the plan named after the user instead.');
+      const planSnap = await getDoc(doc(db, 'mealPlans', userId));
+      return planSnap.exists() ? [{ ...planSnap.data(), id: planSnap.id } as MealPlan] : [];
+    }
+  }
+
+  // ===== TRASH OPERATIONS =====
+
+  /**
+   * Save a meal that was moved to trash
+   * @param userId - The user's unique ID
+   * @param event - The trashed meal, including when it was trashed
+   */
+  async saveTrashedEvent(userId: string, event: PlanEvent): Promise<void> {
+    const eventRef = doc(db, 'users', userId, 'trashedEvents', event.id);
+    await setDoc(eventRef, JSON.parse(JSON.stringify(event)));
+  }
+
+  /**
+   * Delete a meal from trash, after it was restored or purged
+   * @param userId - The user's unique ID
+   * @param eventId - The trashed meal's unique ID
+   */
+  async deleteTrashedEvent(userId: string, eventId: string): Promise<void> {
+    const eventRef = doc(db, 'users', userId, 'trashedEvents', eventId);
+    await deleteDoc(eventRef);
+  }
+
+  /**
+   * Get all meals in a user's trash
+   * @param userId - The user's unique ID
+   * @returns Array of the user's trashed meals
+   */
+  async getTrashedEvents(userId: string): Promise<PlanEvent[]> {
+    const querySnapshot = await getDocs(collection(db, 'users', userId, 'trashedEvents'));
+
+    return querySnapshot.docs.map((doc: { id: string; data: () => Omit<PlanEvent, 'id'> }) => ({
+      ...doc.data(),
+      id: doc.id
+    }));
+  }
+
   // ===== FAVORITE RECIPES OPERATIONS =====
 
   /**
@@ -355,6 +708,87 @@ class FirestoreService {
     const deletePromises = querySnapshot.docs.map((doc: any) => deleteDoc(doc.ref));
     await Promise.all(deletePromises);
   }
+
+  // ===== SHOPPING LIST OPERATIONS =====
+
+  /**
+   * Save a user's shopping list to the database
+   * @param shoppingList - Shopping list data to save (without timestamp)
+   * 
+   * Each user has a single shopping list stored under their user ID.
+   * It's called when users generate the list or tick items off.
+   */
+  async saveShoppingList(shoppingList: Omit<ShoppingList, 'updatedAt'>): Promise<void> {
+    const listRef = doc(db, 'shoppingLists', shoppingList.userId);
+    await setDoc(listRef, {
+      ...shoppingList,
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  /**
+   * Get a user's shopping list
+   * @param userId - The user's unique ID
+   * @returns The saved shopping list or null if none exists
+   * 
+   * This function loads the last generated shopping list,
+   * including which items the user has already checked off.
+   */
+  async getShoppingList(userId: string): Promise<ShoppingList | null> {
+    const listRef = doc(db, 'shoppingLists', userId);
+    const listSnap = await getDoc(listRef);
+
+    if (listSnap.exists()) {
+      return { id: listSnap.id, ...listSnap.data() } as ShoppingList;
+    }
+    return null;
+  }
+
+  // ===== MEAL PLAN TEMPLATE OPERATIONS =====
+
+  /**
+   * Save a meal plan template to the database
+   * @param template - Template data to save (without timestamp)
+   * 
+   * Templates are saved weeks (or other date ranges) of meals
+   * that users can apply again to any start date.
+   */
+  async saveMealPlanTemplate(template: Omit<MealPlanTemplate, 'createdAt'>): Promise<void> {
+    const templateRef = doc(db, 'mealPlanTemplates', template.id);
+    await setDoc(templateRef, {
+      ...template,
+      createdAt: serverTimestamp()
+    });
+  }
+
+  /**
+   * Get all meal plan templates for a specific user
+   * @param userId - The user's unique ID
+   * @returns Array of templates for the user
+   * 
+   * This function is used to list the user's saved templates on the plan page.
+   */
+  async getMealPlanTemplates(userId: string): Promise<MealPlanTemplate[]> {
+    const q = query(collection(db, 'mealPlanTemplates'), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map((doc: { id: string; data: () => Omit<MealPlanTemplate, 'id'> }) => ({
+      id: doc.id,
+      ...doc.data()
+    })) as MealPlanTemplate[];
+  }
+
+  /**
+   * Delete a meal plan template from the database
+   * @param templateId - The template's unique ID
+   * 
+   * This function permanently removes a saved template.
+   * Meals that were already added from it stay in the plan.
+   */
+  async deleteMealPlanTemplate(templateId: string): Promise<void> {
+    const templateRef = doc(db, 'mealPlanTemplates', templateId);
+    await deleteDoc(templateRef);
+  }
 }
 
 // Create and export a single instance of the Firestore service
@@ -0,0 +1,323 @@
+// Local Recipe Provider - Recipes bundled with the app or loaded from a static JSON file
+// Searches a fixed list of recipes in the browser, so it works offline and is the fallback
+// when Spoonacular can't be reached or has no API key. Searches are ranked by relevance
+// using a full-text search index. The user's own recipes use the same searching.
+
+import type {
+  Recipe,
+  RecipeSearchParams,
+  RecipeSearchResponse,
+  RecipeDetailResponse,
+  FilterOptionsResponse
+} from '../types/recipeTypes';
+import type { RecipeProvider, RecipeProviderId } from '../types/recipeProviderTypes';
+import { RECIPE_FILTER_OPTIONS } from './filterOptions';
+import { RecipeSearchIndex } from '../utils/recipeSearchIndex';
+import { computeRecipeFacets, matchesFacetSelections } from '../utils/recipeFacets';
+import { matchesSearchRestrictions } from '../utils/recipeRestrictions';
+import { sortRecipes } from '../utils/recipeSort';
+import { mockRecipes } from './mockData';
+
+// Details shown for sample recipes, which have no nutrition, wine pairing or taste of their own
+// The nutrition is marked as a sample, so it is never planned as the recipe's real nutrition
+const SAMPLE_RECIPE_DETAILS: Pick<RecipeDetailResponse, 'nutrition' | 'winePairing' | 'taste'> = {
+  nutrition: {
+    nutrients: [
+      { name: "Calories", amount: 450, unit: "kcal", percentOfDailyNeeds: 22.5 },
+      { name: "Protein", amount: 25, unit: "g", percentOfDailyNeeds: 50 },
+      { name: "Fat", amount: 18, unit: "g", percentOfDailyNeeds: 27.7 },
+      { name: "Carbohydrates", amount: 35, unit: "g", percentOfDailyNeeds: 11.7 },
+      { name: "Fiber", amount: 8, unit: "g", percentOfDailyNeeds: 32 },
+      { name: "Sugar", amount: 12, unit: "g", percentOfDailyNeeds: 13.3 },
+      { name: "Sodium", amount: 680, unit: "mg", percentOfDailyNeeds: 28.3 },
+      { name: "Potassium", amount: 420, unit: "mg", percentOfDailyNeeds: 8.9 },
+      { name: "Vitamin C", amount: 15, unit: "mg", percentOfDailyNeeds: 16.7 },
+      { name: "Iron", amount: 3.2, unit: "mg", percentOfDailyNeeds: 17.8 },
+      { name: "Calcium", amount: 180, unit: "mg", percentOfDailyNeeds: 18 }
+    ],
+    properties: [
+      { name: "Glycemic Index", amount: 45, unit: "" },
+      { name: "Glycemic Load", amount: 8, unit: "" }
+    ],
+    flavonoids: [
+      { name: "Quercetin", amount: 2.5, unit: "mg" },
+      { name: "Kaempferol", amount: 1.2, unit: "mg" }
+    ],
+    ingredients: [
+      {
+        id: 1,
+        name: "corn tortillas",
+        amount: 2,
+        unit: "pieces",
+        nutrients: [
+          { name: "Calories", amount: 120, unit: "kcal", percentOfDailyNeeds: 6 },
+          { name: "Carbohydrates", amount: 24, unit: "g", percentOfDailyNeeds: 8 }
+        ]
+      }
+    ],
+    caloricBreakdown: {
+      percentProtein: 22.2,
+      percentFat: 36,
+      percentCarbs: 31.1
+    },
+    weightPerServing: {
+      amount: 250,
+      unit: "g"
+    },
+    isSample: true
+  },
+  winePairing: {
+    pairedWines: ["Chardonnay", "Pinot Noir"],
+    pairingText: "This dish pairs well with a light Chardonnay or a medium-bodied Pinot Noir.",
+    productMatches: []
+  },
+  taste: {
+    sweetness: 0.3,
+    saltiness: 0.7,
+    sourness: 0.2,
+    bitterness: 0.1,
+    savoriness: 0.8,
+    fattiness: 0.6,
+    spiciness: 0.4
+  }
+};
+
+// Enhanced ingredient synonyms for better matching
+const INGREDIENT_SYNONYMS: { [key: string]: string[] } = {
+  'tomato': ['tomatoes', 'cherry tomato', 'roma tomato', 'tomato'],
+  'onion': ['onions', 'red onion', 'white onion', 'yellow onion', 'onion'],
+  'garlic': ['garlic cloves', 'garlic powder', 'garlic'],
+  'olive oil': ['extra virgin olive oil', 'evoo', 'olive oil'],
+  'salt': ['sea salt', 'kosher salt', 'table salt', 'salt'],
+  'pepper': ['black pepper', 'white pepper', 'ground pepper', 'pepper'],
+  'chicken': ['chicken breast', 'chicken thigh', 'chicken meat', 'chicken'],
+  'beef': ['ground beef', 'beef steak', 'beef meat', 'beef'],
+  'rice': ['white rice', 'brown rice', 'jasmine rice', 'basmati rice', 'rice'],
+  'pasta': ['spaghetti', 'penne', 'fettuccine', 'linguine', 'pasta'],
+  'cheese': ['cheddar', 'mozzarella', 'parmesan', 'gouda', 'cheese'],
+  'milk': ['whole milk', 'skim milk', 'almond milk', 'soy milk', 'milk'],
+  'egg': ['eggs', 'large eggs', 'egg whites', 'egg'],
+  'flour': ['all purpose flour', 'bread flour', 'cake flour', 'flour'],
+  'sugar': ['white sugar', 'brown sugar', 'granulated sugar', 'sugar'],
+  'butter': ['unsalted butter', 'salted butter', 'margarine', 'butter'],
+  'lemon': ['lemons', 'lemon juice', 'lemon zest', 'lemon'],
+  'lime': ['limes', 'lime juice', 'lime zest', 'lime'],
+  'bell pepper': ['bell peppers', 'red pepper', 'green pepper', 'yellow pepper', 'bell pepper'],
+  'carrot': ['carrots', 'baby carrots', 'carrot'],
+  'potato': ['potatoes', 'russet potato', 'red potato', 'potato'],
+  'spinach': ['baby spinach', 'fresh spinach', 'spinach'],
+  'mushroom': ['mushrooms', 'button mushrooms', 'portobello', 'mushroom'],
+  'basil': ['fresh basil', 'basil leaves', 'basil'],
+  'oregano': ['dried oregano', 'fresh oregano', 'oregano'],
+  'thyme': ['fresh thyme', 'dried thyme', 'thyme'],
+  'rosemary': ['fresh rosemary', 'dried rosemary', 'rosemary'],
+  'parsley': ['fresh parsley', 'dried parsley', 'parsley'],
+  'cilantro': ['fresh cilantro', 'coriander', 'cilantro'],
+  'ginger': ['fresh ginger', 'ginger powder', 'ginger root', 'ginger'],
+  'cumin': ['ground cumin', 'cumin seeds', 'cumin'],
+  'paprika': ['smoked paprika', 'sweet paprika', 'paprika'],
+  'cinnamon': ['ground cinnamon', 'cinnamon stick', 'cinnamon'],
+  'nutmeg': ['ground nutmeg', 'whole nutmeg', 'nutmeg'],
+  'vanilla': ['vanilla extract', 'vanilla bean', 'vanilla'],
+  'honey': ['raw honey', 'clover honey', 'honey'],
+  'maple syrup': ['pure maple syrup', 'maple syrup'],
+  'soy sauce': ['light soy sauce', 'dark soy sauce', 'tamari', 'soy sauce'],
+  'vinegar': ['apple cider vinegar', 'balsamic vinegar', 'white vinegar', 'vinegar'],
+  'mustard': ['dijon mustard', 'yellow mustard', 'whole grain mustard', 'mustard'],
+  'mayonnaise': ['mayo', 'light mayonnaise', 'mayonnaise'],
+  'ketchup': ['tomato ketchup', 'catsup', 'ketchup'],
+  'hot sauce': ['sriracha', 'tabasco', 'chili sauce', 'hot sauce'],
+  'worcestershire': ['worcestershire sauce'],
+  'fish sauce': ['fish sauce'],
+  'oyster sauce': ['oyster sauce'],
+  'sesame oil': ['toasted sesame oil', 'sesame oil'],
+  'coconut oil': ['virgin coconut oil', 'refined coconut oil', 'coconut oil'],
+  'avocado': ['avocados', 'avocado oil', 'avocado'],
+  // Add more common ingredient variations
+  'berries': ['mixed berries', 'strawberries', 'blueberries', 'raspberries', 'blackberries', 'berries'],
+  'yogurt': ['greek yogurt', 'plain yogurt', 'vanilla yogurt', 'yogurt'],
+  'bread': ['whole grain bread', 'white bread', 'sourdough bread', 'bread'],
+  'oat': ['oats', 'rolled oats', 'steel cut oats', 'oat'],
+  'almond': ['almonds', 'almond milk', 'almond flour', 'almond'],
+  'coconut': ['coconut milk', 'coconut oil', 'shredded coconut', 'coconut'],
+  'chocolate': ['dark chocolate', 'milk chocolate', 'chocolate chips', 'chocolate'],
+  'cream': ['heavy cream', 'whipping cream', 'sour cream', 'cream'],
+  'sauce': ['tomato sauce', 'pasta sauce', 'marinara sauce', 'sauce'],
+  'broth': ['chicken broth', 'beef broth', 'vegetable broth', 'broth'],
+  'stock': ['chicken stock', 'beef stock', 'vegetable stock', 'stock']
+};
+
+// Words dropped from ingredient names before comparing them, e.g. "fresh basil" -> "basil"
+const COMMON_PREFIXES = ['fresh', 'dried', 'ground', 'whole', 'extra virgin', 'virgin', 'pure', 'organic'];
+const COMMON_SUFFIXES = ['powder', 'extract', 'oil', 'milk', 'flour', 'sauce', 'broth', 'stock'];
+
+/**
+ * Check if an ingredient the user has matches one a recipe needs (including synonyms)
+ * @param userIngredient - Ingredient the user has
+ * @param recipeIngredient - Ingredient from the recipe
+ * @returns True for exact, synonym, partial and plural/singular matches
+ */
+const ingredientsMatch = (userIngredient: string, recipeIngredient: string): boolean => {
+  const userLower = userIngredient.toLowerCase().trim();
+  const recipeLower = recipeIngredient.toLowerCase().trim();
+
+  // Direct match
+  if (userLower === recipeLower) {
+    return true;
+  }
+
+  // Check synonyms
+  const synonyms = INGREDIENT_SYNONYMS[userLower];
+  if (synonyms && synonyms.some(synonym => synonym.toLowerCase() === recipeLower)) {
+    return true;
+  }
+
+  // Check if recipe ingredient contains user ingredient (for partial matches)
+  if (recipeLower.includes(userLower) || userLower.includes(recipeLower)) {
+    return true;
+  }
+
+  // Check for plural/singular
+  if (userLower.endsWith('s') && recipeLower === userLower.slice(0, -1)) {
+    return true;
+  }
+  if (recipeLower.endsWith('s') && userLower === recipeLower.slice(0, -1)) {
+    return true;
+  }
+
+  // Remove common prefixes and suffixes for comparison
+  let cleanUser = userLower;
+  let cleanRecipe = recipeLower;
+
+  COMMON_PREFIXES.forEach(prefix => {
+    if (cleanUser.startsWith(prefix + ' ')) cleanUser = cleanUser.substring(prefix.length + 1);
+    if (cleanRecipe.startsWith(prefix + ' ')) cleanRecipe = cleanRecipe.substring(prefix.length + 1);
+  });
+
+  COMMON_SUFFIXES.forEach(suffix => {
+    if (cleanUser.endsWith(' ' + suffix)) cleanUser = cleanUser.substring(0, cleanUser.length - suffix.length - 1);
+    if (cleanRecipe.endsWith(' ' + suffix)) cleanRecipe = cleanRecipe.substring(0, cleanRecipe.length - suffix.length - 1);
+  });
+
+  // Check if cleaned versions are the same or contain each other
+  return cleanUser === cleanRecipe || cleanRecipe.includes(cleanUser) || cleanUser.includes(cleanRecipe);
+};
+
+/**
+ * Check if a recipe is for a meal type, from its dish types, occasions or title
+ * @param recipe - The recipe to check
+ * @param mealType - Lowercase meal type, e.g. 'breakfast' or 'main course'
+ */
+const matchesMealType = (recipe: Recipe, mealType: string): boolean => {
+  if (recipe.dishTypes.some(dishType => dishType.toLowerCase().includes(mealType))) {
+    return true;
+  }
+
+  if (recipe.occasions.some(occasion => occasion.toLowerCase().includes(mealType))) {
+    return true;
+  }
+
+  // Check title for meal type keywords
+  const titleKeywords = ['breakfast', 'lunch', 'dinner', 'snack', 'dessert', 'appetizer'];
+  return titleKeywords.includes(mealType) && recipe.title.toLowerCase().includes(mealType);
+};
+
+// Local Recipe Provider Class - Searches a fixed list of recipes
+// Used for the bundled sample recipes, and for any static JSON list of recipes
+export class LocalRecipeProvider implements RecipeProvider {
+  public id: RecipeProviderId;
+  protected recipes: Recipe[];                          // Recipes this provider searches
+  protected searchIndex = new RecipeSearchIndex();      // Full-text index of the recipes
+
+  constructor(recipes: Recipe[], id: RecipeProviderId = 'local') {
+    this.recipes = recipes;
+    this.id = id;
+    this.searchIndex.addRecipes(recipes);
+  }
+
+  /**
+   * Filter the recipes based on search parameters
+   * @param params - Search parameters to filter by
+   * @returns Filtered recipe results with pagination and facet counts, in the picked order
+   * (best matches for the search query first by default)
+   */
+  async searchRecipes(params: RecipeSearchParams): Promise<RecipeSearchResponse> {
+    // Search the index for the query (title, summary, ingredients, cuisines and dish types)
+    let filteredRecipes = params.query?.trim()
+      ? this.searchIndex.search(params.query).map(hit => hit.recipe)
+      : [...this.recipes];
+
+    // Filter by diets (all of them), cuisines (any of them), intolerances and excluded cuisines and ingredients
+    filteredRecipes = filteredRecipes.filter(recipe => matchesSearchRestrictions(recipe, params));
+
+    // Filter by meal type (breakfast, lunch, dinner, etc.)
+    if (params.type) {
+      const mealType = params.type.toLowerCase();
+      filteredRecipes = filteredRecipes.filter(recipe => matchesMealType(recipe, mealType));
+    }
+
+    // Filter by maximum cooking time
+    if (params.maxReadyTime) {
+      filteredRecipes = filteredRecipes.filter(recipe => recipe.readyInMinutes <= params.maxReadyTime!);
+    }
+
+    // Count the results by cuisine, diet, etc., then keep the ones matching the picked facet values
+    const facets = computeRecipeFacets(filteredRecipes, params.facets);
+    filteredRecipes = filteredRecipes.filter(recipe => matchesFacetSelections(recipe, params.facets));
+
+    // Sort before paging, so each page continues where the last one stopped
+    filteredRecipes = sortRecipes(filteredRecipes, params.sort, params.sortDirection);
+
+    // Apply pagination to results
+    const offset = params.offset || 0;
+    const number = params.number || 20;
+
+    return {
+      results: filteredRecipes.slice(offset, offset + number),
+      offset,
+      number,
+      totalResults: filteredRecipes.length,
+      facets
+    };
+  }
+
+  /**
+   * Find recipes that can be made with the given ingredients
+   * @param ingredients - Array of ingredient names the user has
+   * @param maxMissingIngredients - Maximum number of the user's ingredients a recipe may not use
+   * @returns Array of matching recipes
+   */
+  async searchRecipesByIngredients(ingredients: string[], maxMissingIngredients: number = 3): Promise<Recipe[]> {
+    return this.recipes.filter(recipe => {
+      const recipeIngredients = recipe.extendedIngredients.map(ingredient => ingredient.name.toLowerCase());
+
+      // Count how many user ingredients match with recipe ingredients
+      const matchedCount = ingredients.filter(userIngredient =>
+        recipeIngredients.some(recipeIngredient => ingredientsMatch(userIngredient, recipeIngredient))
+      ).length;
+
+      return ingredients.length - matchedCount <= maxMissingIngredients;
+    });
+  }
+
+  /**
+   * Get a recipe with sample nutrition, wine pairing and taste filled in
+   * @param recipeId - The unique ID of the recipe
+   * @returns The recipe details, or null if the recipe isn't in this provider's list
+   */
+  async getRecipeDetails(recipeId: number): Promise<RecipeDetailResponse | null> {
+    const recipe = this.recipes.find(r => r.id === recipeId);
+    return recipe ? { ...recipe, ...SAMPLE_RECIPE_DETAILS } : null;
+  }
+
+  /**
+   * Get available filter options
+   * @returns Object containing all available filter options
+   */
+  async getFilterOptions(): Promise<FilterOptionsResponse> {
+    return RECIPE_FILTER_OPTIONS;
+  }
+}
+
+// Provider for the sample recipes bundled with the app
+export const localRecipeProvider = new LocalRecipeProvider(mockRecipes);
@@ -0,0 +1,275 @@
+// Meal Plan Generator Service - Fills an empty week of the meal plan automatically
+// This service picks recipes for each chosen meal slot from the recipe filter service,
+// honoring the user's preferences, a daily nutrition target, cooking time limits
+// and a rule against repeating the same recipe too often
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import type { Recipe, RecipeSearchParams } from '../types/recipeTypes';
+import { recipeFilterService } from './filterService';
+import { mapPreferencesToSearchParams, type UserPreferences } from '../utils/preferenceMapper';
+import { addDays, daysBetween, parseDateString } from '../utils/dateUtils';
+import { getRecipeNutrition, type MealNutrition } from '../utils/nutritionEstimator';
+import { getRecipeCost } from '../utils/budget';
+
+// How many recipes to load per meal slot when building the candidate pool
+const CANDIDATES_PER_SLOT = 100;
+
+// Share of the daily target each meal slot should cover before normalizing
+const SLOT_WEIGHTS: Record<PlanEvent['mealType'], number> = {
+  breakfast: 0.25,
+  'main course': 0.4,
+  'side dish': 0.15,
+  dessert: 0.1,
+  snack: 0.1
+};
+
+// Random spread added to each score so regenerating gives a different plan
+const SCORE_JITTER = 0.15;
+
+/**
+ * Daily nutrition target the generator aims for
+ * Only calories are required; macros are used when provided
+ */
+export interface DailyNutritionTarget {
+  calories: number;              // Calories per day
+  protein?: number;              // Protein in grams per day
+  carbs?: number;                // Carbohydrates in grams per day
+  fat?: number;                  // Fat in grams per day
+}
+
+/**
+ * Options for generating a plan
+ */
+export interface MealPlanGeneratorOptions {
+  startDate: string;                    // First day to fill (YYYY-MM-DD)
+  days: number;                         // Number of days to fill
+  slots: PlanEvent['mealType'][];       // Meal slots to fill on each day
+  preferences: UserPreferences | null;  // Diets, cuisines and time limits from onboarding
+  target: DailyNutritionTarget;         // Daily calorie and macro target
+  noRepeatDays: number;                 // Don't plan the same recipe again within this many days
+  weekdayMaxMinutes?: number;           // Max ready time for meals on Monday to Friday
+  existingEvents: PlanEvent[];          // Meals already planned, with recurring meals expanded
+}
+
+/**
+ * A meal slot the generator could not fill
+ */
+export interface UnfilledSlot {
+  date: string;
+  mealType: PlanEvent['mealType'];
+}
+
+/**
+ * Result of generating a plan
+ */
+export interface GeneratedPlan {
+  meals: Omit<PlanEvent, 'id'>[];  // Meals ready to add to the plan
+  unfilledSlots: UnfilledSlot[];   // Slots with no recipe left that fits the rules
+}
+
+// Meal Plan Generator Service Class - Builds a week of meals from search results
+class MealPlanGeneratorService {
+
+  /**
+   * Generate meals for every empty slot in a date range
+   * @param options - Dates, slots, preferences and targets to plan with
+   * @returns The generated meals plus any slots that could not be filled
+   *
+   * Slots that already have a meal of that type are left alone.
+   * For each empty slot the recipe closest to the slot's share of the daily
+   * target is picked, skipping recipes used within `noRepeatDays` days and,
+   * on weekdays, recipes that take longer than `weekdayMaxMinutes`.
+   */
+  async generatePlan(options: MealPlanGeneratorOptions): Promise<GeneratedPlan> {
+    const slots = [...new Set(options.slots)];
+    const pools = new Map<PlanEvent['mealType'], Recipe[]>();
+    await Promise.all(slots.map(async slot => {
+      pools.set(slot, await this.loadCandidates(slot, options.preferences));
+    }));
+
+    // Remember when each recipe was last planned so repeats can be avoided
+    const lastPlanned = new Map<number, string[]>();
+    const rememberRecipe = (recipeId: number, date: string) => {
+      lastPlanned.set(recipeId, [...(lastPlanned.get(recipeId) || []), date]);
+    };
+    options.existingEvents.forEach(event => rememberRecipe(event.recipeId, event.date));
+
+    const totalWeight = slots.reduce((sum, slot) => sum + SLOT_WEIGHTS[slot], 0) || 1;
+    const meals: Omit<PlanEvent, 'id'>[] = [];
+    const unfilledSlots: UnfilledSlot[] = [];
+
+    for (let dayIndex = 0; dayIndex < options.days; dayIndex++) {
+      const date = addDays(options.startDate, dayIndex);
+      const maxMinutes = this.isWeekday(date) ? options.weekdayMaxMinutes : undefined;
+
+      slots.forEach(slot => {
+        const alreadyPlanned = options.existingEvents.some(event => event.date === date && event.mealType === slot);
+        if (alreadyPlanned) return;
+
+        const candidates = (pools.get(slot) || []).filter(recipe =>
+          (!maxMinutes || recipe.readyInMinutes <= maxMinutes) &&
+          !this.isRecentlyPlanned(lastPlanned.get(recipe.id), date, options.noRepeatDays)
+        );
+
+        const share = SLOT_WEIGHTS[slot] / totalWeight;
+        const best = this.pickBestRecipe(candidates, slot, options.target, share);
+        if (!best) {
+          unfilledSlots.push({ date, mealType: slot });
+          return;
+        }
+
+        rememberRecipe(best.recipe.id, date);
+        meals.push(this.createMeal(best.recipe, best.nutrition, date, slot));
+      });
+    }
+
+    return { meals, unfilledSlots };
+  }
+
+  /**
+   * Add up the nutrition of the generated meals for one day
+   * @param meals - Generated meals
+   * @param date - The day to total (YYYY-MM-DD)
+   * @returns Total calories and macros for the day
+   */
+  getDailyTotals(meals: Omit<PlanEvent, 'id'>[], date: string): MealNutrition {
+    return meals
+      .filter(meal => meal.date === date)
+      .reduce((totals, meal) => ({
+        calories: totals.calories + (meal.nutrition?.calories || 0),
+        protein: totals.protein + (meal.nutrition?.protein || 0),
+        carbs: totals.carbs + (meal.nutrition?.carbs || 0),
+        fat: totals.fat + (meal.nutrition?.fat || 0)
+      }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
+  }
+
+  /**
+   * Load the recipes that could fill a meal slot
+   * @param slot - The meal type to search for
+   * @param preferences - User preferences, if any
+   * @returns Candidate recipes, widening the search if the preferences leave nothing
+   *
+   * Diets and time limits are treated as hard requirements, so only the cuisine
+   * and meal type are dropped when the first search comes back empty.
+   */
+  private async loadCandidates(slot: PlanEvent['mealType'], preferences: UserPreferences | null): Promise<Recipe[]> {
+    const preferenceParams = preferences ? mapPreferencesToSearchParams(preferences) : {};
+
+    const searches: RecipeSearchParams[] = [
+      { ...preferenceParams, type: slot, number: CANDIDATES_PER_SLOT },
+      { diet: preferenceParams.diet, maxReadyTime: preferenceParams.maxReadyTime, type: slot, number: CANDIDATES_PER_SLOT },
+      { diet: preferenceParams.diet, maxReadyTime: preferenceParams.maxReadyTime, number: CANDIDATES_PER_SLOT }
+    ];
+
+    for (const params of searches) {
+      // Leave out empty filters so they don't reach the API as "undefined"
+      if (!params.diet) delete params.diet;
+      if (!params.maxReadyTime) delete params.maxReadyTime;
+      try {
+        const result = await recipeFilterService.filterRecipes(params);
+        if (result.recipes.length > 0) {
+          return result.recipes;
+        }
+      } catch (error) {
+        console.error(`Error loading ${slot} recipes for the meal plan generator:`, error);
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Pick the recipe whose nutrition is closest to the slot's share of the daily target
+   * @param candidates - Recipes allowed in this slot
+   * @param slot - The meal type being filled
+   * @param target - Daily nutrition target
+   * @param share - Fraction of the daily target this slot should cover
+   * @returns The best recipe with its nutrition, or null if there are no candidates
+   */
+  private pickBestRecipe(
+    candidates: Recipe[],
+    slot: PlanEvent['mealType'],
+    target: DailyNutritionTarget,
+    share: number
+  ): { recipe: Recipe; nutrition: MealNutrition } | null {
+    let best: { recipe: Recipe; nutrition: MealNutrition; score: number } | null = null;
+
+    for (const recipe of candidates) {
+      const nutrition = getRecipeNutrition(recipe, slot);
+      let score = this.getDistance(nutrition.calories, target.calories * share);
+
+      // Macros count for half as much as calories
+      (['protein', 'carbs', 'fat'] as const).forEach(macro => {
+        const macroTarget = target[macro];
+        if (macroTarget) {
+          score += this.getDistance(nutrition[macro], macroTarget * share) * 0.5;
+        }
+      });
+
+      score += Math.random() * SCORE_JITTER;
+
+      if (!best || score < best.score) {
+        best = { recipe, nutrition, score };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Relative distance between a value and its target
+   */
+  private getDistance(value: number, target: number): number {
+    if (!target) return 0;
+    return Math.abs(value - target) / target;
+  }
+
+  /**
+   * Check whether a recipe was planned within the no-repeat window
+   * @param plannedDates - Dates the recipe is already planned on
+   * @param date - The date being filled
+   * @param noRepeatDays - Size of the window in days
+   */
+  private isRecentlyPlanned(plannedDates: string[] | undefined, date: string, noRepeatDays: number): boolean {
+    if (!plannedDates) return false;
+    return plannedDates.some(plannedDate => Math.abs(daysBetween(plannedDate, date)) < Math.max(1, noRepeatDays));
+  }
+
+  /**
+   * Check whether a date falls on Monday to Friday
+   */
+  private isWeekday(date: string): boolean {
+    const day = parseDateString(date).getDay();
+    return day >= 1 && day <= 5;
+  }
+
+  /**
+   * Turn a recipe into a plan event for a slot
+   * Uses the same time split and difficulty rules as the quick suggestions
+   */
+  private createMeal(recipe: Recipe, nutrition: MealNutrition, date: string, slot: PlanEvent['mealType']): Omit<PlanEvent, 'id'> {
+    const meal: Omit<PlanEvent, 'id'> = {
+      title: recipe.title,
+      date,
+      recipeId: recipe.id,
+      mealType: slot,
+      image: recipe.image,
+      difficulty: recipe.readyInMinutes <= 15 ? 'easy' :
+        recipe.readyInMinutes <= 30 ? 'medium' : 'hard',
+      prepTime: Math.floor(recipe.readyInMinutes * 0.4),
+      cookTime: Math.floor(recipe.readyInMinutes * 0.6),
+      servings: recipe.servings,
+      nutrition
+    };
+    // Only set the cost when the recipe has a price (Firestore rejects undefined fields)
+    const cost = getRecipeCost(recipe);
+    if (cost) meal.cost = cost;
+    return meal;
+  }
+}
+
+// Create and export a single instance of the meal plan generator service
+export const mealPlanGeneratorService = new MealPlanGeneratorService();
+
+// Export convenience functions for easy use
+export const generateMealPlan = (options: MealPlanGeneratorOptions) => mealPlanGeneratorService.generatePlan(options);
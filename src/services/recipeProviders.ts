@@ -0,0 +1,66 @@
+// Recipe Providers - Picks the recipe sources the app uses from configuration
+// VITE_RECIPE_PROVIDERS lists the providers whose recipes are merged (e.g. "spoonacular,user")
+// and VITE_RECIPE_FALLBACK_PROVIDER the one used when a provider fails. New sources only
+// need a provider registered here; pages keep using the filter service.
+
+import type { RecipeProvider, RecipeProviderConfig, RecipeProviderId } from '../types/recipeProviderTypes';
+import { spoonacularRecipeProvider } from './apiService';
+import { localRecipeProvider } from './localRecipeProvider';
+import { userRecipeProvider } from './userRecipeProvider';
+import { CompositeRecipeProvider } from './compositeRecipeProvider';
+
+// Every provider that can be configured, by ID
+const RECIPE_PROVIDERS: Record<RecipeProviderId, RecipeProvider> = {
+  spoonacular: spoonacularRecipeProvider,
+  local: localRecipeProvider,
+  user: userRecipeProvider
+};
+
+// Providers used when none are configured: Spoonacular and the user's recipes,
+// with the bundled sample recipes when Spoonacular can't be reached
+export const DEFAULT_RECIPE_PROVIDER_CONFIG: RecipeProviderConfig = {
+  providers: ['spoonacular', 'user'],
+  fallback: 'local'
+};
+
+/**
+ * Check whether a configured name is a known provider
+ */
+const isRecipeProviderId = (id: string): id is RecipeProviderId => Object.keys(RECIPE_PROVIDERS).includes(id);
+
+/**
+ * Read the provider configuration from environment values
+ * @param providers - Comma-separated provider IDs, e.g. "spoonacular,user"
+ * @param fallback - Provider ID to fall back to, or "none" for no fallback
+ * @returns The configuration, with unknown provider IDs left out and defaults for missing values
+ */
+export const parseRecipeProviderConfig = (providers?: string, fallback?: string): RecipeProviderConfig => {
+  const ids = (providers || '').split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+  ids.filter(id => !isRecipeProviderId(id)).forEach(id => console.warn(`Unknown recipe provider "${id}" ignored`));
+
+  const knownIds = ids.filter(isRecipeProviderId).filter((id, index, all) => all.indexOf(id) === index);
+  const fallbackId = fallback?.trim().toLowerCase();
+
+  return {
+    providers: knownIds.length > 0 ? knownIds : DEFAULT_RECIPE_PROVIDER_CONFIG.providers,
+    fallback: fallbackId === 'none'
+      ? undefined
+      : fallbackId && isRecipeProviderId(fallbackId) ? fallbackId : DEFAULT_RECIPE_PROVIDER_CONFIG.fallback
+  };
+};
+
+/**
+ * Build the provider the app searches from a configuration
+ * @param config - Which providers to merge and fall back to
+ */
+export const createRecipeProvider = (config: RecipeProviderConfig): CompositeRecipeProvider => {
+  return new CompositeRecipeProvider(
+    config.providers.map(id => RECIPE_PROVIDERS[id]),
+    config.fallback ? RECIPE_PROVIDERS[config.fallback] : undefined
+  );
+};
+
+// Provider configured for this build
+export const recipeProvider = createRecipeProvider(
+  parseRecipeProviderConfig(import.meta.env.VITE_RECIPE_PROVIDERS, import.meta.env.VITE_RECIPE_FALLBACK_PROVIDER)
+);
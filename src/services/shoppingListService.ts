@@ -0,0 +1,255 @@
+// Shopping List Service - Builds a consolidated shopping list from the meal plan
+// This service loads the ingredients for every planned meal in a date range,
+// scales them to the planned servings, merges duplicates and groups them by aisle
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import type { Recipe } from '../types/recipeTypes';
+import type { FridgeStock, ShoppingListItem } from '../types/shoppingListTypes';
+import { getRecipeDetails } from './filterService';
+import { expandRecurringEvents } from '../utils/recurrence';
+import { toBaseUnit } from '../utils/unitConverter';
+import { findBestIngredientMatch, DEFAULT_MATCH_TOLERANCE } from '../utils/ingredientMatcher';
+import { getMealPortions, getServingScale } from '../utils/servings';
+
+// Custom meals get their recipe ID from Date.now(), which is far larger than any real recipe ID
+const CUSTOM_RECIPE_ID_MIN = 1000000000;
+
+// Aisle used when a recipe does not say where an ingredient can be found
+const DEFAULT_AISLE = 'Other';
+
+/**
+ * Result of generating a shopping list
+ */
+export interface ShoppingListResult {
+  items: ShoppingListItem[];    // Merged and scaled ingredients
+  unresolvedMeals: string[];    // Titles of meals whose ingredients could not be loaded
+}
+
+/**
+ * Items that share an aisle, used to render the grouped list
+ */
+export interface AisleGroup {
+  aisle: string;
+  items: ShoppingListItem[];
+}
+
+// Shopping List Service Class - Turns planned meals into a list of ingredients to buy
+class ShoppingListService {
+
+  /**
+   * Generate a shopping list for all planned meals in a date range
+   * @param events - All events in the meal plan
+   * @param startDate - First date to include (YYYY-MM-DD)
+   * @param endDate - Last date to include (YYYY-MM-DD)
+   * @param householdSize - Portions to cook for each meal, or null to cook recipes as written
+   * @returns The merged items plus any meals that could not be resolved
+   *
+   * Recurring meals are expanded so every occurrence in the range is counted.
+   * Each recipe is loaded once, even if it is planned several times.
+   * Ingredient amounts are scaled by the portions cooked for the event (its own
+   * portions or the household size) compared to the servings the recipe was written for.
+   * Leftover meals are skipped, since their batch-cooked meal already covers them.
+   */
+  async generateShoppingList(events: PlanEvent[], startDate: string, endDate: string, householdSize: number | null = null): Promise<ShoppingListResult> {
+    const eventsInRange = expandRecurringEvents(events, startDate, endDate).filter(event => !event.leftoverOf);
+
+    // Load each recipe only once
+    const recipeIds = [...new Set(eventsInRange.map(event => event.recipeId))];
+    const recipes = new Map<number, Recipe | null>();
+    await Promise.all(recipeIds.map(async recipeId => {
+      recipes.set(recipeId, await this.loadRecipe(recipeId));
+    }));
+
+    const merged = new Map<string, ShoppingListItem>();
+    const unresolvedMeals: string[] = [];
+
+    eventsInRange.forEach(event => {
+      const recipe = recipes.get(event.recipeId);
+      if (!recipe || !recipe.extendedIngredients?.length) {
+        if (!unresolvedMeals.includes(event.title)) {
+          unresolvedMeals.push(event.title);
+        }
+        return;
+      }
+
+      const scale = getServingScale(getMealPortions(event, householdSize), recipe.servings);
+
+      recipe.extendedIngredients.forEach(ingredient => {
+        const name = this.normalizeName(ingredient.name);
+        if (!name) return;
+
+        const base = toBaseUnit((ingredient.amount || 0) * scale, ingredient.unit);
+        const id = `${name}|${base.family}|${base.unit}`;
+        const existing = merged.get(id);
+
+        if (existing) {
+          existing.amount += base.amount;
+          if (!existing.recipeTitles.includes(event.title)) {
+            existing.recipeTitles.push(event.title);
+          }
+        } else {
+          merged.set(id, {
+            id,
+            name,
+            amount: base.amount,
+            unit: base.unit,
+            aisle: this.getAisle(ingredient.aisle),
+            recipeTitles: [event.title],
+            checked: false
+          });
+        }
+      });
+    });
+
+    const items = [...merged.values()].sort((a, b) => a.name.localeCompare(b.name));
+    return { items, unresolvedMeals };
+  }
+
+  /**
+   * Deduct what is already in the fridge from the shopping list
+   * @param items - Generated shopping list items
+   * @param fridge - Ingredients the user has at home
+   * @param tolerance - Minimum match score, same as the fridge recipe search
+   * @returns Items with fridgeAmount or fridgeNote filled in
+   *
+   * Fridge items are matched with the same synonym and fuzzy logic as the
+   * fridge page. When the units are compatible the fridge amount is deducted
+   * by quantity; a fridge item shared by several list items is used up in
+   * list order. When the units can't be compared the item is only annotated.
+   */
+  subtractFridgeContents(
+    items: ShoppingListItem[],
+    fridge: FridgeStock[],
+    tolerance: number = DEFAULT_MATCH_TOLERANCE
+  ): ShoppingListItem[] {
+    const fridgeNames = fridge.map(stock => this.normalizeName(stock.name));
+    const remaining = fridge.map(stock => toBaseUnit(stock.quantity || 0, stock.unit));
+
+    return items.map(item => {
+      // Start from a copy without fridge info so regenerated lists don't keep stale values
+      // (Firestore also rejects fields that are explicitly undefined)
+      const updated: ShoppingListItem = { ...item };
+      delete updated.fridgeAmount;
+      delete updated.fridgeNote;
+
+      const { match, score } = findBestIngredientMatch(item.name, fridgeNames, tolerance);
+      if (!match || score < tolerance) {
+        return updated;
+      }
+
+      const index = fridgeNames.indexOf(match);
+      const stock = remaining[index];
+
+      if (stock.unit !== item.unit) {
+        updated.fridgeNote = `${fridge[index].quantity} ${fridge[index].unit} ${fridge[index].name}`;
+        return updated;
+      }
+
+      const used = Math.min(stock.amount, item.amount);
+      stock.amount -= used;
+      updated.fridgeAmount = used;
+      return updated;
+    });
+  }
+
+  /**
+   * Work out how much of an item still needs to be bought
+   * @param item - Shopping list item
+   * @returns The needed amount minus what is already in the fridge
+   */
+  getAmountToBuy(item: ShoppingListItem): number {
+    return Math.max(0, item.amount - (item.fridgeAmount || 0));
+  }
+
+  /**
+   * Check whether the fridge holds all of an item
+   * @param item - Shopping list item
+   * @returns True only when fridge contents were deducted and nothing is left to buy;
+   * items needing no amount at all (e.g. "to taste") aren't counted as in the fridge
+   */
+  isCoveredByFridge(item: ShoppingListItem): boolean {
+    return !!item.fridgeAmount && this.getAmountToBuy(item) === 0;
+  }
+
+  /**
+   * Keep the checked state of items that were already on the previous list
+   * @param items - Freshly generated items
+   * @param previousItems - Items from the saved list
+   * @returns The new items with checked flags carried over
+   *
+   * This lets users regenerate the list after changing the plan
+   * without losing track of what they already bought.
+   */
+  mergeCheckedState(items: ShoppingListItem[], previousItems: ShoppingListItem[]): ShoppingListItem[] {
+    const checkedIds = new Set(previousItems.filter(item => item.checked).map(item => item.id));
+    return items.map(item => ({ ...item, checked: checkedIds.has(item.id) }));
+  }
+
+  /**
+   * Group shopping list items by aisle
+   * @param items - Items to group
+   * @returns Aisle groups sorted alphabetically, with "Other" last
+   */
+  groupByAisle(items: ShoppingListItem[]): AisleGroup[] {
+    const groups = new Map<string, ShoppingListItem[]>();
+    items.forEach(item => {
+      const aisle = item.aisle || DEFAULT_AISLE;
+      groups.set(aisle, [...(groups.get(aisle) || []), item]);
+    });
+
+    return [...groups.entries()]
+      .map(([aisle, groupItems]) => ({ aisle, items: groupItems }))
+      .sort((a, b) => {
+        if (a.aisle === DEFAULT_AISLE) return 1;
+        if (b.aisle === DEFAULT_AISLE) return -1;
+        return a.aisle.localeCompare(b.aisle);
+      });
+  }
+
+  /**
+   * Load recipe details, skipping custom meals that have no recipe behind them
+   * @param recipeId - The recipe ID stored on the plan event
+   * @returns The recipe or null if it could not be found
+   */
+  private async loadRecipe(recipeId: number): Promise<Recipe | null> {
+    if (recipeId >= CUSTOM_RECIPE_ID_MIN) {
+      return null;
+    }
+
+    try {
+      return await getRecipeDetails(recipeId);
+    } catch (error) {
+      console.error(`Error loading recipe ${recipeId} for shopping list:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Clean up an ingredient name so duplicates merge
+   * @param name - The ingredient name from the recipe
+   * @returns Lowercase name with extra whitespace removed
+   */
+  private normalizeName(name: string): string {
+    return (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Pick the aisle to show for an ingredient
+   * @param aisle - Aisle string from the recipe, which may list several aisles
+   * @returns The first aisle listed, or "Other"
+   */
+  private getAisle(aisle: string | undefined): string {
+    const firstAisle = (aisle || '').split(';')[0].trim();
+    return firstAisle || DEFAULT_AISLE;
+  }
+}
+
+// Create and export a single instance of the shopping list service
+export const shoppingListService = new ShoppingListService();
+
+// Export convenience functions for easy use
+export const generateShoppingList = (events: PlanEvent[], startDate: string, endDate: string, householdSize: number | null = null) =>
+  shoppingListService.generateShoppingList(events, startDate, endDate, householdSize);
+export const groupByAisle = (items: ShoppingListItem[]) => shoppingListService.groupByAisle(items);
+export const subtractFridgeContents = (items: ShoppingListItem[], fridge: FridgeStock[]) =>
+  shoppingListService.subtractFridgeContents(items, fridge);
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PlanEvent } from '../context/PlanContextTypes';
+
+// Writes the queue makes, in the order it makes them
+const writes: string[] = [];
+
+vi.mock('./firestoreService', () => ({
+  firestoreService: {
+    savePlanEvent: vi.fn(async (_userId: string, event: PlanEvent) => {
+      writes.push(`save ${event.id} ${event.title}`);
+    }),
+    deletePlanEvent: vi.fn(async (_userId: string, eventId: string) => {
+      writes.push(`delete ${eventId}`);
+    }),
+    saveHouseholdSize: vi.fn(async (_userId: string, size: number | null) => {
+      writes.push(`household ${size}`);
+    })
+  }
+}));
+
+// Browser globals the queue uses: connection state, its events and localStorage
+const storage = new Map<string, string>();
+const windowListeners = new Map<string, () => void>();
+const browser = { onLine: false };
+
+const makeEvent = (id: string, title: string): PlanEvent => ({
+  id,
+  title,
+  date: '2026-10-19',
+  recipeId: 1,
+  mealType: 'breakfast'
+});
+
+// Load a fresh queue with a user signed in, as after a page reload
+const loadQueue = async (userId: string | null = 'u1') => {
+  vi.resetModules();
+  const { syncQueueService } = await import('./syncQueueService');
+  syncQueueService.setUser(userId);
+  return syncQueueService;
+};
+
+const goOnline = async () => {
+  browser.onLine = true;
+  windowListeners.get('online')?.();
+  await vi.waitFor(() => expect(writes.length).toBeGreaterThan(0));
+};
+
+beforeEach(() => {
+  // Retries are timers, which must not outlive the test that started them
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  writes.length = 0;
+  storage.clear();
+  windowListeners.clear();
+  browser.onLine = false;
+
+  vi.stubGlobal('navigator', browser);
+  vi.stubGlobal('window', {
+    addEventListener: (type: string, listener: () => void) => windowListeners.set(type, listener)
+  });
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+});
+
+afterEach(() => {
+  vi.clearAllTimers();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('syncQueueService', () => {
+  it('keeps only the newest change to each document', async () => {
+    const queue = await loadQueue();
+    queue.enqueue({ type: 'savePlanEvent', userId: 'u1', event: makeEvent('e1', 'Oatmeal') });
+    queue.enqueue({ type: 'savePlanEvent', userId: 'u1', event: makeEvent('e1', 'Porridge') });
+    queue.enqueue({ type: 'saveHouseholdSize', userId: 'u1', size: 2 });
+    queue.enqueue({ type: 'saveHouseholdSize', userId: 'u1', size: 4 });
+
+    expect(queue.getStatus().pendingCount).toBe(2);
+    expect(queue.getPending('savePlanEvent').map(mutation => mutation.event.title)).toEqual(['Porridge']);
+  });
+
+  it('lets a delete replace a pending save of the same meal', async () => {
+    const queue = await loadQueue();
+    queue.enqueue({ type: 'savePlanEvent', userId: 'u1', event: makeEvent('e1', 'Oatmeal') });
+    queue.enqueue({ type: 'deletePlanEvent', userId: 'u1', eventId: 'e1' });
+
+    expect(queue.getPending('savePlanEvent')).toEqual([]);
+    expect(queue.getPending('deletePlanEvent')).toHaveLength(1);
+  });
+
+  it('does not mix up the same meal ID of different users', async () => {
+    const queue = await loadQueue();
+    queue.enqueue({ type: 'savePlanEvent', userId: 'u1', event: makeEvent('e1', 'Oatmeal') });
+    queue.enqueue({ type: 'savePlanEvent', userId: 'u2', event: makeEvent('e1', 'Oatmeal') });
+
+    expect(queue.getPending('savePlanEvent')).toHaveLength(2);
+  });
+
+  it('writes changes in the order they were made once back online', async () => {
+    const queue = await loadQueue();
+    queue.enqueue({ type: 'savePlanEvent', userId: 'u1', event: makeEvent('e1', 'Oatmeal') });
+    queue.enqueue({ type: 'saveHouseholdSize', userId: 'u1', size: 3 });
+    queue.enqueue({ type: 'savePlanEvent', userId: 'u1', event: makeEvent('e2', 'Salad') });
+    // A newer change to e1 moves it behind the changes made in between
+    queue.enqueue({ type: 'savePlanEvent', userId: 'u1', event: makeEvent('e1', 'Porridge') });
+    expect(writes).toEqual([]);
+
+    await goOnline();
+    await vi.waitFor(() => expect(queue.getStatus().pendingCount).toBe(0));
+    expect(writes).toEqual(['household 3', 'save e2 Salad', 'save e1 Porridge']);
+  });
+
+  it('keeps pending changes across a reload', async () => {
+    const firstQueue = await loadQueue();
+    firstQueue.enqueue({ type: 'deletePlanEvent', userId: 'u1', eventId: 'e1' });
+
+    const reloadedQueue = await loadQueue();
+    expect(reloadedQueue.getStatus().pendingCount).toBe(1);
+
+    await goOnline();
+    expect(writes).toEqual(['delete e1']);
+  });
+
+  it('stops at a change that fails offline and keeps the ones after it', async () => {
+    const { firestoreService } = await import('./firestoreService');
+    vi.mocked(firestoreService.saveHouseholdSize).mockRejectedValueOnce({ code: 'unavailable' });
+
+    const queue = await loadQueue();
+    queue.enqueue({ type: 'saveHouseholdSize', userId: 'u1', size: 2 });
+    queue.enqueue({ type: 'deletePlanEvent', userId: 'u1', eventId: 'e1' });
+
+    browser.onLine = true;
+    await queue.flush();
+
+    expect(writes).toEqual([]);
+    expect(queue.getStatus().pendingCount).toBe(2);
+  });
+
+  it('only writes the changes of the signed-in user', async () => {
+    const queue = await loadQueue();
+    queue.enqueue({ type: 'deletePlanEvent', userId: 'u1', eventId: 'e1' });
+
+    // Another user signs in before the first user's change was written
+    queue.setUser('u2');
+    queue.enqueue({ type: 'deletePlanEvent', userId: 'u2', eventId: 'e2' });
+    expect(queue.getStatus().pendingCount).toBe(1);
+
+    await goOnline();
+    await vi.waitFor(() => expect(queue.getStatus().pendingCount).toBe(0));
+    expect(writes).toEqual(['delete e2']);
+
+    // The first user's change is written once they are back
+    queue.setUser('u1');
+    await vi.waitFor(() => expect(writes).toEqual(['delete e2', 'delete e1']));
+  });
+
+  it('writes the changes after one that Firestore refuses', async () => {
+    const { firestoreService } = await import('./firestoreService');
+    vi.mocked(firestoreService.saveHouseholdSize).mockRejectedValueOnce({ code: 'internal' });
+
+    const queue = await loadQueue();
+    queue.enqueue({ type: 'saveHouseholdSize', userId: 'u1', size: 2 });
+    queue.enqueue({ type: 'deletePlanEvent', userId: 'u1', eventId: 'e1' });
+
+    browser.onLine = true;
+    await queue.flush();
+    expect(writes).toEqual(['delete e1']);
+    expect(queue.getStatus().pendingCount).toBe(1);
+
+    // The refused change is tried again later
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    await vi.waitFor(() => expect(writes).toEqual(['delete e1', 'household 2']));
+  });
+
+  it('gives up on a change Firestore will never take and tells the user', async () => {
+    const { firestoreService } = await import('./firestoreService');
+    vi.mocked(firestoreService.saveHouseholdSize).mockRejectedValueOnce({ code: 'permission-denied' });
+
+    const queue = await loadQueue();
+    queue.enqueue({ type: 'saveHouseholdSize', userId: 'u1', size: 2 });
+
+    browser.onLine = true;
+    await queue.flush();
+    expect(queue.getStatus()).toMatchObject({ pendingCount: 0, failedCount: 1 });
+
+    // Still shown after a reload, until dismissed
+    const reloadedQueue = await loadQueue();
+    expect(reloadedQueue.getStatus().failedCount).toBe(1);
+    reloadedQueue.dismissFailed();
+    expect(reloadedQueue.getStatus().failedCount).toBe(0);
+  });
+});
@@ -0,0 +1,396 @@
+// Sync Queue Service - Keeps signed-in users' changes in a local queue until Firestore has them
+// Changes are shown in the app straight away and written to Firestore in the order they were made,
+// so nothing is lost when the device goes offline or the connection drops mid-write.
+// Only the signed-in user's changes are written; other users' changes wait until they sign in again
+
+import { firestoreService } from './firestoreService';
+import type { FailedSyncMutation, SyncMutation, SyncMutationData, SyncStatus } from '../types/syncQueueTypes';
+
+// localStorage key the queue is saved under, so pending changes survive a reload
+const STORAGE_KEY = 'cravrplan_sync_queue';
+
+// localStorage key for changes Firestore wouldn't take, kept until the user has seen them
+const FAILED_STORAGE_KEY = 'cravrplan_sync_failed';
+
+// How long to wait before trying a failed write again
+const RETRY_DELAY_MS = 30 * 1000;
+
+// Failed writes (while online) before a change is given up on
+const MAX_ATTEMPTS = 5;
+
+// Firestore error codes that mean the server couldn't be reached rather than that the write was refused
+const OFFLINE_ERROR_CODES = ['unavailable', 'deadline-exceeded'];
+
+// Firestore error codes that mean the write will never be accepted, so trying again is pointless
+const PERMANENT_ERROR_CODES = ['permission-denied', 'invalid-argument'];
+
+/**
+ * Get the key of the document a change writes to
+ * Changes with the same key replace each other, since only the newest one matters
+ */
+const getMutationKey = (mutation: SyncMutationData): string => {
+  switch (mutation.type) {
+    case 'savePlanEvent':
+      return `planEvent:${mutation.userId}:${mutation.event.id}`;
+    case 'deletePlanEvent':
+      return `planEvent:${mutation.userId}:${mutation.eventId}`;
+    case 'saveTrashedEvent':
+      return `trashedEvent:${mutation.userId}:${mutation.event.id}`;
+    case 'deleteTrashedEvent':
+      return `trashedEvent:${mutation.userId}:${mutation.eventId}`;
+    case 'saveTrashRetention':
+      return `trashRetention:${mutation.userId}`;
+    case 'savePlan':
+      return `plan:${mutation.userId}:${mutation.plan.id}`;
+    case 'saveNutritionGoals':
+      return `nutritionGoals:${mutation.userId}`;
+    case 'saveHouseholdSize':
+      return `householdSize:${mutation.userId}`;
+    case 'saveWeeklyBudget':
+      return `weeklyBudget:${mutation.userId}`;
+    case 'saveMealSlots':
+      return `mealSlots:${mutation.userId}`;
+    case 'saveMealPlanTemplate':
+      return `template:${mutation.template.id}`;
+    case 'deleteMealPlanTemplate':
+      return `template:${mutation.templateId}`;
+    case 'saveFavoriteRecipe':
+      return `favorite:${mutation.favorite.userId}:${mutation.favorite.recipeId}`;
+    case 'deleteFavoriteRecipe':
+      return `favorite:${mutation.userId}:${mutation.recipeId}`;
+    case 'replaceFridgeIngredients':
+      return `fridge:${mutation.userId}`;
+  }
+};
+
+/**
+ * Get the user a change belongs to
+ */
+const getMutationUserId = (mutation: SyncMutationData): string => {
+  switch (mutation.type) {
+    case 'saveMealPlanTemplate':
+      return mutation.template.userId;
+    case 'saveFavoriteRecipe':
+      return mutation.favorite.userId;
+    default:
+      return mutation.userId;
+  }
+};
+
+/**
+ * Write one queued change to Firestore
+ */
+const applyMutation = async (mutation: SyncMutation): Promise<void> => {
+  switch (mutation.type) {
+    case 'savePlanEvent':
+      await firestoreService.savePlanEvent(mutation.userId, mutation.event);
+      return;
+    case 'deletePlanEvent':
+      await firestoreService.deletePlanEvent(mutation.userId, mutation.eventId);
+      return;
+    case 'saveTrashedEvent':
+      await firestoreService.saveTrashedEvent(mutation.userId, mutation.event);
+      return;
+    case 'deleteTrashedEvent':
+      await firestoreService.deleteTrashedEvent(mutation.userId, mutation.eventId);
+      return;
+    case 'saveTrashRetention':
+      await firestoreService.saveTrashRetentionDays(mutation.userId, mutation.days);
+      return;
+    case 'savePlan':
+      await firestoreService.savePlan(mutation.userId, mutation.plan);
+      return;
+    case 'saveNutritionGoals':
+      await firestoreService.saveNutritionGoals(mutation.userId, mutation.goals);
+      return;
+    case 'saveHouseholdSize':
+      await firestoreService.saveHouseholdSize(mutation.userId, mutation.size);
+      return;
+    case 'saveWeeklyBudget':
+      await firestoreService.saveWeeklyBudget(mutation.userId, mutation.budget);
+      return;
+    case 'saveMealSlots':
+      await firestoreService.saveMealSlots(mutation.userId, mutation.slots);
+      return;
+    case 'saveMealPlanTemplate':
+      await firestoreService.saveMealPlanTemplate(mutation.template);
+      return;
+    case 'deleteMealPlanTemplate':
+      await firestoreService.deleteMealPlanTemplate(mutation.templateId);
+      return;
+    case 'saveFavoriteRecipe': {
+      // A replaced "remove" may never have run, so don't save the recipe a second time
+      const favorites = await firestoreService.getFavoriteRecipes(mutation.favorite.userId);
+      if (!favorites.some(favorite => favorite.recipeId === mutation.favorite.recipeId)) {
+        await firestoreService.saveFavoriteRecipe(mutation.favorite);
+      }
+      return;
+    }
+    case 'deleteFavoriteRecipe': {
+      const favorites = await firestoreService.getFavoriteRecipes(mutation.userId);
+      await Promise.all(favorites
+        .filter(favorite => favorite.recipeId === mutation.recipeId)
+        .map(favorite => firestoreService.deleteFavoriteRecipe(favorite.id)));
+      return;
+    }
+    case 'replaceFridgeIngredients':
+      // First, delete all existing ingredients, then add all current ones
+      await firestoreService.deleteAllFridgeIngredients(mutation.userId);
+      await Promise.all(mutation.ingredients.map(ingredient =>
+        firestoreService.saveFridgeIngredient({
+          id: `ingredient_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          userId: mutation.userId,
+          name: ingredient.name,
+          quantity: ingredient.quantity,
+          unit: ingredient.unit
+        })
+      ));
+      return;
+  }
+};
+
+/**
+ * Check whether a failed write failed because the device is offline
+ */
+const isOfflineError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return !navigator.onLine || (!!code && OFFLINE_ERROR_CODES.includes(code));
+};
+
+/**
+ * Check whether a failed write was refused in a way that won't change by trying again
+ */
+const isPermanentError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return !!code && PERMANENT_ERROR_CODES.includes(code);
+};
+
+// Main Sync Queue Service Class - Queues Firestore writes and replays them in order
+class SyncQueueService {
+  private queue: SyncMutation[] = this.loadList(STORAGE_KEY);
+  private failed: FailedSyncMutation[] = this.loadList(FAILED_STORAGE_KEY);
+  private userId: string | null = null;
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private isSyncing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 0;
+
+  constructor() {
+    // Replay the queue as soon as the connection comes back
+    window.addEventListener('online', () => {
+      this.notify();
+      this.flush();
+    });
+    window.addEventListener('offline', () => this.notify());
+  }
+
+  // ===== QUEUE OPERATIONS =====
+
+  /**
+   * Set the signed-in user whose changes are written
+   * @param userId - ID of the signed-in user, or null once signed out
+   *
+   * Changes of other users stay queued until they sign in on this device again.
+   */
+  setUser(userId: string | null): void {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.notify();
+    this.flush();
+  }
+
+  /**
+   * Add a change to the queue and start writing it
+   * @param mutation - The change to write
+   *
+   * A queued change for the same document is dropped, since the new one replaces it.
+   */
+  enqueue(mutation: SyncMutationData): void {
+    const key = getMutationKey(mutation);
+    this.queue = this.queue.filter(queued => queued.key !== key);
+    this.queue.push({
+      ...mutation,
+      id: `sync-${Date.now()}-${this.nextId++}`,
+      key,
+      queuedAt: Date.now(),
+      attempts: 0
+    });
+
+    this.saveQueue();
+    this.notify();
+    this.flush();
+  }
+
+  /**
+   * Get the queued changes of one type
+   * @param type - Type of change to look for
+   * @returns Queued changes, oldest first
+   *
+   * Used when loading data, so changes not yet in Firestore still show up.
+   */
+  getPending<T extends SyncMutation['type']>(type: T): Extract<SyncMutation, { type: T }>[] {
+    return this.queue.filter((mutation): mutation is Extract<SyncMutation, { type: T }> => mutation.type === type);
+  }
+
+  /**
+   * Write the signed-in user's queued changes to Firestore, oldest first
+   * Stops when the device goes offline and tries again later. A change Firestore refuses is
+   * skipped so the ones after it still get written, and is given up on once it can't succeed.
+   */
+  async flush(): Promise<void> {
+    if (this.isSyncing || this.getUserQueue().length === 0 || !navigator.onLine) return;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    this.isSyncing = true;
+    this.notify();
+
+    // Changes that failed this round, tried again on the next one
+    const skippedIds = new Set<string>();
+    const getNextMutation = () => this.getUserQueue().find(queued => !skippedIds.has(queued.id));
+
+    try {
+      for (let mutation = getNextMutation(); mutation; mutation = getNextMutation()) {
+        try {
+          await applyMutation(mutation);
+          // Removed by ID, since a newer change may have replaced it while it was being written
+          this.queue = this.queue.filter(queued => queued.id !== mutation.id);
+          this.saveQueue();
+          this.notify();
+        } catch (error) {
+          if (isOfflineError(error)) {
+            this.scheduleRetry();
+            break;
+          }
+
+          mutation.attempts++;
+          if (isPermanentError(error) || mutation.attempts >= MAX_ATTEMPTS) {
+            console.error(`Giving up on queued ${mutation.type} change after ${mutation.attempts} failed attempts:`, error);
+            this.queue = this.queue.filter(queued => queued.id !== mutation.id);
+            this.failed.push({ ...mutation, failedAt: Date.now() });
+            this.saveQueue();
+            this.saveFailed();
+            this.notify();
+            continue;
+          }
+
+          console.error(`Error writing queued ${mutation.type} change to Firestore:`, error);
+          skippedIds.add(mutation.id);
+          this.saveQueue();
+          this.scheduleRetry();
+        }
+      }
+    } finally {
+      this.isSyncing = false;
+      this.notify();
+    }
+  }
+
+  /**
+   * Forget the signed-in user's changes that couldn't be saved, once they've seen them
+   */
+  dismissFailed(): void {
+    this.failed = this.failed.filter(mutation => getMutationUserId(mutation) !== this.userId);
+    this.saveFailed();
+    this.notify();
+  }
+
+  // ===== STATUS =====
+
+  /**
+   * Get the current sync status
+   */
+  getStatus(): SyncStatus {
+    return {
+      pendingCount: this.getUserQueue().length,
+      failedCount: this.failed.filter(mutation => getMutationUserId(mutation) === this.userId).length,
+      isOnline: navigator.onLine,
+      isSyncing: this.isSyncing
+    };
+  }
+
+  /**
+   * Listen for changes to the sync status
+   * @param listener - Called with the new status whenever it changes
+   * @returns Function that stops listening
+   */
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===== HELPERS =====
+
+  /**
+   * Get the signed-in user's queued changes, oldest first
+   */
+  private getUserQueue(): SyncMutation[] {
+    return this.queue.filter(mutation => getMutationUserId(mutation) === this.userId);
+  }
+
+  /**
+   * Tell all listeners about the current status
+   */
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * Try the queue again after a delay
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, RETRY_DELAY_MS);
+  }
+
+  /**
+   * Read a list of changes saved by an earlier session
+   * @param key - localStorage key the list is saved under
+   */
+  private loadList<T>(key: string): T[] {
+    try {
+      const saved = localStorage.getItem(key);
+      const parsed = saved ? JSON.parse(saved) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Error loading sync queue from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the queue so pending changes survive a reload
+   */
+  private saveQueue(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('Error saving sync queue to localStorage:', error);
+    }
+  }
+
+  /**
+   * Save the changes that couldn't be saved, so they're still shown after a reload
+   */
+  private saveFailed(): void {
+    try {
+      localStorage.setItem(FAILED_STORAGE_KEY, JSON.stringify(this.failed));
+    } catch (error) {
+      console.error('Error saving failed changes to localStorage:', error);
+    }
+  }
+}
+
+// Create and export a single instance of the sync queue service
+// Every context shares this queue, so changes are written in the order they were made
+export const syncQueueService = new SyncQueueService();
@@ -0,0 +1,97 @@
+// User Recipe Provider - The custom meals users created on their meal plan
+// Custom meals are searched like the bundled recipes, so they show up next to recipes
+// from the other providers. The plan context keeps the list in step with the plan.
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import type { Recipe, RecipeDetailResponse } from '../types/recipeTypes';
+import { isCustomRecipeId } from '../utils/icalendar';
+import { LocalRecipeProvider } from './localRecipeProvider';
+
+/**
+ * Turn a custom meal into a recipe
+ * Custom meals only have a title, meal type and times, so the other fields are left empty
+ * @param event - A custom meal from the plan
+ */
+const toUserRecipe = (event: PlanEvent): Recipe => ({
+  id: event.recipeId,
+  title: event.title,
+  image: event.image || '',
+  imageType: '',
+  servings: event.servings || 1,
+  readyInMinutes: (event.prepTime || 0) + (event.cookTime || 0),
+  sourceName: 'My Recipes',
+  aggregateLikes: 0,
+  healthScore: 0,
+  spoonacularScore: 0,
+  pricePerServing: event.cost?.pricePerServing || 0,
+  analyzedInstructions: [],
+  cheap: event.cost?.cheap || false,
+  cuisines: [],
+  dairyFree: false,
+  diets: [],
+  gaps: '',
+  glutenFree: false,
+  instructions: event.notes || '',
+  ketogenic: false,
+  lowFodmap: false,
+  occasions: [],
+  sustainable: false,
+  vegan: false,
+  vegetarian: false,
+  veryHealthy: false,
+  veryPopular: false,
+  whole30: false,
+  weightWatcherSmartPoints: 0,
+  dishTypes: [event.mealType],
+  extendedIngredients: [],
+  summary: event.notes || ''
+});
+
+/**
+ * Get the user's custom recipes from their planned meals
+ * @param events - All planned meals
+ * @returns One recipe per custom meal, using the most recently planned copy of each
+ */
+export const getUserRecipes = (events: PlanEvent[]): Recipe[] => {
+  const recipes = new Map<number, Recipe>();
+  events
+    .filter(event => isCustomRecipeId(event.recipeId) && !event.leftoverOf && !event.trashedAt)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(event => recipes.set(event.recipeId, toUserRecipe(event)));
+  return Array.from(recipes.values());
+};
+
+// User Recipe Provider Class - Searches the user's custom recipes
+export class UserRecipeProvider extends LocalRecipeProvider {
+  constructor() {
+    super([], 'user');
+  }
+
+  /**
+   * Replace the recipes searched, e.g. when the user's plan changes
+   * @param recipes - The user's custom recipes
+   */
+  setRecipes(recipes: Recipe[]): void {
+    this.recipes = recipes;
+    this.searchIndex.setRecipes(recipes);
+  }
+
+  /**
+   * Custom recipes have no ingredients to match
+   * @returns Always an empty list
+   */
+  async searchRecipesByIngredients(): Promise<Recipe[]> {
+    return [];
+  }
+
+  /**
+   * Get a custom recipe as it was created, without sample details
+   * @param recipeId - The unique ID of the recipe
+   */
+  async getRecipeDetails(recipeId: number): Promise<RecipeDetailResponse | null> {
+    return this.recipes.find(recipe => recipe.id === recipeId) || null;
+  }
+}
+
+// Provider for the signed-in user's (or guest's) custom recipes
+export const userRecipeProvider = new UserRecipeProvider();
@@ -0,0 +1,8 @@
+// Meal Slot Types
+
+// A time of day the user eats at, e.g. breakfast or lunch; every planned meal sits in one
+export interface MealSlot {
+  id: string;              // Stable ID stored on planned meals (PlanEvent.slot)
+  label: string;           // Name shown in the calendar, e.g. "Lunch"
+  icon: string;            // Emoji shown next to the label
+}
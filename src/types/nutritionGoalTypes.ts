@@ -0,0 +1,16 @@
+// Nutrition Goal Types
+
+export type NutritionGoalPreset = 'maintenance' | 'cutting' | 'high-protein' | 'custom';
+
+export interface NutritionGoals {
+  preset: NutritionGoalPreset;  // Preset the goals came from, 'custom' once edited by hand
+  calories: number;        // Calories per day
+  protein: number;         // Protein in grams per day
+  carbs: number;           // Carbohydrates in grams per day
+  fat: number;             // Fat in grams per day
+  fiber?: number;          // Fiber in grams per day (optional)
+  sodium?: number;         // Sodium in milligrams per day (optional)
+  sugar?: number;          // Sugar in grams per day (optional)
+}
+
+export type NutritionGoalKey = Exclude<keyof NutritionGoals, 'preset'>;
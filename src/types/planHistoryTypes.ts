@@ -0,0 +1,16 @@
+// Plan History Types
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+
+export interface EventChange {
+  before: PlanEvent | null;  // The event before the change, null if it was added
+  after: PlanEvent | null;   // The event after the change, null if it was removed
+}
+
+export interface PlanHistoryEntry {
+  id: number;                // Unique entry ID, so a new entry can be told apart from an older one with the same label
+  label: string;             // What the change did, e.g. 'Moved "Pasta" to trash'
+  isDestructive: boolean;    // Whether meals were removed, which is when an Undo toast is shown
+  eventChanges: EventChange[];  // Changes to the meals in the plan
+  trashChanges: EventChange[];  // Changes to the meals in trash
+}
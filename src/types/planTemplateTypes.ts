@@ -0,0 +1,17 @@
+// Meal Plan Template Types
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+
+export interface TemplateMeal extends Omit<PlanEvent, 'id' | 'date' | 'recurrence' | 'recurrenceExceptions' | 'seriesId' | 'planId' | 'trashedAt'> {
+  dayOffset: number;       // Days after the first day of the template (0 = first day)
+  mealKey?: string;        // Key the template's leftoverOf and mealGroupId links point to
+}
+
+export interface MealPlanTemplate {
+  id: string;              // Unique template ID
+  userId: string;          // ID of the user who owns the template
+  name: string;            // Name chosen by the user, e.g. "Busy week"
+  lengthInDays: number;    // Number of days the template covers
+  meals: TemplateMeal[];   // Meals with their position in the template
+  createdAt: unknown;      // When the template was saved
+}
@@ -0,0 +1,21 @@
+// Recipe Facet Types
+// Facets group search results by cuisine, diet, dish type, time, health score and price,
+// with how many results have each value, so filters can be picked without hitting empty results
+
+// Ways results are grouped
+export type RecipeFacetId = 'cuisines' | 'diets' | 'dishTypes' | 'readyTime' | 'healthScore' | 'price';
+
+/**
+ * One value of a facet, e.g. "Italian" in the cuisines facet
+ */
+export interface RecipeFacetValue {
+  value: string;   // Key used when picking the value, e.g. "gluten free" or "15-30"
+  label: string;   // Name shown to users, e.g. "Gluten-Free" or "15–30 min"
+  count: number;   // Results that would match if the value were picked
+}
+
+// Values of every facet, most common first (ranges in their natural order)
+export type RecipeFacets = Record<RecipeFacetId, RecipeFacetValue[]>;
+
+// Values picked in each facet
+export type RecipeFacetSelections = Partial<Record<RecipeFacetId, string[]>>;
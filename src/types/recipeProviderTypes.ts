@@ -0,0 +1,37 @@
+// Recipe Provider Types
+// A provider is one source of recipes (Spoonacular, the bundled sample recipes, the user's own meals).
+// Pages only talk to the filter service, which asks the configured providers.
+
+import type {
+  Recipe,
+  RecipeSearchParams,
+  RecipeSearchResponse,
+  RecipeDetailResponse,
+  FilterOptionsResponse
+} from './recipeTypes';
+
+// Sources recipes can come from
+export type RecipeProviderId = 'spoonacular' | 'local' | 'user';
+
+/**
+ * RecipeProvider Interface
+ *
+ * A source of recipes. Providers throw when their source can't be reached,
+ * so the composite provider can fall back to another one.
+ */
+export interface RecipeProvider {
+  id: RecipeProviderId;  // Which source this provider reads from
+  maxResults?: number;   // Most results the source can page through; none are asked for past it
+  searchRecipes: (params: RecipeSearchParams) => Promise<RecipeSearchResponse>;  // Search with filters and pagination
+  searchRecipesByIngredients: (ingredients: string[], maxMissingIngredients: number) => Promise<Recipe[]>;  // Recipes makeable with the ingredients
+  getRecipeDetails: (recipeId: number) => Promise<RecipeDetailResponse | null>;  // Full recipe, or null when the source doesn't have it
+  getFilterOptions: () => Promise<FilterOptionsResponse>;  // Cuisines, diets, etc. the source can filter by
+}
+
+/**
+ * Which providers recipes come from
+ */
+export interface RecipeProviderConfig {
+  providers: RecipeProviderId[];   // Providers whose results are merged, in order of priority
+  fallback?: RecipeProviderId;     // Provider that fills in when one of the providers fails
+}
@@ -1,10 +1,18 @@
 // Recipe API Types
 
+import type { RecipeFacets, RecipeFacetSelections } from './recipeFacetTypes';
+
+// Orders recipe results can be sorted in; relevance keeps the order the source ranked them in
+export type RecipeSortOption = 'relevance' | 'readyTime' | 'healthScore' | 'popularity' | 'price' | 'calories' | 'protein';
+
+// Direction of a sort, smallest first or largest first
+export type RecipeSortDirection = 'asc' | 'desc';
+
 export interface RecipeSearchParams {
   query?: string;
-  cuisine?: string;
-  diet?: string;
-  intolerances?: string[];
+  cuisine?: string;          // Comma-separated cuisines; recipes from any of them match
+  diet?: string;             // Comma-separated diets; recipes have to fit all of them
+  intolerances?: string[];   // Recipes have to be free of all of them
   maxReadyTime?: number;
   minProtein?: number;
   maxCalories?: number;
@@ -13,7 +21,12 @@ export interface RecipeSearchParams {
   type?: string;
   // Additional parameters for onboarding preferences
   excludeCuisine?: string[];
-  excludeIngredients?: string[];
+  excludeIngredients?: string[];   // Matched against each recipe's ingredients, synonyms and plurals included
+  // Values picked in the facets of the results, e.g. several cuisines
+  facets?: RecipeFacetSelections;
+  // Order of the results; relevance when left out
+  sort?: RecipeSortOption;
+  sortDirection?: RecipeSortDirection;
 }
 
 export interface Recipe {
@@ -114,6 +127,7 @@ export interface Nutrition {
   ingredients: NutritionIngredient[];
   caloricBreakdown: CaloricBreakdown;
   weightPerServing: WeightPerServing;
+  isSample?: boolean;   // Set on the placeholder values shown for sample recipes, which aren't real data
 }
 
 export interface Nutrient {
@@ -159,6 +173,10 @@ export interface RecipeSearchResponse {
   offset: number;
   number: number;
   totalResults: number;
+  // Counts of the results by cuisine, diet, etc., when the source can tell
+  facets?: RecipeFacets;
+  // Set when the facet counts only cover the returned page rather than every match
+  facetsCoverPageOnly?: boolean;
 }
 
 export interface RecipeDetailResponse extends Recipe {
@@ -0,0 +1,29 @@
+// Shopping List Types
+
+export interface ShoppingListItem {
+  id: string;              // Merge key built from the ingredient name and unit family
+  name: string;            // Ingredient name
+  amount: number;          // Total amount needed, in the base unit
+  unit: string;            // Base unit (g, ml, piece or the recipe's own unit)
+  aisle: string;           // Store aisle used for grouping
+  recipeTitles: string[];  // Planned meals that need this ingredient
+  checked: boolean;        // Whether the user has ticked the item off
+  fridgeAmount?: number;   // Amount already in the fridge, in the same unit as amount
+  fridgeNote?: string;     // Matching fridge item whose unit can't be compared (e.g. "1 piece tomato")
+}
+
+export interface FridgeStock {
+  name: string;            // Ingredient name as stored in the fridge
+  quantity: number;        // Amount in the fridge
+  unit: string;            // Unit of the amount
+}
+
+export interface ShoppingList {
+  id: string;              // Shopping list ID (one list per user)
+  userId: string;          // ID of the user who owns the list
+  startDate: string;       // First plan date included (YYYY-MM-DD)
+  endDate: string;         // Last plan date included (YYYY-MM-DD)
+  items: ShoppingListItem[];
+  unresolvedMeals: string[];  // Planned meals whose ingredients could not be loaded
+  updatedAt: unknown;      // When the list was last saved
+}
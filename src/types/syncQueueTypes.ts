@@ -0,0 +1,44 @@
+// Sync Queue Types
+
+import type { PlanEvent, PlanInfo } from '../context/PlanContextTypes';
+import type { FavoriteRecipe, FridgeIngredient } from '../services/firestoreService';
+import type { MealPlanTemplate } from './planTemplateTypes';
+import type { NutritionGoals } from './nutritionGoalTypes';
+import type { MealSlot } from './mealSlotTypes';
+
+// A change waiting to be written to Firestore; each type maps to one write in the sync queue service
+export type SyncMutationData =
+  | { type: 'savePlanEvent'; userId: string; event: PlanEvent }
+  | { type: 'deletePlanEvent'; userId: string; eventId: string }
+  | { type: 'saveTrashedEvent'; userId: string; event: PlanEvent }
+  | { type: 'deleteTrashedEvent'; userId: string; eventId: string }
+  | { type: 'saveTrashRetention'; userId: string; days: number }
+  | { type: 'savePlan'; userId: string; plan: PlanInfo }
+  | { type: 'saveNutritionGoals'; userId: string; goals: NutritionGoals }
+  | { type: 'saveHouseholdSize'; userId: string; size: number | null }
+  | { type: 'saveWeeklyBudget'; userId: string; budget: number | null }
+  | { type: 'saveMealSlots'; userId: string; slots: MealSlot[] }
+  | { type: 'saveMealPlanTemplate'; template: Omit<MealPlanTemplate, 'createdAt'> }
+  | { type: 'deleteMealPlanTemplate'; userId: string; templateId: string }
+  | { type: 'saveFavoriteRecipe'; favorite: Omit<FavoriteRecipe, 'addedAt'> }
+  | { type: 'deleteFavoriteRecipe'; userId: string; recipeId: string }
+  | { type: 'replaceFridgeIngredients'; userId: string; ingredients: Pick<FridgeIngredient, 'name' | 'quantity' | 'unit'>[] };
+
+export type SyncMutation = SyncMutationData & {
+  id: string;              // Unique queue entry ID
+  key: string;             // Document the change writes to; a newer change with the same key replaces it
+  queuedAt: number;        // When the change was made (ms timestamp)
+  attempts: number;        // Failed writes so far, not counting attempts made while offline
+};
+
+// A change Firestore wouldn't take, kept so the user can be told it wasn't saved
+export type FailedSyncMutation = SyncMutation & {
+  failedAt: number;        // When the change was given up on (ms timestamp)
+};
+
+export interface SyncStatus {
+  pendingCount: number;    // Signed-in user's changes not yet written to Firestore
+  failedCount: number;     // Signed-in user's changes that couldn't be saved and were given up on
+  isOnline: boolean;       // Whether the browser reports a network connection
+  isSyncing: boolean;      // Whether queued changes are being written right now
+}
@@ -0,0 +1,96 @@
+// Budget - Estimates what planned meals cost and finds cheaper alternatives
+// Recipes come with a price per serving (in US cents); a meal costs that price times
+// the portions cooked, and leftovers are free since their batch-cooked meal paid for them.
+
+import type { CostTotals, PlanEvent } from '../context/PlanContextTypes';
+import type { Recipe } from '../types/recipeTypes';
+import { getMealPortions } from './servings';
+
+// Share of the week's budget after which the budget is shown as nearly used up
+export const BUDGET_WARNING_SHARE = 0.9;
+
+// Highest price per serving of a cheaper alternative, as a share of the planned recipe's price
+export const CHEAPER_ALTERNATIVE_PRICE_SHARE = 0.8;
+
+// Number of cheaper alternatives to suggest
+export const MAX_CHEAPER_ALTERNATIVES = 3;
+
+/**
+ * Make sure a stored weekly budget is a positive whole number of cents
+ * @param budget - Value loaded from storage, which may be missing
+ * @returns The budget in US cents, or null when no budget is set
+ */
+export const normalizeWeeklyBudget = (budget: number | null | undefined): number | null => {
+  return typeof budget === 'number' && budget > 0 ? Math.round(budget) : null;
+};
+
+/**
+ * Get the cost estimate to store on a meal planned from a recipe
+ * @param recipe - The recipe being planned
+ * @returns The recipe's price per serving, or undefined when the recipe has no price
+ */
+export const getRecipeCost = (recipe: Partial<Pick<Recipe, 'pricePerServing' | 'cheap'>>): PlanEvent['cost'] | undefined => {
+  if (!recipe.pricePerServing || recipe.pricePerServing <= 0) return undefined;
+  return { pricePerServing: recipe.pricePerServing, cheap: !!recipe.cheap };
+};
+
+/**
+ * Estimate what a planned meal costs
+ * @param event - The planned meal
+ * @param householdSize - The user's household size, or null to cook recipes as written
+ * @returns Cost in US cents, 0 for leftovers, or null when the meal has no price
+ */
+export const getMealCost = (event: PlanEvent, householdSize: number | null): number | null => {
+  if (event.leftoverOf) return 0;
+  if (!event.cost) return null;
+  return event.cost.pricePerServing * getMealPortions(event, householdSize);
+};
+
+/**
+ * Add up the estimated cost of planned meals
+ * @param events - Meals to add up, with recurring meals already expanded
+ * @param householdSize - The user's household size, or null to cook recipes as written
+ */
+export const getCostTotals = (events: PlanEvent[], householdSize: number | null): CostTotals => {
+  return events.reduce<CostTotals>((totals, event) => {
+    const cost = getMealCost(event, householdSize);
+    return cost === null
+      ? { ...totals, unpricedMeals: totals.unpricedMeals + 1 }
+      : { ...totals, total: totals.total + cost, pricedMeals: totals.pricedMeals + 1 };
+  }, { total: 0, pricedMeals: 0, unpricedMeals: 0 });
+};
+
+/**
+ * Format a price in US cents for display, e.g. "$12.40"
+ */
+export const formatCost = (cents: number): string => `$${(cents / 100).toFixed(2)}`;
+
+/**
+ * Pick the best cheaper alternatives to a planned meal
+ * @param event - The planned meal, which must have a price
+ * @param original - The planned meal's recipe, used to find similar recipes (null if it couldn't be loaded)
+ * @param candidates - Recipes to choose from
+ * @returns Up to MAX_CHEAPER_ALTERNATIVES recipes under the price threshold, most similar first
+ *
+ * Similarity counts shared cuisines (twice, as they matter most for taste), dish types
+ * and diets; recipes that are equally similar are ordered by price.
+ */
+export const rankCheaperAlternatives = (event: PlanEvent, original: Recipe | null, candidates: Recipe[]): Recipe[] => {
+  if (!event.cost) return [];
+  const maxPrice = event.cost.pricePerServing * CHEAPER_ALTERNATIVE_PRICE_SHARE;
+
+  const countShared = (a: string[] | undefined, b: string[] | undefined) =>
+    (a || []).filter(value => (b || []).includes(value)).length;
+  const getSimilarity = (recipe: Recipe) => original
+    ? countShared(recipe.cuisines, original.cuisines) * 2 +
+      countShared(recipe.dishTypes, original.dishTypes) +
+      countShared(recipe.diets, original.diets)
+    : 0;
+
+  return candidates
+    .filter(recipe => recipe.id !== event.recipeId && recipe.pricePerServing > 0 && recipe.pricePerServing <= maxPrice)
+    .map(recipe => ({ recipe, similarity: getSimilarity(recipe) }))
+    .sort((a, b) => b.similarity - a.similarity || a.recipe.pricePerServing - b.recipe.pricePerServing)
+    .slice(0, MAX_CHEAPER_ALTERNATIVES)
+    .map(({ recipe }) => recipe);
+};
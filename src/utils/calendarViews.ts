@@ -0,0 +1,49 @@
+// Calendar Views - Layouts the plan calendar can show and the view each user picked last
+// Month and week show a grid of days, the day view splits one day into the user's meal slots
+// and the agenda lists the coming days one under another, which reads well on phones
+
+export type CalendarView = 'month' | 'week' | 'day' | 'agenda';
+
+/**
+ * Views offered in the calendar toolbar, in display order
+ */
+export const CALENDAR_VIEWS: { value: CalendarView; label: string; icon: string }[] = [
+  { value: 'day', label: 'Day', icon: '📋' },
+  { value: 'week', label: 'Week', icon: '📊' },
+  { value: 'month', label: 'Month', icon: '📅' },
+  { value: 'agenda', label: 'Agenda', icon: '🗒️' }
+];
+
+// View shown until the user picks one
+export const DEFAULT_CALENDAR_VIEW: CalendarView = 'month';
+
+// Number of days the agenda lists
+export const AGENDA_DAYS = 14;
+
+// Prefix of the localStorage key remembering each user's calendar view
+const CALENDAR_VIEW_STORAGE_PREFIX = 'cravrplan_calendar_view_';
+
+/**
+ * Check whether a stored value is a calendar view
+ */
+const isCalendarView = (value: string | null): value is CalendarView => {
+  return CALENDAR_VIEWS.some(view => view.value === value);
+};
+
+/**
+ * Read the calendar view a user picked last time on this device
+ * @param ownerId - The user's ID, or 'guest' for guest users
+ */
+export const getStoredCalendarView = (ownerId: string): CalendarView => {
+  const stored = localStorage.getItem(`${CALENDAR_VIEW_STORAGE_PREFIX}${ownerId}`);
+  return isCalendarView(stored) ? stored : DEFAULT_CALENDAR_VIEW;
+};
+
+/**
+ * Remember which calendar view a user picked on this device
+ * @param ownerId - The user's ID, or 'guest' for guest users
+ * @param view - The view now shown
+ */
+export const storeCalendarView = (ownerId: string, view: CalendarView): void => {
+  localStorage.setItem(`${CALENDAR_VIEW_STORAGE_PREFIX}${ownerId}`, view);
+};
@@ -0,0 +1,90 @@
+// Date Utilities - Helpers for working with the YYYY-MM-DD dates used by the meal plan
+// Plan events store their date as a plain local date string, so these helpers
+// convert between Date objects and strings without going through UTC
+
+/**
+ * Format a Date as a local YYYY-MM-DD string
+ * @param date - The date to format
+ * @returns The date in YYYY-MM-DD format
+ *
+ * This uses the local calendar date instead of toISOString(), which would
+ * shift the date for users east or west of UTC.
+ */
+export function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string into a local Date at midnight
+ * @param dateString - The date string to parse
+ * @returns A Date object for the start of that local day
+ */
+export function parseDateString(dateString: string): Date {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD string
+ * @param dateString - The starting date
+ * @param days - Number of days to add (can be negative)
+ * @returns The resulting date in YYYY-MM-DD format
+ */
+export function addDays(dateString: string, days: number): string {
+  const date = parseDateString(dateString);
+  date.setDate(date.getDate() + days);
+  return toDateString(date);
+}
+
+/**
+ * Get the Sunday-to-Saturday week that contains a date
+ * @param dateString - Any date inside the week
+ * @returns The first and last date of the week in YYYY-MM-DD format
+ *
+ * The week starts on Sunday to match the plan calendar layout.
+ */
+export function getWeekRange(dateString: string): { startDate: string; endDate: string } {
+  const date = parseDateString(dateString);
+  const startDate = addDays(dateString, -date.getDay());
+  return { startDate, endDate: addDays(startDate, 6) };
+}
+
+/**
+ * Get the calendar month that contains a date
+ * @param dateString - Any date inside the month
+ * @returns The first and last date of the month in YYYY-MM-DD format
+ */
+export function getMonthRange(dateString: string): { startDate: string; endDate: string } {
+  const date = parseDateString(dateString);
+  return {
+    startDate: toDateString(new Date(date.getFullYear(), date.getMonth(), 1)),
+    endDate: toDateString(new Date(date.getFullYear(), date.getMonth() + 1, 0))
+  };
+}
+
+/**
+ * Check whether a date falls inside an inclusive date range
+ * @param dateString - The date to check
+ * @param startDate - First date of the range
+ * @param endDate - Last date of the range
+ * @returns True if the date is within the range
+ *
+ * YYYY-MM-DD strings sort the same way as the dates they represent,
+ * so a plain string comparison is enough here.
+ */
+export function isDateInRange(dateString: string, startDate: string, endDate: string): boolean {
+  return dateString >= startDate && dateString <= endDate;
+}
+
+/**
+ * Count the number of days between two dates
+ * @param startDate - The earlier date (YYYY-MM-DD)
+ * @param endDate - The later date (YYYY-MM-DD)
+ * @returns Whole days from startDate to endDate (negative if endDate is earlier)
+ *
+ * Rounding keeps the result correct across daylight saving time changes.
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round((parseDateString(endDate).getTime() - parseDateString(startDate).getTime()) / msPerDay);
+}
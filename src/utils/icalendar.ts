@@ -0,0 +1,310 @@
+// iCalendar - Converts meal plan events to and from RFC 5545 (.ics) calendar files
+// Exported files list one VEVENT per meal so the plan shows up in other calendar apps,
+// and imported files are turned back into meals, linking recognized recipes by ID
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import { toDateString } from './dateUtils';
+
+// Product identifier written into exported calendars
+const PRODUCT_ID = '-//CravrPlan//Meal Plan//EN';
+
+// Custom property that keeps the exact meal type when a file is imported again
+const MEAL_TYPE_PROPERTY = 'X-CRAVRPLAN-MEAL-TYPE';
+
+// Prefix of the description line holding the recipe link
+const RECIPE_LINE_PREFIX = 'Recipe: ';
+
+// Default start time (24h "HH:MM") for each meal type
+const MEAL_TYPE_TIMES: Record<PlanEvent['mealType'], string> = {
+  breakfast: '08:00',
+  snack: '15:00',
+  'main course': '18:30',
+  'side dish': '18:30',
+  dessert: '20:00'
+};
+
+// Length of a calendar entry when the meal has no prep or cook time
+const DEFAULT_DURATION_MINUTES = 30;
+
+// Smallest recipe ID treated as a custom meal (IDs made from timestamps)
+const CUSTOM_RECIPE_ID_MIN = 1e12;
+
+// Longest line allowed by RFC 5545, in octets, before it has to be folded
+const MAX_LINE_OCTETS = 75;
+
+const MEAL_TYPES = Object.keys(MEAL_TYPE_TIMES) as PlanEvent['mealType'][];
+
+// ===== EXPORT =====
+
+/**
+ * Escape text for use in an iCalendar property value
+ */
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold a content line so no line is longer than 75 octets
+ * Continuation lines start with a single space, as RFC 5545 requires
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  // Iterate by code point so multi-byte characters (e.g. emoji) are never split
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Format a local date and time as an iCalendar floating date-time (YYYYMMDDTHHMMSS)
+ * Floating times show at the same clock time in every time zone, which suits meals
+ */
+const formatLocalDateTime = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+};
+
+/**
+ * Format a moment as an iCalendar UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+const formatUtcDateTime = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Check whether a recipe ID belongs to a custom meal
+ * Custom meals get IDs from Date.now(), far above any recipe database ID
+ */
+export const isCustomRecipeId = (recipeId: number): boolean => recipeId >= CUSTOM_RECIPE_ID_MIN;
+
+/**
+ * Build the link to a recipe's page in the app
+ */
+export const getRecipeUrl = (recipeId: number, origin: string): string => `${origin}/recipes/${recipeId}`;
+
+/**
+ * Create an iCalendar file from meal plan events
+ * @param events - Meals to export, with recurring meals already expanded
+ * @param origin - Base URL of the app, used for recipe links (e.g. https://example.com)
+ * @returns The .ics file contents
+ *
+ * Custom meals have no recipe page, so only recipe meals get a link.
+ */
+export const createICalendar = (events: PlanEvent[], origin: string): string => {
+  const stamp = formatUtcDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Meal Plan'
+  ];
+
+  events.forEach(event => {
+    const [hours, minutes] = MEAL_TYPE_TIMES[event.mealType].split(':').map(Number);
+    const [year, month, day] = event.date.split('-').map(Number);
+    const start = new Date(year, month - 1, day, hours, minutes);
+    const duration = (event.prepTime || 0) + (event.cookTime || 0) || DEFAULT_DURATION_MINUTES;
+    const end = new Date(start.getTime() + duration * 60 * 1000);
+
+    const recipeUrl = isCustomRecipeId(event.recipeId) ? '' : getRecipeUrl(event.recipeId, origin);
+    const description = [
+      event.notes?.trim(),
+      recipeUrl && `${RECIPE_LINE_PREFIX}${recipeUrl}`
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.id}@cravrplan`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatLocalDateTime(start)}`,
+      `DTEND:${formatLocalDateTime(end)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      `CATEGORIES:${escapeText(event.mealType)}`,
+      `${MEAL_TYPE_PROPERTY}:${escapeText(event.mealType)}`
+    );
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (recipeUrl) lines.push(`URL:${recipeUrl}`);
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// ===== IMPORT =====
+
+/**
+ * A property read from an iCalendar content line
+ */
+interface ContentLine {
+  name: string;                       // Property name in upper case, e.g. DTSTART
+  value: string;                      // Raw (still escaped) value
+}
+
+/**
+ * Undo the escaping of an iCalendar text value
+ */
+const unescapeText = (value: string): string => {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+/**
+ * Split a file into unfolded content lines
+ */
+const readContentLines = (text: string): ContentLine[] => {
+  const unfolded = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '');
+
+  return unfolded.split('\n').flatMap(line => {
+    // The value starts at the first colon that isn't inside a quoted parameter value
+    let inQuotes = false;
+    let colonIndex = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      if (line[i] === ':' && !inQuotes) {
+        colonIndex = i;
+        break;
+      }
+    }
+    if (colonIndex <= 0) return [];
+
+    // Parameters such as TZID aren't needed: meal times are read as written
+    const name = line.slice(0, colonIndex).split(';')[0];
+    return [{ name: name.toUpperCase(), value: line.slice(colonIndex + 1) }];
+  });
+};
+
+/**
+ * Read the local date and hour of a DTSTART value
+ * UTC times (ending in Z) are converted to the local time zone; times with a
+ * TZID or no zone are taken as written
+ */
+const readStart = (line: ContentLine): { date: string; hour: number | null } | null => {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours) {
+    return { date: `${year}-${month}-${day}`, hour: null };
+  }
+  if (utc) {
+    const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+    return { date: toDateString(local), hour: local.getHours() };
+  }
+  return { date: `${year}-${month}-${day}`, hour: Number(hours) };
+};
+
+/**
+ * Work out the meal type of an imported event
+ * Uses our own meal type property or a matching category, then falls back to the time of day
+ */
+const readMealType = (properties: ContentLine[], hour: number | null): PlanEvent['mealType'] => {
+  const candidates = properties
+    .filter(line => line.name === MEAL_TYPE_PROPERTY || line.name === 'CATEGORIES')
+    .flatMap(line => line.value.split(/(?<!\\),/))
+    .map(value => unescapeText(value).trim().toLowerCase());
+
+  const known = MEAL_TYPES.find(type => candidates.includes(type));
+  if (known) return known;
+
+  if (hour === null) return 'main course';
+  if (hour < 11) return 'breakfast';
+  if (hour >= 14 && hour < 17) return 'snack';
+  return 'main course';
+};
+
+/**
+ * Find a link to one of our recipe pages and return the recipe ID
+ */
+const readRecipeId = (text: string): number | null => {
+  const match = text.match(/\/recipes\/(\d+)(?:[/?#]|$)/m);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Result of reading an .ics file
+ */
+export interface ICalendarImport {
+  meals: Omit<PlanEvent, 'id'>[];   // Meals found in the file
+  skipped: number;                  // Events that couldn't be read (no date or title)
+}
+
+/**
+ * Read meals from an iCalendar file
+ * @param text - The .ics file contents
+ * @returns The meals found plus how many events were skipped
+ *
+ * Events linking to /recipes/:id are planned as that recipe; any other event
+ * becomes a custom meal. Recurrence rules aren't expanded, so only the first
+ * occurrence of a repeating event is imported.
+ */
+export const parseICalendar = (text: string): ICalendarImport => {
+  const meals: Omit<PlanEvent, 'id'>[] = [];
+  let skipped = 0;
+  // Custom meals get timestamp IDs like the ones created on the plan page
+  let nextCustomRecipeId = Date.now();
+  let current: ContentLine[] | null = null;
+
+  readContentLines(text).forEach(line => {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      return;
+    }
+    if (!current) return;
+    if (line.name !== 'END' || line.value.toUpperCase() !== 'VEVENT') {
+      current.push(line);
+      return;
+    }
+
+    const properties: ContentLine[] = current;
+    current = null;
+
+    const get = (name: string) => properties.find(property => property.name === name);
+    const startLine = get('DTSTART');
+    const start = startLine && readStart(startLine);
+    const title = unescapeText(get('SUMMARY')?.value || '').trim();
+    if (!start || !title) {
+      skipped++;
+      return;
+    }
+
+    const url = get('URL')?.value || '';
+    const description = unescapeText(get('DESCRIPTION')?.value || '');
+    const recipeId = readRecipeId(url) ?? readRecipeId(description);
+
+    // Drop the recipe link line added on export so only the user's notes remain
+    const notes = description
+      .split('\n')
+      .filter(line => !(line.startsWith(RECIPE_LINE_PREFIX) && readRecipeId(line) !== null))
+      .join('\n')
+      .trim();
+
+    const meal: Omit<PlanEvent, 'id'> = {
+      title,
+      date: start.date,
+      recipeId: recipeId ?? nextCustomRecipeId++,
+      mealType: readMealType(properties, start.hour)
+    };
+    if (notes) meal.notes = notes;
+
+    meals.push(meal);
+  });
+
+  return { meals, skipped };
+};
@@ -0,0 +1,280 @@
+// Ingredient Matcher - Matches ingredient names using synonyms and fuzzy matching
+// This file is shared by the fridge recipe search and the shopping list
+// so both agree on whether "cherry tomato" in a recipe is the "tomato" in the fridge
+
+// Default similarity a match needs to count (0-1), same as the fridge page uses
+export const DEFAULT_MATCH_TOLERANCE = 0.8;
+
+// Ingredient synonyms for better matching
+// Keys are the ingredient the user has, values are names recipes may use for it
+const INGREDIENT_SYNONYMS: { [key: string]: string[] } = {
+  'tomato': ['tomatoes', 'cherry tomato', 'roma tomato'],
+  'onion': ['onions', 'red onion', 'white onion', 'yellow onion'],
+  'garlic': ['garlic cloves', 'garlic powder'],
+  'olive oil': ['extra virgin olive oil', 'evoo'],
+  'salt': ['sea salt', 'kosher salt', 'table salt'],
+  'pepper': ['black pepper', 'white pepper', 'ground pepper'],
+  'chicken': ['chicken breast', 'chicken thigh', 'chicken meat'],
+  'beef': ['ground beef', 'beef steak', 'beef meat'],
+  'rice': ['white rice', 'brown rice', 'jasmine rice', 'basmati rice'],
+  'pasta': ['spaghetti', 'penne', 'fettuccine', 'linguine'],
+  'cheese': ['cheddar', 'mozzarella', 'parmesan', 'gouda'],
+  'milk': ['whole milk', 'skim milk', 'almond milk', 'soy milk'],
+  'egg': ['eggs', 'large eggs', 'egg whites'],
+  'flour': ['all purpose flour', 'bread flour', 'cake flour'],
+  'sugar': ['white sugar', 'brown sugar', 'granulated sugar'],
+  'butter': ['unsalted butter', 'salted butter', 'margarine'],
+  'lemon': ['lemons', 'lemon juice', 'lemon zest'],
+  'lime': ['limes', 'lime juice', 'lime zest'],
+  'bell pepper': ['bell peppers', 'red pepper', 'green pepper', 'yellow pepper'],
+  'carrot': ['carrots', 'baby carrots'],
+  'potato': ['potatoes', 'russet potato', 'red potato'],
+  'spinach': ['baby spinach', 'fresh spinach'],
+  'mushroom': ['mushrooms', 'button mushrooms', 'portobello'],
+  'basil': ['fresh basil', 'basil leaves'],
+  'oregano': ['dried oregano', 'fresh oregano'],
+  'thyme': ['fresh thyme', 'dried thyme'],
+  'rosemary': ['fresh rosemary', 'dried rosemary'],
+  'parsley': ['fresh parsley', 'dried parsley'],
+  'cilantro': ['fresh cilantro', 'coriander'],
+  'ginger': ['fresh ginger', 'ginger powder', 'ginger root'],
+  'cumin': ['ground cumin', 'cumin seeds'],
+  'paprika': ['smoked paprika', 'sweet paprika'],
+  'cinnamon': ['ground cinnamon', 'cinnamon stick'],
+  'nutmeg': ['ground nutmeg', 'whole nutmeg'],
+  'vanilla': ['vanilla extract', 'vanilla bean'],
+  'honey': ['raw honey', 'clover honey'],
+  'maple syrup': ['pure maple syrup', 'maple syrup'],
+  'soy sauce': ['light soy sauce', 'dark soy sauce', 'tamari'],
+  'vinegar': ['apple cider vinegar', 'balsamic vinegar', 'white vinegar'],
+  'mustard': ['dijon mustard', 'yellow mustard', 'whole grain mustard'],
+  'mayonnaise': ['mayo', 'light mayonnaise'],
+  'ketchup': ['tomato ketchup', 'catsup'],
+  'hot sauce': ['sriracha', 'tabasco', 'chili sauce'],
+  'worcestershire': ['worcestershire sauce'],
+  'fish sauce': ['fish sauce'],
+  'oyster sauce': ['oyster sauce'],
+  'sesame oil': ['toasted sesame oil', 'sesame oil'],
+  'coconut oil': ['virgin coconut oil', 'refined coconut oil'],
+  'avocado': ['avocados', 'avocado oil'],
+  'almond': ['almonds', 'almond flour', 'almond milk'],
+  'walnut': ['walnuts', 'walnut pieces'],
+  'pecan': ['pecans', 'pecan pieces'],
+  'cashew': ['cashews', 'cashew pieces'],
+  'peanut': ['peanuts', 'peanut butter'],
+  'sunflower seed': ['sunflower seeds'],
+  'pumpkin seed': ['pumpkin seeds', 'pepitas'],
+  'chia seed': ['chia seeds'],
+  'flax seed': ['flax seeds', 'flax meal'],
+  'quinoa': ['quinoa'],
+  'oat': ['oats', 'rolled oats', 'steel cut oats'],
+  'barley': ['pearl barley', 'barley'],
+  'lentil': ['lentils', 'red lentils', 'green lentils'],
+  'chickpea': ['chickpeas', 'garbanzo beans'],
+  'black bean': ['black beans'],
+  'kidney bean': ['kidney beans'],
+  'pinto bean': ['pinto beans'],
+  'cannellini bean': ['cannellini beans', 'white beans'],
+  'salmon': ['salmon fillet', 'salmon steak'],
+  'tuna': ['tuna steak', 'canned tuna'],
+  'shrimp': ['shrimp', 'prawns'],
+  'tilapia': ['tilapia fillet'],
+  'cod': ['cod fillet'],
+  'halibut': ['halibut fillet'],
+  'scallop': ['scallops', 'sea scallops'],
+  'mussel': ['mussels'],
+  'clam': ['clams'],
+  'oyster': ['oysters'],
+  'crab': ['crab meat', 'crab legs'],
+  'lobster': ['lobster tail', 'lobster meat'],
+  'turkey': ['turkey breast', 'ground turkey'],
+  'pork': ['pork chop', 'pork tenderloin', 'ground pork'],
+  'lamb': ['lamb chop', 'ground lamb'],
+  'duck': ['duck breast', 'duck meat'],
+  'goose': ['goose meat'],
+  'quail': ['quail meat'],
+  'pheasant': ['pheasant meat'],
+  'venison': ['venison meat'],
+  'bison': ['bison meat'],
+  'elk': ['elk meat'],
+  'rabbit': ['rabbit meat'],
+  'squab': ['squab meat'],
+  'pigeon': ['pigeon meat'],
+  'partridge': ['partridge meat'],
+  'grouse': ['grouse meat'],
+  'woodcock': ['woodcock meat'],
+  'snipe': ['snipe meat'],
+  'teal': ['teal meat'],
+  'mallard': ['mallard meat'],
+  'canvasback': ['canvasback meat'],
+  'redhead': ['redhead meat'],
+  'scaup': ['scaup meat'],
+  'goldeneye': ['goldeneye meat'],
+  'bufflehead': ['bufflehead meat'],
+  'merganser': ['merganser meat'],
+  'eider': ['eider meat'],
+  'scoter': ['scoter meat'],
+  'old squaw': ['old squaw meat'],
+  'harlequin': ['harlequin meat'],
+  'surf scoter': ['surf scoter meat'],
+  'white winged scoter': ['white winged scoter meat'],
+  'black scoter': ['black scoter meat'],
+  'common eider': ['common eider meat'],
+  'king eider': ['king eider meat'],
+  'spectacled eider': ['spectacled eider meat'],
+  'steller eider': ['steller eider meat'],
+  'labrador duck': ['labrador duck meat'],
+  'great auk': ['great auk meat'],
+  'passenger pigeon': ['passenger pigeon meat'],
+  'carolina parakeet': ['carolina parakeet meat'],
+  'ivory billed woodpecker': ['ivory billed woodpecker meat'],
+  'bachman warbler': ['bachman warbler meat'],
+  'eskimo curlew': ['eskimo curlew meat'],
+  'heath hen': ['heath hen meat']
+};
+
+/**
+ * Result of matching one recipe ingredient against the user's ingredients
+ */
+export interface IngredientNameMatch {
+  match: string;   // The user ingredient that matched, or an empty string
+  score: number;   // How good the match is (0-1)
+}
+
+/**
+ * Get the names recipes may use for an ingredient, including its own name
+ * @param ingredient - Lowercase ingredient name, e.g. "pasta"
+ * @returns e.g. "pasta", "spaghetti", "penne", ...
+ */
+export function getIngredientSynonyms(ingredient: string): string[] {
+  return [ingredient, ...(INGREDIENT_SYNONYMS[ingredient] || [])];
+}
+
+/**
+ * Calculate similarity between two strings using Levenshtein distance
+ * @param str1 - First string
+ * @param str2 - Second string
+ * @returns Similarity from 0 (completely different) to 1 (identical)
+ */
+export function calculateSimilarity(str1: string, str2: string): number {
+  const matrix: number[][] = [];
+  const len1 = str1.length;
+  const len2 = str2.length;
+
+  for (let i = 0; i <= len2; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= len1; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= len2; i++) {
+    for (let j = 1; j <= len1; j++) {
+      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+  }
+
+  const distance = matrix[len2][len1];
+  const maxLength = Math.max(len1, len2);
+  return maxLength > 0 ? 1 - (distance / maxLength) : 1;
+}
+
+/**
+ * Find the user ingredient that best matches a recipe ingredient
+ * @param recipeIngredient - Lowercase ingredient name from the recipe
+ * @param userIngredients - Lowercase ingredient names the user has
+ * @param tolerance - Minimum score for partial and fuzzy matches
+ * @returns The best matching user ingredient and its score
+ *
+ * Exact matches score 1.0 and synonym matches 0.95. Otherwise the best of a
+ * partial (contains) match and a Levenshtein similarity is used, as long as
+ * it reaches the tolerance.
+ */
+export function findBestIngredientMatch(
+  recipeIngredient: string,
+  userIngredients: string[],
+  tolerance: number = DEFAULT_MATCH_TOLERANCE
+): IngredientNameMatch {
+  let bestMatch = '';
+  let bestScore = 0;
+
+  userIngredients.forEach(userIngredient => {
+    // Direct match
+    if (recipeIngredient === userIngredient) {
+      bestMatch = userIngredient;
+      bestScore = 1.0;
+      return;
+    }
+
+    // Synonym match
+    const synonyms = INGREDIENT_SYNONYMS[userIngredient] || [];
+    if (synonyms.includes(recipeIngredient)) {
+      bestMatch = userIngredient;
+      bestScore = 0.95;
+      return;
+    }
+
+    // Partial match (contains)
+    if (recipeIngredient.includes(userIngredient) || userIngredient.includes(recipeIngredient)) {
+      const score = Math.min(recipeIngredient.length, userIngredient.length) /
+        Math.max(recipeIngredient.length, userIngredient.length);
+      if (score > bestScore && score >= tolerance) {
+        bestMatch = userIngredient;
+        bestScore = score;
+      }
+    }
+
+    // Fuzzy match using simple similarity
+    const similarity = calculateSimilarity(recipeIngredient, userIngredient);
+    if (similarity > bestScore && similarity >= tolerance) {
+      bestMatch = userIngredient;
+      bestScore = similarity;
+    }
+  });
+
+  return { match: bestMatch, score: bestScore };
+}
+
+/**
+ * Calculate ingredient matching with configurable tolerance
+ * @param userIngredients - Lowercase ingredient names the user has
+ * @param recipeIngredients - Lowercase ingredient names the recipe needs
+ * @param tolerance - Minimum score for a recipe ingredient to count as available
+ * @returns Used and missed ingredients plus an overall match score (0-1)
+ *
+ * Uses fuzzy matching and synonym detection for better accuracy.
+ */
+export function calculateIngredientMatch(
+  userIngredients: string[],
+  recipeIngredients: string[],
+  tolerance: number = DEFAULT_MATCH_TOLERANCE
+) {
+  const usedIngredients: string[] = [];
+  const missedIngredients: string[] = [];
+  let totalScore = 0;
+
+  // Check each recipe ingredient against user ingredients
+  recipeIngredients.forEach(recipeIngredient => {
+    const { match, score } = findBestIngredientMatch(recipeIngredient, userIngredients, tolerance);
+
+    if (score >= tolerance) {
+      usedIngredients.push(match);
+      totalScore += score;
+    } else {
+      missedIngredients.push(recipeIngredient);
+    }
+  });
+
+  const matchScore = recipeIngredients.length > 0 ? totalScore / recipeIngredients.length : 0;
+
+  return { usedIngredients, missedIngredients, matchScore };
+}
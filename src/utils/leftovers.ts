@@ -0,0 +1,84 @@
+// Leftovers - Plans the spare portions of batch-cooked meals as leftover meals
+// A meal cooked for more portions than the household eats is marked as making leftovers,
+// and each spare round of portions becomes a linked meal on one of the following days.
+// Leftover meals need no shopping of their own and must be eaten within the shelf life.
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import { addDays, daysBetween } from './dateUtils';
+import { getMealPortions } from './servings';
+
+// Days after cooking that leftovers can still be eaten
+export const LEFTOVER_SHELF_LIFE_DAYS = 3;
+
+/**
+ * Get how many people eat each planned meal
+ * @param householdSize - The user's household size, or null when it isn't set
+ */
+export const getPortionsEaten = (householdSize: number | null): number => householdSize || 1;
+
+/**
+ * Get the portions left over after a meal has been eaten
+ * @param event - The batch-cooked meal
+ * @param householdSize - The user's household size, or null to cook recipes as written
+ * @returns Portions cooked beyond what the household eats, never negative
+ */
+export const getSparePortions = (event: Pick<PlanEvent, 'portions' | 'servings'>, householdSize: number | null): number => {
+  return Math.max(0, getMealPortions(event, householdSize) - getPortionsEaten(householdSize));
+};
+
+/**
+ * Check whether leftovers can still be eaten on a date
+ * @param sourceDate - Date the meal was cooked (YYYY-MM-DD)
+ * @param date - Date the leftovers are planned for (YYYY-MM-DD)
+ * @returns True for the days after cooking, up to the shelf life
+ */
+export const isWithinShelfLife = (sourceDate: string, date: string): boolean => {
+  const days = daysBetween(sourceDate, date);
+  return days >= 1 && days <= LEFTOVER_SHELF_LIFE_DAYS;
+};
+
+/**
+ * Get the leftover meals planned from a batch-cooked meal
+ * @param events - Meals to search
+ * @param sourceId - ID of the batch-cooked meal
+ * @returns The linked leftover meals, earliest first
+ */
+export const getLeftovers = (events: PlanEvent[], sourceId: string): PlanEvent[] => {
+  return events
+    .filter(event => event.leftoverOf === sourceId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Propose leftover meals for a batch-cooked meal
+ * @param source - The batch-cooked meal
+ * @param householdSize - The user's household size, or null to cook recipes as written
+ * @returns One leftover meal per day after cooking while spare portions last, up to the shelf life
+ *
+ * Leftovers keep the source's meal type and nutrition (which is per person) and are
+ * linked to it, so they are left out of the shopping list.
+ */
+export const proposeLeftovers = (source: PlanEvent, householdSize: number | null): Omit<PlanEvent, 'id'>[] => {
+  const portionsEaten = getPortionsEaten(householdSize);
+  const meals = Math.min(
+    Math.floor(getSparePortions(source, householdSize) / portionsEaten),
+    LEFTOVER_SHELF_LIFE_DAYS
+  );
+
+  return Array.from({ length: meals }, (_, index) => {
+    const leftover: Omit<PlanEvent, 'id'> = {
+      title: source.title,
+      date: addDays(source.date, index + 1),
+      recipeId: source.recipeId,
+      mealType: source.mealType,
+      portions: portionsEaten,
+      leftoverOf: source.id
+    };
+    if (source.image) leftover.image = source.image;
+    if (source.slot) leftover.slot = source.slot;
+    if (source.servings) leftover.servings = source.servings;
+    if (source.nutrition) leftover.nutrition = source.nutrition;
+    if (source.planId) leftover.planId = source.planId;
+    return leftover;
+  });
+};
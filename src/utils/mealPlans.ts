@@ -0,0 +1,61 @@
+// Meal Plans - Helpers for users' named meal plans
+// Meals added before multiple plans existed have no planId and belong to the default plan,
+// so existing plans keep working without rewriting every meal
+
+import type { PlanEvent, PlanInfo } from '../context/PlanContextTypes';
+
+// ID of the plan every user starts with
+export const DEFAULT_PLAN_ID = 'default';
+
+// The plan every user starts with, used until they create their own
+export const DEFAULT_PLAN: PlanInfo = {
+  id: DEFAULT_PLAN_ID,
+  title: 'My Meal Plan',
+  archived: false,
+  createdAt: 0
+};
+
+// Prefix of the localStorage key remembering each user's active plan
+const ACTIVE_PLAN_STORAGE_PREFIX = 'cravrplan_active_plan_';
+
+/**
+ * Get the ID of the plan a meal belongs to
+ */
+export const getEventPlanId = (event: Pick<PlanEvent, 'planId'>): string => event.planId || DEFAULT_PLAN_ID;
+
+/**
+ * Make sure the default plan is in the list and sort plans oldest first
+ * @param plans - Plans loaded from storage, which may not include the default plan yet
+ */
+export const normalizePlans = (plans: PlanInfo[]): PlanInfo[] => {
+  const allPlans = plans.some(plan => plan.id === DEFAULT_PLAN_ID) ? [...plans] : [DEFAULT_PLAN, ...plans];
+  return allPlans.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Pick which plan to show
+ * @param plans - All of the user's plans
+ * @param preferredId - The plan the user had open last time, if any
+ * @returns The preferred plan if it still exists and isn't archived, otherwise the first open plan
+ */
+export const pickActivePlanId = (plans: PlanInfo[], preferredId: string | null): string => {
+  const openPlans = plans.filter(plan => !plan.archived);
+  return openPlans.find(plan => plan.id === preferredId)?.id || openPlans[0]?.id || DEFAULT_PLAN_ID;
+};
+
+/**
+ * Read the plan a user had open last time on this device
+ * @param ownerId - The user's ID, or 'guest' for guest users
+ */
+export const getStoredActivePlanId = (ownerId: string): string | null => {
+  return localStorage.getItem(`${ACTIVE_PLAN_STORAGE_PREFIX}${ownerId}`);
+};
+
+/**
+ * Remember which plan a user has open on this device
+ * @param ownerId - The user's ID, or 'guest' for guest users
+ * @param planId - The plan now shown
+ */
+export const storeActivePlanId = (ownerId: string, planId: string): void => {
+  localStorage.setItem(`${ACTIVE_PLAN_STORAGE_PREFIX}${ownerId}`, planId);
+};
@@ -0,0 +1,126 @@
+// Meal Slots - Times of day meals are eaten at and the meals planned in each
+// A meal's slot says when it is eaten (lunch, dinner...) while its meal type says what kind of
+// dish it is, and several dishes in a slot can be grouped into one meal, e.g. a main with its side.
+// Meals planned before slots existed get a slot from their meal type.
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import type { MealSlot } from '../types/mealSlotTypes';
+
+// Slots every user starts with, in the order they are eaten
+export const DEFAULT_MEAL_SLOTS: MealSlot[] = [
+  { id: 'breakfast', label: 'Breakfast', icon: '🌅' },
+  { id: 'lunch', label: 'Lunch', icon: '🥪' },
+  { id: 'dinner', label: 'Dinner', icon: '🍽️' },
+  { id: 'snack', label: 'Snacks', icon: '🍎' }
+];
+
+// Most slots a user can set up
+export const MAX_MEAL_SLOTS = 8;
+
+// Icon of slots added without one
+export const DEFAULT_SLOT_ICON = '🍴';
+
+// Slot a meal type is eaten at when the meal has no slot of its own
+const MEAL_TYPE_SLOTS: Record<PlanEvent['mealType'], string> = {
+  'breakfast': 'breakfast',
+  'main course': 'dinner',
+  'side dish': 'dinner',
+  'dessert': 'dinner',
+  'snack': 'snack'
+};
+
+/**
+ * Make sure stored meal slots are usable
+ * @param slots - Slots loaded from storage, which may be missing or incomplete
+ * @returns Slots with a label and a unique ID, or the default slots when none are left
+ */
+export const normalizeMealSlots = (slots: MealSlot[] | null | undefined): MealSlot[] => {
+  const normalized: MealSlot[] = [];
+  (slots || []).forEach(slot => {
+    const label = slot?.label?.trim();
+    if (!slot?.id || !label || normalized.some(existing => existing.id === slot.id)) return;
+    normalized.push({ id: slot.id, label, icon: slot.icon || DEFAULT_SLOT_ICON });
+  });
+  return normalized.length > 0 ? normalized.slice(0, MAX_MEAL_SLOTS) : DEFAULT_MEAL_SLOTS;
+};
+
+/**
+ * Create an ID for a new slot from its label, e.g. "Second Breakfast" -> "second-breakfast"
+ * @param label - The new slot's label
+ * @param slots - The user's current slots, whose IDs the new one must not reuse
+ */
+export const createSlotId = (label: string, slots: MealSlot[]): string => {
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'slot';
+  let id = base;
+  for (let suffix = 2; slots.some(slot => slot.id === id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
+
+// Recipe dish types that map to a meal type other than 'main course'
+const DISH_TYPE_MEAL_TYPES: Record<string, PlanEvent['mealType']> = {
+  'breakfast': 'breakfast',
+  'morning meal': 'breakfast',
+  'brunch': 'breakfast',
+  'side dish': 'side dish',
+  'salad': 'side dish',
+  'dessert': 'dessert',
+  'snack': 'snack',
+  'fingerfood': 'snack',
+  'appetizer': 'snack'
+};
+
+/**
+ * Pick the meal type of a recipe from its dish types
+ * @param dishTypes - The recipe's dish types, e.g. ["lunch", "main course"]
+ * @returns The first dish type that matches a meal type, or 'main course'
+ */
+export const getRecipeMealType = (dishTypes: string[]): PlanEvent['mealType'] => {
+  const match = dishTypes.find(dishType => DISH_TYPE_MEAL_TYPES[dishType.toLowerCase()]);
+  return match ? DISH_TYPE_MEAL_TYPES[match.toLowerCase()] : 'main course';
+};
+
+/**
+ * Get the slot a new meal of a meal type goes in when none is picked
+ * @param mealType - The meal's dish type
+ * @param slots - The user's slots
+ * @returns The slot usually eaten at for the meal type, or the first slot if the user removed it
+ */
+export const getDefaultSlotId = (mealType: PlanEvent['mealType'], slots: MealSlot[]): string => {
+  const slotId = MEAL_TYPE_SLOTS[mealType];
+  return slots.some(slot => slot.id === slotId) ? slotId : slots[0].id;
+};
+
+/**
+ * Get the slot a planned meal is eaten at
+ * Meals without a slot, or whose slot was removed, fall back to their meal type's slot
+ */
+export const getEventSlotId = (event: Pick<PlanEvent, 'slot' | 'mealType'>, slots: MealSlot[]): string => {
+  return event.slot && slots.some(slot => slot.id === event.slot) ? event.slot : getDefaultSlotId(event.mealType, slots);
+};
+
+/**
+ * Get the ID of the meal a dish belongs to
+ * @param event - The dish
+ * @param events - Meals planned on the same day
+ * @returns The main dish's ID, or the dish's own ID when it is not grouped (or its main dish is gone)
+ */
+export const getMealGroupId = (event: PlanEvent, events: PlanEvent[]): string => {
+  return event.mealGroupId && events.some(other => other.id === event.mealGroupId) ? event.mealGroupId : event.id;
+};
+
+/**
+ * Group a day's dishes into meals, ordered by slot
+ * @param events - Meals planned on one day
+ * @param slots - The user's slots
+ * @returns One list of dishes per meal, main dish first
+ */
+export const groupMeals = (events: PlanEvent[], slots: MealSlot[]): PlanEvent[][] => {
+  const slotIndex = (event: PlanEvent) => slots.findIndex(slot => slot.id === getEventSlotId(event, slots));
+
+  return events
+    .filter(event => getMealGroupId(event, events) === event.id)
+    .sort((a, b) => slotIndex(a) - slotIndex(b))
+    .map(main => [main, ...events.filter(event => event.id !== main.id && getMealGroupId(event, events) === main.id)]);
+};
@@ -0,0 +1,190 @@
+// Nutrition Estimator - Works out nutrition values for planned meals
+// Uses the recipe's own nutrition data when it has any, and otherwise estimates
+// values from the meal type and keywords in the recipe title
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import type { Nutrient, Nutrition } from '../types/recipeTypes';
+
+/**
+ * Nutrition values for one serving of a meal, with where they came from
+ */
+export type MealNutrition = NonNullable<PlanEvent['nutrition']>;
+
+/**
+ * The recipe fields nutrition can be worked out from
+ */
+export interface NutritionRecipeData {
+  title?: string;
+  vegetarian?: boolean;
+  readyInMinutes?: number;
+  servings?: number;
+  nutrition?: Nutrition;
+}
+
+// Spoonacular nutrient names for each value a meal tracks
+const NUTRIENT_NAMES = {
+  calories: 'Calories',
+  protein: 'Protein',
+  carbs: 'Carbohydrates',
+  fat: 'Fat',
+  fiber: 'Fiber',
+  sodium: 'Sodium',
+  sugar: 'Sugar'
+} as const;
+
+/**
+ * Generate nutrition data based on recipe characteristics
+ * Creates realistic nutrition values when actual data is not available
+ * The result is labeled as an estimate so the UI can say so
+ */
+export const generateNutritionData = (recipe: { title?: string; vegetarian?: boolean; readyInMinutes?: number; servings?: number }, mealType: string): MealNutrition => {
+  // Base nutrition values for different meal types
+  const baseNutrition = {
+    breakfast: { calories: 350, protein: 15, carbs: 45, fat: 12 },
+    'main course': { calories: 500, protein: 22, carbs: 55, fat: 20 },
+    'side dish': { calories: 200, protein: 8, carbs: 25, fat: 8 },
+    dessert: { calories: 300, protein: 5, carbs: 45, fat: 12 },
+    snack: { calories: 200, protein: 8, carbs: 25, fat: 8 }
+  };
+
+  // Get base values for the meal type
+  const base = baseNutrition[mealType as keyof typeof baseNutrition] || baseNutrition['main course'];
+
+  // Start with base values
+  let calories = base.calories;
+  let protein = base.protein;
+  let carbs = base.carbs;
+  let fat = base.fat;
+
+  // Adjust based on recipe title/keywords
+  const title = recipe.title?.toLowerCase() || '';
+
+  // High protein indicators
+  if (title.includes('chicken') || title.includes('fish') || title.includes('salmon') ||
+    title.includes('beef') || title.includes('meat') || title.includes('protein')) {
+    protein += 10;
+    calories += 50;
+  }
+
+  // High carb indicators
+  if (title.includes('pasta') || title.includes('rice') || title.includes('bread') ||
+    title.includes('potato') || title.includes('noodle')) {
+    carbs += 15;
+    calories += 80;
+  }
+
+  // Low calorie indicators
+  if (title.includes('salad') || title.includes('soup') || title.includes('light') ||
+    title.includes('vegetable')) {
+    calories -= 100;
+    fat -= 5;
+  }
+
+  // High fat indicators
+  if (title.includes('cheese') || title.includes('cream') || title.includes('butter') ||
+    title.includes('fried') || title.includes('bacon')) {
+    fat += 8;
+    calories += 60;
+  }
+
+  // Vegetarian adjustments
+  if (recipe.vegetarian || title.includes('vegetarian') || title.includes('vegan')) {
+    protein -= 5;
+    carbs += 10;
+  }
+
+  // Quick/easy meal adjustments (usually lower calories)
+  if (recipe.readyInMinutes && recipe.readyInMinutes <= 15) {
+    calories -= 50;
+    protein -= 3;
+  }
+
+  // Servings adjustment
+  if (recipe.servings) {
+    const servingFactor = recipe.servings;
+    calories = Math.round(calories / servingFactor);
+    protein = Math.round(protein / servingFactor);
+    carbs = Math.round(carbs / servingFactor);
+    fat = Math.round(fat / servingFactor);
+  }
+
+  // Return nutrition data with minimum values
+  return {
+    calories: Math.max(150, Math.round(calories)),
+    protein: Math.max(5, Math.round(protein)),
+    carbs: Math.max(10, Math.round(carbs)),
+    fat: Math.max(3, Math.round(fat)),
+    source: 'estimate'
+  };
+};
+
+/**
+ * Turn a list of nutrients into meal nutrition values
+ * @param nutrients - Nutrients with Spoonacular names
+ * @param divisor - Number to divide every amount by (e.g. servings)
+ * @returns Rounded values, or null if the list has no calories
+ */
+const readNutrients = (nutrients: Nutrient[], divisor: number): Omit<MealNutrition, 'source'> | null => {
+  const totals = new Map<string, number>();
+  nutrients.forEach(nutrient => {
+    totals.set(nutrient.name, (totals.get(nutrient.name) || 0) + nutrient.amount);
+  });
+
+  if (!totals.has(NUTRIENT_NAMES.calories)) return null;
+
+  const read = (name: string) => Math.round((totals.get(name) || 0) / divisor);
+  const values: Omit<MealNutrition, 'source'> = {
+    calories: read(NUTRIENT_NAMES.calories),
+    protein: read(NUTRIENT_NAMES.protein),
+    carbs: read(NUTRIENT_NAMES.carbs),
+    fat: read(NUTRIENT_NAMES.fat)
+  };
+
+  // Only include the optional values the data actually has (Firestore rejects undefined)
+  (['fiber', 'sodium', 'sugar'] as const).forEach(key => {
+    if (totals.has(NUTRIENT_NAMES[key])) {
+      values[key] = read(NUTRIENT_NAMES[key]);
+    }
+  });
+
+  return values;
+};
+
+/**
+ * Get nutrition values for one serving of a recipe
+ * @param recipe - The recipe, with its Spoonacular nutrition data if available
+ * @param mealType - Meal type used for the estimate when the recipe has no nutrition data
+ * @returns Nutrition per serving, labeled with where it came from
+ *
+ * Uses the recipe's per-serving nutrient list first. Without one, the nutrients
+ * of its ingredients are added up and divided by the recipe's servings. Only when
+ * neither is available, or the recipe only has sample values, is the title-based
+ * estimate used.
+ */
+export function getRecipeNutrition(recipe: NutritionRecipeData, mealType: string): MealNutrition {
+  // Placeholder values of sample recipes are no better than the estimate
+  if (recipe.nutrition?.isSample) {
+    return generateNutritionData(recipe, mealType);
+  }
+
+  const fromRecipe = readNutrients(recipe.nutrition?.nutrients || [], 1);
+  if (fromRecipe) {
+    return { ...fromRecipe, source: 'recipe' };
+  }
+
+  const ingredientNutrients = (recipe.nutrition?.ingredients || []).flatMap(ingredient => ingredient.nutrients || []);
+  const fromIngredients = readNutrients(ingredientNutrients, Math.max(recipe.servings || 1, 1));
+  if (fromIngredients) {
+    return { ...fromIngredients, source: 'ingredients' };
+  }
+
+  return generateNutritionData(recipe, mealType);
+}
+
+/**
+ * Check whether nutrition values are only an estimate
+ * Meals saved before nutrition sources were tracked only ever had estimates
+ */
+export const isEstimatedNutrition = (nutrition: PlanEvent['nutrition']): boolean => {
+  return !nutrition || !nutrition.source || nutrition.source === 'estimate';
+};
@@ -0,0 +1,123 @@
+// Nutrition Goals - Daily nutrition goal presets and progress helpers
+// Every component that compares nutrition against a daily target reads the user's
+// goals through these helpers, so progress bars and color bands always agree
+
+import type { NutritionGoalKey, NutritionGoalPreset, NutritionGoals } from '../types/nutritionGoalTypes';
+import type { NutritionalStats } from '../context/PlanContextTypes';
+import type { Recipe } from '../types/recipeTypes';
+import { getRecipeNutrition } from './nutritionEstimator';
+
+/**
+ * Built-in goal presets the user can start from
+ */
+export const NUTRITION_GOAL_PRESETS: Record<Exclude<NutritionGoalPreset, 'custom'>, { label: string; description: string; goals: NutritionGoals }> = {
+  maintenance: {
+    label: 'Maintenance',
+    description: 'Keep your current weight',
+    goals: { preset: 'maintenance', calories: 2000, protein: 50, carbs: 275, fat: 55 }
+  },
+  cutting: {
+    label: 'Cutting',
+    description: 'Fewer calories with enough protein to keep muscle',
+    goals: { preset: 'cutting', calories: 1600, protein: 120, carbs: 150, fat: 50 }
+  },
+  'high-protein': {
+    label: 'High Protein',
+    description: 'Extra protein for training days',
+    goals: { preset: 'high-protein', calories: 2200, protein: 150, carbs: 220, fat: 70 }
+  }
+};
+
+// Goals used until the user picks their own
+export const DEFAULT_NUTRITION_GOALS: NutritionGoals = NUTRITION_GOAL_PRESETS.maintenance.goals;
+
+/**
+ * Display details for each goal
+ */
+export const NUTRITION_GOAL_FIELDS: { key: NutritionGoalKey; label: string; unit: string; optional: boolean }[] = [
+  { key: 'calories', label: 'Calories', unit: 'cal', optional: false },
+  { key: 'protein', label: 'Protein', unit: 'g', optional: false },
+  { key: 'carbs', label: 'Carbs', unit: 'g', optional: false },
+  { key: 'fat', label: 'Fat', unit: 'g', optional: false },
+  { key: 'fiber', label: 'Fiber', unit: 'g', optional: true },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', optional: true },
+  { key: 'sugar', label: 'Sugar', unit: 'g', optional: true }
+];
+
+/**
+ * Calculate how much of a daily goal a value covers
+ * @param value - Amount eaten or planned
+ * @param goal - Daily goal for the same nutrient
+ * @returns Percentage of the goal between 0 and 100
+ */
+export const getGoalPercentage = (value: number, goal: number | undefined): number => {
+  if (!goal) return 0;
+  return Math.min((value / goal) * 100, 100);
+};
+
+/**
+ * Get the color band for a percentage of a daily goal
+ * Green while well under the goal, then yellow, orange and red once it is reached
+ */
+export const getGoalColor = (percentage: number): string => {
+  if (percentage >= 100) return '#e74c3c'; // Red for over 100%
+  if (percentage >= 80) return '#f39c12';  // Orange for 80-99%
+  if (percentage >= 60) return '#f1c40f';  // Yellow for 60-79%
+  return '#546A04';                        // Green for under 60% (matches app's primary green)
+};
+
+/**
+ * Fill in goals loaded from storage
+ * Older or partial goal objects fall back to the default values
+ */
+export const normalizeNutritionGoals = (goals: Partial<NutritionGoals> | null | undefined): NutritionGoals => ({
+  ...DEFAULT_NUTRITION_GOALS,
+  ...(goals || {})
+});
+
+/**
+ * Get the calories and protein one more meal should bring to meet the day's goals
+ * What is left of the goals is shared evenly between the slots that have no meal yet
+ * @param goals - The user's daily goals
+ * @param planned - Nutrition of the meals already planned that day, per person
+ * @param openSlots - Slots of the day still to fill, the one being filled included
+ */
+export const getMealNutritionTarget = (
+  goals: NutritionGoals,
+  planned: Pick<NutritionalStats, 'calories' | 'protein'>,
+  openSlots: number
+): { calories: number; protein: number } => {
+  const slots = Math.max(openSlots, 1);
+  return {
+    calories: Math.max(goals.calories - planned.calories, 0) / slots,
+    protein: Math.max(goals.protein - planned.protein, 0) / slots
+  };
+};
+
+/**
+ * Order recipes by how well they fit a meal's nutrition target
+ * @param recipes - Recipes to choose from, in relevance order
+ * @param target - Calories and protein the meal should bring
+ * @param mealType - Meal type the recipes are planned as, for recipes without nutrition data
+ * @returns The recipes, closest to the target first; equally close recipes keep their order
+ *
+ * Calories count by how far they are from the target, as a share of it; protein only
+ * counts when the recipe falls short of it, as more protein rarely hurts.
+ */
+export const rankRecipesForTarget = (
+  recipes: Recipe[],
+  target: { calories: number; protein: number },
+  mealType: string
+): Recipe[] => {
+  const getDistance = (recipe: Recipe) => {
+    const nutrition = getRecipeNutrition(recipe, mealType);
+    const caloriesOff = target.calories > 0 ? Math.abs(nutrition.calories - target.calories) / target.calories : 0;
+    const proteinShort = target.protein > 0 ? Math.max(target.protein - nutrition.protein, 0) / target.protein : 0;
+    return caloriesOff + proteinShort;
+  };
+
+  return recipes
+    .map((recipe, index) => ({ recipe, index, distance: getDistance(recipe) }))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index)
+    .map(({ recipe }) => recipe);
+};
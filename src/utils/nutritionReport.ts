@@ -0,0 +1,134 @@
+// Nutrition Report - Aggregates planned nutrition over a date range
+// Builds the per-day series, averages, goal adherence and macro split
+// shown in the weekly and monthly nutrition reports
+
+import type { DailyNutritionSummary, NutritionReport, NutritionalStats, PlanEvent } from '../context/PlanContextTypes';
+import type { NutritionGoals } from '../types/nutritionGoalTypes';
+import { addDays, daysBetween } from './dateUtils';
+import { getServingsPerPerson } from './servings';
+
+// How far a day's total may be from the goal and still count as on target
+const GOAL_TOLERANCE = 0.1;
+
+// Calories per gram of each macronutrient
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+/**
+ * Create nutrition totals with every value set to zero
+ */
+export const createEmptyStats = (): NutritionalStats => ({
+  calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sodium: 0, sugar: 0
+});
+
+/**
+ * Add one meal's nutrition to running totals
+ * @param stats - Totals to add to (changed in place)
+ * @param nutrition - The meal's nutrition per serving, if it has any
+ * @param servings - Servings eaten, which the nutrition is multiplied by
+ */
+export const addNutrition = (stats: NutritionalStats, nutrition: PlanEvent['nutrition'], servings: number = 1): NutritionalStats => {
+  if (nutrition) {
+    stats.calories += nutrition.calories * servings;
+    stats.protein += nutrition.protein * servings;
+    stats.carbs += nutrition.carbs * servings;
+    stats.fat += nutrition.fat * servings;
+    stats.fiber += (nutrition.fiber || 0) * servings;
+    stats.sodium += (nutrition.sodium || 0) * servings;
+    stats.sugar += (nutrition.sugar || 0) * servings;
+  }
+  return stats;
+};
+
+/**
+ * Add up the nutrition each person eats from a set of meals
+ * @param events - The meals
+ * @param householdSize - The user's household size, or null when it isn't set
+ * @returns Totals per person, with each meal scaled by its planned servings
+ */
+export const sumMealNutrition = (events: PlanEvent[], householdSize: number | null): NutritionalStats => {
+  return events.reduce(
+    (stats, event) => addNutrition(stats, event.nutrition, getServingsPerPerson(event, householdSize)),
+    createEmptyStats()
+  );
+};
+
+/**
+ * Check whether a day's value is on target for a goal
+ * Protein only needs to reach the goal; the others must stay within the tolerance either side
+ */
+const isOnTarget = (value: number, goal: number, allowAbove: boolean): boolean => {
+  if (!goal) return false;
+  const ratio = value / goal;
+  return ratio >= 1 - GOAL_TOLERANCE && (allowAbove || ratio <= 1 + GOAL_TOLERANCE);
+};
+
+/**
+ * Build a nutrition report for a date range
+ * @param events - Meals in the range, with recurring meals already expanded
+ * @param startDate - First day of the report (YYYY-MM-DD)
+ * @param endDate - Last day of the report (YYYY-MM-DD)
+ * @param goals - The user's daily nutrition goals
+ * @param householdSize - The user's household size, used to scale meals by their planned servings
+ * @returns Per-day totals per person plus averages, adherence and macro split
+ */
+export const buildNutritionReport = (
+  events: PlanEvent[],
+  startDate: string,
+  endDate: string,
+  goals: NutritionGoals,
+  householdSize: number | null = null
+): NutritionReport => {
+  const dayCount = Math.max(daysBetween(startDate, endDate) + 1, 0);
+  const days: DailyNutritionSummary[] = Array.from({ length: dayCount }, (_, index) => {
+    const date = addDays(startDate, index);
+    const dayEvents = events.filter(event => event.date === date);
+    return {
+      date,
+      mealCount: dayEvents.length,
+      stats: sumMealNutrition(dayEvents, householdSize)
+    };
+  });
+
+  const plannedDays = days.filter(day => day.mealCount > 0);
+  const totals = plannedDays.reduce((stats, day) => addNutrition(stats, day.stats), createEmptyStats());
+
+  const averages = createEmptyStats();
+  (Object.keys(averages) as (keyof NutritionalStats)[]).forEach(key => {
+    averages[key] = plannedDays.length > 0 ? Math.round(totals[key] / plannedDays.length) : 0;
+  });
+
+  const getAdherence = (key: 'calories' | 'protein' | 'carbs' | 'fat') => {
+    if (plannedDays.length === 0) return 0;
+    const onTarget = plannedDays.filter(day => isOnTarget(day.stats[key], goals[key], key === 'protein')).length;
+    return Math.round((onTarget / plannedDays.length) * 100);
+  };
+
+  // Split calories the same way as a recipe's caloric breakdown
+  const macroCalories = {
+    protein: totals.protein * CALORIES_PER_GRAM.protein,
+    carbs: totals.carbs * CALORIES_PER_GRAM.carbs,
+    fat: totals.fat * CALORIES_PER_GRAM.fat
+  };
+  const macroTotal = macroCalories.protein + macroCalories.carbs + macroCalories.fat;
+  const getShare = (value: number) => macroTotal > 0 ? Math.round((value / macroTotal) * 100) : 0;
+
+  return {
+    startDate,
+    endDate,
+    days,
+    plannedDays: plannedDays.length,
+    totals,
+    averages,
+    adherence: {
+      calories: getAdherence('calories'),
+      protein: getAdherence('protein'),
+      carbs: getAdherence('carbs'),
+      fat: getAdherence('fat')
+    },
+    macroSplit: {
+      percentProtein: getShare(macroCalories.protein),
+      percentCarbs: getShare(macroCalories.carbs),
+      percentFat: getShare(macroCalories.fat)
+    }
+  };
+};
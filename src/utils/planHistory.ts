@@ -0,0 +1,58 @@
+// Plan History - Helpers for undoing and redoing meal plan edits
+// Each history entry keeps only the events a change touched, so undoing it leaves
+// meals changed meanwhile (e.g. on another device) alone
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import type { EventChange } from '../types/planHistoryTypes';
+
+// Most changes kept in the undo history
+export const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * List the events that differ between two versions of a list
+ * @param before - The events before the change
+ * @param after - The events after the change
+ * @returns One change per added, removed or changed event
+ *
+ * Events are compared by reference, since every edit creates a new event object.
+ */
+export const diffEvents = (before: PlanEvent[], after: PlanEvent[]): EventChange[] => {
+  const beforeById = new Map(before.map(event => [event.id, event]));
+  const afterById = new Map(after.map(event => [event.id, event]));
+
+  return [
+    ...before
+      .filter(event => afterById.get(event.id) !== event)
+      .map(event => ({ before: event, after: afterById.get(event.id) || null })),
+    ...after
+      .filter(event => !beforeById.has(event.id))
+      .map(event => ({ before: null, after: event }))
+  ];
+};
+
+/**
+ * Apply changes to a list of events, either forwards (redo) or backwards (undo)
+ * @param events - The current events
+ * @param changes - Changes recorded in a history entry
+ * @param direction - 'undo' puts back the events from before the change, 'redo' the ones from after it
+ * @returns The events with the change applied; events the change didn't touch are kept as they are
+ */
+export const applyEventChanges = (
+  events: PlanEvent[],
+  changes: EventChange[],
+  direction: 'undo' | 'redo'
+): PlanEvent[] => {
+  const targetById = new Map(changes.map(change => {
+    const target = direction === 'undo' ? change.before : change.after;
+    const id = (change.before || change.after)!.id;
+    return [id, target] as const;
+  }));
+
+  return [
+    ...events
+      .filter(event => !targetById.has(event.id) || targetById.get(event.id))
+      .map(event => targetById.get(event.id) || event),
+    ...[...targetById.values()].filter((event): event is PlanEvent =>
+      !!event && !events.some(current => current.id === event.id))
+  ];
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { PlanEvent } from '../context/PlanContextTypes';
+import { applyTemplateMeals, createTemplateMeals } from './planTemplates';
+
+const makeEvent = (id: string, date: string, fields: Partial<PlanEvent> = {}): PlanEvent => ({
+  id,
+  title: `Meal ${id}`,
+  date,
+  recipeId: Number(id),
+  mealType: 'main course',
+  planId: 'work-week',
+  ...fields
+});
+
+// Creates IDs the way the planner does, one after another
+const makeIdCreator = () => {
+  let lastId = 100;
+  return () => (++lastId).toString();
+};
+
+// Last week of the "work-week" plan: a batch-cooked curry with its leftover, and a main with its side
+const lastWeek: PlanEvent[] = [
+  makeEvent('1', '2026-10-12', { makesLeftovers: true, portions: 4 }),
+  makeEvent('2', '2026-10-13', { leftoverOf: '1', portions: 2 }),
+  makeEvent('3', '2026-10-14', { slot: 'dinner' }),
+  makeEvent('4', '2026-10-14', { slot: 'dinner', mealType: 'side dish', mealGroupId: '3' }),
+  makeEvent('5', '2026-10-15', { leftoverOf: '0', mealGroupId: '0', trashedAt: 1 })
+];
+
+describe('copying a week of meals', () => {
+  const copied = applyTemplateMeals(createTemplateMeals(lastWeek, '2026-10-12'), '2026-10-19', makeIdCreator());
+  const byTitle = (title: string) => copied.find(event => event.title === title)!;
+
+  it('gives every meal a new ID and moves it by the same number of days', () => {
+    expect(copied.map(event => event.id)).toEqual(['101', '102', '103', '104', '105']);
+    expect(copied.map(event => event.date)).toEqual(['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-21', '2026-10-22']);
+  });
+
+  it('does not keep the plan the meals came from, so they land in the active plan', () => {
+    expect(copied.every(event => !('planId' in event) && !('trashedAt' in event))).toBe(true);
+  });
+
+  it('links leftovers and grouped dishes to the new copies', () => {
+    expect(byTitle('Meal 1').makesLeftovers).toBe(true);
+    expect(byTitle('Meal 2').leftoverOf).toBe(byTitle('Meal 1').id);
+    expect(byTitle('Meal 4').mealGroupId).toBe(byTitle('Meal 3').id);
+  });
+
+  it('drops links to meals that were not copied', () => {
+    expect(byTitle('Meal 5')).not.toHaveProperty('leftoverOf');
+    expect(byTitle('Meal 5')).not.toHaveProperty('mealGroupId');
+  });
+
+  it('links a template applied twice to each copy of its own meals', () => {
+    const template = createTemplateMeals(lastWeek, '2026-10-12');
+    const createId = makeIdCreator();
+    const [firstCopy, secondCopy] = ['2026-10-19', '2026-10-26'].map(start => applyTemplateMeals(template, start, createId));
+
+    expect(secondCopy[1].leftoverOf).toBe(secondCopy[0].id);
+    expect(secondCopy[1].leftoverOf).not.toBe(firstCopy[0].id);
+  });
+});
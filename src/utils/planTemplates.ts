@@ -0,0 +1,108 @@
+// Plan Template Utilities - Converts between dated plan events and reusable templates
+// A template stores each meal with its day offset from the start of the saved range,
+// so it can be applied to any start date with the dates shifted accordingly
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import type { TemplateMeal } from '../types/planTemplateTypes';
+import type { MealSlot } from '../types/mealSlotTypes';
+import { addDays, daysBetween } from './dateUtils';
+import { detachOccurrence } from './recurrence';
+import { getEventSlotId } from './mealSlots';
+
+/**
+ * Remove fields that are explicitly undefined
+ * @param value - Object to clean
+ * @returns A copy without undefined fields
+ *
+ * Firestore rejects documents that contain undefined values.
+ */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)
+  ) as T;
+}
+
+/**
+ * Turn the events of a date range into template meals
+ * @param events - Events in the range, with recurring meals already expanded
+ * @param startDate - First date of the range (YYYY-MM-DD)
+ * @returns Meals with their day offset from the start date
+ *
+ * Recurring meals are saved as plain meals on the days they fall on,
+ * so applying the template never creates a new series. Meals don't keep their plan,
+ * so they land in whichever plan is active when applied. Leftovers and grouped dishes
+ * keep their link through meal keys, as long as the meal they point to is in the range.
+ */
+export function createTemplateMeals(events: PlanEvent[], startDate: string): TemplateMeal[] {
+  const keys = new Set(events.map(event => event.id));
+  const linkedKey = (id: string | undefined) => id && keys.has(id) ? id : undefined;
+
+  return events.map(event => {
+    const meal: Partial<PlanEvent> = detachOccurrence(event, event.date);
+    delete meal.id;
+    delete meal.date;
+    delete meal.planId;
+    delete meal.trashedAt;
+    return withoutUndefined({
+      ...meal,
+      mealKey: event.id,
+      leftoverOf: linkedKey(event.leftoverOf),
+      mealGroupId: linkedKey(event.mealGroupId),
+      dayOffset: daysBetween(startDate, event.date)
+    } as TemplateMeal);
+  });
+}
+
+/**
+ * Place template meals on the calendar starting from a date
+ * @param meals - Meals from a template
+ * @param startDate - Date the first day of the template should land on (YYYY-MM-DD)
+ * @param createId - Creates the ID of each new meal
+ * @returns New plan events, ready to be added to the plan
+ *
+ * Every meal gets a new ID, and leftovers and grouped dishes point to the new copies
+ * of their meals, never to the meals the template was saved from. Links to meals the
+ * template doesn't have are dropped.
+ */
+export function applyTemplateMeals(meals: TemplateMeal[], startDate: string, createId: () => string): PlanEvent[] {
+  const newIds = meals.map(() => createId());
+  const getNewId = (mealKey: string | undefined) => {
+    const index = mealKey ? meals.findIndex(meal => meal.mealKey === mealKey) : -1;
+    return index >= 0 ? newIds[index] : undefined;
+  };
+
+  return meals.map((templateMeal, index) => {
+    const { dayOffset, leftoverOf, mealGroupId, ...meal } = templateMeal;
+    delete meal.mealKey;
+    return withoutUndefined({
+      ...meal,
+      id: newIds[index],
+      date: addDays(startDate, dayOffset),
+      leftoverOf: getNewId(leftoverOf),
+      mealGroupId: getNewId(mealGroupId)
+    });
+  });
+}
+
+/**
+ * Check whether a meal is already planned
+ * @param events - Events already on the plan for the relevant dates
+ * @param meal - The meal about to be added
+ * @param slots - The user's meal slots, to place meals without a slot
+ * @returns True if the same recipe is planned for the same date, slot and meal type
+ *
+ * Used for every way of adding meals: a single recipe, dropped recipes, templates and imports.
+ */
+export function isMealAlreadyPlanned(
+  events: PlanEvent[],
+  meal: Pick<PlanEvent, 'recipeId' | 'date' | 'mealType' | 'slot'>,
+  slots: MealSlot[]
+): boolean {
+  const slotId = getEventSlotId(meal, slots);
+  return events.some(event =>
+    event.recipeId === meal.recipeId &&
+    event.date === meal.date &&
+    event.mealType === meal.mealType &&
+    getEventSlotId(event, slots) === slotId
+  );
+}
@@ -25,7 +25,7 @@ export function mapPreferencesToSearchParams(preferences: UserPreferences): Part
   const searchParams: Partial<RecipeSearchParams> = {};
 
   // Map dietary restrictions to diet parameter
-  // If user selected dietary restrictions, use the first one as the main diet filter
+  // Every restriction the user selected is listed, and recipes have to fit all of them
   if (preferences.dietaryRestrictions.length > 0) {
     const mappedDiet = mapDietaryRestrictionsToDiet(preferences.dietaryRestrictions);
     if (mappedDiet) {
@@ -34,12 +34,13 @@ export function mapPreferencesToSearchParams(preferences: UserPreferences): Part
   }
 
   // Map cuisine preferences to cuisine parameter
-  // If user selected cuisine preferences, use the first one as the main cuisine filter
+  // Every cuisine the user likes is listed, and recipes from any of them are found
   if (preferences.cuisinePreferences.length > 0) {
-    const primaryCuisine = preferences.cuisinePreferences[0];
-    const mappedCuisine = mapCuisinePreferenceToCuisine(primaryCuisine);
-    if (mappedCuisine) {
-      searchParams.cuisine = mappedCuisine;
+    const mappedCuisines = preferences.cuisinePreferences
+      .map(mapCuisinePreferenceToCuisine)
+      .filter((cuisine): cuisine is string => !!cuisine);
+    if (mappedCuisines.length > 0) {
+      searchParams.cuisine = mappedCuisines.join(',');
     }
   }
 
@@ -86,21 +87,17 @@ export function convertTimePreferenceToMaxTime(timePreference: string): number |
 /**
  * Maps dietary restrictions to Spoonacular diet parameter
  * @param dietaryRestrictions - Array of dietary restriction strings
- * @returns Mapped diet string or undefined
+ * @returns Comma-separated diets (all of which have to apply) or undefined
  * 
- * This function takes dietary restrictions and maps them to the format
- * that the recipe API expects. For now, it returns the original value
- * since our mock data uses exact matches.
- * 
- * ⚠️ Possibly unused - please double check
+ * This function takes dietary restrictions and lists them the way the diet
+ * parameter expects, e.g. "Vegetarian,Gluten-Free". The recipe providers turn
+ * the names into the API's own (e.g. "Keto" into "ketogenic") when they search.
  */
 export function mapDietaryRestrictionsToDiet(dietaryRestrictions: string[]): string | undefined {
-  if (dietaryRestrictions.length === 0) return undefined;
+  const diets = dietaryRestrictions.map(diet => diet.trim()).filter(diet => diet.length > 0);
+  if (diets.length === 0) return undefined;
 
-  // For local filter service, return the original value since mock data uses exact matches
-  // For API calls, this would map to lowercase values
-  const primaryDiet = dietaryRestrictions[0];
-  return primaryDiet;
+  return Array.from(new Set(diets)).join(',');
 }
 
 /**
@@ -0,0 +1,60 @@
+// Recipe Drag - Carries recipes dragged from the planning sidebar onto the plan calendar
+// Dragged meals only carry their event ID, so recipes use their own data type; the calendar
+// tells the two apart while dragging and turns a dropped recipe into a new meal.
+
+import type { Nutrition, Recipe } from '../types/recipeTypes';
+
+// Data type of a dragged recipe, next to 'text/plain' used for dragged meals
+export const RECIPE_DRAG_TYPE = 'application/x-cravrplan-recipe';
+
+/**
+ * The parts of a recipe needed to plan it, as carried by a drag
+ */
+export type DraggedRecipe = Pick<Recipe, 'id' | 'title' | 'image' | 'dishTypes'> &
+  Partial<Pick<Recipe, 'readyInMinutes' | 'servings' | 'pricePerServing' | 'cheap'>> & {
+    nutrition?: Nutrition;  // Spoonacular nutrition data, used for the meal's nutrition when present
+  };
+
+/**
+ * Start dragging a recipe
+ * @param dataTransfer - The drag's data transfer
+ * @param recipe - The recipe being dragged
+ */
+export const setRecipeDragData = (dataTransfer: DataTransfer, recipe: DraggedRecipe): void => {
+  const dragged: DraggedRecipe = {
+    id: recipe.id,
+    title: recipe.title,
+    image: recipe.image,
+    dishTypes: recipe.dishTypes || [],
+    readyInMinutes: recipe.readyInMinutes,
+    servings: recipe.servings,
+    pricePerServing: recipe.pricePerServing,
+    cheap: recipe.cheap,
+    nutrition: recipe.nutrition
+  };
+  dataTransfer.setData(RECIPE_DRAG_TYPE, JSON.stringify(dragged));
+  dataTransfer.effectAllowed = 'copy';
+};
+
+/**
+ * Check whether a drag carries a recipe
+ * Only the data types can be read until the drop, so this works while dragging over the calendar
+ */
+export const isRecipeDrag = (dataTransfer: DataTransfer): boolean => {
+  return Array.from(dataTransfer.types).includes(RECIPE_DRAG_TYPE);
+};
+
+/**
+ * Read the recipe carried by a dropped drag
+ * @returns The recipe, or null when the drag doesn't carry one
+ */
+export const getDraggedRecipe = (dataTransfer: DataTransfer): DraggedRecipe | null => {
+  const data = dataTransfer.getData(RECIPE_DRAG_TYPE);
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as DraggedRecipe;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { Recipe } from '../types/recipeTypes';
+import type { RecipeFacetValue } from '../types/recipeFacetTypes';
+import {
+  computeRecipeFacets,
+  getFacetKey,
+  getMaxReadyTimeForFacets,
+  matchesFacetSelections,
+  mergeRecipeFacets,
+  toggleFacetValue
+} from './recipeFacets';
+
+const makeRecipe = (id: number, fields: Partial<Recipe>): Recipe => ({
+  id,
+  title: `Recipe ${id}`,
+  cuisines: [],
+  diets: [],
+  dishTypes: [],
+  readyInMinutes: 20,
+  healthScore: 60,
+  pricePerServing: 300,
+  ...fields
+} as Recipe);
+
+const recipes = [
+  makeRecipe(1, { cuisines: ['Italian'], diets: ['vegetarian'], readyInMinutes: 10 }),
+  makeRecipe(2, { cuisines: ['Italian'], diets: ['vegetarian', 'vegan'], readyInMinutes: 45 }),
+  makeRecipe(3, { cuisines: ['Mexican'], diets: ['gluten free'], readyInMinutes: 25, pricePerServing: 1200 }),
+  makeRecipe(4, { cuisines: ['Italian', 'Mediterranean'], diets: ['vegetarian'], readyInMinutes: 90 })
+];
+
+// Counts of a facet's values, by value key
+const toCounts = (values: RecipeFacetValue[]) => Object.fromEntries(values.map(value => [value.value, value.count]));
+
+describe('computeRecipeFacets', () => {
+  it('counts every value of the results, most common first', () => {
+    const facets = computeRecipeFacets(recipes);
+    expect(facets.cuisines.map(value => value.label)).toEqual(['Italian', 'Mediterranean', 'Mexican']);
+    expect(toCounts(facets.cuisines)).toEqual({ italian: 3, mediterranean: 1, mexican: 1 });
+  });
+
+  it('keeps ranges in their natural order', () => {
+    const facets = computeRecipeFacets(recipes);
+    expect(facets.readyTime.map(value => value.value)).toEqual(['0-15', '15-30', '30-60', '60+']);
+    expect(toCounts(facets.price)).toEqual({ '200-500': 3, '1000+': 1 });
+  });
+
+  it('counts the other values of an any-match facet as if they were picked too', () => {
+    const facets = computeRecipeFacets(recipes, { cuisines: ['mexican'] });
+    expect(toCounts(facets.cuisines)).toEqual({ italian: 3, mediterranean: 1, mexican: 1 });
+    // Other facets only count the results that are left
+    expect(toCounts(facets.diets)).toEqual({ 'gluten free': 1 });
+  });
+
+  it('counts diets within the results, as every picked diet has to apply', () => {
+    const facets = computeRecipeFacets(recipes, { diets: ['vegetarian'] });
+    expect(toCounts(facets.diets)).toEqual({ vegetarian: 3, vegan: 1 });
+  });
+
+  it('keeps picked values that no result has, so they can be unpicked', () => {
+    const facets = computeRecipeFacets(recipes, { cuisines: ['thai'], readyTime: ['0-15'] });
+    expect(facets.cuisines.find(value => value.value === 'thai')).toEqual({ value: 'thai', label: 'thai', count: 0 });
+    expect(facets.readyTime.find(value => value.value === '0-15')?.label).toBe('Under 15 min');
+  });
+
+  it('does not check facets the source already filtered by', () => {
+    // Recipe 3 was returned for "italian" by a source that reads cuisines its own way
+    const facets = computeRecipeFacets(recipes, { cuisines: ['italian'] }, ['cuisines']);
+    expect(toCounts(facets.diets)).toEqual({ vegetarian: 3, vegan: 1, 'gluten free': 1 });
+  });
+});
+
+describe('matchesFacetSelections', () => {
+  it('matches any picked cuisine but every picked diet', () => {
+    const matching = (selections: Parameters<typeof matchesFacetSelections>[1]) =>
+      recipes.filter(recipe => matchesFacetSelections(recipe, selections)).map(recipe => recipe.id);
+
+    expect(matching({ cuisines: ['mexican', 'mediterranean'] })).toEqual([3, 4]);
+    expect(matching({ diets: ['vegetarian', 'vegan'] })).toEqual([2]);
+    expect(matching({ cuisines: ['italian'], readyTime: ['0-15', '60+'] })).toEqual([1, 4]);
+  });
+});
+
+describe('mergeRecipeFacets', () => {
+  it('adds up the counts of each value', () => {
+    const merged = mergeRecipeFacets([computeRecipeFacets(recipes.slice(0, 2)), computeRecipeFacets(recipes.slice(2))]);
+    expect(merged).toEqual(computeRecipeFacets(recipes));
+  });
+});
+
+describe('facet selections', () => {
+  it('reads values the way users and recipes write them', () => {
+    expect(getFacetKey('diets', 'Gluten-Free')).toBe('gluten free');
+    expect(getFacetKey('readyTime', '15–30 min')).toBe('15-30');
+    expect(getFacetKey('readyTime', '15-30')).toBe('15-30');
+  });
+
+  it('drops facets once their last value is unpicked', () => {
+    const picked = toggleFacetValue({}, 'cuisines', 'italian');
+    expect(picked).toEqual({ cuisines: ['italian'] });
+    expect(toggleFacetValue(picked, 'cuisines', 'italian')).toEqual({});
+  });
+
+  it('gets the longest ready time the picked ranges allow', () => {
+    expect(getMaxReadyTimeForFacets({ readyTime: ['0-15', '15-30'] })).toBe(30);
+    expect(getMaxReadyTimeForFacets({ readyTime: ['0-15', '60+'] })).toBeUndefined();
+    expect(getMaxReadyTimeForFacets({})).toBeUndefined();
+  });
+});
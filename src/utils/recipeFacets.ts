@@ -0,0 +1,266 @@
+// Recipe Facets - Counts search results by cuisine, diet, dish type, time, health score and price
+// Picking several values of a facet widens the results (Italian or Mexican), except for diets,
+// where every picked diet has to apply. Counts show how many results each value would give.
+
+import type { Recipe } from '../types/recipeTypes';
+import type { RecipeFacetId, RecipeFacets, RecipeFacetSelections, RecipeFacetValue } from '../types/recipeFacetTypes';
+
+/**
+ * A range of numbers a recipe value can fall in, e.g. 15 to 30 minutes
+ */
+interface FacetRange {
+  value: string;   // Key of the range
+  label: string;   // Name shown to users
+  min: number;     // Lowest value in the range
+  max: number;     // First value above the range
+}
+
+/**
+ * How a facet reads its values from recipes
+ */
+interface FacetDefinition {
+  id: RecipeFacetId;
+  title: string;                           // Heading shown above the facet's values
+  matchAll: boolean;                       // Whether recipes need every picked value instead of any
+  ranges?: FacetRange[];                   // Fixed ranges, for facets over a number
+  getValues: (recipe: Recipe) => string[]; // Values of a recipe, as shown to users
+}
+
+// Ready time ranges in minutes
+const READY_TIME_RANGES: FacetRange[] = [
+  { value: '0-15', label: 'Under 15 min', min: 0, max: 15 },
+  { value: '15-30', label: '15–30 min', min: 15, max: 30 },
+  { value: '30-60', label: '30–60 min', min: 30, max: 60 },
+  { value: '60+', label: 'Over 1 hour', min: 60, max: Infinity }
+];
+
+// Health score ranges (0-100)
+const HEALTH_SCORE_RANGES: FacetRange[] = [
+  { value: '0-50', label: 'Under 50', min: 0, max: 50 },
+  { value: '50-75', label: '50–74', min: 50, max: 75 },
+  { value: '75+', label: '75 and up', min: 75, max: Infinity }
+];
+
+// Price per serving ranges in US cents
+const PRICE_RANGES: FacetRange[] = [
+  { value: '0-200', label: 'Under $2', min: 0, max: 200 },
+  { value: '200-500', label: '$2–$5', min: 200, max: 500 },
+  { value: '500-1000', label: '$5–$10', min: 500, max: 1000 },
+  { value: '1000+', label: '$10 and up', min: 1000, max: Infinity }
+];
+
+/**
+ * Get the labels of the ranges a number falls in
+ */
+const getRangeLabels = (ranges: FacetRange[], amount: number | undefined): string[] => {
+  if (amount === undefined || amount === null || Number.isNaN(amount)) return [];
+  return ranges.filter(range => amount >= range.min && amount < range.max).map(range => range.label);
+};
+
+// Every facet, in the order they are shown
+export const FACET_DEFINITIONS: FacetDefinition[] = [
+  { id: 'cuisines', title: 'Cuisine', matchAll: false, getValues: recipe => recipe.cuisines || [] },
+  { id: 'diets', title: 'Diet', matchAll: true, getValues: recipe => recipe.diets || [] },
+  { id: 'dishTypes', title: 'Meal Type', matchAll: false, getValues: recipe => recipe.dishTypes || [] },
+  {
+    id: 'readyTime',
+    title: 'Time',
+    matchAll: false,
+    ranges: READY_TIME_RANGES,
+    getValues: recipe => getRangeLabels(READY_TIME_RANGES, recipe.readyInMinutes)
+  },
+  {
+    id: 'healthScore',
+    title: 'Health Score',
+    matchAll: false,
+    ranges: HEALTH_SCORE_RANGES,
+    getValues: recipe => getRangeLabels(HEALTH_SCORE_RANGES, recipe.healthScore)
+  },
+  {
+    id: 'price',
+    title: 'Price per Serving',
+    matchAll: false,
+    ranges: PRICE_RANGES,
+    getValues: recipe => getRangeLabels(PRICE_RANGES, recipe.pricePerServing)
+  }
+];
+
+/**
+ * Turn a value shown to users into the key used to pick it
+ * e.g. "Gluten-Free" and "gluten free" both become "gluten free"
+ * @param facet - The facet the value belongs to
+ * @param label - The value as shown to users
+ */
+const toFacetKey = (facet: FacetDefinition, label: string): string => {
+  const range = facet.ranges?.find(candidate => candidate.label === label);
+  return range ? range.value : label.trim().toLowerCase().replace(/[-_]+/g, ' ');
+};
+
+/**
+ * Get the key of a value for picking it in a facet, e.g. "gluten free" for the diet "Gluten-Free"
+ * @param facetId - The facet the value belongs to
+ * @param label - The value as shown to users, or a range key like "15-30"
+ */
+export const getFacetKey = (facetId: RecipeFacetId, label: string): string => {
+  const facet = FACET_DEFINITIONS.find(definition => definition.id === facetId)!;
+  return facet.ranges?.some(range => range.value === label) ? label : toFacetKey(facet, label);
+};
+
+/**
+ * Get the keys of a recipe's values in a facet
+ */
+const getRecipeFacetKeys = (facet: FacetDefinition, recipe: Recipe): string[] => {
+  return facet.getValues(recipe).map(label => toFacetKey(facet, label));
+};
+
+/**
+ * Check whether a recipe has the values picked in one facet
+ * @returns True when nothing is picked in the facet
+ */
+const matchesFacet = (facet: FacetDefinition, recipe: Recipe, picked: string[] | undefined): boolean => {
+  if (!picked || picked.length === 0) return true;
+
+  const keys = getRecipeFacetKeys(facet, recipe);
+  return facet.matchAll ? picked.every(value => keys.includes(value)) : picked.some(value => keys.includes(value));
+};
+
+/**
+ * Check whether a recipe has the values picked in every facet
+ * @param recipe - The recipe to check
+ * @param selections - Values picked in each facet
+ * @param ignoredFacet - Facet to leave out, used when counting that facet's values
+ */
+export const matchesFacetSelections = (
+  recipe: Recipe,
+  selections: RecipeFacetSelections | undefined,
+  ignoredFacet?: RecipeFacetId
+): boolean => {
+  if (!selections) return true;
+  return FACET_DEFINITIONS.every(facet => facet.id === ignoredFacet || matchesFacet(facet, recipe, selections[facet.id]));
+};
+
+/**
+ * Leave some facets out of the selections
+ * @param selections - Values picked in each facet
+ * @param facetIds - Facets to leave out
+ */
+export const withoutFacets = (selections: RecipeFacetSelections, facetIds: RecipeFacetId[]): RecipeFacetSelections => {
+  const remaining = { ...selections };
+  facetIds.forEach(facetId => delete remaining[facetId]);
+  return remaining;
+};
+
+/**
+ * Order a facet's values: ranges in their natural order, other values most common first
+ */
+const sortFacetValues = (facet: FacetDefinition, values: RecipeFacetValue[]): RecipeFacetValue[] => {
+  if (facet.ranges) {
+    const order = facet.ranges.map(range => range.value);
+    return values.sort((a, b) => order.indexOf(a.value) - order.indexOf(b.value));
+  }
+  return values.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+/**
+ * Count the values of every facet in a set of results
+ * Counts say how many results there would be with the value picked: values of facets where any
+ * value may match are counted without the facet's own picks, diets are counted within the results.
+ * @param recipes - Results before the facet selections are applied
+ * @param selections - Values picked in each facet
+ * @param appliedFacets - Facets the results were already filtered by at their source, e.g. by the API
+ * @returns Each facet's values with counts; picked values are always included, even with no results
+ */
+export const computeRecipeFacets = (
+  recipes: Recipe[],
+  selections: RecipeFacetSelections = {},
+  appliedFacets: RecipeFacetId[] = []
+): RecipeFacets => {
+  const facets = {} as RecipeFacets;
+  const checkedSelections = withoutFacets(selections, appliedFacets);
+
+  FACET_DEFINITIONS.forEach(facet => {
+    const counted = recipes.filter(recipe =>
+      matchesFacetSelections(recipe, checkedSelections, facet.matchAll ? undefined : facet.id)
+    );
+
+    const values = new Map<string, RecipeFacetValue>();
+    counted.forEach(recipe => {
+      const recipeKeys = new Set<string>();
+      facet.getValues(recipe).forEach(label => {
+        const value = toFacetKey(facet, label);
+        if (recipeKeys.has(value)) return;
+        recipeKeys.add(value);
+
+        const existing = values.get(value);
+        values.set(value, { value, label: existing?.label || label, count: (existing?.count || 0) + 1 });
+      });
+    });
+
+    // Picked values stay visible so they can be unpicked
+    (selections[facet.id] || []).forEach(value => {
+      if (!values.has(value)) {
+        const range = facet.ranges?.find(candidate => candidate.value === value);
+        values.set(value, { value, label: range?.label || value, count: 0 });
+      }
+    });
+
+    facets[facet.id] = sortFacetValues(facet, Array.from(values.values()));
+  });
+
+  return facets;
+};
+
+/**
+ * Add up the facet counts of results from several sources
+ * @param facetsList - Facets of each source's results
+ */
+export const mergeRecipeFacets = (facetsList: RecipeFacets[]): RecipeFacets => {
+  const merged = {} as RecipeFacets;
+
+  FACET_DEFINITIONS.forEach(facet => {
+    const values = new Map<string, RecipeFacetValue>();
+    facetsList.forEach(facets => {
+      (facets[facet.id] || []).forEach(facetValue => {
+        const existing = values.get(facetValue.value);
+        values.set(facetValue.value, existing ? { ...existing, count: existing.count + facetValue.count } : { ...facetValue });
+      });
+    });
+    merged[facet.id] = sortFacetValues(facet, Array.from(values.values()));
+  });
+
+  return merged;
+};
+
+/**
+ * Pick or unpick a facet value
+ * @returns New selections, without facets that have nothing picked
+ */
+export const toggleFacetValue = (selections: RecipeFacetSelections, facetId: RecipeFacetId, value: string): RecipeFacetSelections => {
+  const picked = selections[facetId] || [];
+  const updated = picked.includes(value) ? picked.filter(existing => existing !== value) : [...picked, value];
+
+  const next = { ...selections };
+  if (updated.length > 0) {
+    next[facetId] = updated;
+  } else {
+    delete next[facetId];
+  }
+  return next;
+};
+
+/**
+ * Number of values picked across all facets
+ */
+export const countFacetSelections = (selections: RecipeFacetSelections): number => {
+  return Object.values(selections).reduce((total, picked) => total + (picked?.length || 0), 0);
+};
+
+/**
+ * Get the longest ready time allowed by the picked time ranges
+ * @returns Minutes, or undefined when no time range is picked or one has no upper limit
+ */
+export const getMaxReadyTimeForFacets = (selections: RecipeFacetSelections): number | undefined => {
+  const picked = READY_TIME_RANGES.filter(range => selections.readyTime?.includes(range.value));
+  if (picked.length === 0 || picked.some(range => range.max === Infinity)) return undefined;
+  return Math.max(...picked.map(range => range.max));
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { Recipe } from '../types/recipeTypes';
+import {
+  hasAnyIngredient,
+  isFreeOfIntolerances,
+  matchesAllDiets,
+  matchesAnyCuisine,
+  matchesSearchRestrictions,
+  normalizeRestriction,
+  splitSearchList
+} from './recipeRestrictions';
+
+// A recipe with the given ingredients and no diet flags; dairy and gluten are left to the ingredients
+const makeRecipe = (ingredients: string[], fields: Partial<Recipe> = {}): Recipe => ({
+  id: 1,
+  title: 'Recipe',
+  cuisines: [],
+  diets: [],
+  extendedIngredients: ingredients.map(name => ({ name })),
+  ...fields
+} as Recipe);
+
+describe('restriction names', () => {
+  it('compares names however they are written', () => {
+    expect(normalizeRestriction(' Gluten-Free ')).toBe('gluten free');
+    expect(normalizeRestriction('Tree Nuts')).toBe('tree nut');
+    expect(normalizeRestriction('Shellfish')).toBe('shellfish');
+  });
+
+  it('splits comma-separated lists without blanks', () => {
+    expect(splitSearchList('Vegetarian, Gluten-Free,')).toEqual(['Vegetarian', 'Gluten-Free']);
+    expect(splitSearchList(['Dairy', ' '])).toEqual(['Dairy']);
+    expect(splitSearchList(undefined)).toEqual([]);
+  });
+});
+
+describe('matchesAllDiets', () => {
+  it('needs every diet, from the list of diets, their other names or the flags', () => {
+    const recipe = makeRecipe([], { diets: ['paleolithic'], glutenFree: true, vegan: false });
+    expect(matchesAllDiets(recipe, ['Paleo', 'Gluten Free'])).toBe(true);
+    expect(matchesAllDiets(recipe, ['Paleo', 'Vegan'])).toBe(false);
+  });
+});
+
+describe('matchesAnyCuisine', () => {
+  it('needs any of the cuisines, and allows every recipe without one', () => {
+    const recipe = makeRecipe([], { cuisines: ['Italian'] });
+    expect(matchesAnyCuisine(recipe, ['Mexican', 'italian'])).toBe(true);
+    expect(matchesAnyCuisine(recipe, ['Mexican'])).toBe(false);
+    expect(matchesAnyCuisine(recipe, [])).toBe(true);
+  });
+});
+
+describe('hasAnyIngredient', () => {
+  it('matches plurals, synonyms and ingredients within longer names', () => {
+    expect(hasAnyIngredient(makeRecipe(['crunchy peanut butter']), ['peanuts'])).toBe(true);
+    expect(hasAnyIngredient(makeRecipe(['cherry tomatoes']), ['tomato'])).toBe(true);
+    expect(hasAnyIngredient(makeRecipe(['peanut oil']), ['pea'])).toBe(false);
+  });
+});
+
+describe('isFreeOfIntolerances', () => {
+  it('trusts the dairy and gluten flags when the recipe has them', () => {
+    expect(isFreeOfIntolerances(makeRecipe(['butter'], { dairyFree: true }), ['Dairy'])).toBe(true);
+    expect(isFreeOfIntolerances(makeRecipe(['olive oil'], { glutenFree: false }), ['Gluten'])).toBe(false);
+  });
+
+  it('checks the ingredients of recipes without the flags', () => {
+    expect(isFreeOfIntolerances(makeRecipe(['whole milk']), ['Dairy'])).toBe(false);
+    expect(isFreeOfIntolerances(makeRecipe(['spaghetti']), ['Wheat'])).toBe(false);
+    expect(isFreeOfIntolerances(makeRecipe(['walnuts']), ['Tree Nuts'])).toBe(false);
+  });
+
+  it('does not count nut butters, cocoa butter or plant milks as dairy', () => {
+    const recipe = makeRecipe(['smooth peanut butter', 'cocoa butter', 'almond milk', 'coconut cream', 'cream of tartar']);
+    expect(isFreeOfIntolerances(recipe, ['Dairy'])).toBe(true);
+    expect(isFreeOfIntolerances(makeRecipe(['peanut butter', 'unsalted butter']), ['Dairy'])).toBe(false);
+    // Still the nut it is made of
+    expect(isFreeOfIntolerances(recipe, ['Peanut'])).toBe(false);
+  });
+
+  it('does not count rice vinegar as grain or gluten free flours as gluten', () => {
+    expect(isFreeOfIntolerances(makeRecipe(['rice vinegar']), ['Grain'])).toBe(true);
+    expect(isFreeOfIntolerances(makeRecipe(['rice vinegar', 'jasmine rice']), ['Grain'])).toBe(false);
+    expect(isFreeOfIntolerances(makeRecipe(['almond flour']), ['Gluten'])).toBe(true);
+    expect(isFreeOfIntolerances(makeRecipe(['all purpose flour']), ['Gluten'])).toBe(false);
+  });
+
+  it('checks diets sent as intolerances as diets', () => {
+    expect(isFreeOfIntolerances(makeRecipe([], { vegan: true }), ['Vegan'])).toBe(true);
+    expect(isFreeOfIntolerances(makeRecipe([], { vegan: false }), ['Vegan'])).toBe(false);
+  });
+});
+
+describe('matchesSearchRestrictions', () => {
+  const recipe = makeRecipe(['chicken', 'basil', 'parmesan cheese'], { cuisines: ['Italian'], diets: ['gluten free'] });
+
+  it('needs every diet, any cuisine and no intolerance or excluded ingredient', () => {
+    expect(matchesSearchRestrictions(recipe, { diet: 'Gluten Free', cuisine: 'Mexican, Italian' })).toBe(true);
+    expect(matchesSearchRestrictions(recipe, { diet: 'Gluten Free, Vegetarian' })).toBe(false);
+    expect(matchesSearchRestrictions(recipe, { intolerances: ['Dairy'] })).toBe(false);
+    expect(matchesSearchRestrictions(recipe, { excludeIngredients: ['chickens'] })).toBe(false);
+  });
+
+  it('leaves out excluded cuisines', () => {
+    expect(matchesSearchRestrictions(recipe, { excludeCuisine: ['italian'] })).toBe(false);
+    expect(matchesSearchRestrictions(recipe, { excludeCuisine: ['Thai'] })).toBe(true);
+  });
+});
@@ -0,0 +1,199 @@
+// Recipe Restrictions - Checks recipes against diets, intolerances, cuisines and excluded ingredients
+// Every diet and intolerance has to be respected, while any of several cuisines will do, the same way
+// Spoonacular reads its diet, intolerances and cuisine parameters. Ingredients are compared by word
+// stems and synonyms, so excluding "peanut" also leaves out "peanut butter" and "peanuts".
+
+import type { Recipe, RecipeSearchParams } from '../types/recipeTypes';
+import { getIngredientSynonyms } from './ingredientMatcher';
+import { stem, tokenize } from './recipeSearchIndex';
+
+// Recipe flags that tell whether a recipe fits a diet, for recipes whose list of diets leaves it out
+const DIET_FLAGS: Record<string, (recipe: Recipe) => boolean> = {
+  'vegetarian': recipe => recipe.vegetarian,
+  'vegan': recipe => recipe.vegan,
+  'gluten free': recipe => recipe.glutenFree,
+  'dairy free': recipe => recipe.dairyFree,
+  'keto': recipe => recipe.ketogenic,
+  'ketogenic': recipe => recipe.ketogenic,
+  'whole30': recipe => recipe.whole30,
+  'low fodmap': recipe => recipe.lowFodmap
+};
+
+// Other names recipes use for a diet, e.g. Spoonacular says "paleolithic" for paleo
+const DIET_ALIASES: Record<string, string[]> = {
+  'keto': ['ketogenic'],
+  'paleo': ['paleolithic'],
+  'pescetarian': ['pescatarian'],
+  'whole30': ['whole 30']
+};
+
+// Recipe flags that tell whether a recipe is free of an intolerance; they win over the ingredients
+const INTOLERANCE_FLAGS: Record<string, (recipe: Recipe) => boolean | undefined> = {
+  'dairy': recipe => recipe.dairyFree,
+  'gluten': recipe => recipe.glutenFree
+};
+
+// Ingredients that cause each intolerance
+const INTOLERANCE_INGREDIENTS: Record<string, string[]> = {
+  'dairy': ['milk', 'cheese', 'butter', 'cream', 'yogurt', 'ghee', 'whey'],
+  'egg': ['egg', 'mayonnaise'],
+  'gluten': ['wheat', 'flour', 'bread', 'pasta', 'barley', 'rye', 'couscous', 'seitan'],
+  'wheat': ['wheat', 'flour', 'bread', 'pasta', 'couscous'],
+  'grain': ['wheat', 'flour', 'bread', 'pasta', 'rice', 'oat', 'corn', 'barley', 'quinoa'],
+  'peanut': ['peanut'],
+  'tree nut': ['almond', 'walnut', 'cashew', 'pecan', 'pistachio', 'hazelnut', 'macadamia'],
+  'nut': ['peanut', 'almond', 'walnut', 'cashew', 'pecan', 'pistachio', 'hazelnut', 'macadamia'],
+  'shellfish': ['shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'scallop'],
+  'fish': ['fish', 'salmon', 'tuna', 'cod', 'tilapia', 'halibut', 'trout', 'anchovy', 'sardine', 'mackerel'],
+  'seafood': ['fish', 'salmon', 'tuna', 'cod', 'tilapia', 'halibut', 'trout', 'anchovy', 'sardine', 'mackerel', 'shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'scallop'],
+  'soy': ['soy', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'],
+  'sesame': ['sesame', 'tahini'],
+  'sulfite': ['wine', 'dried fruit']
+};
+
+// Ingredients whose names contain one of an intolerance's ingredients without causing it,
+// e.g. "peanut butter" has no dairy and "rice vinegar" has no grain left in it
+const NUT_BUTTERS = ['peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'seed butter', 'apple butter'];
+const PLANT_MILKS = ['almond milk', 'soy milk', 'oat milk', 'rice milk', 'cashew milk', 'coconut milk', 'coconut cream', 'cream of coconut'];
+const GLUTEN_FREE_FLOURS = ['almond flour', 'coconut flour', 'rice flour', 'chickpea flour', 'tapioca flour', 'corn flour', 'gluten free flour'];
+
+const INTOLERANCE_EXCEPTIONS: Record<string, string[]> = {
+  'dairy': [...NUT_BUTTERS, ...PLANT_MILKS, 'cocoa butter', 'shea butter', 'coconut butter', 'cream of tartar', 'vegan butter', 'vegan cheese'],
+  'gluten': [...GLUTEN_FREE_FLOURS, 'gluten free pasta', 'gluten free bread'],
+  'wheat': [...GLUTEN_FREE_FLOURS, 'gluten free pasta', 'gluten free bread'],
+  'grain': ['rice vinegar', 'rice wine vinegar']
+};
+
+/**
+ * Turn a diet, intolerance or cuisine name into the form they are compared in
+ * e.g. "Gluten-Free" becomes "gluten free" and "Tree Nuts" becomes "tree nut"
+ * @param name - The name as users or recipes write it
+ */
+export const normalizeRestriction = (name: string): string => {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[-_]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/([^s])s$/, '$1');
+};
+
+/**
+ * Split a comma-separated list of search values, as the diet and cuisine parameters take them
+ * @param list - e.g. "Vegetarian, Gluten-Free", or values that are already split
+ * @returns The values without blanks, e.g. ["Vegetarian", "Gluten-Free"]
+ */
+export const splitSearchList = (list: string | string[] | undefined): string[] => {
+  const values = Array.isArray(list) ? list : (list || '').split(',');
+  return values.map(value => value.trim()).filter(value => value.length > 0);
+};
+
+/**
+ * Check whether a recipe fits every diet
+ * @param recipe - The recipe to check
+ * @param diets - Diets the recipe has to fit, e.g. ["Vegetarian", "Gluten-Free"]
+ */
+export const matchesAllDiets = (recipe: Recipe, diets: string[]): boolean => {
+  const recipeDiets = (recipe.diets || []).map(normalizeRestriction);
+
+  return diets.every(diet => {
+    const key = normalizeRestriction(diet);
+    const names = [key, ...(DIET_ALIASES[key] || [])];
+    return names.some(name => recipeDiets.includes(name)) || DIET_FLAGS[key]?.(recipe) === true;
+  });
+};
+
+/**
+ * Check whether a recipe is from any of the cuisines
+ * @param recipe - The recipe to check
+ * @param cuisines - Cuisines to choose from; an empty list allows every recipe
+ */
+export const matchesAnyCuisine = (recipe: Recipe, cuisines: string[]): boolean => {
+  if (cuisines.length === 0) return true;
+
+  const recipeCuisines = (recipe.cuisines || []).map(normalizeRestriction);
+  return cuisines.some(cuisine => recipeCuisines.includes(normalizeRestriction(cuisine)));
+};
+
+/**
+ * Check whether an ingredient name is, or contains, an ingredient (or one of its synonyms)
+ * e.g. "crunchy peanut butter" contains "peanut", and "spaghetti" is "pasta"
+ * @param ingredientName - Name of an ingredient in a recipe
+ * @param ingredient - The ingredient to look for
+ */
+const ingredientContains = (ingredientName: string, ingredient: string): boolean => {
+  const ingredientTerms = tokenize(ingredientName).map(stem);
+  const names = getIngredientSynonyms(ingredient.trim().toLowerCase());
+
+  return names.some(name => {
+    const terms = tokenize(name).map(stem);
+    return terms.length > 0 && terms.every(term => ingredientTerms.includes(term));
+  });
+};
+
+/**
+ * Check whether a recipe uses any of the ingredients, matching synonyms and plurals
+ * @param recipe - The recipe to check
+ * @param ingredients - Ingredients to look for, e.g. ["peanuts", "pasta"]
+ */
+export const hasAnyIngredient = (recipe: Recipe, ingredients: string[]): boolean => {
+  const recipeIngredients = (recipe.extendedIngredients || []).map(ingredient => ingredient.name || '');
+
+  return ingredients.some(ingredient =>
+    recipeIngredients.some(recipeIngredient => ingredientContains(recipeIngredient, ingredient))
+  );
+};
+
+/**
+ * Check whether a recipe uses an ingredient that causes an intolerance
+ * Ingredients known not to cause it, e.g. "peanut butter" for dairy, are left out
+ * @param recipe - The recipe to check
+ * @param intolerance - Normalized intolerance, e.g. "dairy"
+ */
+const hasIntoleranceIngredient = (recipe: Recipe, intolerance: string): boolean => {
+  const ingredients = INTOLERANCE_INGREDIENTS[intolerance] || [intolerance];
+  const exceptions = INTOLERANCE_EXCEPTIONS[intolerance] || [];
+
+  return (recipe.extendedIngredients || [])
+    .map(ingredient => ingredient.name || '')
+    .filter(name => !exceptions.some(exception => ingredientContains(name, exception)))
+    .some(name => ingredients.some(ingredient => ingredientContains(name, ingredient)));
+};
+
+/**
+ * Check whether a recipe is free of every intolerance
+ * Recipes flagged dairy or gluten free (or not) are trusted; otherwise their ingredients are checked
+ * @param recipe - The recipe to check
+ * @param intolerances - Intolerances to avoid, e.g. ["Dairy", "Tree Nuts"]
+ */
+export const isFreeOfIntolerances = (recipe: Recipe, intolerances: string[]): boolean => {
+  return intolerances.every(intolerance => {
+    const key = normalizeRestriction(intolerance);
+    const flagged = INTOLERANCE_FLAGS[key]?.(recipe);
+    if (typeof flagged === 'boolean') return flagged;
+
+    // Diets sent as intolerances, e.g. "Vegan", are checked as diets
+    if (DIET_FLAGS[key]) return matchesAllDiets(recipe, [key]);
+
+    return !hasIntoleranceIngredient(recipe, key);
+  });
+};
+
+/**
+ * Check a recipe against the diets, cuisines, intolerances and excluded ingredients of a search
+ * @param recipe - The recipe to check
+ * @param params - Search parameters; diet and cuisine may list several values separated by commas
+ * @returns True when the recipe fits every diet, any of the cuisines, no excluded cuisine,
+ * no intolerance and no excluded ingredient
+ */
+export const matchesSearchRestrictions = (recipe: Recipe, params: RecipeSearchParams): boolean => {
+  const excludedCuisines = splitSearchList(params.excludeCuisine);
+
+  return (
+    matchesAllDiets(recipe, splitSearchList(params.diet)) &&
+    matchesAnyCuisine(recipe, splitSearchList(params.cuisine)) &&
+    (excludedCuisines.length === 0 || !matchesAnyCuisine(recipe, excludedCuisines)) &&
+    isFreeOfIntolerances(recipe, splitSearchList(params.intolerances)) &&
+    !hasAnyIngredient(recipe, splitSearchList(params.excludeIngredients))
+  );
+};
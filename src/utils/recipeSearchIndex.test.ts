@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { Recipe } from '../types/recipeTypes';
+import { RecipeSearchIndex, stem, tokenize } from './recipeSearchIndex';
+
+const makeRecipe = (id: number, title: string, fields: Partial<Recipe> = {}): Recipe => ({
+  id,
+  title,
+  summary: '',
+  extendedIngredients: [],
+  cuisines: [],
+  dishTypes: [],
+  ...fields
+} as Recipe);
+
+const makeIngredients = (...names: string[]) => names.map(name => ({ name })) as Recipe['extendedIngredients'];
+
+// Titles of the hits of a search, best match first
+const searchTitles = (index: RecipeSearchIndex, query: string) => index.search(query).map(hit => hit.recipe.title);
+
+describe('tokenize', () => {
+  it('drops HTML tags, accents, stop words and single letters', () => {
+    expect(tokenize('<b>Crème brûlée</b> with a twist of the lemon')).toEqual(['creme', 'brulee', 'twist', 'lemon']);
+  });
+});
+
+describe('stem', () => {
+  it('matches plurals to their singular', () => {
+    expect(stem('tomatoes')).toBe(stem('tomato'));
+    expect(stem('berries')).toBe(stem('berry'));
+    expect(stem('peaches')).toBe(stem('peach'));
+    expect(stem('noodles')).toBe(stem('noodle'));
+  });
+
+  it('matches verb forms to each other', () => {
+    expect(stem('baked')).toBe(stem('bake'));
+    expect(stem('baking')).toBe(stem('bake'));
+    expect(stem('chopping')).toBe(stem('chop'));
+    expect(stem('stuffed')).toBe(stem('stuff'));
+    expect(stem('grilled')).toBe(stem('grill'));
+  });
+
+  it('leaves words that only look like plurals or are too short', () => {
+    expect(stem('hummus')).toBe('hummus');
+    expect(stem('couscous')).toBe('couscous');
+    expect(stem('egg')).toBe('egg');
+    expect(stem('7up')).toBe('7up');
+  });
+});
+
+describe('RecipeSearchIndex', () => {
+  const buildIndex = () => {
+    const index = new RecipeSearchIndex();
+    index.addRecipes([
+      makeRecipe(1, 'Spaghetti Carbonara', { cuisines: ['Italian'], extendedIngredients: makeIngredients('spaghetti', 'eggs', 'pancetta') }),
+      makeRecipe(2, 'Chicken Tikka Masala', { cuisines: ['Indian'], extendedIngredients: makeIngredients('chicken', 'tomatoes', 'cream') }),
+      makeRecipe(3, 'Tomato Soup', { dishTypes: ['soup'], extendedIngredients: makeIngredients('tomatoes', 'onion') }),
+      makeRecipe(4, 'Egg Fried Rice', { summary: 'A quick dish with leftover <b>chicken</b>.', extendedIngredients: makeIngredients('rice', 'egg') })
+    ]);
+    return index;
+  };
+
+  it('finds recipes by any form of a word', () => {
+    expect(searchTitles(buildIndex(), 'tomatoes')).toEqual(['Tomato Soup', 'Chicken Tikka Masala']);
+  });
+
+  it('finds recipes by the start of a word while typing', () => {
+    expect(searchTitles(buildIndex(), 'spagh')).toEqual(['Spaghetti Carbonara']);
+    // Too short to be read as the start of a word
+    expect(searchTitles(buildIndex(), 'sp')).toEqual([]);
+  });
+
+  it('finds recipes despite a typo', () => {
+    expect(searchTitles(buildIndex(), 'chiken')).toEqual(['Chicken Tikka Masala', 'Egg Fried Rice']);
+    expect(searchTitles(buildIndex(), 'carbonera')).toEqual(['Spaghetti Carbonara']);
+    // Short words have to be spelled right
+    expect(searchTitles(buildIndex(), 'eg')).toEqual([]);
+  });
+
+  it('ranks title matches over summary matches', () => {
+    const hits = buildIndex().search('chicken');
+    expect(hits.map(hit => hit.recipe.id)).toEqual([2, 4]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('ranks exact words over prefixes and typos', () => {
+    const index = new RecipeSearchIndex();
+    index.addRecipes([makeRecipe(1, 'Cornbread'), makeRecipe(2, 'Corn Chowder'), makeRecipe(3, 'Beet Salad'), makeRecipe(4, 'Beef Stew')]);
+    expect(searchTitles(index, 'corn')).toEqual(['Corn Chowder', 'Cornbread']);
+    expect(searchTitles(index, 'beef')).toEqual(['Beef Stew', 'Beet Salad']);
+  });
+
+  it('needs every word of the query to match', () => {
+    expect(searchTitles(buildIndex(), 'tomato soup')).toEqual(['Tomato Soup']);
+    expect(searchTitles(buildIndex(), 'italian rice')).toEqual([]);
+  });
+
+  it('lists every recipe for a query without searchable words', () => {
+    expect(buildIndex().search('the a').map(hit => hit.score)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('updates one recipe at a time', () => {
+    const index = buildIndex();
+    index.removeRecipe(3);
+    expect(searchTitles(index, 'soup')).toEqual([]);
+
+    index.addRecipe(makeRecipe(2, 'Chicken Korma', { cuisines: ['Indian'] }));
+    expect(searchTitles(index, 'tikka')).toEqual([]);
+    expect(searchTitles(index, 'korma')).toEqual(['Chicken Korma']);
+    expect(index.size).toBe(3);
+  });
+
+  it('keeps only the recipes it is given when set', () => {
+    const index = buildIndex();
+    index.setRecipes([makeRecipe(1, 'Spaghetti Carbonara'), makeRecipe(5, 'Lentil Soup')]);
+    expect(index.size).toBe(2);
+    expect(searchTitles(index, 'soup')).toEqual(['Lentil Soup']);
+  });
+});
@@ -0,0 +1,275 @@
+// Recipe Search Index - Full-text search over recipes in the browser
+// Words from a recipe's title, summary, ingredients, cuisines and dish types are reduced to
+// their stems and kept in an inverted index, so searching ranks recipes by relevance instead of
+// matching substrings of the title. Misspelled and half-typed words still find recipes.
+
+import type { Recipe } from '../types/recipeTypes';
+import { calculateSimilarity } from './ingredientMatcher';
+
+// Parts of a recipe that are searched
+type SearchField = 'title' | 'summary' | 'ingredients' | 'cuisines' | 'dishTypes';
+
+// How much a word counts in each field, e.g. a word in the title counts five times one in the summary
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 5,
+  dishTypes: 3,
+  cuisines: 3,
+  ingredients: 2,
+  summary: 1
+};
+
+// How much each kind of word match counts, compared to the exact word
+const EXACT_MATCH_WEIGHT = 1;
+const PREFIX_MATCH_WEIGHT = 0.7;  // Query word is the start of a recipe word, e.g. while typing "spagh"
+const FUZZY_MATCH_WEIGHT = 0.5;   // Query word is a typo away from a recipe word, e.g. "chiken"
+
+// Extra score when the title contains the whole query, e.g. "fried rice" in "Egg Fried Rice"
+const TITLE_PHRASE_BONUS = 10;
+
+// Shortest query words matched as prefixes and with typos
+const MIN_PREFIX_LENGTH = 3;
+const MIN_FUZZY_LENGTH = 4;
+
+// Common words that don't help tell recipes apart
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * A recipe found by a search, with how well it matches
+ */
+export interface RecipeSearchHit {
+  recipe: Recipe;   // The matching recipe
+  score: number;    // Relevance; higher scores match the query better
+}
+
+/**
+ * Split text into lowercase words, without HTML tags, accents or stop words
+ * @param text - Text to split, e.g. a recipe summary
+ */
+export const tokenize = (text: string): string[] => {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+};
+
+/**
+ * Reduce a word to its stem, so plurals and other forms match each other
+ * e.g. "tomatoes" and "tomato", or "baked", "baking" and "bake"
+ * @param word - Lowercase word
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let stemmed = word;
+  if (stemmed.endsWith('ies') && stemmed.length > 4) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (stemmed.endsWith('oes') || /(ss|ch|sh|x)es$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.endsWith('s') && !/(ss|us|is)$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  } else if ((stemmed.endsWith('ing') && stemmed.length > 5) || (stemmed.endsWith('ed') && stemmed.length > 4)) {
+    stemmed = stemmed.replace(/(ing|ed)$/, '');
+
+    // Undo doubled consonants left by the suffix, e.g. "chopping" -> "chopp" -> "chop",
+    // but not the ones words end in anyway, e.g. "stuffed" -> "stuff" or "grilled" -> "grill"
+    if (/([^aeioulsfz])\1$/.test(stemmed)) {
+      stemmed = stemmed.slice(0, -1);
+    }
+  }
+
+  // Drop a final "e" so "bake" matches "baked" and "baking"
+  if (stemmed.length > 3 && stemmed.endsWith('e')) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+};
+
+/**
+ * Get the text of each searched field of a recipe
+ */
+const getFieldTexts = (recipe: Recipe): Record<SearchField, string> => ({
+  title: recipe.title || '',
+  summary: recipe.summary || '',
+  ingredients: (recipe.extendedIngredients || []).map(ingredient => ingredient.name).join(' '),
+  cuisines: (recipe.cuisines || []).join(' '),
+  dishTypes: (recipe.dishTypes || []).join(' ')
+});
+
+/**
+ * Most typos a query word may have to still match, longer words allow more
+ */
+const getMaxTypos = (term: string): number => term.length >= 8 ? 2 : 1;
+
+// Recipe Search Index Class - Inverted index from word stems to the recipes containing them
+// Recipes can be added and removed one at a time, so the index never needs a full rebuild
+export class RecipeSearchIndex {
+  private postings: Map<string, Map<number, number>> = new Map();  // Stem -> recipe ID -> boosted word count
+  private recipeTerms: Map<number, string[]> = new Map();          // Stems of each recipe, for removing it
+  private recipes: Map<number, Recipe> = new Map();                // Indexed recipes by ID
+  private signatures: Map<number, string> = new Map();             // Indexed text of each recipe, to skip unchanged ones
+
+  /**
+   * Number of recipes in the index
+   */
+  get size(): number {
+    return this.recipes.size;
+  }
+
+  /**
+   * Add a recipe, replacing an earlier version with the same ID
+   * Recipes whose searched text hasn't changed are kept as they are
+   * @param recipe - The recipe to index
+   */
+  addRecipe(recipe: Recipe): void {
+    const fieldTexts = getFieldTexts(recipe);
+    const signature = JSON.stringify(fieldTexts);
+    if (this.signatures.get(recipe.id) === signature) {
+      this.recipes.set(recipe.id, recipe);
+      return;
+    }
+
+    this.removeRecipe(recipe.id);
+
+    const termWeights = new Map<string, number>();
+    (Object.keys(fieldTexts) as SearchField[]).forEach(field => {
+      tokenize(fieldTexts[field]).forEach(word => {
+        const term = stem(word);
+        termWeights.set(term, (termWeights.get(term) || 0) + FIELD_BOOSTS[field]);
+      });
+    });
+
+    termWeights.forEach((weight, term) => {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(recipe.id, weight);
+    });
+
+    this.recipeTerms.set(recipe.id, Array.from(termWeights.keys()));
+    this.recipes.set(recipe.id, recipe);
+    this.signatures.set(recipe.id, signature);
+  }
+
+  /**
+   * Add several recipes
+   * @param recipes - The recipes to index
+   */
+  addRecipes(recipes: Recipe[]): void {
+    recipes.forEach(recipe => this.addRecipe(recipe));
+  }
+
+  /**
+   * Remove a recipe from the index
+   * @param recipeId - ID of the recipe to remove
+   */
+  removeRecipe(recipeId: number): void {
+    const terms = this.recipeTerms.get(recipeId);
+    terms?.forEach(term => {
+      const recipeWeights = this.postings.get(term);
+      recipeWeights?.delete(recipeId);
+      if (recipeWeights?.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.recipeTerms.delete(recipeId);
+    this.recipes.delete(recipeId);
+    this.signatures.delete(recipeId);
+  }
+
+  /**
+   * Make the index hold exactly these recipes
+   * Only recipes that were added, removed or changed are re-indexed
+   * @param recipes - All recipes the index should hold
+   */
+  setRecipes(recipes: Recipe[]): void {
+    const ids = new Set(recipes.map(recipe => recipe.id));
+    Array.from(this.recipes.keys())
+      .filter(recipeId => !ids.has(recipeId))
+      .forEach(recipeId => this.removeRecipe(recipeId));
+    this.addRecipes(recipes);
+  }
+
+  /**
+   * Find the indexed words a query word matches, with how closely each matches
+   * @param queryTerm - Stem of a query word
+   * @returns Indexed stems mapped to their match weight
+   */
+  private findMatchingTerms(queryTerm: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(queryTerm)) {
+      matches.set(queryTerm, EXACT_MATCH_WEIGHT);
+    }
+
+    const maxTypos = getMaxTypos(queryTerm);
+    this.postings.forEach((_, term) => {
+      if (term === queryTerm) return;
+
+      if (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm)) {
+        matches.set(term, PREFIX_MATCH_WEIGHT);
+        return;
+      }
+
+      if (queryTerm.length >= MIN_FUZZY_LENGTH && Math.abs(term.length - queryTerm.length) <= maxTypos) {
+        const longest = Math.max(term.length, queryTerm.length);
+        const typos = Math.round((1 - calculateSimilarity(term, queryTerm)) * longest);
+        if (typos <= maxTypos) {
+          matches.set(term, FUZZY_MATCH_WEIGHT);
+        }
+      }
+    });
+
+    return matches;
+  }
+
+  /**
+   * Search the index
+   * Every word of the query has to match a recipe (exactly, as a prefix or with a typo).
+   * Matches in boosted fields and on rarer words rank higher.
+   * @param query - The text the user searched for
+   * @returns Matching recipes, best match first; all recipes when the query has no searchable words
+   */
+  search(query: string): RecipeSearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query).map(stem)));
+    if (queryTerms.length === 0) {
+      return Array.from(this.recipes.values()).map(recipe => ({ recipe, score: 0 }));
+    }
+
+    // Score each recipe for each query word; a query word counts once per recipe,
+    // through the recipe word it matches best
+    const recipeCount = this.recipes.size;
+    const scoresByTerm = queryTerms.map(queryTerm => {
+      const termScores = new Map<number, number>();
+      this.findMatchingTerms(queryTerm).forEach((matchWeight, term) => {
+        const recipeWeights = this.postings.get(term)!;
+        const inverseFrequency = Math.log(1 + recipeCount / recipeWeights.size);
+        recipeWeights.forEach((fieldWeight, recipeId) => {
+          const score = matchWeight * fieldWeight * inverseFrequency;
+          termScores.set(recipeId, Math.max(termScores.get(recipeId) || 0, score));
+        });
+      });
+      return termScores;
+    });
+
+    // Keep only recipes matching every query word
+    const [firstTermScores, ...otherTermScores] = scoresByTerm;
+    const matches = Array.from(firstTermScores.keys())
+      .filter(recipeId => otherTermScores.every(termScores => termScores.has(recipeId)));
+
+    const phrase = query.trim().toLowerCase();
+    return matches
+      .map(recipeId => {
+        const recipe = this.recipes.get(recipeId)!;
+        const score = scoresByTerm.reduce((total, termScores) => total + termScores.get(recipeId)!, 0);
+        const phraseBonus = recipe.title.toLowerCase().includes(phrase) ? TITLE_PHRASE_BONUS : 0;
+        return { recipe, score: score + phraseBonus };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Nutrition, Recipe } from '../types/recipeTypes';
+import { getDefaultSortDirection, isRecipeSortOption, sortRecipes } from './recipeSort';
+
+// Per-serving nutrition as Spoonacular sends it
+const makeNutrition = (calories: number, protein: number): Nutrition => ({
+  nutrients: [
+    { name: 'Calories', amount: calories, unit: 'kcal' },
+    { name: 'Protein', amount: protein, unit: 'g' },
+    { name: 'Carbohydrates', amount: 30, unit: 'g' },
+    { name: 'Fat', amount: 10, unit: 'g' }
+  ]
+} as Nutrition);
+
+const makeRecipe = (id: number, fields: Partial<Recipe> = {}): Recipe => ({
+  id,
+  title: `Recipe ${id}`,
+  dishTypes: ['main course'],
+  readyInMinutes: 30,
+  healthScore: 50,
+  aggregateLikes: 10,
+  pricePerServing: 250,
+  ...fields
+} as Recipe);
+
+const sortedIds = (...args: Parameters<typeof sortRecipes>) => sortRecipes(...args).map(recipe => recipe.id);
+
+describe('sortRecipes', () => {
+  it('keeps the relevance order and the list passed in', () => {
+    const recipes = [makeRecipe(2), makeRecipe(1)];
+    const sorted = sortRecipes(recipes);
+    expect(sorted.map(recipe => recipe.id)).toEqual([2, 1]);
+    expect(sorted).not.toBe(recipes);
+  });
+
+  it('sorts in the sort\'s usual direction unless told otherwise', () => {
+    const recipes = [makeRecipe(1, { readyInMinutes: 45 }), makeRecipe(2, { readyInMinutes: 10 }), makeRecipe(3, { readyInMinutes: 25 })];
+    expect(sortedIds(recipes, 'readyTime')).toEqual([2, 3, 1]);
+    expect(sortedIds(recipes, 'readyTime', 'desc')).toEqual([1, 3, 2]);
+    expect(sortedIds(recipes.map(recipe => ({ ...recipe, aggregateLikes: recipe.id })), 'popularity')).toEqual([3, 2, 1]);
+  });
+
+  it('keeps the relevance order of equal values, so pages stay put', () => {
+    const recipes = [4, 3, 2, 1].map(id => makeRecipe(id, { healthScore: id % 2 === 0 ? 80 : 40 }));
+    expect(sortedIds(recipes, 'healthScore')).toEqual([4, 2, 3, 1]);
+    expect(sortedIds(recipes, 'healthScore', 'asc')).toEqual([3, 1, 4, 2]);
+  });
+
+  it('puts recipes without a value last in either direction', () => {
+    const recipes = [makeRecipe(1, { pricePerServing: 0 }), makeRecipe(2, { pricePerServing: 300 }), makeRecipe(3, { pricePerServing: 100 })];
+    expect(sortedIds(recipes, 'price', 'asc')).toEqual([3, 2, 1]);
+    expect(sortedIds(recipes, 'price', 'desc')).toEqual([2, 3, 1]);
+  });
+
+  it('sorts by nutrition data and puts recipes with only an estimate last', () => {
+    const recipes = [
+      makeRecipe(1),
+      makeRecipe(2, { nutrition: makeNutrition(650, 40) }),
+      makeRecipe(3, { nutrition: { ...makeNutrition(450, 25), isSample: true } }),
+      makeRecipe(4, { nutrition: makeNutrition(300, 12) })
+    ];
+    expect(sortedIds(recipes, 'calories', 'asc')).toEqual([4, 2, 1, 3]);
+    expect(sortedIds(recipes, 'calories', 'desc')).toEqual([2, 4, 1, 3]);
+    expect(sortedIds(recipes, 'protein')).toEqual([2, 4, 1, 3]);
+  });
+});
+
+describe('sort choices', () => {
+  it('only accepts known sorts, e.g. from the URL', () => {
+    expect(isRecipeSortOption('calories')).toBe(true);
+    expect(isRecipeSortOption('title')).toBe(false);
+    expect(isRecipeSortOption(null)).toBe(false);
+  });
+
+  it('knows the direction each sort is usually wanted in', () => {
+    expect(getDefaultSortDirection('readyTime')).toBe('asc');
+    expect(getDefaultSortDirection('protein')).toBe('desc');
+  });
+});
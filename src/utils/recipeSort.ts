@@ -0,0 +1,95 @@
+// Recipe Sort - Orders recipe results by ready time, health score, popularity, price or nutrition
+// Recipes with equal values keep their relevance order, so every page of a sorted search lists
+// the same recipes in the same place. Recipes missing a value come last in either direction,
+// including recipes whose nutrition would only be an estimate.
+
+import type { Recipe, RecipeSortDirection, RecipeSortOption } from '../types/recipeTypes';
+import { getRecipeNutrition, isEstimatedNutrition } from './nutritionEstimator';
+import { getRecipeMealType } from './mealSlots';
+
+/**
+ * A way results can be sorted, as offered on the recipes page
+ */
+export interface RecipeSortChoice {
+  value: RecipeSortOption;
+  label: string;                            // Name shown to users
+  defaultDirection: RecipeSortDirection;    // Direction most people want, e.g. quickest first
+}
+
+// Every sort, in the order they are offered
+export const RECIPE_SORT_CHOICES: RecipeSortChoice[] = [
+  { value: 'relevance', label: 'Best Match', defaultDirection: 'desc' },
+  { value: 'readyTime', label: 'Ready Time', defaultDirection: 'asc' },
+  { value: 'healthScore', label: 'Health Score', defaultDirection: 'desc' },
+  { value: 'popularity', label: 'Popularity', defaultDirection: 'desc' },
+  { value: 'price', label: 'Price per Serving', defaultDirection: 'asc' },
+  { value: 'calories', label: 'Calories', defaultDirection: 'asc' },
+  { value: 'protein', label: 'Protein', defaultDirection: 'desc' }
+];
+
+/**
+ * Check whether a value from outside the app (e.g. the URL) is a sort
+ */
+export const isRecipeSortOption = (value: string | null): value is RecipeSortOption => {
+  return RECIPE_SORT_CHOICES.some(choice => choice.value === value);
+};
+
+/**
+ * Get the direction a sort is used in when none is picked
+ * @param sort - The sort
+ */
+export const getDefaultSortDirection = (sort: RecipeSortOption): RecipeSortDirection => {
+  return RECIPE_SORT_CHOICES.find(choice => choice.value === sort)?.defaultDirection || 'desc';
+};
+
+/**
+ * Get the value a recipe is sorted by
+ * Calories and protein only come from the recipe's nutrition data, never from an estimate
+ * @returns The value, or undefined when the recipe doesn't have it
+ */
+const getSortValue = (recipe: Recipe, sort: RecipeSortOption): number | undefined => {
+  switch (sort) {
+    case 'readyTime':
+      return recipe.readyInMinutes || undefined;
+    case 'healthScore':
+      return recipe.healthScore;
+    case 'popularity':
+      return recipe.aggregateLikes;
+    case 'price':
+      return recipe.pricePerServing || undefined;
+    case 'calories':
+    case 'protein': {
+      const nutrition = getRecipeNutrition(recipe, getRecipeMealType(recipe.dishTypes || []));
+      return isEstimatedNutrition(nutrition) ? undefined : nutrition[sort];
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Sort recipes without changing the list passed in
+ * @param recipes - Recipes in relevance order
+ * @param sort - What to sort by; relevance leaves the order as it is
+ * @param direction - Smallest first ('asc') or largest first ('desc'); defaults to the sort's usual direction
+ * @returns The sorted recipes
+ */
+export const sortRecipes = (
+  recipes: Recipe[],
+  sort: RecipeSortOption = 'relevance',
+  direction: RecipeSortDirection = getDefaultSortDirection(sort)
+): Recipe[] => {
+  if (sort === 'relevance') return [...recipes];
+
+  const factor = direction === 'asc' ? 1 : -1;
+  return recipes
+    .map((recipe, index) => ({ recipe, index, value: getSortValue(recipe, sort) }))
+    .sort((a, b) => {
+      const aMissing = a.value === undefined || Number.isNaN(a.value);
+      const bMissing = b.value === undefined || Number.isNaN(b.value);
+      if (aMissing !== bMissing) return aMissing ? 1 : -1;
+      if (!aMissing && a.value !== b.value) return (a.value! - b.value!) * factor;
+      return a.index - b.index;
+    })
+    .map(entry => entry.recipe);
+};
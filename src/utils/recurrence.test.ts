@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { PlanEvent, RecurrenceRule } from '../context/PlanContextTypes';
+import {
+  countOccurrencesBefore,
+  describeRecurrence,
+  endSeriesBefore,
+  expandRecurringEvents,
+  getOccurrenceDates,
+  getOccurrenceId,
+  parseOccurrenceId,
+  startSeriesFrom
+} from './recurrence';
+
+// A series starting on Monday 2026-10-19
+const makeSeries = (recurrence?: RecurrenceRule, overrides: Partial<PlanEvent> = {}): PlanEvent => ({
+  id: 'series-1',
+  title: 'Oatmeal',
+  date: '2026-10-19',
+  recipeId: 1,
+  mealType: 'breakfast',
+  recurrence,
+  ...overrides
+});
+
+describe('occurrence IDs', () => {
+  it('round-trips the series ID and date', () => {
+    expect(parseOccurrenceId(getOccurrenceId('1712345678901', '2026-10-19'))).toEqual({
+      seriesId: '1712345678901',
+      date: '2026-10-19'
+    });
+  });
+
+  it('does not treat plain IDs as occurrences', () => {
+    expect(parseOccurrenceId('1712345678901')).toBeNull();
+    expect(parseOccurrenceId('user@example.com')).toBeNull();
+  });
+});
+
+describe('getOccurrenceDates', () => {
+  it('repeats daily every N days', () => {
+    const series = makeSeries({ frequency: 'daily', interval: 3 });
+    expect(getOccurrenceDates(series, '2026-10-19', '2026-10-28')).toEqual(['2026-10-19', '2026-10-22', '2026-10-25', '2026-10-28']);
+  });
+
+  it('repeats on weekdays only', () => {
+    const series = makeSeries({ frequency: 'weekdays' });
+    expect(getOccurrenceDates(series, '2026-10-19', '2026-10-27')).toEqual([
+      '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-26', '2026-10-27'
+    ]);
+  });
+
+  it('keeps every chosen day in the same week for every-N-weeks rules', () => {
+    const series = makeSeries({ frequency: 'weekly', interval: 2, daysOfWeek: [1, 4] });
+    expect(getOccurrenceDates(series, '2026-10-19', '2026-11-08')).toEqual(['2026-10-19', '2026-10-22', '2026-11-02', '2026-11-05']);
+  });
+
+  it('repeats weekly on the start day when no days are chosen', () => {
+    const series = makeSeries({ frequency: 'weekly' });
+    expect(getOccurrenceDates(series, '2026-10-19', '2026-11-02')).toEqual(['2026-10-19', '2026-10-26', '2026-11-02']);
+  });
+
+  it('stops after the until date, inclusive', () => {
+    const series = makeSeries({ frequency: 'daily', until: '2026-10-21' });
+    expect(getOccurrenceDates(series, '2026-10-01', '2026-10-31')).toEqual(['2026-10-19', '2026-10-20', '2026-10-21']);
+  });
+
+  it('honours count even when the range starts later', () => {
+    const series = makeSeries({ frequency: 'daily', count: 5 });
+    expect(getOccurrenceDates(series, '2026-10-22', '2026-10-31')).toEqual(['2026-10-22', '2026-10-23']);
+  });
+
+  it('leaves out removed dates, which still count towards count', () => {
+    const series = makeSeries({ frequency: 'daily', count: 3 }, { recurrenceExceptions: ['2026-10-20'] });
+    expect(getOccurrenceDates(series, '2026-10-19', '2026-10-31')).toEqual(['2026-10-19', '2026-10-21']);
+    expect(getOccurrenceDates(series, '2026-10-19', '2026-10-31', true)).toEqual(['2026-10-19', '2026-10-20', '2026-10-21']);
+  });
+});
+
+describe('expandRecurringEvents', () => {
+  it('expands series into linked occurrences and keeps one-off meals in range', () => {
+    const oneOff = makeSeries(undefined, { id: 'single', date: '2026-10-20' });
+    const outOfRange = makeSeries(undefined, { id: 'later', date: '2026-12-01' });
+    const series = makeSeries({ frequency: 'daily', count: 2 });
+
+    const expanded = expandRecurringEvents([oneOff, outOfRange, series], '2026-10-19', '2026-10-25');
+    expect(expanded.map(event => event.id)).toEqual(['single', 'series-1@2026-10-19', 'series-1@2026-10-20']);
+    expect(expanded[1].seriesId).toBe('series-1');
+  });
+});
+
+describe('splitting a series', () => {
+  it('ends a series the day before a date and drops later exceptions', () => {
+    const series = makeSeries({ frequency: 'daily' }, { recurrenceExceptions: ['2026-10-20', '2026-10-25'] });
+    const ended = endSeriesBefore(series, '2026-10-23');
+    expect(ended.recurrence?.until).toBe('2026-10-22');
+    expect(ended.recurrenceExceptions).toEqual(['2026-10-20']);
+  });
+
+  it('gives the following part only the occurrences that were left', () => {
+    const series = makeSeries({ frequency: 'daily', count: 10 });
+    expect(countOccurrencesBefore(series, '2026-10-23')).toBe(4);
+
+    const following = startSeriesFrom(series, '2026-10-23');
+    expect(following.date).toBe('2026-10-23');
+    expect(following.recurrence?.count).toBe(6);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes weekly rules with their days and end', () => {
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, daysOfWeek: [4, 1], until: '2026-12-01' }))
+      .toBe('Every 2 weeks on Mon, Thu, until 2026-12-01');
+    expect(describeRecurrence({ frequency: 'weekdays', count: 10 })).toBe('Every weekday, 10 times');
+  });
+});
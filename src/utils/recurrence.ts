@@ -0,0 +1,265 @@
+// Recurrence Utilities - Expands repeating meals into individual calendar occurrences
+// A recurring meal is stored once, as the first event of a series with a RecurrenceRule
+// These helpers work out which dates the series falls on and build an event for each one
+
+import type { PlanEvent, RecurrenceRule } from '../context/PlanContextTypes';
+import { addDays, daysBetween, getWeekRange, parseDateString } from './dateUtils';
+
+// Separator between the series ID and the date in an occurrence ID
+const OCCURRENCE_ID_SEPARATOR = '@';
+
+// Short day names used when describing weekly rules
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Build the ID of a single occurrence in a series
+ * @param seriesId - ID of the series event
+ * @param date - Date of the occurrence (YYYY-MM-DD)
+ * @returns A stable ID such as "1712345678901@2026-10-19"
+ */
+export function getOccurrenceId(seriesId: string, date: string): string {
+  return `${seriesId}${OCCURRENCE_ID_SEPARATOR}${date}`;
+}
+
+/**
+ * Split an occurrence ID back into its series ID and date
+ * @param id - An event ID
+ * @returns The series ID and date, or null if the ID is not an occurrence ID
+ */
+export function parseOccurrenceId(id: string): { seriesId: string; date: string } | null {
+  const index = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (index <= 0) return null;
+
+  const date = id.slice(index + 1);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+
+  return { seriesId: id.slice(0, index), date };
+}
+
+/**
+ * Check whether a date matches a recurrence rule
+ * @param startDate - Date the series starts on
+ * @param date - Date to check
+ * @param rule - The recurrence rule
+ * @returns True if the rule produces an occurrence on this date (ignoring end conditions)
+ */
+function matchesRule(startDate: string, date: string, rule: RecurrenceRule): boolean {
+  const interval = Math.max(1, rule.interval || 1);
+  const dayOfWeek = parseDateString(date).getDay();
+
+  switch (rule.frequency) {
+    case 'daily':
+      return daysBetween(startDate, date) % interval === 0;
+    case 'weekdays':
+      return dayOfWeek >= 1 && dayOfWeek <= 5;
+    case 'weekly': {
+      const days = rule.daysOfWeek && rule.daysOfWeek.length > 0
+        ? rule.daysOfWeek
+        : [parseDateString(startDate).getDay()];
+      if (!days.includes(dayOfWeek)) return false;
+
+      // Compare whole weeks so "every 2 weeks on Mon and Thu" keeps both days in the same week
+      const weeks = daysBetween(getWeekRange(startDate).startDate, getWeekRange(date).startDate) / 7;
+      return weeks % interval === 0;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get the dates a recurring event occurs on within a range
+ * @param event - The series event (must have a recurrence rule)
+ * @param startDate - First date of the range (YYYY-MM-DD)
+ * @param endDate - Last date of the range (YYYY-MM-DD)
+ * @param includeExceptions - Whether to keep dates that were removed from the series
+ * @returns Occurrence dates in ascending order
+ *
+ * Dates are counted from the start of the series so that `count` is honoured
+ * even when the range starts later. Removed dates still count towards `count`,
+ * matching how calendar apps treat deleted occurrences.
+ */
+export function getOccurrenceDates(
+  event: PlanEvent,
+  startDate: string,
+  endDate: string,
+  includeExceptions = false
+): string[] {
+  const rule = event.recurrence;
+  if (!rule) {
+    return event.date >= startDate && event.date <= endDate ? [event.date] : [];
+  }
+
+  const lastDate = rule.until && rule.until < endDate ? rule.until : endDate;
+  const exceptions = event.recurrenceExceptions || [];
+  const dates: string[] = [];
+  let occurrenceCount = 0;
+
+  for (let date = event.date; date <= lastDate; date = addDays(date, 1)) {
+    if (!matchesRule(event.date, date, rule)) continue;
+
+    occurrenceCount++;
+    if (rule.count && occurrenceCount > rule.count) break;
+
+    if (date >= startDate && (includeExceptions || !exceptions.includes(date))) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Count how many occurrences of a series fall before a date
+ * @param event - The series event
+ * @param date - The date to count up to (exclusive)
+ * @returns Number of occurrences before the date, including removed ones
+ *
+ * Used to work out the remaining `count` when a series is split in two.
+ */
+export function countOccurrencesBefore(event: PlanEvent, date: string): number {
+  if (date <= event.date) return 0;
+  return getOccurrenceDates(event, event.date, addDays(date, -1), true).length;
+}
+
+/**
+ * Build a single occurrence of a recurring event
+ * @param event - The series event
+ * @param date - Date of the occurrence
+ * @returns A plan event for that date, linked back to the series
+ */
+export function createOccurrence(event: PlanEvent, date: string): PlanEvent {
+  return {
+    ...event,
+    id: getOccurrenceId(event.id, date),
+    date,
+    seriesId: event.id
+  };
+}
+
+/**
+ * Expand recurring events into individual occurrences within a date range
+ * @param events - Events as stored in the plan
+ * @param startDate - First date of the range (YYYY-MM-DD)
+ * @param endDate - Last date of the range (YYYY-MM-DD)
+ * @returns One event per occurrence in the range, plus the one-off events in the range
+ */
+export function expandRecurringEvents(events: PlanEvent[], startDate: string, endDate: string): PlanEvent[] {
+  return events.flatMap(event => {
+    if (!event.recurrence) {
+      return event.date >= startDate && event.date <= endDate ? [event] : [];
+    }
+    return getOccurrenceDates(event, startDate, endDate).map(date => createOccurrence(event, date));
+  });
+}
+
+/**
+ * Describe a recurrence rule in plain English
+ * @param rule - The recurrence rule
+ * @returns Text such as "Every weekday" or "Every 2 weeks on Mon, Thu, until 2026-12-01"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      description = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'weekdays':
+      description = 'Every weekday';
+      break;
+    case 'weekly': {
+      const days = (rule.daysOfWeek || []).slice().sort().map(day => DAY_NAMES[day]).join(', ');
+      description = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+      if (days) description += ` on ${days}`;
+      break;
+    }
+    default:
+      description = 'Repeats';
+  }
+
+  if (rule.until) {
+    description += `, until ${rule.until}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+
+  return description;
+}
+
+/**
+ * Turn one occurrence into a standalone, non-repeating event
+ * @param event - The series event
+ * @param date - Date of the occurrence
+ * @returns A copy of the event on that date without any recurrence fields
+ *
+ * The caller is responsible for giving the copy a new ID.
+ */
+export function detachOccurrence(event: PlanEvent, date: string): PlanEvent {
+  const detached: PlanEvent = { ...event, date };
+  delete detached.recurrence;
+  delete detached.recurrenceExceptions;
+  delete detached.seriesId;
+  return detached;
+}
+
+/**
+ * Remove a single date from a series
+ * @param event - The series event
+ * @param date - Date of the occurrence to remove
+ * @returns The series with the date added to its exceptions
+ */
+export function excludeOccurrence(event: PlanEvent, date: string): PlanEvent {
+  const exceptions = event.recurrenceExceptions || [];
+  return {
+    ...event,
+    recurrenceExceptions: exceptions.includes(date) ? exceptions : [...exceptions, date]
+  };
+}
+
+/**
+ * End a series the day before a date
+ * @param event - The series event
+ * @param date - First date that should no longer be part of the series
+ * @returns The shortened series
+ */
+export function endSeriesBefore(event: PlanEvent, date: string): PlanEvent {
+  if (!event.recurrence) return event;
+
+  const dayBefore = addDays(date, -1);
+  const until = event.recurrence.until && event.recurrence.until < dayBefore ? event.recurrence.until : dayBefore;
+
+  return {
+    ...event,
+    recurrence: { ...event.recurrence, until },
+    recurrenceExceptions: (event.recurrenceExceptions || []).filter(exception => exception < date)
+  };
+}
+
+/**
+ * Build the part of a series that starts at a date
+ * @param event - The series event
+ * @param date - First occurrence of the new series
+ * @returns A series with the same rule starting at the date
+ *
+ * If the original rule was limited by `count`, the new series only gets the
+ * occurrences that were left. The caller is responsible for giving it a new ID.
+ */
+export function startSeriesFrom(event: PlanEvent, date: string): PlanEvent {
+  if (!event.recurrence) return { ...event, date };
+
+  const recurrence: RecurrenceRule = { ...event.recurrence };
+  if (recurrence.count) {
+    recurrence.count = Math.max(1, recurrence.count - countOccurrencesBefore(event, date));
+  }
+
+  const series: PlanEvent = {
+    ...event,
+    date,
+    recurrence,
+    recurrenceExceptions: (event.recurrenceExceptions || []).filter(exception => exception >= date)
+  };
+  delete series.seriesId;
+  return series;
+}
@@ -0,0 +1,64 @@
+// Servings - Works out how many portions to cook for planned meals
+// Recipes are written for a number of servings; the household size, or a per-meal override,
+// decides how many portions are cooked and ingredient amounts scale with it.
+// Nutrition is stored per serving and scaled by the servings each person eats when totaled.
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+import type { ExtendedIngredient } from '../types/recipeTypes';
+import { roundAmount } from './unitConverter';
+
+// Largest household size that can be chosen
+export const MAX_HOUSEHOLD_SIZE = 12;
+
+/**
+ * Make sure a stored household size is a whole number in range
+ * @param size - Value loaded from storage, which may be missing
+ * @returns The household size, or null to cook recipes as written
+ */
+export const normalizeHouseholdSize = (size: number | null | undefined): number | null => {
+  return typeof size === 'number' && size >= 1 ? Math.min(Math.round(size), MAX_HOUSEHOLD_SIZE) : null;
+};
+
+/**
+ * Get how many portions to cook for a planned meal
+ * @param event - The planned meal
+ * @param householdSize - The user's household size, or null to cook recipes as written
+ * @returns The meal's own portions if set, else the household size, else the recipe's servings
+ */
+export const getMealPortions = (event: Pick<PlanEvent, 'portions' | 'servings'>, householdSize: number | null): number => {
+  return event.portions || householdSize || event.servings || 1;
+};
+
+/**
+ * Get how many servings each person eats of a planned meal, for totaling its nutrition
+ * @param event - The planned meal
+ * @param householdSize - The user's household size, or null when it isn't set (one person eats)
+ * @returns 1 when the meal is planned for the household, more when extra portions are planned
+ *
+ * Spare portions of a batch-cooked meal are eaten later as leftover meals, so they only
+ * count there and not on the day the meal is cooked.
+ */
+export const getServingsPerPerson = (event: Pick<PlanEvent, 'portions' | 'makesLeftovers'>, householdSize: number | null): number => {
+  const people = householdSize || 1;
+  const portions = event.portions || people;
+  return (event.makesLeftovers ? Math.min(portions, people) : portions) / people;
+};
+
+/**
+ * Work out how much to scale a recipe's ingredients
+ * @param portions - Portions being cooked
+ * @param baseServings - Servings the recipe is written for
+ * @returns Multiplier for the recipe's ingredient amounts
+ */
+export const getServingScale = (portions: number, baseServings: number | undefined): number => {
+  return baseServings ? portions / baseServings : 1;
+};
+
+/**
+ * Describe an ingredient scaled to the portions being cooked, e.g. "3 cups flour"
+ * The recipe's own wording is kept when nothing is scaled or the amount is unknown
+ */
+export const formatScaledIngredient = (ingredient: Pick<ExtendedIngredient, 'amount' | 'unit' | 'name' | 'original'>, scale: number): string => {
+  if (scale === 1 || !ingredient.amount) return ingredient.original;
+  return `${roundAmount(ingredient.amount * scale)} ${ingredient.unit || ''} ${ingredient.name}`.replace(/\s+/g, ' ').trim();
+};
@@ -0,0 +1,77 @@
+// Trash - Retention rules and sorting for meals in trash
+// Trashed meals are deleted automatically once they've been in trash longer than
+// the user's retention window, so the trash doesn't grow forever
+
+import type { PlanEvent } from '../context/PlanContextTypes';
+
+// Days meals stay in trash until the user picks another window
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Retention windows the user can choose from, in days
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 90];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Ways the trash list can be sorted
+export type TrashSortOrder = 'recentlyTrashed' | 'expiringSoon' | 'mealDate' | 'mealType';
+
+/**
+ * Make sure a stored retention window is a whole number of days
+ * @param days - Value loaded from storage, which may be missing
+ */
+export const normalizeTrashRetentionDays = (days: number | null | undefined): number => {
+  return typeof days === 'number' && days > 0 ? Math.round(days) : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+/**
+ * Get when a trashed meal will be deleted (ms timestamp)
+ * Meals without a trashedAt time count as trashed just now, so they are never purged early
+ */
+export const getTrashExpiry = (event: Pick<PlanEvent, 'trashedAt'>, retentionDays: number, now = Date.now()): number => {
+  return (event.trashedAt ?? now) + retentionDays * DAY_MS;
+};
+
+/**
+ * Check whether a trashed meal has been in trash longer than the retention window
+ */
+export const isTrashExpired = (event: Pick<PlanEvent, 'trashedAt'>, retentionDays: number, now = Date.now()): boolean => {
+  return getTrashExpiry(event, retentionDays, now) <= now;
+};
+
+/**
+ * Describe how long until a trashed meal is deleted, e.g. "Deleted in 3 days"
+ */
+export const formatTimeUntilPurge = (event: Pick<PlanEvent, 'trashedAt'>, retentionDays: number, now = Date.now()): string => {
+  const remaining = getTrashExpiry(event, retentionDays, now) - now;
+  if (remaining <= 0) return 'Deleted soon';
+
+  const days = Math.floor(remaining / DAY_MS);
+  if (days >= 1) return `Deleted in ${days} day${days === 1 ? '' : 's'}`;
+
+  const hours = Math.max(1, Math.ceil(remaining / HOUR_MS));
+  return `Deleted in ${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+/**
+ * Sort trashed meals for the trash list
+ * @param events - Meals in trash
+ * @param order - How to sort them
+ * @returns A sorted copy; meals trashed together keep their order
+ */
+export const sortTrashedEvents = (events: PlanEvent[], order: TrashSortOrder): PlanEvent[] => {
+  const trashedAt = (event: PlanEvent) => event.trashedAt ?? 0;
+
+  return [...events].sort((a, b) => {
+    switch (order) {
+      case 'recentlyTrashed':
+        return trashedAt(b) - trashedAt(a);
+      case 'expiringSoon':
+        return trashedAt(a) - trashedAt(b);
+      case 'mealDate':
+        return a.date.localeCompare(b.date);
+      case 'mealType':
+        return a.mealType.localeCompare(b.mealType) || a.date.localeCompare(b.date);
+    }
+  });
+};
@@ -0,0 +1,127 @@
+// Unit Converter - Normalizes ingredient units so amounts can be added together
+// Recipes use many spellings for the same unit ("tbsp", "Tbsps", "tablespoon")
+// This file maps them to a small set of unit families with a common base unit
+
+/**
+ * Unit family - groups units that can be converted into each other
+ * mass is measured in grams, volume in milliliters and count in pieces
+ */
+export type UnitFamily = 'mass' | 'volume' | 'count' | 'other';
+
+/**
+ * Normalized unit - describes how to convert an amount into its base unit
+ */
+export interface NormalizedUnit {
+  family: UnitFamily;   // Which family the unit belongs to
+  baseUnit: string;     // Base unit of the family (g, ml, piece) or the cleaned unit for "other"
+  factor: number;       // Multiply an amount by this to convert it into the base unit
+}
+
+// Mass units converted to grams
+const MASS_UNITS: Record<string, number> = {
+  g: 1, gram: 1, grams: 1, gr: 1,
+  kg: 1000, kilogram: 1000, kilograms: 1000,
+  mg: 0.001,
+  oz: 28.35, ounce: 28.35, ounces: 28.35,
+  lb: 453.6, lbs: 453.6, pound: 453.6, pounds: 453.6
+};
+
+// Volume units converted to milliliters
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1, milliliter: 1, milliliters: 1, millilitre: 1, millilitres: 1,
+  l: 1000, liter: 1000, liters: 1000, litre: 1000, litres: 1000,
+  tsp: 4.93, tsps: 4.93, teaspoon: 4.93, teaspoons: 4.93, t: 4.93,
+  tbsp: 14.79, tbsps: 14.79, tablespoon: 14.79, tablespoons: 14.79, tbs: 14.79,
+  cup: 236.6, cups: 236.6, c: 236.6,
+  'fl oz': 29.57, 'fluid ounce': 29.57, 'fluid ounces': 29.57,
+  pint: 473.2, pints: 473.2, quart: 946.4, quarts: 946.4
+};
+
+// Units that simply count whole items
+const COUNT_UNITS = new Set([
+  '', 'piece', 'pieces', 'pc', 'pcs', 'whole', 'large', 'medium', 'small', 'serving', 'servings'
+]);
+
+/**
+ * Normalize a unit string into its family and conversion factor
+ * @param unit - The unit as written in the recipe (e.g. "Tbsps", "g", "")
+ * @returns The normalized unit description
+ *
+ * Units that are not mass, volume or a plain count (like "cloves" or "cans")
+ * are kept in the "other" family, keyed by their singular spelling, so that
+ * "2 cloves" and "1 clove" still add up but never mix with grams.
+ */
+export function normalizeUnit(unit: string | undefined | null): NormalizedUnit {
+  const cleaned = (unit || '').trim().toLowerCase().replace(/\.$/, '');
+
+  if (cleaned in MASS_UNITS) {
+    return { family: 'mass', baseUnit: 'g', factor: MASS_UNITS[cleaned] };
+  }
+  if (cleaned in VOLUME_UNITS) {
+    return { family: 'volume', baseUnit: 'ml', factor: VOLUME_UNITS[cleaned] };
+  }
+  if (COUNT_UNITS.has(cleaned)) {
+    return { family: 'count', baseUnit: 'piece', factor: 1 };
+  }
+
+  // Strip a trailing "s" so singular and plural spellings merge
+  const singular = cleaned.length > 3 && cleaned.endsWith('s') ? cleaned.slice(0, -1) : cleaned;
+  return { family: 'other', baseUnit: singular, factor: 1 };
+}
+
+/**
+ * Convert an amount into the base unit of its family
+ * @param amount - The amount in the original unit
+ * @param unit - The original unit
+ * @returns The amount and unit expressed in the family's base unit
+ */
+export function toBaseUnit(amount: number, unit: string | undefined | null): { amount: number; unit: string; family: UnitFamily } {
+  const normalized = normalizeUnit(unit);
+  return {
+    amount: amount * normalized.factor,
+    unit: normalized.baseUnit,
+    family: normalized.family
+  };
+}
+
+/**
+ * Check whether two units can be added together
+ * @param unitA - First unit
+ * @param unitB - Second unit
+ * @returns True if both units belong to the same family and base unit
+ */
+export function areUnitsCompatible(unitA: string | undefined | null, unitB: string | undefined | null): boolean {
+  const a = normalizeUnit(unitA);
+  const b = normalizeUnit(unitB);
+  return a.family === b.family && a.baseUnit === b.baseUnit;
+}
+
+/**
+ * Round an amount to a friendly number of decimals for display
+ * @param amount - The amount to round
+ * @returns The rounded amount
+ */
+export function roundAmount(amount: number): number {
+  if (amount >= 100) return Math.round(amount);
+  if (amount >= 10) return Math.round(amount * 10) / 10;
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Format a base-unit amount for display, switching to larger units when it reads better
+ * @param amount - Amount in the base unit
+ * @param unit - The base unit (g, ml, piece or an "other" unit)
+ * @returns Human readable amount such as "1.5 kg", "250 ml" or "3"
+ */
+export function formatAmount(amount: number, unit: string): string {
+  if (unit === 'g' && amount >= 1000) {
+    return `${roundAmount(amount / 1000)} kg`;
+  }
+  if (unit === 'ml' && amount >= 1000) {
+    return `${roundAmount(amount / 1000)} l`;
+  }
+  if (unit === 'piece') {
+    return `${roundAmount(amount)}`;
+  }
+  return `${roundAmount(amount)} ${unit}`.trim();
+}